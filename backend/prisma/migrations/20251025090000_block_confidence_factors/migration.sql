@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "time_blocks" ADD COLUMN "confidenceFactors" JSONB;
+
+-- CreateIndex
+CREATE INDEX "time_blocks_confidence_idx" ON "time_blocks"("confidence");
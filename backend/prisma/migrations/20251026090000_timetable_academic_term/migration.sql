@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "timetables" ADD COLUMN "academicYear" TEXT,
+ADD COLUMN "semester" TEXT;
+
+-- CreateIndex
+CREATE INDEX "timetables_teacherId_academicYear_semester_idx" ON "timetables"("teacherId", "academicYear", "semester");
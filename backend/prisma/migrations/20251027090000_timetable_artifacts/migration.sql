@@ -0,0 +1,23 @@
+-- CreateEnum
+CREATE TYPE "ArtifactKind" AS ENUM ('OCR_TEXT', 'OCR_READINGS', 'PAGE_IMAGE', 'LLM_OUTPUT');
+
+-- CreateTable
+CREATE TABLE "timetable_artifacts" (
+    "id" TEXT NOT NULL,
+    "timetableId" TEXT NOT NULL,
+    "kind" "ArtifactKind" NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "storagePath" TEXT NOT NULL,
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "timetable_artifacts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "timetable_artifacts_timetableId_idx" ON "timetable_artifacts"("timetableId");
+
+-- AddForeignKey
+ALTER TABLE "timetable_artifacts" ADD CONSTRAINT "timetable_artifacts_timetableId_fkey" FOREIGN KEY ("timetableId") REFERENCES "timetables"("id") ON DELETE CASCADE ON UPDATE CASCADE;
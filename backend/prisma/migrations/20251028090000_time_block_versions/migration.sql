@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "timetables" ADD COLUMN     "currentVersion" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "time_blocks" ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "supersededAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "time_blocks_timetableId_version_idx" ON "time_blocks"("timetableId", "version");
+
+-- Existing extractions become version 1
+UPDATE "timetables" SET "currentVersion" = 1
+WHERE EXISTS (SELECT 1 FROM "time_blocks" WHERE "time_blocks"."timetableId" = "timetables"."id");
+
+-- AlterTable
+ALTER TABLE "timetable_artifacts" ADD COLUMN "run" TEXT;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "timetables" ADD COLUMN     "pageFiles" JSONB;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "timetables" ADD COLUMN     "cycleLength" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "time_blocks" ADD COLUMN     "weekIndex" INTEGER NOT NULL DEFAULT 1;
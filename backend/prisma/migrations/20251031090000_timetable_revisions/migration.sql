@@ -0,0 +1,47 @@
+-- AlterTable
+ALTER TABLE "timetables" ADD COLUMN     "revision" INTEGER,
+ADD COLUMN     "isCurrent" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "previousRevisionId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "timetables_teacherId_isCurrent_idx" ON "timetables"("teacherId", "isCurrent");
+
+-- AddForeignKey
+ALTER TABLE "timetables" ADD CONSTRAINT "timetables_previousRevisionId_fkey" FOREIGN KEY ("previousRevisionId") REFERENCES "timetables"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Number existing completed uploads per teacher and term in upload order
+WITH ordered AS (
+  SELECT
+    "id",
+    ROW_NUMBER() OVER w AS "revision",
+    LAG("id") OVER w AS "previousRevisionId",
+    LEAD("id") OVER w IS NULL AS "isCurrent"
+  FROM "timetables"
+  WHERE "processingStatus" = 'COMPLETED'
+  WINDOW w AS (PARTITION BY "teacherId", "academicYear", "semester" ORDER BY "uploadedAt")
+)
+UPDATE "timetables" t
+SET "revision" = ordered."revision",
+    "previousRevisionId" = ordered."previousRevisionId",
+    "isCurrent" = ordered."isCurrent"
+FROM ordered
+WHERE t."id" = ordered."id";
+
+-- One timetable per revision number and one current timetable per teacher's term.
+-- Exclusion constraints rather than unique indexes: a missing year or semester
+-- is one term (unique indexes treat NULLs as distinct), and the check is
+-- deferred to commit so chains can be renumbered row by row in a transaction.
+ALTER TABLE "timetables" ADD CONSTRAINT "timetables_term_revision_key"
+  EXCLUDE USING btree (
+    "teacherId" WITH =,
+    (COALESCE("academicYear", '')) WITH =,
+    (COALESCE("semester", '')) WITH =,
+    "revision" WITH =
+  ) WHERE ("revision" IS NOT NULL) DEFERRABLE INITIALLY DEFERRED;
+
+ALTER TABLE "timetables" ADD CONSTRAINT "timetables_term_current_key"
+  EXCLUDE USING btree (
+    "teacherId" WITH =,
+    (COALESCE("academicYear", '')) WITH =,
+    (COALESCE("semester", '')) WITH =
+  ) WHERE ("isCurrent") DEFERRABLE INITIALLY DEFERRED;
@@ -0,0 +1,94 @@
+-- CreateEnum
+CREATE TYPE "ReviewKind" AS ENUM ('UNMATCHED_SUBJECT', 'UNMATCHED_ROOM', 'UNMATCHED_CLASS_GROUP');
+
+-- CreateEnum
+CREATE TYPE "ReviewStatus" AS ENUM ('OPEN', 'RESOLVED', 'DISMISSED');
+
+-- AlterTable
+ALTER TABLE "time_blocks" ADD COLUMN     "classGroupId" TEXT,
+ADD COLUMN     "roomId" TEXT,
+ADD COLUMN     "subjectId" TEXT;
+
+-- CreateTable
+CREATE TABLE "subjects" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "aliases" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "subjects_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "rooms" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "aliases" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "rooms_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "class_groups" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "aliases" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "class_groups_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "review_items" (
+    "id" TEXT NOT NULL,
+    "kind" "ReviewKind" NOT NULL,
+    "status" "ReviewStatus" NOT NULL DEFAULT 'OPEN',
+    "value" TEXT NOT NULL,
+    "timetableId" TEXT,
+    "details" JSONB,
+    "resolution" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolvedAt" TIMESTAMP(3),
+
+    CONSTRAINT "review_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "subjects_name_key" ON "subjects"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "rooms_name_key" ON "rooms"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "class_groups_name_key" ON "class_groups"("name");
+
+-- CreateIndex
+CREATE INDEX "review_items_status_kind_idx" ON "review_items"("status", "kind");
+
+-- CreateIndex
+CREATE INDEX "review_items_timetableId_idx" ON "review_items"("timetableId");
+
+-- CreateIndex
+CREATE INDEX "time_blocks_subjectId_idx" ON "time_blocks"("subjectId");
+
+-- CreateIndex
+CREATE INDEX "time_blocks_roomId_idx" ON "time_blocks"("roomId");
+
+-- CreateIndex
+CREATE INDEX "time_blocks_classGroupId_idx" ON "time_blocks"("classGroupId");
+
+-- AddForeignKey
+ALTER TABLE "time_blocks" ADD CONSTRAINT "time_blocks_subjectId_fkey" FOREIGN KEY ("subjectId") REFERENCES "subjects"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "time_blocks" ADD CONSTRAINT "time_blocks_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "rooms"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "time_blocks" ADD CONSTRAINT "time_blocks_classGroupId_fkey" FOREIGN KEY ("classGroupId") REFERENCES "class_groups"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "review_items" ADD CONSTRAINT "review_items_timetableId_fkey" FOREIGN KEY ("timetableId") REFERENCES "timetables"("id") ON DELETE CASCADE ON UPDATE CASCADE;
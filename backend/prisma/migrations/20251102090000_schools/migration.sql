@@ -0,0 +1,94 @@
+-- CreateTable
+CREATE TABLE "schools" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "apiKeyHash" TEXT,
+    "ocrProviderChain" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "bellSchedule" JSONB,
+    "workingDays" "DayOfWeek"[] DEFAULT ARRAY['MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY']::"DayOfWeek"[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "schools_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "schools_slug_key" ON "schools"("slug");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "schools_apiKeyHash_key" ON "schools"("apiKeyHash");
+
+-- Seed the default school that existing data belongs to; it has no API key
+-- (X-School-Key) until an admin issues one
+INSERT INTO "schools" ("id", "name", "slug", "updatedAt")
+VALUES ('00000000-0000-4000-8000-000000000001', 'Default School', 'default', CURRENT_TIMESTAMP);
+
+-- AlterTable
+ALTER TABLE "teachers" ADD COLUMN "schoolId" TEXT;
+ALTER TABLE "timetables" ADD COLUMN "schoolId" TEXT;
+ALTER TABLE "subjects" ADD COLUMN "schoolId" TEXT;
+ALTER TABLE "rooms" ADD COLUMN "schoolId" TEXT;
+ALTER TABLE "class_groups" ADD COLUMN "schoolId" TEXT;
+ALTER TABLE "review_items" ADD COLUMN "schoolId" TEXT;
+
+-- Backfill: everything created before tenancy belongs to the default school
+UPDATE "teachers" SET "schoolId" = '00000000-0000-4000-8000-000000000001';
+UPDATE "timetables" SET "schoolId" = '00000000-0000-4000-8000-000000000001';
+UPDATE "subjects" SET "schoolId" = '00000000-0000-4000-8000-000000000001';
+UPDATE "rooms" SET "schoolId" = '00000000-0000-4000-8000-000000000001';
+UPDATE "class_groups" SET "schoolId" = '00000000-0000-4000-8000-000000000001';
+UPDATE "review_items" SET "schoolId" = '00000000-0000-4000-8000-000000000001';
+
+ALTER TABLE "teachers" ALTER COLUMN "schoolId" SET NOT NULL;
+ALTER TABLE "timetables" ALTER COLUMN "schoolId" SET NOT NULL;
+ALTER TABLE "subjects" ALTER COLUMN "schoolId" SET NOT NULL;
+ALTER TABLE "rooms" ALTER COLUMN "schoolId" SET NOT NULL;
+ALTER TABLE "class_groups" ALTER COLUMN "schoolId" SET NOT NULL;
+ALTER TABLE "review_items" ALTER COLUMN "schoolId" SET NOT NULL;
+
+-- DropIndex
+DROP INDEX "teachers_email_key";
+DROP INDEX "subjects_name_key";
+DROP INDEX "rooms_name_key";
+DROP INDEX "class_groups_name_key";
+DROP INDEX "review_items_status_kind_idx";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "teachers_schoolId_email_key" ON "teachers"("schoolId", "email");
+
+-- CreateIndex
+CREATE INDEX "teachers_schoolId_name_idx" ON "teachers"("schoolId", "name");
+
+-- CreateIndex
+CREATE INDEX "timetables_schoolId_idx" ON "timetables"("schoolId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "subjects_schoolId_name_key" ON "subjects"("schoolId", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "rooms_schoolId_name_key" ON "rooms"("schoolId", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "class_groups_schoolId_name_key" ON "class_groups"("schoolId", "name");
+
+-- CreateIndex
+CREATE INDEX "review_items_schoolId_status_kind_idx" ON "review_items"("schoolId", "status", "kind");
+
+-- AddForeignKey
+ALTER TABLE "teachers" ADD CONSTRAINT "teachers_schoolId_fkey" FOREIGN KEY ("schoolId") REFERENCES "schools"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "timetables" ADD CONSTRAINT "timetables_schoolId_fkey" FOREIGN KEY ("schoolId") REFERENCES "schools"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "subjects" ADD CONSTRAINT "subjects_schoolId_fkey" FOREIGN KEY ("schoolId") REFERENCES "schools"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rooms" ADD CONSTRAINT "rooms_schoolId_fkey" FOREIGN KEY ("schoolId") REFERENCES "schools"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "class_groups" ADD CONSTRAINT "class_groups_schoolId_fkey" FOREIGN KEY ("schoolId") REFERENCES "schools"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "review_items" ADD CONSTRAINT "review_items_schoolId_fkey" FOREIGN KEY ("schoolId") REFERENCES "schools"("id") ON DELETE CASCADE ON UPDATE CASCADE;
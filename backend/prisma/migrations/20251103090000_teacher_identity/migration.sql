@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "ReviewKind" ADD VALUE 'TEACHER_NAME_CONFLICT';
+
+-- AlterTable
+ALTER TABLE "teachers" ADD COLUMN "aliases" TEXT[] DEFAULT ARRAY[]::TEXT[];
@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "TimeBlockEditSource" AS ENUM ('MANUAL', 'REVERT');
+
+-- AlterTable
+ALTER TABLE "time_blocks" ADD COLUMN "humanEditedFields" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "extractedValues" JSONB,
+ADD COLUMN "previousBlockId" TEXT;
+
+-- CreateTable
+CREATE TABLE "time_block_edits" (
+    "id" TEXT NOT NULL,
+    "timeBlockId" TEXT NOT NULL,
+    "timetableId" TEXT NOT NULL,
+    "field" TEXT NOT NULL,
+    "oldValue" TEXT,
+    "newValue" TEXT,
+    "source" "TimeBlockEditSource" NOT NULL DEFAULT 'MANUAL',
+    "actor" TEXT,
+    "revertOfId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "time_block_edits_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "time_block_edits_timeBlockId_createdAt_idx" ON "time_block_edits"("timeBlockId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "time_block_edits_revertOfId_idx" ON "time_block_edits"("revertOfId");
+
+-- AddForeignKey
+ALTER TABLE "time_block_edits" ADD CONSTRAINT "time_block_edits_timeBlockId_fkey" FOREIGN KEY ("timeBlockId") REFERENCES "time_blocks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
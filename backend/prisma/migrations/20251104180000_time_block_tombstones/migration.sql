@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "time_blocks" ADD COLUMN "deletedAt" TIMESTAMP(3);
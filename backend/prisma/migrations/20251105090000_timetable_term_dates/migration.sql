@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "timetables" ADD COLUMN "termStartDate" DATE,
+ADD COLUMN "termEndDate" DATE;
@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "CalendarFeedScope" AS ENUM ('TEACHER', 'ROOM', 'CLASS_GROUP');
+
+-- CreateTable
+CREATE TABLE "calendar_feeds" (
+    "id" TEXT NOT NULL,
+    "schoolId" TEXT NOT NULL,
+    "scope" "CalendarFeedScope" NOT NULL,
+    "targetId" TEXT NOT NULL,
+    "name" TEXT,
+    "tokenHash" TEXT NOT NULL,
+    "includeBreaks" BOOLEAN NOT NULL DEFAULT true,
+    "etag" TEXT,
+    "contentChangedAt" TIMESTAMP(3),
+    "lastAccessedAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "calendar_feeds_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "calendar_feeds_tokenHash_key" ON "calendar_feeds"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "calendar_feeds_schoolId_scope_targetId_idx" ON "calendar_feeds"("schoolId", "scope", "targetId");
+
+-- AddForeignKey
+ALTER TABLE "calendar_feeds" ADD CONSTRAINT "calendar_feeds_schoolId_fkey" FOREIGN KEY ("schoolId") REFERENCES "schools"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "upload_batches" (
+    "id" TEXT NOT NULL,
+    "schoolId" TEXT NOT NULL,
+    "originalFileName" TEXT NOT NULL,
+    "totalFiles" INTEGER NOT NULL,
+    "entries" JSONB NOT NULL DEFAULT '[]',
+    "flowJobId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "upload_batches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "upload_batches_schoolId_createdAt_idx" ON "upload_batches"("schoolId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "upload_batches" ADD CONSTRAINT "upload_batches_schoolId_fkey" FOREIGN KEY ("schoolId") REFERENCES "schools"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,52 @@
+-- CreateEnum
+CREATE TYPE "IngestionSource" AS ENUM ('FOLDER', 'MAILDIR', 'IMAP');
+
+-- CreateEnum
+CREATE TYPE "IngestionStatus" AS ENUM ('QUEUED', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE "ingestion_senders" (
+    "id" TEXT NOT NULL,
+    "schoolId" TEXT NOT NULL,
+    "address" TEXT NOT NULL,
+    "teacherId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ingestion_senders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ingestion_records" (
+    "id" TEXT NOT NULL,
+    "schoolId" TEXT NOT NULL,
+    "source" "IngestionSource" NOT NULL,
+    "status" "IngestionStatus" NOT NULL,
+    "reference" TEXT NOT NULL,
+    "sender" TEXT,
+    "subject" TEXT,
+    "fileName" TEXT NOT NULL,
+    "reason" TEXT,
+    "timetableId" TEXT,
+    "jobId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ingestion_records_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ingestion_senders_schoolId_address_key" ON "ingestion_senders"("schoolId", "address");
+
+-- CreateIndex
+CREATE INDEX "ingestion_senders_address_idx" ON "ingestion_senders"("address");
+
+-- CreateIndex
+CREATE INDEX "ingestion_records_schoolId_createdAt_idx" ON "ingestion_records"("schoolId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ingestion_senders" ADD CONSTRAINT "ingestion_senders_schoolId_fkey" FOREIGN KEY ("schoolId") REFERENCES "schools"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ingestion_senders" ADD CONSTRAINT "ingestion_senders_teacherId_fkey" FOREIGN KEY ("teacherId") REFERENCES "teachers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ingestion_records" ADD CONSTRAINT "ingestion_records_schoolId_fkey" FOREIGN KEY ("schoolId") REFERENCES "schools"("id") ON DELETE CASCADE ON UPDATE CASCADE;
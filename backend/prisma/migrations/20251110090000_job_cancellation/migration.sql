@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "ProcessingStatus" ADD VALUE 'CANCELLED';
+
+-- AlterTable
+ALTER TABLE "timetables" ADD COLUMN "jobId" TEXT;
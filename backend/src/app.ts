@@ -44,8 +44,16 @@ import morgan from 'morgan';
 import swaggerUi from 'swagger-ui-express';
 import { config } from './config/env';
 import { swaggerSpec } from './docs/swagger.config';
-import uploadRoutes from './routes/upload.routes';
+import uploadRoutes, { queueRouter } from './routes/upload.routes';
 import timetableRoutes from './routes/timetable.routes';
+import catalogRoutes from './routes/catalog.routes';
+import reviewRoutes from './routes/review.routes';
+import schoolRoutes from './routes/school.routes';
+import teacherRoutes from './routes/teacher.routes';
+import feedRoutes, { publicFeedRouter } from './routes/feed.routes';
+import webhookRoutes from './routes/webhook.routes';
+import ingestionRoutes from './routes/ingestion.routes';
+import { resolveSchool } from './middleware/tenant';
 
 // Create Express app
 const app: Application = express();
@@ -55,7 +63,7 @@ app.use(cors({
   origin: config.env.CORS_ORIGIN || 'http://localhost:3000',
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-School-Key', 'X-Actor', 'X-Admin-Key'],
   exposedHeaders: ['Content-Range', 'X-Content-Range'],
   maxAge: 86400, // 24 hours
   preflightContinue: false,
@@ -130,17 +138,42 @@ app.get('/api', (_req: Request, res: Response) => {
       apiDocs: '/api-docs',
       upload: '/api/upload',
       uploadStatus: '/api/upload/status/:jobId',
+      uploadBatch: '/api/upload/batch',
+      cancelJob: 'DELETE /api/upload/jobs/:jobId',
+      queue: '/api/upload/queue (pause and resume need X-Admin-Key)',
       timetables: '/api/v1/timetables',
       timetableById: '/api/v1/timetables/:id',
       updateTimeBlock: '/api/v1/timetables/:timetableId/blocks/:blockId',
       deleteTimetable: '/api/v1/timetables/:id',
+      catalog: '/api/v1/catalog/:catalog (subjects, rooms, class-groups)',
+      reviews: '/api/v1/reviews',
+      schools: '/api/v1/schools',
+      teachers: '/api/v1/teachers',
+      feeds: '/api/v1/feeds',
+      calendarFeed: '/api/feeds/:token.ics (no X-School-Key needed)',
+      webhooks: '/api/v1/webhooks',
+      ingestion: '/api/v1/ingestion',
     },
+    schoolHeader: 'X-School-Key (the API key issued to the school; required)',
   });
 });
 
-// Mount routes
-app.use('/api/upload', uploadRoutes);
-app.use('/api/v1/timetables', timetableRoutes);
+// Deployment-wide administration (X-Admin-Key, no school)
+app.use('/api/upload/queue', queueRouter);
+
+// Mount routes (each request is scoped to the school whose key is in X-School-Key)
+app.use('/api/upload', resolveSchool, uploadRoutes);
+app.use('/api/v1/timetables', resolveSchool, timetableRoutes);
+app.use('/api/v1/catalog', resolveSchool, catalogRoutes);
+app.use('/api/v1/reviews', resolveSchool, reviewRoutes);
+app.use('/api/v1/schools', schoolRoutes); // Admin routes need no school, the rest resolve it
+app.use('/api/v1/teachers', resolveSchool, teacherRoutes);
+app.use('/api/v1/feeds', resolveSchool, feedRoutes);
+app.use('/api/v1/webhooks', resolveSchool, webhookRoutes);
+app.use('/api/v1/ingestion', resolveSchool, ingestionRoutes);
+
+// Calendar feeds are opened by their token, which also identifies the school
+app.use('/api/feeds', publicFeedRouter);
 
 // 404 handler
 app.use((req: Request, res: Response) => {
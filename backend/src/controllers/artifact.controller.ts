@@ -0,0 +1,134 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import fs from 'fs/promises';
+import { logInfo, logError } from '../utils/logger';
+import { prisma } from '../services/database.service';
+import { getArtifact, listArtifacts, resolveArtifactPath } from '../services/artifact.service';
+import { requestSchool } from '../middleware/tenant';
+
+/**
+ * Artifact Controller
+ * Lists and serves the extraction artifacts stored for a timetable
+ */
+
+/**
+ * List artifacts of a timetable
+ * GET /api/v1/timetables/:id/artifacts
+ */
+export async function listTimetableArtifacts(
+  req: Request<{ id: string }>,
+  res: Response,
+  next: NextFunction
+) {
+  try {
+    const { id } = req.params;
+
+    logInfo(`Listing artifacts for timetable: ${id}`);
+
+    const timetable = await prisma.timetable.findFirst({
+      where: { id, schoolId: requestSchool(req).id },
+      select: { id: true },
+    });
+    if (!timetable) {
+      return res.status(404).json({
+        success: false,
+        error: 'Timetable not found',
+      });
+    }
+
+    const artifacts = await listArtifacts(id);
+
+    return res.json({
+      success: true,
+      data: artifacts.map((artifact) => ({
+        id: artifact.id,
+        kind: artifact.kind,
+        fileName: artifact.fileName,
+        mimeType: artifact.mimeType,
+        size: artifact.size,
+        run: artifact.run,
+        metadata: artifact.metadata,
+        createdAt: artifact.createdAt,
+        downloadUrl: `/api/v1/timetables/${id}/artifacts/${artifact.id}`,
+      })),
+    });
+  } catch (error) {
+    logError('Error listing artifacts', error);
+    return next(error);
+  }
+}
+
+/**
+ * Download a single artifact
+ * GET /api/v1/timetables/:id/artifacts/:artifactId
+ */
+export async function downloadTimetableArtifact(
+  req: Request<{ id: string; artifactId: string }>,
+  res: Response,
+  next: NextFunction
+) {
+  try {
+    const { id, artifactId } = req.params;
+
+    const artifact = await getArtifact(id, artifactId, requestSchool(req).id);
+    if (!artifact) {
+      return res.status(404).json({
+        success: false,
+        error: 'Artifact not found',
+      });
+    }
+
+    const absolutePath = resolveArtifactPath(artifact.storagePath);
+    try {
+      await fs.access(absolutePath);
+    } catch {
+      return res.status(404).json({
+        success: false,
+        error: 'Artifact file is no longer available',
+      });
+    }
+
+    res.type(artifact.mimeType);
+    return res.download(absolutePath, artifact.fileName);
+  } catch (error) {
+    logError('Error downloading artifact', error);
+    return next(error);
+  }
+}
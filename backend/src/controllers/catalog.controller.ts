@@ -0,0 +1,260 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { logInfo, logError } from '../utils/logger';
+import {
+  CatalogConflictError,
+  createCatalogEntry,
+  deleteCatalogEntry,
+  getCatalogEntry,
+  listCatalogEntries,
+  updateCatalogEntry,
+  type CatalogKind,
+} from '../services/catalog.service';
+import { requestSchool } from '../middleware/tenant';
+
+/**
+ * Catalog Controller
+ * CRUD for the subject, room and class group catalogs of the requesting school
+ * (/api/v1/catalog/subjects, /rooms, /class-groups)
+ */
+
+const CATALOG_PATHS: Record<string, CatalogKind> = {
+  subjects: 'subject',
+  rooms: 'room',
+  'class-groups': 'classGroup',
+};
+
+const CatalogEntrySchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  aliases: z.array(z.string().trim().min(1).max(200)).max(100).optional(),
+});
+
+const CatalogEntryUpdateSchema = CatalogEntrySchema.partial();
+
+type CatalogParams = { catalog: string; id?: string };
+
+/**
+ * Resolve the catalog named in the path, answering 404 for unknown ones
+ */
+function resolveCatalog(req: Request<CatalogParams>, res: Response): CatalogKind | undefined {
+  const kind = CATALOG_PATHS[req.params.catalog];
+  if (!kind) {
+    res.status(404).json({
+      success: false,
+      error: `Unknown catalog (available: ${Object.keys(CATALOG_PATHS).join(', ')})`,
+    });
+  }
+  return kind;
+}
+
+function conflictResponse(res: Response, error: CatalogConflictError) {
+  return res.status(409).json({
+    success: false,
+    error: error.message,
+    details: { value: error.value, existingEntry: error.existingEntry },
+  });
+}
+
+function toResponse(entry: {
+  id: string;
+  name: string;
+  aliases: string[];
+  createdAt: Date;
+  updatedAt: Date;
+  _count?: { timeBlocks: number };
+}) {
+  return {
+    id: entry.id,
+    name: entry.name,
+    aliases: entry.aliases,
+    ...(entry._count && { timeBlocksCount: entry._count.timeBlocks }),
+    createdAt: entry.createdAt,
+    updatedAt: entry.updatedAt,
+  };
+}
+
+/**
+ * List catalog entries
+ * GET /api/v1/catalog/:catalog?q=math
+ */
+export async function listCatalog(req: Request<CatalogParams>, res: Response, next: NextFunction) {
+  try {
+    const kind = resolveCatalog(req, res);
+    if (!kind) return;
+
+    const search = typeof req.query.q === 'string' ? req.query.q : undefined;
+    const entries = await listCatalogEntries(requestSchool(req).id, kind, search);
+
+    return res.json({
+      success: true,
+      data: entries.map(toResponse),
+    });
+  } catch (error) {
+    logError('Error listing catalog entries', error);
+    return next(error);
+  }
+}
+
+/**
+ * Get one catalog entry
+ * GET /api/v1/catalog/:catalog/:id
+ */
+export async function getCatalogItem(req: Request<CatalogParams>, res: Response, next: NextFunction) {
+  try {
+    const kind = resolveCatalog(req, res);
+    if (!kind) return;
+
+    const entry = await getCatalogEntry(requestSchool(req).id, kind, req.params.id!);
+    if (!entry) {
+      return res.status(404).json({
+        success: false,
+        error: 'Catalog entry not found',
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: toResponse(entry),
+    });
+  } catch (error) {
+    logError('Error fetching catalog entry', error);
+    return next(error);
+  }
+}
+
+/**
+ * Create a catalog entry
+ * POST /api/v1/catalog/:catalog
+ * Body: { name, aliases? }
+ */
+export async function createCatalogItem(req: Request<CatalogParams>, res: Response, next: NextFunction) {
+  try {
+    const kind = resolveCatalog(req, res);
+    if (!kind) return;
+
+    const validationResult = CatalogEntrySchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation error',
+        details: validationResult.error.issues,
+      });
+    }
+
+    logInfo(`Creating ${kind} catalog entry`, validationResult.data);
+    const entry = await createCatalogEntry(requestSchool(req).id, kind, validationResult.data);
+
+    return res.status(201).json({
+      success: true,
+      data: toResponse(entry),
+    });
+  } catch (error) {
+    if (error instanceof CatalogConflictError) return conflictResponse(res, error);
+    logError('Error creating catalog entry', error);
+    return next(error);
+  }
+}
+
+/**
+ * Update a catalog entry (rename or replace its aliases)
+ * PATCH /api/v1/catalog/:catalog/:id
+ * Body: { name?, aliases? }
+ */
+export async function updateCatalogItem(req: Request<CatalogParams>, res: Response, next: NextFunction) {
+  try {
+    const kind = resolveCatalog(req, res);
+    if (!kind) return;
+
+    const validationResult = CatalogEntryUpdateSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation error',
+        details: validationResult.error.issues,
+      });
+    }
+
+    const entry = await updateCatalogEntry(requestSchool(req).id, kind, req.params.id!, validationResult.data);
+    if (!entry) {
+      return res.status(404).json({
+        success: false,
+        error: 'Catalog entry not found',
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: toResponse(entry),
+    });
+  } catch (error) {
+    if (error instanceof CatalogConflictError) return conflictResponse(res, error);
+    logError('Error updating catalog entry', error);
+    return next(error);
+  }
+}
+
+/**
+ * Delete a catalog entry (linked time blocks keep their text)
+ * DELETE /api/v1/catalog/:catalog/:id
+ */
+export async function deleteCatalogItem(req: Request<CatalogParams>, res: Response, next: NextFunction) {
+  try {
+    const kind = resolveCatalog(req, res);
+    if (!kind) return;
+
+    const entry = await deleteCatalogEntry(requestSchool(req).id, kind, req.params.id!);
+    if (!entry) {
+      return res.status(404).json({
+        success: false,
+        error: 'Catalog entry not found',
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: 'Catalog entry deleted successfully',
+      data: { id: entry.id },
+    });
+  } catch (error) {
+    logError('Error deleting catalog entry', error);
+    return next(error);
+  }
+}
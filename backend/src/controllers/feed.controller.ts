@@ -0,0 +1,238 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { CalendarFeedScope, type CalendarFeed } from '@prisma/client';
+import { logInfo, logError } from '../utils/logger';
+import { config } from '../config/env';
+import {
+  createCalendarFeed,
+  findCalendarFeed,
+  listCalendarFeeds,
+  renderCalendarFeed,
+  revokeCalendarFeed,
+} from '../services/calendar-feed.service';
+import { requestSchool } from '../middleware/tenant';
+
+/**
+ * Calendar Feed Controller
+ * Manages the subscribable calendar feeds of the requesting school and serves
+ * them to calendar apps by token
+ */
+
+const FeedCreateSchema = z.object({
+  scope: z.enum(CalendarFeedScope),
+  targetId: z.string().uuid(),
+  name: z.string().trim().min(1).max(200).optional(),
+  includeBreaks: z.boolean().optional(),
+});
+
+const FeedQuerySchema = z.object({
+  scope: z.enum(CalendarFeedScope).optional(),
+  targetId: z.string().uuid().optional(),
+  includeRevoked: z.stringbool().optional(),
+});
+
+function feedUrl(req: Request, token: string): string {
+  const baseUrl = config.env.PUBLIC_API_URL || `${req.protocol}://${req.get('host')}`;
+  return `${baseUrl}/api/feeds/${token}.ics`;
+}
+
+function toResponse(feed: CalendarFeed) {
+  return {
+    id: feed.id,
+    scope: feed.scope,
+    targetId: feed.targetId,
+    name: feed.name,
+    includeBreaks: feed.includeBreaks,
+    revoked: feed.revokedAt !== null,
+    revokedAt: feed.revokedAt,
+    lastAccessedAt: feed.lastAccessedAt,
+    createdAt: feed.createdAt,
+  };
+}
+
+/**
+ * Conditional request check (If-None-Match wins over If-Modified-Since)
+ * Done here rather than with req.fresh, which never answers 304 to clients
+ * that also send Cache-Control: no-cache
+ */
+function isNotModified(req: Request, etag: string, lastModified: Date): boolean {
+  const ifNoneMatch = req.get('If-None-Match');
+  if (ifNoneMatch) {
+    return ifNoneMatch
+      .split(',')
+      .map((tag) => tag.trim().replace(/^W\//, ''))
+      .some((tag) => tag === etag || tag === '*');
+  }
+
+  const ifModifiedSince = Date.parse(req.get('If-Modified-Since') ?? '');
+  // HTTP dates have whole seconds
+  return !Number.isNaN(ifModifiedSince) && Math.floor(lastModified.getTime() / 1000) * 1000 <= ifModifiedSince;
+}
+
+/**
+ * Create a calendar feed
+ * POST /api/v1/feeds
+ * Body: { scope: 'TEACHER' | 'ROOM' | 'CLASS_GROUP', targetId, name?, includeBreaks? }
+ */
+export async function createFeed(req: Request, res: Response, next: NextFunction) {
+  try {
+    const validationResult = FeedCreateSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation error',
+        details: validationResult.error.issues,
+      });
+    }
+
+    const created = await createCalendarFeed(requestSchool(req).id, validationResult.data);
+    if (!created) {
+      return res.status(404).json({
+        success: false,
+        error: `No ${validationResult.data.scope.toLowerCase().replace('_', ' ')} with this id in the school`,
+      });
+    }
+
+    logInfo(`Created calendar feed ${created.feed.id}`, {
+      scope: created.feed.scope,
+      targetId: created.feed.targetId,
+    });
+
+    return res.status(201).json({
+      success: true,
+      message: 'Calendar feed created. The URL cannot be shown again; revoke the feed and create a new one if it is lost',
+      data: {
+        ...toResponse(created.feed),
+        url: feedUrl(req, created.token),
+      },
+    });
+  } catch (error) {
+    logError('Error creating calendar feed', error);
+    return next(error);
+  }
+}
+
+/**
+ * List calendar feeds (URLs are not included)
+ * GET /api/v1/feeds?scope=ROOM&targetId=uuid&includeRevoked=true
+ */
+export async function listFeeds(req: Request, res: Response, next: NextFunction) {
+  try {
+    const queryResult = FeedQuerySchema.safeParse(req.query);
+    if (!queryResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid query parameters',
+        details: queryResult.error.issues,
+      });
+    }
+
+    const feeds = await listCalendarFeeds(requestSchool(req).id, queryResult.data);
+
+    return res.json({
+      success: true,
+      data: feeds.map(toResponse),
+    });
+  } catch (error) {
+    logError('Error listing calendar feeds', error);
+    return next(error);
+  }
+}
+
+/**
+ * Revoke a calendar feed
+ * DELETE /api/v1/feeds/:id
+ */
+export async function revokeFeed(req: Request<{ id: string }>, res: Response, next: NextFunction) {
+  try {
+    const feed = await revokeCalendarFeed(requestSchool(req).id, req.params.id);
+    if (!feed) {
+      return res.status(404).json({
+        success: false,
+        error: 'Calendar feed not found',
+      });
+    }
+
+    logInfo(`Revoked calendar feed ${feed.id}`);
+
+    return res.json({
+      success: true,
+      message: 'Calendar feed revoked',
+      data: toResponse(feed),
+    });
+  } catch (error) {
+    logError('Error revoking calendar feed', error);
+    return next(error);
+  }
+}
+
+/**
+ * Serve a calendar feed to calendar apps
+ * GET /api/feeds/:token.ics
+ * Answers 304 when If-None-Match / If-Modified-Since show the client is up to date
+ */
+export async function serveFeed(req: Request<{ token: string }>, res: Response, next: NextFunction) {
+  try {
+    const feed = await findCalendarFeed(req.params.token);
+    const rendered = feed && (await renderCalendarFeed(feed));
+    if (!rendered) {
+      return res.status(404).json({
+        success: false,
+        error: 'Calendar feed not found',
+      });
+    }
+
+    res.set({
+      ETag: rendered.etag,
+      'Last-Modified': rendered.lastModified.toUTCString(),
+      'Cache-Control': 'private, no-cache',
+    });
+    if (isNotModified(req, rendered.etag, rendered.lastModified)) {
+      return res.status(304).end();
+    }
+
+    res.type('text/calendar; charset=utf-8');
+    return res.send(rendered.body);
+  } catch (error) {
+    logError('Error serving calendar feed', error);
+    return next(error);
+  }
+}
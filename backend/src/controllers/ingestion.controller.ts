@@ -0,0 +1,180 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { IngestionSource, IngestionStatus } from '@prisma/client';
+import { logInfo, logError } from '../utils/logger';
+import {
+  IngestionSenderConflictError,
+  createIngestionSender,
+  deleteIngestionSender,
+  listIngestionRecords,
+  listIngestionSenders,
+} from '../services/ingestion.service';
+import { requestSchool } from '../middleware/tenant';
+
+/**
+ * Ingestion Controller
+ * Mail senders allowed to email timetables in, and the log of files taken from the hot folder and mailboxes
+ */
+
+const SenderCreateSchema = z.object({
+  address: z.email().max(320),
+  teacherId: z.uuid().nullable().optional(),
+});
+
+const RecordQuerySchema = z.object({
+  source: z.enum(IngestionSource).optional(),
+  status: z.enum(IngestionStatus).optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+});
+
+/**
+ * Register a mail sender
+ * POST /api/v1/ingestion/senders
+ * Body: { address, teacherId? } - without teacherId the teacher is read from the file name or document
+ */
+export async function createSender(req: Request, res: Response, next: NextFunction) {
+  try {
+    const validationResult = SenderCreateSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation error',
+        details: validationResult.error.issues,
+      });
+    }
+
+    const sender = await createIngestionSender(requestSchool(req).id, validationResult.data);
+    if (!sender) {
+      return res.status(404).json({
+        success: false,
+        error: 'Teacher not found',
+      });
+    }
+
+    logInfo(`Registered ingestion sender ${sender.address}`, { teacherId: sender.teacherId });
+
+    return res.status(201).json({
+      success: true,
+      message: 'Sender registered successfully',
+      data: sender,
+    });
+  } catch (error) {
+    if (error instanceof IngestionSenderConflictError) {
+      return res.status(409).json({
+        success: false,
+        error: error.message,
+      });
+    }
+    logError('Error registering ingestion sender', error);
+    return next(error);
+  }
+}
+
+/**
+ * List the school's mail senders
+ * GET /api/v1/ingestion/senders
+ */
+export async function listSenders(req: Request, res: Response, next: NextFunction) {
+  try {
+    const senders = await listIngestionSenders(requestSchool(req).id);
+
+    return res.json({
+      success: true,
+      data: senders,
+    });
+  } catch (error) {
+    logError('Error listing ingestion senders', error);
+    return next(error);
+  }
+}
+
+/**
+ * Remove a mail sender; their later emails are ignored
+ * DELETE /api/v1/ingestion/senders/:id
+ */
+export async function deleteSender(req: Request<{ id: string }>, res: Response, next: NextFunction) {
+  try {
+    const deleted = await deleteIngestionSender(requestSchool(req).id, req.params.id);
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        error: 'Sender not found',
+      });
+    }
+
+    logInfo(`Removed ingestion sender ${req.params.id}`);
+
+    return res.json({
+      success: true,
+      message: 'Sender removed successfully',
+    });
+  } catch (error) {
+    logError('Error removing ingestion sender', error);
+    return next(error);
+  }
+}
+
+/**
+ * List files taken from the hot folder and mailboxes, newest first
+ * GET /api/v1/ingestion/records?source=IMAP&status=REJECTED&limit=50
+ */
+export async function listRecords(req: Request, res: Response, next: NextFunction) {
+  try {
+    const queryResult = RecordQuerySchema.safeParse(req.query);
+    if (!queryResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid query parameters',
+        details: queryResult.error.issues,
+      });
+    }
+
+    const records = await listIngestionRecords(requestSchool(req).id, queryResult.data);
+
+    return res.json({
+      success: true,
+      data: records,
+    });
+  } catch (error) {
+    logError('Error listing ingestion records', error);
+    return next(error);
+  }
+}
@@ -0,0 +1,224 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { ReviewKind, ReviewStatus } from '@prisma/client';
+import { z } from 'zod';
+import { logInfo, logError } from '../utils/logger';
+import { prisma } from '../services/database.service';
+import {
+  CatalogConflictError,
+  catalogKindForReview,
+  resolveReviewWithAlias,
+} from '../services/catalog.service';
+import { resolveTeacherConflict } from '../services/teacher.service';
+import { requestSchool } from '../middleware/tenant';
+
+/**
+ * Review Controller
+ * Lists extracted values flagged for a person to check and records the outcome
+ */
+
+const ReviewQuerySchema = z.object({
+  status: z.enum(ReviewStatus).optional(),
+  kind: z.enum(ReviewKind).optional(),
+  timetableId: z.string().uuid().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+const ReviewUpdateSchema = z
+  .object({
+    status: z.enum([ReviewStatus.RESOLVED, ReviewStatus.DISMISSED]),
+    catalogEntryId: z.string().uuid().optional(), // Add the value as an alias of this entry
+    teacherId: z.string().uuid().optional(), // Move the timetable to this teacher
+    applyExtractedName: z.boolean().optional(), // Rename the teacher to the extracted name
+    resolution: z.string().trim().max(500).optional(),
+  })
+  .refine(
+    (body) =>
+      (!body.catalogEntryId && !body.teacherId && !body.applyExtractedName) ||
+      body.status === ReviewStatus.RESOLVED,
+    { message: 'catalogEntryId, teacherId and applyExtractedName can only be used to resolve an item' }
+  );
+
+/**
+ * List review items (open items first, newest first)
+ * GET /api/v1/reviews?status=OPEN&kind=UNMATCHED_SUBJECT&timetableId=uuid
+ */
+export async function listReviewItems(req: Request, res: Response, next: NextFunction) {
+  try {
+    const queryResult = ReviewQuerySchema.safeParse(req.query);
+    if (!queryResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid query parameters',
+        details: queryResult.error.issues,
+      });
+    }
+    const { status, kind, timetableId, page, limit } = queryResult.data;
+
+    const where = {
+      schoolId: requestSchool(req).id,
+      ...(status && { status }),
+      ...(kind && { kind }),
+      ...(timetableId && { timetableId }),
+    };
+
+    const [items, total] = await Promise.all([
+      prisma.reviewItem.findMany({
+        where,
+        orderBy: [{ status: 'asc' }, { createdAt: 'desc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.reviewItem.count({ where }),
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+
+    return res.json({
+      success: true,
+      data: items,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    });
+  } catch (error) {
+    logError('Error listing review items', error);
+    return next(error);
+  }
+}
+
+/**
+ * Resolve or dismiss a review item
+ * PATCH /api/v1/reviews/:id
+ * Body: { status: RESOLVED | DISMISSED, catalogEntryId?, teacherId?, applyExtractedName?, resolution? }
+ */
+export async function updateReviewItem(req: Request<{ id: string }>, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params;
+
+    const validationResult = ReviewUpdateSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation error',
+        details: validationResult.error.issues,
+      });
+    }
+    const { status, catalogEntryId, teacherId, applyExtractedName, resolution } = validationResult.data;
+
+    const item = await prisma.reviewItem.findFirst({ where: { id, schoolId: requestSchool(req).id } });
+    if (!item) {
+      return res.status(404).json({
+        success: false,
+        error: 'Review item not found',
+      });
+    }
+
+    if (item.status !== ReviewStatus.OPEN) {
+      return res.status(409).json({
+        success: false,
+        error: `Review item is already ${item.status.toLowerCase()}`,
+      });
+    }
+
+    logInfo(`Updating review item ${id}`, { status, catalogEntryId, teacherId, applyExtractedName });
+
+    if ((teacherId || applyExtractedName) && item.kind !== ReviewKind.TEACHER_NAME_CONFLICT) {
+      return res.status(400).json({
+        success: false,
+        error: `${item.kind} items cannot be resolved with a teacher`,
+      });
+    }
+
+    if (item.kind === ReviewKind.TEACHER_NAME_CONFLICT && status === ReviewStatus.RESOLVED) {
+      const resolved = await resolveTeacherConflict(item, { teacherId, applyExtractedName, resolution });
+      if (!resolved) {
+        return res.status(404).json({
+          success: false,
+          error: 'Teacher not found',
+        });
+      }
+    } else if (catalogEntryId) {
+      const catalogKind = catalogKindForReview(item.kind);
+      if (!catalogKind) {
+        return res.status(400).json({
+          success: false,
+          error: `${item.kind} items cannot be resolved with a catalog entry`,
+        });
+      }
+
+      const entry = await resolveReviewWithAlias(item.schoolId, catalogKind, item.value, catalogEntryId);
+      if (!entry) {
+        return res.status(404).json({
+          success: false,
+          error: 'Catalog entry not found',
+        });
+      }
+    } else {
+      await prisma.reviewItem.update({
+        where: { id },
+        data: { status, resolution, resolvedAt: new Date() },
+      });
+    }
+
+    const updated = await prisma.reviewItem.findUniqueOrThrow({ where: { id } });
+
+    return res.json({
+      success: true,
+      data: updated,
+    });
+  } catch (error) {
+    if (error instanceof CatalogConflictError) {
+      return res.status(409).json({
+        success: false,
+        error: error.message,
+        details: { value: error.value, existingEntry: error.existingEntry },
+      });
+    }
+    logError('Error updating review item', error);
+    return next(error);
+  }
+}
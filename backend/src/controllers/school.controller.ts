@@ -0,0 +1,265 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { DayOfWeek, type School } from '@prisma/client';
+import { z } from 'zod';
+import { logInfo, logError } from '../utils/logger';
+import { isVisionProviderName, listVisionProviders } from '../services/providers/provider.registry';
+import {
+  SchoolConflictError,
+  createSchool,
+  getSchool,
+  issueSchoolApiKey,
+  listSchools,
+  updateSchool,
+} from '../services/school.service';
+import { requestSchool } from '../middleware/tenant';
+
+/**
+ * School Controller
+ * Manages schools (tenants) and their extraction settings
+ */
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const BellPeriodSchema = z
+  .object({
+    label: z.string().trim().min(1).max(50),
+    startTime: z.string().regex(TIME_PATTERN),
+    endTime: z.string().regex(TIME_PATTERN),
+  })
+  .refine((period) => period.startTime < period.endTime, {
+    message: 'startTime must be before endTime',
+  });
+
+const SchoolSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  slug: z
+    .string()
+    .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, { message: 'Use lowercase letters, digits and single hyphens' })
+    .max(100),
+  ocrProviderChain: z
+    .array(z.string())
+    .refine((names) => names.every(isVisionProviderName), {
+      message: `Unknown OCR provider (available: ${listVisionProviders().join(', ')})`,
+    })
+    .optional(),
+  bellSchedule: z.array(BellPeriodSchema).max(30).nullable().optional(),
+  workingDays: z
+    .array(z.enum(DayOfWeek))
+    .min(1)
+    .refine((days) => new Set(days).size === days.length, { message: 'Working days must not repeat' })
+    .optional(),
+});
+
+const SchoolUpdateSchema = SchoolSchema.partial();
+
+function toResponse(school: School & { _count?: { teachers: number; timetables: number } }) {
+  return {
+    id: school.id,
+    name: school.name,
+    slug: school.slug,
+    ocrProviderChain: school.ocrProviderChain,
+    bellSchedule: school.bellSchedule,
+    workingDays: school.workingDays,
+    ...(school._count && {
+      teachersCount: school._count.teachers,
+      timetablesCount: school._count.timetables,
+    }),
+    createdAt: school.createdAt,
+    updatedAt: school.updatedAt,
+  };
+}
+
+function notFound(res: Response) {
+  return res.status(404).json({
+    success: false,
+    error: 'School not found',
+  });
+}
+
+function conflictResponse(res: Response, error: SchoolConflictError) {
+  return res.status(409).json({
+    success: false,
+    error: error.message,
+    details: { slug: error.slug },
+  });
+}
+
+/**
+ * List schools
+ * GET /api/v1/schools
+ */
+export async function listAllSchools(_req: Request, res: Response, next: NextFunction) {
+  try {
+    const schools = await listSchools();
+
+    return res.json({
+      success: true,
+      data: schools.map(toResponse),
+    });
+  } catch (error) {
+    logError('Error listing schools', error);
+    return next(error);
+  }
+}
+
+/**
+ * Get the school the request acts for (X-School-Key header)
+ * GET /api/v1/schools/current
+ */
+export async function getCurrentSchool(req: Request, res: Response) {
+  return res.json({
+    success: true,
+    data: toResponse(requestSchool(req)),
+  });
+}
+
+/**
+ * Get one school; only the school the request acts for is found
+ * GET /api/v1/schools/:id
+ */
+export async function getSchoolById(req: Request<{ id: string }>, res: Response, next: NextFunction) {
+  try {
+    if (req.params.id !== requestSchool(req).id) {
+      return notFound(res);
+    }
+
+    const school = await getSchool(req.params.id);
+    if (!school) {
+      return notFound(res);
+    }
+
+    return res.json({
+      success: true,
+      data: toResponse(school),
+    });
+  } catch (error) {
+    logError('Error fetching school', error);
+    return next(error);
+  }
+}
+
+/**
+ * Create a school
+ * POST /api/v1/schools
+ * Body: { name, slug, ocrProviderChain?, bellSchedule?, workingDays? }
+ */
+export async function registerSchool(req: Request, res: Response, next: NextFunction) {
+  try {
+    const validationResult = SchoolSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation error',
+        details: validationResult.error.issues,
+      });
+    }
+
+    logInfo('Creating school', { name: validationResult.data.name, slug: validationResult.data.slug });
+    const { school, apiKey } = await createSchool(validationResult.data);
+
+    return res.status(201).json({
+      success: true,
+      data: { ...toResponse(school), apiKey },
+    });
+  } catch (error) {
+    if (error instanceof SchoolConflictError) return conflictResponse(res, error);
+    logError('Error creating school', error);
+    return next(error);
+  }
+}
+
+/**
+ * Issue a new API key for any school (admin); the old key stops working
+ * POST /api/v1/schools/:id/api-key
+ */
+export async function issueApiKey(req: Request<{ id: string }>, res: Response, next: NextFunction) {
+  try {
+    const existing = await getSchool(req.params.id);
+    if (!existing) {
+      return notFound(res);
+    }
+
+    const { school, apiKey } = await issueSchoolApiKey(existing.id);
+
+    return res.json({
+      success: true,
+      data: { ...toResponse(school), apiKey },
+    });
+  } catch (error) {
+    logError('Error issuing school API key', error);
+    return next(error);
+  }
+}
+
+/**
+ * Update a school's name, slug or extraction settings
+ * Only the school the request acts for can be updated; other ids are not found.
+ * PATCH /api/v1/schools/:id
+ * Body: { name?, slug?, ocrProviderChain?, bellSchedule?, workingDays? }
+ */
+export async function updateSchoolSettings(req: Request<{ id: string }>, res: Response, next: NextFunction) {
+  try {
+    const validationResult = SchoolUpdateSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation error',
+        details: validationResult.error.issues,
+      });
+    }
+
+    const existing = req.params.id === requestSchool(req).id ? await getSchool(req.params.id) : null;
+    if (!existing) {
+      return notFound(res);
+    }
+
+    const school = await updateSchool(existing.id, validationResult.data);
+
+    return res.json({
+      success: true,
+      data: toResponse(school),
+    });
+  } catch (error) {
+    if (error instanceof SchoolConflictError) return conflictResponse(res, error);
+    logError('Error updating school', error);
+    return next(error);
+  }
+}
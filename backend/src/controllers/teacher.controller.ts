@@ -0,0 +1,306 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { logInfo, logError } from '../utils/logger';
+import { prisma } from '../services/database.service';
+import {
+  TeacherConflictError,
+  findTeacherMatches,
+  getTeacher,
+  listTeachers,
+  mergeTeachers,
+  updateTeacher,
+} from '../services/teacher.service';
+import { requestSchool } from '../middleware/tenant';
+
+/**
+ * Teacher Controller
+ * Lists, edits and merges the teachers of the requesting school
+ */
+
+const TeacherQuerySchema = z.object({
+  q: z.string().trim().min(1).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+const TeacherMatchQuerySchema = z.object({
+  name: z.string().trim().min(1),
+  limit: z.coerce.number().int().min(1).max(20).default(5),
+});
+
+const TeacherUpdateSchema = z.object({
+  name: z.string().trim().min(1).max(200).optional(),
+  email: z.string().trim().email().nullable().optional(),
+  aliases: z.array(z.string().trim().min(1).max(200)).max(50).optional(),
+});
+
+const TeacherMergeSchema = z.object({
+  sourceIds: z.array(z.string().uuid()).min(1).max(20),
+});
+
+function toResponse(teacher: {
+  id: string;
+  name: string;
+  email: string | null;
+  aliases: string[];
+  createdAt: Date;
+  updatedAt: Date;
+  _count?: { timetables: number };
+  matchScore?: number;
+}) {
+  return {
+    id: teacher.id,
+    name: teacher.name,
+    email: teacher.email,
+    aliases: teacher.aliases,
+    ...(teacher._count && { timetablesCount: teacher._count.timetables }),
+    ...(teacher.matchScore !== undefined && { matchScore: teacher.matchScore }),
+    createdAt: teacher.createdAt,
+    updatedAt: teacher.updatedAt,
+  };
+}
+
+function conflictResponse(res: Response, error: TeacherConflictError) {
+  return res.status(409).json({
+    success: false,
+    error: error.message,
+    details: { email: error.email },
+  });
+}
+
+/**
+ * List teachers (ranked by similarity when q is given)
+ * GET /api/v1/teachers?q=smith&page=1&limit=20
+ */
+export async function listAllTeachers(req: Request, res: Response, next: NextFunction) {
+  try {
+    const queryResult = TeacherQuerySchema.safeParse(req.query);
+    if (!queryResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid query parameters',
+        details: queryResult.error.issues,
+      });
+    }
+    const { q, page, limit } = queryResult.data;
+
+    const { teachers, total } = await listTeachers(requestSchool(req).id, { search: q, page, limit });
+    const totalPages = Math.ceil(total / limit);
+
+    return res.json({
+      success: true,
+      data: teachers.map(toResponse),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    });
+  } catch (error) {
+    logError('Error listing teachers', error);
+    return next(error);
+  }
+}
+
+/**
+ * Existing teachers a name (e.g. one read from a document) could belong to
+ * GET /api/v1/teachers/match?name=Mrs%20J.%20Smith
+ */
+export async function matchTeacherName(req: Request, res: Response, next: NextFunction) {
+  try {
+    const queryResult = TeacherMatchQuerySchema.safeParse(req.query);
+    if (!queryResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid query parameters',
+        details: queryResult.error.issues,
+      });
+    }
+    const { name, limit } = queryResult.data;
+
+    const matches = await findTeacherMatches(requestSchool(req).id, name, limit);
+
+    return res.json({
+      success: true,
+      data: matches.map((match) => ({
+        ...toResponse(match.teacher),
+        matchScore: match.score,
+        matchedName: match.matchedName,
+      })),
+    });
+  } catch (error) {
+    logError('Error matching teacher name', error);
+    return next(error);
+  }
+}
+
+/**
+ * Get a teacher with their timetables
+ * GET /api/v1/teachers/:id
+ */
+export async function getTeacherById(req: Request<{ id: string }>, res: Response, next: NextFunction) {
+  try {
+    const teacher = await getTeacher(requestSchool(req).id, req.params.id);
+    if (!teacher) {
+      return res.status(404).json({
+        success: false,
+        error: 'Teacher not found',
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: {
+        ...toResponse(teacher),
+        timetables: teacher.timetables.map((timetable) => ({
+          id: timetable.id,
+          originalFileName: timetable.originalFileName,
+          status: timetable.processingStatus,
+          academicYear: timetable.academicYear,
+          semester: timetable.semester,
+          revision: timetable.revision,
+          isCurrent: timetable.isCurrent,
+          uploadedAt: timetable.uploadedAt,
+        })),
+      },
+    });
+  } catch (error) {
+    logError('Error fetching teacher', error);
+    return next(error);
+  }
+}
+
+/**
+ * Update a teacher
+ * PATCH /api/v1/teachers/:id
+ * Body: { name?, email?, aliases? }
+ */
+export async function updateTeacherById(req: Request<{ id: string }>, res: Response, next: NextFunction) {
+  try {
+    const validationResult = TeacherUpdateSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation error',
+        details: validationResult.error.issues,
+      });
+    }
+
+    const teacher = await updateTeacher(requestSchool(req).id, req.params.id, validationResult.data);
+    if (!teacher) {
+      return res.status(404).json({
+        success: false,
+        error: 'Teacher not found',
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: toResponse(teacher),
+    });
+  } catch (error) {
+    if (error instanceof TeacherConflictError) return conflictResponse(res, error);
+    logError('Error updating teacher', error);
+    return next(error);
+  }
+}
+
+/**
+ * Merge duplicate teachers into this one
+ * POST /api/v1/teachers/:id/merge
+ * Body: { sourceIds: [uuid] }
+ */
+export async function mergeIntoTeacher(req: Request<{ id: string }>, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params;
+
+    const validationResult = TeacherMergeSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation error',
+        details: validationResult.error.issues,
+      });
+    }
+    const sourceIds = [...new Set(validationResult.data.sourceIds)];
+
+    if (sourceIds.includes(id)) {
+      return res.status(400).json({
+        success: false,
+        error: 'A teacher cannot be merged into itself',
+      });
+    }
+
+    const schoolId = requestSchool(req).id;
+    const found = await prisma.teacher.findMany({
+      where: { id: { in: [id, ...sourceIds] }, schoolId },
+      select: { id: true },
+    });
+    const foundIds = new Set(found.map((teacher) => teacher.id));
+    const missing = [id, ...sourceIds].filter((teacherId) => !foundIds.has(teacherId));
+    if (missing.length > 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Teacher not found',
+        details: { missing },
+      });
+    }
+
+    logInfo(`Merging teachers into ${id}`, { sourceIds });
+    const result = await mergeTeachers(schoolId, id, sourceIds);
+
+    return res.json({
+      success: true,
+      message: `Merged ${result.mergedTeachers.length} teacher(s)`,
+      data: {
+        teacher: toResponse(result.teacher),
+        mergedTeachers: result.mergedTeachers,
+        movedTimetables: result.movedTimetables,
+      },
+    });
+  } catch (error) {
+    logError('Error merging teachers', error);
+    return next(error);
+  }
+}
@@ -39,9 +39,45 @@
 
 import { Request, Response, NextFunction } from 'express';
 import { logInfo, logError } from '../utils/logger';
-import { databaseService, prisma } from '../services/database.service';
-import { DayOfWeek } from '@prisma/client';
+import { databaseService, prisma, type StoredPageFile } from '../services/database.service';
+import { DayOfWeek, ProcessingStatus } from '@prisma/client';
 import { z } from 'zod';
+import { LOW_CONFIDENCE_THRESHOLD } from '../services/confidence.service';
+import { deleteArtifactFiles } from '../services/artifact.service';
+import { isVisionProviderName, listVisionProviders } from '../services/providers/provider.registry';
+import { addTimetableJob } from '../queues/timetable.queue';
+import { stopTimetableJob } from '../services/job-control.service';
+import { diffTimeBlocks } from '../services/timetable-diff.service';
+import { linkTimeBlocksToCatalog } from '../services/catalog.service';
+import {
+  editTimeBlock,
+  getTimeBlockHistory,
+  removeTimeBlock,
+  revertTimeBlockEdit,
+  TimeBlockRevertError,
+} from '../services/time-block-history.service';
+import {
+  addTimeBlock,
+  checkTimeBlockEdit,
+  replaceTimeBlocks,
+  TimeBlockValidationError,
+} from '../services/time-block.service';
+import { buildTimetableCalendar, type CalendarTimetable } from '../services/ics.service';
+import {
+  buildTimeBlockSheet,
+  readTimeBlockSheet,
+  TimeBlockImportError,
+} from '../services/time-block-sheet.service';
+import { PRINT_CONTENT_TYPES, renderTimetable } from '../services/timetable-render.service';
+import {
+  SPREADSHEET_CONTENT_TYPES,
+  SpreadsheetFormatError,
+  spreadsheetFormat,
+} from '../services/spreadsheet.service';
+import { emitWebhookEvent } from '../services/webhook.service';
+import { requestSchool } from '../middleware/tenant';
+import fs from 'fs/promises';
+import path from 'path';
 
 /**
  * Timetable Controller
@@ -51,6 +87,7 @@ import { z } from 'zod';
 // Validation schemas
 const TimeBlockUpdateSchema = z.object({
   dayOfWeek: z.enum(['MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY', 'SATURDAY', 'SUNDAY']).optional(),
+  weekIndex: z.number().int().min(1).optional(),
   startTime: z.string().regex(/^\d{2}:\d{2}$/).optional(),
   endTime: z.string().regex(/^\d{2}:\d{2}$/).optional(),
   subject: z.string().min(1).optional(),
@@ -60,17 +97,119 @@ const TimeBlockUpdateSchema = z.object({
   notes: z.string().optional(),
 });
 
+// Times are checked (and loosely formatted ones repaired) by validateTimeBlocks
+const TimeBlockCreateSchema = z.object({
+  dayOfWeek: z.enum(DayOfWeek),
+  weekIndex: z.number().int().min(1).optional(),
+  startTime: z.string().min(1),
+  endTime: z.string().min(1),
+  subject: z.string().min(1),
+  classroom: z.string().optional(),
+  grade: z.string().optional(),
+  section: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+const TimeBlockReplaceSchema = z.object({
+  timeBlocks: z.array(TimeBlockCreateSchema).max(500),
+});
+
+const TimetableUpdateSchema = z.object({
+  termStartDate: z.iso.date().nullable().optional(),
+  termEndDate: z.iso.date().nullable().optional(),
+});
+
+const CalendarQuerySchema = z
+  .object({
+    includeBreaks: z.stringbool().optional(),
+    from: z.iso.date().optional(), // Override the term dates
+    to: z.iso.date().optional(),
+    academicYear: z.string().optional(), // Teacher calendars: term to export
+    semester: z.string().optional(),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: 'from must not be after to',
+  });
+
+const SpreadsheetQuerySchema = z.object({
+  format: z.enum(['csv', 'xlsx']).default('csv'),
+});
+
+const PrintQuerySchema = z.object({
+  format: z.enum(['pdf', 'docx']).default('pdf'),
+  orientation: z.enum(['landscape', 'portrait']).default('landscape'),
+});
+
+const TimetableImportSchema = z.object({
+  teacherName: z.string().trim().min(1),
+  teacherEmail: z.string().optional(),
+  academicYear: z.string().optional(),
+  semester: z.string().optional(),
+});
+
+// extractionMethod of timetables created from a spreadsheet; they have no document to reprocess
+const IMPORT_METHOD = 'import';
+
+// Superseded blocks are kept for their history but can no longer be changed
+const NOT_CURRENT_BLOCK_ERROR = 'Time block is no longer current (removed or replaced by a later version)';
+
+// Fields that feed the subject / room / class group catalogs
+const CATALOG_FIELDS = ['subject', 'classroom', 'grade', 'section'];
+
+// Name of the person making manual corrections, stored with each edit
+const ACTOR_HEADER = 'X-Actor';
+
+function requestActor(req: Request): string | null {
+  return req.get(ACTOR_HEADER)?.trim() || null;
+}
+
+const BlockConfidenceQuerySchema = z.object({
+  minConfidence: z.coerce.number().min(0).max(100).optional(),
+  maxConfidence: z.coerce.number().min(0).max(100).optional(),
+  sortBlocks: z.enum(['schedule', 'confidence:asc', 'confidence:desc']).optional(),
+  week: z.coerce.number().int().min(1).optional(),
+});
+
+const ReprocessSchema = z.object({
+  ocrProviders: z
+    .array(z.string())
+    .min(1)
+    .refine((names) => names.every(isVisionProviderName), {
+      message: `Unknown OCR provider (available: ${listVisionProviders().join(', ')})`,
+    })
+    .optional(),
+  llmModel: z.string().min(1).optional(),
+  pageRange: z
+    .object({
+      from: z.number().int().min(1),
+      to: z.number().int().min(1),
+    })
+    .refine((range) => range.from <= range.to, { message: 'pageRange.from must not exceed pageRange.to' })
+    .optional(),
+  agentic: z.boolean().optional(),
+});
+
 /**
  * Get timetable by ID with all time blocks
- * GET /api/v1/timetables/:id
+ * GET /api/v1/timetables/:id?maxConfidence=70&sortBlocks=confidence:asc&week=2
  */
 export async function getTimetableById(req: Request, res: Response, next: NextFunction) {
   try {
     const { id } = req.params;
 
+    const queryResult = BlockConfidenceQuerySchema.safeParse(req.query);
+    if (!queryResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid query parameters',
+        details: queryResult.error.issues,
+      });
+    }
+    const { minConfidence, maxConfidence, sortBlocks = 'schedule', week } = queryResult.data;
+
     logInfo(`Fetching timetable with ID: ${id}`);
 
-    const timetable = await databaseService.getTimetableWithDetails(id);
+    const timetable = await databaseService.getTimetableWithDetails(id, requestSchool(req).id);
 
     if (!timetable) {
       return res.status(404).json({
@@ -79,6 +218,21 @@ export async function getTimetableById(req: Request, res: Response, next: NextFu
       });
     }
 
+    // Blocks without a score are treated as doubtful (0)
+    const timeBlocks = timetable.timeBlocks.filter((block) => {
+      const confidence = block.confidence ?? 0;
+      return (
+        (minConfidence === undefined || confidence >= minConfidence) &&
+        (maxConfidence === undefined || confidence <= maxConfidence) &&
+        (week === undefined || block.weekIndex === week)
+      );
+    });
+
+    if (sortBlocks !== 'schedule') {
+      const direction = sortBlocks === 'confidence:desc' ? -1 : 1;
+      timeBlocks.sort((a, b) => direction * ((a.confidence ?? 0) - (b.confidence ?? 0)));
+    }
+
     return res.json({
       success: true,
       data: {
@@ -97,10 +251,29 @@ export async function getTimetableById(req: Request, res: Response, next: NextFu
               timetable.timeBlocks.length
             )
           : null,
-        semester: null, // Not stored in database yet
-        timeBlocks: timetable.timeBlocks.map((block) => ({
+        lowConfidenceBlocks: timetable.timeBlocks.filter(
+          (block) => (block.confidence ?? 0) < LOW_CONFIDENCE_THRESHOLD
+        ).length,
+        academicYear: timetable.academicYear,
+        semester: timetable.semester,
+        termStartDate: toDateString(timetable.termStartDate),
+        termEndDate: toDateString(timetable.termEndDate),
+        version: timetable.currentVersion,
+        revision: {
+          number: timetable.revision,
+          isCurrent: timetable.isCurrent,
+          previousRevisionId: timetable.previousRevisionId,
+        },
+        cycleLength: timetable.cycleLength,
+        // One entry per rotation week so Week A / Week B can be shown separately
+        weeks: Array.from({ length: timetable.cycleLength }, (_, index) => ({
+          weekIndex: index + 1,
+          timeBlocksCount: timetable.timeBlocks.filter((block) => block.weekIndex === index + 1).length,
+        })),
+        timeBlocks: timeBlocks.map((block) => ({
           id: block.id,
           dayOfWeek: block.dayOfWeek,
+          weekIndex: block.weekIndex,
           startTime: block.startTime,
           endTime: block.endTime,
           subject: block.subject,
@@ -109,11 +282,17 @@ export async function getTimetableById(req: Request, res: Response, next: NextFu
           section: block.section,
           notes: block.notes,
           confidence: block.confidence,
+          confidenceFactors: block.confidenceFactors,
+          subjectId: block.subjectId,
+          roomId: block.roomId,
+          classGroupId: block.classGroupId,
+          humanEditedFields: block.humanEditedFields,
         })),
         fileInfo: {
           originalName: timetable.originalFileName,
           fileType: timetable.fileType,
           fileSize: timetable.fileSize,
+          pages: (timetable.pageFiles as StoredPageFile[] | null)?.map((page) => page.fileName),
         },
         uploadedAt: timetable.uploadedAt,
       },
@@ -126,7 +305,7 @@ export async function getTimetableById(req: Request, res: Response, next: NextFu
 
 /**
  * List timetables with pagination and filtering
- * GET /api/v1/timetables?teacherId=uuid&page=1&limit=10&status=COMPLETED&sort=uploadedAt:desc
+ * GET /api/v1/timetables?teacherId=uuid&page=1&limit=10&status=COMPLETED&academicYear=2024-2025&semester=Term%201&sort=uploadedAt:desc&maxBlockConfidence=70
  */
 export async function listTimetables(req: Request, res: Response, next: NextFunction) {
   try {
@@ -136,6 +315,10 @@ export async function listTimetables(req: Request, res: Response, next: NextFunc
       limit = '10',
       status,
       sort = 'uploadedAt:desc',
+      maxBlockConfidence,
+      academicYear,
+      semester,
+      current,
     } = req.query;
 
     const pageNum = parseInt(page as string, 10);
@@ -155,10 +338,18 @@ export async function listTimetables(req: Request, res: Response, next: NextFunc
       });
     }
 
-    logInfo('Listing timetables', { teacherId, page: pageNum, limit: limitNum, status, sort });
+    logInfo('Listing timetables', {
+      teacherId,
+      page: pageNum,
+      limit: limitNum,
+      status,
+      academicYear,
+      semester,
+      sort,
+    });
 
-    // Build filter
-    const where: any = {};
+    // Build filter (only the requesting school's timetables)
+    const where: any = { schoolId: requestSchool(req).id };
     
     if (teacherId) {
       where.teacherId = teacherId as string;
@@ -168,6 +359,32 @@ export async function listTimetables(req: Request, res: Response, next: NextFunc
       where.processingStatus = status;
     }
 
+    // Term filters are case-insensitive ("term 1" matches "Term 1")
+    if (academicYear) {
+      where.academicYear = { equals: academicYear as string, mode: 'insensitive' };
+    }
+
+    if (semester) {
+      where.semester = { equals: semester as string, mode: 'insensitive' };
+    }
+
+    // Only the latest revision of each teacher's term
+    if (current === 'true') {
+      where.isCurrent = true;
+    }
+
+    // Only timetables with at least one block at or below the given confidence
+    if (maxBlockConfidence !== undefined) {
+      const threshold = parseFloat(maxBlockConfidence as string);
+      if (isNaN(threshold) || threshold < 0 || threshold > 100) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid maxBlockConfidence (must be between 0 and 100)',
+        });
+      }
+      where.timeBlocks = { some: { supersededAt: null, confidence: { lte: threshold } } };
+    }
+
     // Build sorting
     const [sortField, sortOrder] = (sort as string).split(':');
     const orderBy: any = {};
@@ -185,7 +402,9 @@ export async function listTimetables(req: Request, res: Response, next: NextFunc
         take: limitNum,
         include: {
           teacher: true,
-          timeBlocks: true,
+          timeBlocks: {
+            where: { supersededAt: null },
+          },
         },
       }),
       prisma.timetable.count({ where }),
@@ -204,7 +423,15 @@ export async function listTimetables(req: Request, res: Response, next: NextFunc
         },
         status: timetable.processingStatus,
         extractionMethod: timetable.extractionMethod,
+        academicYear: timetable.academicYear,
+        semester: timetable.semester,
+        revision: timetable.revision,
+        isCurrent: timetable.isCurrent,
+        cycleLength: timetable.cycleLength,
         timeBlocksCount: timetable.timeBlocks.length,
+        lowConfidenceBlocks: timetable.timeBlocks.filter(
+          (block) => (block.confidence ?? 0) < LOW_CONFIDENCE_THRESHOLD
+        ).length,
         fileInfo: {
           originalName: timetable.originalFileName,
           fileType: timetable.fileType,
@@ -249,8 +476,8 @@ export async function updateTimeBlock(req: Request, res: Response, next: NextFun
     logInfo(`Updating time block ${blockId} in timetable ${timetableId}`);
 
     // Check if timetable exists
-    const timetable = await prisma.timetable.findUnique({
-      where: { id: timetableId },
+    const timetable = await prisma.timetable.findFirst({
+      where: { id: timetableId, schoolId: requestSchool(req).id },
     });
 
     if (!timetable) {
@@ -272,27 +499,58 @@ export async function updateTimeBlock(req: Request, res: Response, next: NextFun
       });
     }
 
-    // Update time block
-    const updatedBlock = await prisma.timeBlock.update({
-      where: { id: blockId },
-      data: {
-        ...(updateData.dayOfWeek && { dayOfWeek: updateData.dayOfWeek as DayOfWeek }),
-        ...(updateData.startTime && { startTime: updateData.startTime }),
-        ...(updateData.endTime && { endTime: updateData.endTime }),
-        ...(updateData.subject && { subject: updateData.subject }),
-        ...(updateData.classroom !== undefined && { classroom: updateData.classroom }),
-        ...(updateData.grade !== undefined && { grade: updateData.grade }),
-        ...(updateData.section !== undefined && { section: updateData.section }),
-        ...(updateData.notes !== undefined && { notes: updateData.notes }),
-      },
+    if (timeBlock.supersededAt) {
+      return res.status(409).json({
+        success: false,
+        error: NOT_CURRENT_BLOCK_ERROR,
+      });
+    }
+
+    const changes = {
+      ...(updateData.dayOfWeek && { dayOfWeek: updateData.dayOfWeek as DayOfWeek }),
+      ...(updateData.weekIndex !== undefined && { weekIndex: updateData.weekIndex }),
+      ...(updateData.startTime && { startTime: updateData.startTime }),
+      ...(updateData.endTime && { endTime: updateData.endTime }),
+      ...(updateData.subject && { subject: updateData.subject }),
+      ...(updateData.classroom !== undefined && { classroom: updateData.classroom }),
+      ...(updateData.grade !== undefined && { grade: updateData.grade }),
+      ...(updateData.section !== undefined && { section: updateData.section }),
+      ...(updateData.notes !== undefined && { notes: updateData.notes }),
+    };
+
+    // The edited block must still start before it ends and not overlap another current block
+    await checkTimeBlockEdit(timetable, timeBlock, changes);
+
+    // Update time block, recording every changed field in its history
+    const { block: updatedBlock, edits } = await editTimeBlock(timeBlock, changes, {
+      actor: requestActor(req),
     });
 
+    // Edited names are matched against the catalogs again
+    if (edits.some((edit) => CATALOG_FIELDS.includes(edit.field))) {
+      try {
+        await linkTimeBlocksToCatalog(timetableId);
+      } catch (error) {
+        logError(`Catalog linking failed for timetable ${timetableId}`, error);
+      }
+    }
+
+    if (edits.length > 0) {
+      await emitWebhookEvent(timetable.schoolId, 'block.corrected', {
+        timetableId,
+        timeBlockId: updatedBlock.id,
+        changedFields: edits.map((edit) => edit.field),
+        actor: requestActor(req),
+      });
+    }
+
     return res.json({
       success: true,
       message: 'Time block updated successfully',
       data: {
         id: updatedBlock.id,
         dayOfWeek: updatedBlock.dayOfWeek,
+        weekIndex: updatedBlock.weekIndex,
         startTime: updatedBlock.startTime,
         endTime: updatedBlock.endTime,
         subject: updatedBlock.subject,
@@ -301,33 +559,207 @@ export async function updateTimeBlock(req: Request, res: Response, next: NextFun
         section: updatedBlock.section,
         notes: updatedBlock.notes,
         confidence: updatedBlock.confidence,
+        humanEditedFields: updatedBlock.humanEditedFields,
+        changedFields: edits.map((edit) => edit.field),
       },
     });
   } catch (error) {
+    if (error instanceof TimeBlockValidationError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation error',
+        details: error.issues,
+      });
+    }
     logError('Error updating time block', error);
     return next(error);
   }
 }
 
 /**
- * Delete timetable and associated data
- * DELETE /api/v1/timetables/:id
+ * Find a time block of a timetable in the request's school
  */
-export async function deleteTimetable(req: Request, res: Response, next: NextFunction) {
+async function findSchoolTimeBlock(req: Request, timetableId: string, blockId: string) {
+  return prisma.timeBlock.findFirst({
+    where: { id: blockId, timetableId, timetable: { schoolId: requestSchool(req).id } },
+  });
+}
+
+/**
+ * Edit history of a time block
+ * GET /api/v1/timetables/:timetableId/blocks/:blockId/history
+ */
+export async function listTimeBlockHistory(
+  req: Request<{ timetableId: string; blockId: string }>,
+  res: Response,
+  next: NextFunction
+) {
   try {
-    const { id } = req.params;
+    const { timetableId, blockId } = req.params;
 
-    logInfo(`Deleting timetable with ID: ${id}`);
+    const timeBlock = await findSchoolTimeBlock(req, timetableId, blockId);
+    if (!timeBlock) {
+      return res.status(404).json({
+        success: false,
+        error: 'Time block not found or does not belong to this timetable',
+      });
+    }
 
-    // Check if timetable exists
-    const timetable = await prisma.timetable.findUnique({
-      where: { id },
-      include: {
-        timeBlocks: true,
-        processingLogs: true,
+    const history = await getTimeBlockHistory(timeBlock);
+
+    return res.json({
+      success: true,
+      data: {
+        timeBlockId: timeBlock.id,
+        version: timeBlock.version,
+        fields: history.fields,
+        edits: history.edits.map((edit) => ({
+          id: edit.id,
+          timeBlockId: edit.timeBlockId,
+          field: edit.field,
+          oldValue: edit.oldValue,
+          newValue: edit.newValue,
+          source: edit.source,
+          actor: edit.actor,
+          revertOfId: edit.revertOfId,
+          reverted: edit.reverted,
+          createdAt: edit.createdAt,
+        })),
+      },
+    });
+  } catch (error) {
+    logError('Error fetching time block history', error);
+    return next(error);
+  }
+}
+
+/**
+ * Undo one edit of a time block
+ * POST /api/v1/timetables/:timetableId/blocks/:blockId/history/:editId/revert
+ */
+export async function revertTimeBlockChange(
+  req: Request<{ timetableId: string; blockId: string; editId: string }>,
+  res: Response,
+  next: NextFunction
+) {
+  try {
+    const { timetableId, blockId, editId } = req.params;
+
+    const timeBlock = await findSchoolTimeBlock(req, timetableId, blockId);
+    if (!timeBlock) {
+      return res.status(404).json({
+        success: false,
+        error: 'Time block not found or does not belong to this timetable',
+      });
+    }
+
+    if (timeBlock.supersededAt) {
+      return res.status(409).json({
+        success: false,
+        error: NOT_CURRENT_BLOCK_ERROR,
+      });
+    }
+
+    const result = await revertTimeBlockEdit(timeBlock, editId, requestActor(req));
+    if (!result) {
+      return res.status(404).json({
+        success: false,
+        error: 'Edit not found for this time block',
+      });
+    }
+
+    const [revert] = result.edits;
+    if (revert && CATALOG_FIELDS.includes(revert.field)) {
+      await relinkCatalog(timetableId);
+    }
+
+    logInfo(`Reverted edit ${editId} on time block ${blockId}`);
+
+    await emitWebhookEvent(requestSchool(req).id, 'block.corrected', {
+      timetableId,
+      timeBlockId: result.block.id,
+      changedFields: revert ? [revert.field] : [],
+      actor: requestActor(req),
+      revertOfEditId: editId,
+    });
+
+    return res.json({
+      success: true,
+      message: 'Edit reverted successfully',
+      data: {
+        id: result.block.id,
+        field: revert?.field,
+        value: revert?.newValue,
+        humanEditedFields: result.block.humanEditedFields,
+        revertEditId: revert?.id,
       },
     });
+  } catch (error) {
+    if (error instanceof TimeBlockRevertError) {
+      return res.status(409).json({
+        success: false,
+        error: error.message,
+      });
+    }
+    logError('Error reverting time block edit', error);
+    return next(error);
+  }
+}
+
+/**
+ * Find a timetable of the request's school
+ */
+async function findSchoolTimetable(req: Request, timetableId: string) {
+  return prisma.timetable.findFirst({
+    where: { id: timetableId, schoolId: requestSchool(req).id },
+  });
+}
+
+/**
+ * Relink a timetable's blocks to the catalogs after a manual change
+ */
+async function relinkCatalog(timetableId: string) {
+  try {
+    await linkTimeBlocksToCatalog(timetableId);
+  } catch (error) {
+    logError(`Catalog linking failed for timetable ${timetableId}`, error);
+  }
+}
+
+/**
+ * Notify webhooks of a manual change to a timetable
+ */
+async function emitTimetableUpdated(req: Request, timetableId: string, change: string, details: Record<string, unknown> = {}) {
+  await emitWebhookEvent(requestSchool(req).id, 'timetable.updated', {
+    timetableId,
+    change,
+    ...details,
+    actor: requestActor(req),
+  });
+}
+
+/**
+ * Add a time block missed by extraction
+ * POST /api/v1/timetables/:timetableId/blocks
+ */
+export async function createTimeBlock(
+  req: Request<{ timetableId: string }>,
+  res: Response,
+  next: NextFunction
+) {
+  try {
+    const { timetableId } = req.params;
+
+    const validationResult = TimeBlockCreateSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation error',
+        details: validationResult.error.issues,
+      });
+    }
 
+    const timetable = await findSchoolTimetable(req, timetableId);
     if (!timetable) {
       return res.status(404).json({
         success: false,
@@ -335,24 +767,820 @@ export async function deleteTimetable(req: Request, res: Response, next: NextFun
       });
     }
 
-    // Delete associated file (if it exists)
-    if (timetable.filePath) {
-      const fs = require('fs').promises;
-      const path = require('path');
-      const filePath = path.join(process.cwd(), timetable.filePath);
-      
-      try {
-        await fs.unlink(filePath);
-        logInfo(`Deleted file: ${filePath}`);
-      } catch (error) {
-        logError(`Failed to delete file: ${filePath}`, error);
-        // Continue with database deletion even if file deletion fails
-      }
+    const block = await addTimeBlock(timetable, validationResult.data);
+    await relinkCatalog(timetableId);
+
+    logInfo(`Added time block ${block.id} to timetable ${timetableId}`, { actor: requestActor(req) });
+    await emitTimetableUpdated(req, timetableId, 'block_created', { timeBlockId: block.id });
+
+    return res.status(201).json({
+      success: true,
+      message: 'Time block created successfully',
+      data: {
+        id: block.id,
+        dayOfWeek: block.dayOfWeek,
+        weekIndex: block.weekIndex,
+        startTime: block.startTime,
+        endTime: block.endTime,
+        subject: block.subject,
+        classroom: block.classroom,
+        grade: block.grade,
+        section: block.section,
+        notes: block.notes,
+        confidence: block.confidence,
+        humanEditedFields: block.humanEditedFields,
+      },
+    });
+  } catch (error) {
+    if (error instanceof TimeBlockValidationError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation error',
+        details: error.issues,
+      });
     }
+    logError('Error creating time block', error);
+    return next(error);
+  }
+}
 
-    // Delete timetable (cascading delete will handle time blocks and logs)
-    await prisma.timetable.delete({
-      where: { id },
+/**
+ * Remove a time block invented by extraction
+ * DELETE /api/v1/timetables/:timetableId/blocks/:blockId
+ * The block is kept as a superseded tombstone so its history stays available
+ */
+export async function deleteTimeBlock(
+  req: Request<{ timetableId: string; blockId: string }>,
+  res: Response,
+  next: NextFunction
+) {
+  try {
+    const { timetableId, blockId } = req.params;
+
+    const timeBlock = await findSchoolTimeBlock(req, timetableId, blockId);
+    if (!timeBlock) {
+      return res.status(404).json({
+        success: false,
+        error: 'Time block not found or does not belong to this timetable',
+      });
+    }
+
+    if (timeBlock.supersededAt) {
+      return res.status(409).json({
+        success: false,
+        error: NOT_CURRENT_BLOCK_ERROR,
+      });
+    }
+
+    await removeTimeBlock(timeBlock, { actor: requestActor(req) });
+
+    logInfo(`Deleted time block ${blockId} from timetable ${timetableId}`, { actor: requestActor(req) });
+    await emitTimetableUpdated(req, timetableId, 'block_deleted', { timeBlockId: blockId });
+
+    return res.json({
+      success: true,
+      message: 'Time block deleted successfully',
+    });
+  } catch (error) {
+    logError('Error deleting time block', error);
+    return next(error);
+  }
+}
+
+/**
+ * Replace every current time block of a timetable in one transaction
+ * PUT /api/v1/timetables/:timetableId/blocks
+ * Body: { timeBlocks: [...] }
+ */
+export async function replaceTimetableBlocks(
+  req: Request<{ timetableId: string }>,
+  res: Response,
+  next: NextFunction
+) {
+  try {
+    const { timetableId } = req.params;
+
+    const validationResult = TimeBlockReplaceSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation error',
+        details: validationResult.error.issues,
+      });
+    }
+
+    const timetable = await findSchoolTimetable(req, timetableId);
+    if (!timetable) {
+      return res.status(404).json({
+        success: false,
+        error: 'Timetable not found',
+      });
+    }
+
+    const result = await replaceTimeBlocks(timetable, validationResult.data.timeBlocks);
+    await relinkCatalog(timetableId);
+
+    logInfo(`Replaced time blocks of timetable ${timetableId}`, { actor: requestActor(req), ...result });
+    await emitTimetableUpdated(req, timetableId, 'blocks_replaced', { version: result.version });
+
+    return res.json({
+      success: true,
+      message: 'Time blocks replaced successfully',
+      data: {
+        version: result.version,
+        timeBlocksCount: result.count,
+        superseded: result.superseded,
+      },
+    });
+  } catch (error) {
+    if (error instanceof TimeBlockValidationError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation error',
+        details: error.issues,
+      });
+    }
+    logError('Error replacing time blocks', error);
+    return next(error);
+  }
+}
+
+/**
+ * Re-run extraction on the stored upload
+ * POST /api/v1/timetables/:id/reprocess
+ * Body: { ocrProviders?, llmModel?, pageRange?: { from, to }, agentic? }
+ */
+export async function reprocessTimetable(req: Request<{ id: string }>, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params;
+
+    const validationResult = ReprocessSchema.safeParse(req.body ?? {});
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation error',
+        details: validationResult.error.issues,
+      });
+    }
+    const overrides = validationResult.data;
+
+    const timetable = await prisma.timetable.findFirst({ where: { id, schoolId: requestSchool(req).id } });
+    if (!timetable) {
+      return res.status(404).json({
+        success: false,
+        error: 'Timetable not found',
+      });
+    }
+
+    if (
+      timetable.processingStatus === 'PENDING' ||
+      timetable.processingStatus === 'PROCESSING'
+    ) {
+      return res.status(409).json({
+        success: false,
+        error: `Timetable is already ${timetable.processingStatus.toLowerCase()}`,
+      });
+    }
+
+    if (timetable.extractionMethod === IMPORT_METHOD) {
+      return res.status(400).json({
+        success: false,
+        error: 'Imported timetables have no document to reprocess',
+      });
+    }
+
+    const pageFiles = (timetable.pageFiles as StoredPageFile[] | null) ?? [];
+    const storedPaths = pageFiles.length > 0 ? pageFiles.map((page) => page.path) : [timetable.filePath];
+    try {
+      await Promise.all(storedPaths.map((storedPath) => fs.access(path.resolve(storedPath))));
+    } catch {
+      return res.status(404).json({
+        success: false,
+        error: 'Stored upload file not found',
+      });
+    }
+
+    // Claimed in one statement: of two requests racing past the check above, only one queues a job
+    const claimed = await prisma.timetable.updateMany({
+      where: { id, schoolId: timetable.schoolId, processingStatus: { notIn: ['PENDING', 'PROCESSING'] } },
+      data: { processingStatus: 'PENDING', errorMessage: null },
+    });
+    if (claimed.count === 0) {
+      return res.status(409).json({
+        success: false,
+        error: 'Timetable is already queued for processing',
+      });
+    }
+
+    await databaseService.createProcessingLog({
+      timetableId: id,
+      step: 'reprocess',
+      status: 'success',
+      message: `Reprocessing requested (current version ${timetable.currentVersion})`,
+      metadata: overrides,
+    });
+
+    const job = await addTimetableJob({
+      timetableId: id,
+      schoolId: timetable.schoolId,
+      teacherId: timetable.teacherId,
+      filePath: timetable.filePath,
+      fileType: timetable.fileType,
+      fileName: timetable.originalFileName,
+      pageFiles: pageFiles.length > 0
+        ? pageFiles.map((page) => ({ path: page.path, fileName: page.fileName }))
+        : undefined,
+      overrides,
+    });
+
+    logInfo(`Queued reprocessing for timetable ${id}`, { jobId: job.id, overrides });
+
+    return res.status(202).json({
+      success: true,
+      message: 'Timetable queued for reprocessing',
+      data: {
+        jobId: job.id,
+        timetableId: id,
+        previousVersion: timetable.currentVersion,
+        overrides,
+        status: 'queued',
+      },
+    });
+  } catch (error) {
+    logError('Error reprocessing timetable', error);
+    return next(error);
+  }
+}
+
+/**
+ * List every revision of the teacher's term a timetable belongs to
+ * GET /api/v1/timetables/:id/revisions
+ */
+export async function listTimetableRevisions(req: Request<{ id: string }>, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params;
+
+    const revisions = await databaseService.getTimetableRevisions(id, requestSchool(req).id);
+    if (!revisions) {
+      return res.status(404).json({
+        success: false,
+        error: 'Timetable not found',
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: revisions.map((revision) => ({
+        id: revision.id,
+        revision: revision.revision,
+        isCurrent: revision.isCurrent,
+        previousRevisionId: revision.previousRevisionId,
+        academicYear: revision.academicYear,
+        semester: revision.semester,
+        originalFileName: revision.originalFileName,
+        timeBlocksCount: revision._count.timeBlocks,
+        uploadedAt: revision.uploadedAt,
+      })),
+    });
+  } catch (error) {
+    logError('Error listing timetable revisions', error);
+    return next(error);
+  }
+}
+
+/**
+ * Compare the time blocks of two timetables
+ * GET /api/v1/timetables/:id/diff/:otherId
+ * Changes are reported from :id (older) to :otherId (newer)
+ */
+export async function diffTimetables(
+  req: Request<{ id: string; otherId: string }>,
+  res: Response,
+  next: NextFunction
+) {
+  try {
+    const { id, otherId } = req.params;
+
+    logInfo(`Diffing timetable ${id} against ${otherId}`);
+
+    const schoolId = requestSchool(req).id;
+    const [from, to] = await Promise.all([
+      databaseService.getTimetableWithDetails(id, schoolId),
+      databaseService.getTimetableWithDetails(otherId, schoolId),
+    ]);
+
+    const missing = [from ? null : id, to ? null : otherId].filter(Boolean);
+    if (!from || !to) {
+      return res.status(404).json({
+        success: false,
+        error: 'Timetable not found',
+        details: { missing },
+      });
+    }
+
+    const describe = (timetable: NonNullable<typeof from>) => ({
+      id: timetable.id,
+      teacherId: timetable.teacherId,
+      revision: timetable.revision,
+      isCurrent: timetable.isCurrent,
+      academicYear: timetable.academicYear,
+      semester: timetable.semester,
+      uploadedAt: timetable.uploadedAt,
+    });
+
+    return res.json({
+      success: true,
+      data: {
+        from: describe(from),
+        to: describe(to),
+        sameTeacher: from.teacherId === to.teacherId,
+        ...diffTimeBlocks(from.timeBlocks, to.timeBlocks),
+      },
+    });
+  } catch (error) {
+    logError('Error diffing timetables', error);
+    return next(error);
+  }
+}
+
+function toDateString(date: Date | null): string | null {
+  return date ? date.toISOString().slice(0, 10) : null;
+}
+
+function toDate(value: string | null): Date | null {
+  return value === null ? null : new Date(`${value}T00:00:00Z`);
+}
+
+/**
+ * Update timetable details that extraction does not provide
+ * PATCH /api/v1/timetables/:id
+ * Body: { termStartDate?: 'YYYY-MM-DD' | null, termEndDate?: 'YYYY-MM-DD' | null }
+ */
+export async function updateTimetable(req: Request<{ id: string }>, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params;
+
+    const validationResult = TimetableUpdateSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation error',
+        details: validationResult.error.issues,
+      });
+    }
+    const updateData = validationResult.data;
+
+    const timetable = await findSchoolTimetable(req, id);
+    if (!timetable) {
+      return res.status(404).json({
+        success: false,
+        error: 'Timetable not found',
+      });
+    }
+
+    const termStartDate =
+      updateData.termStartDate === undefined ? timetable.termStartDate : toDate(updateData.termStartDate);
+    const termEndDate =
+      updateData.termEndDate === undefined ? timetable.termEndDate : toDate(updateData.termEndDate);
+    if (termStartDate && termEndDate && termStartDate > termEndDate) {
+      return res.status(400).json({
+        success: false,
+        error: 'termStartDate must not be after termEndDate',
+      });
+    }
+
+    const updated = await prisma.timetable.update({
+      where: { id },
+      data: { termStartDate, termEndDate },
+    });
+    await emitTimetableUpdated(req, id, 'term_dates', {
+      termStartDate: toDateString(updated.termStartDate),
+      termEndDate: toDateString(updated.termEndDate),
+    });
+
+    return res.json({
+      success: true,
+      message: 'Timetable updated successfully',
+      data: {
+        id: updated.id,
+        academicYear: updated.academicYear,
+        semester: updated.semester,
+        termStartDate: toDateString(updated.termStartDate),
+        termEndDate: toDateString(updated.termEndDate),
+      },
+    });
+  } catch (error) {
+    logError('Error updating timetable', error);
+    return next(error);
+  }
+}
+
+/**
+ * Send a timetable as an .ics download
+ */
+function sendCalendar(res: Response, timetable: CalendarTimetable, query: z.infer<typeof CalendarQuerySchema>) {
+  const calendar = buildTimetableCalendar(timetable, {
+    includeBreaks: query.includeBreaks,
+    termStart: query.from ? toDate(query.from) : undefined,
+    termEnd: query.to ? toDate(query.to) : undefined,
+  });
+
+  res.type('text/calendar; charset=utf-8');
+  res.attachment(`timetable-${timetable.id}.ics`);
+  return res.send(calendar);
+}
+
+/**
+ * Export a timetable as an iCalendar file
+ * GET /api/v1/timetables/:id/calendar.ics?includeBreaks=false&from=2025-09-01&to=2025-12-19
+ */
+export async function exportTimetableCalendar(req: Request<{ id: string }>, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params;
+
+    const queryResult = CalendarQuerySchema.safeParse(req.query);
+    if (!queryResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid query parameters',
+        details: queryResult.error.issues,
+      });
+    }
+
+    const timetable = await databaseService.getTimetableWithDetails(id, requestSchool(req).id);
+    if (!timetable) {
+      return res.status(404).json({
+        success: false,
+        error: 'Timetable not found',
+      });
+    }
+
+    return sendCalendar(res, timetable, queryResult.data);
+  } catch (error) {
+    logError('Error exporting timetable calendar', error);
+    return next(error);
+  }
+}
+
+/**
+ * Export a teacher's current timetable as an iCalendar file
+ * GET /api/v1/teachers/:id/calendar.ics?academicYear=2024-2025&semester=Term%201&includeBreaks=false
+ */
+export async function exportTeacherCalendar(req: Request<{ id: string }>, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params;
+
+    const queryResult = CalendarQuerySchema.safeParse(req.query);
+    if (!queryResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid query parameters',
+        details: queryResult.error.issues,
+      });
+    }
+    const { academicYear, semester } = queryResult.data;
+
+    const timetable = await databaseService.getCurrentTeacherTimetable(id, requestSchool(req).id, {
+      academicYear,
+      semester,
+    });
+    if (!timetable) {
+      return res.status(404).json({
+        success: false,
+        error: 'No current timetable found for this teacher',
+      });
+    }
+
+    return sendCalendar(res, timetable, queryResult.data);
+  } catch (error) {
+    logError('Error exporting teacher calendar', error);
+    return next(error);
+  }
+}
+
+/**
+ * Export the current time blocks of a timetable as a spreadsheet
+ * GET /api/v1/timetables/:id/export?format=csv|xlsx
+ */
+export async function exportTimetableSpreadsheet(req: Request<{ id: string }>, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params;
+
+    const queryResult = SpreadsheetQuerySchema.safeParse(req.query);
+    if (!queryResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid query parameters',
+        details: queryResult.error.issues,
+      });
+    }
+    const { format } = queryResult.data;
+
+    const timetable = await databaseService.getTimetableWithDetails(id, requestSchool(req).id);
+    if (!timetable) {
+      return res.status(404).json({
+        success: false,
+        error: 'Timetable not found',
+      });
+    }
+
+    const sheet = await buildTimeBlockSheet(timetable.teacher.name, timetable.timeBlocks, format);
+
+    res.type(SPREADSHEET_CONTENT_TYPES[format]);
+    res.attachment(`timetable-${timetable.id}.${format}`);
+    return res.send(sheet);
+  } catch (error) {
+    logError('Error exporting timetable spreadsheet', error);
+    return next(error);
+  }
+}
+
+/**
+ * Render a timetable as a printable weekly grid
+ * GET /api/v1/timetables/:id/print?format=pdf|docx&orientation=landscape|portrait
+ */
+export async function printTimetable(req: Request<{ id: string }>, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params;
+
+    const queryResult = PrintQuerySchema.safeParse(req.query);
+    if (!queryResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid query parameters',
+        details: queryResult.error.issues,
+      });
+    }
+    const { format, orientation } = queryResult.data;
+
+    const timetable = await databaseService.getTimetableWithDetails(id, requestSchool(req).id);
+    if (!timetable) {
+      return res.status(404).json({
+        success: false,
+        error: 'Timetable not found',
+      });
+    }
+
+    const document = await renderTimetable(timetable, format, orientation);
+
+    res.type(PRINT_CONTENT_TYPES[format]);
+    res.attachment(`timetable-${timetable.id}.${format}`);
+    return res.send(document);
+  } catch (error) {
+    logError('Error rendering timetable', error);
+    return next(error);
+  }
+}
+
+/**
+ * Respond to a spreadsheet that could not be imported
+ * Returns false for other errors
+ */
+function sendImportError(res: Response, error: unknown): boolean {
+  if (error instanceof TimeBlockImportError) {
+    res.status(400).json({
+      success: false,
+      error: 'Validation error',
+      details: error.rows,
+    });
+    return true;
+  }
+  if (error instanceof SpreadsheetFormatError) {
+    res.status(400).json({
+      success: false,
+      error: error.message,
+    });
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Create a timetable from a spreadsheet of time blocks
+ * POST /api/v1/timetables/import
+ * Multipart: file (.csv or .xlsx), teacherName, teacherEmail?, academicYear?, semester?
+ */
+export async function importTimetable(req: Request, res: Response, next: NextFunction) {
+  const file = req.file;
+  if (!file) {
+    return res.status(400).json({
+      success: false,
+      error: 'No file uploaded. Please provide a CSV or XLSX file.',
+    });
+  }
+
+  try {
+    const validationResult = TimetableImportSchema.safeParse(req.body ?? {});
+    if (!validationResult.success) {
+      await fs.unlink(file.path).catch(() => {});
+      return res.status(400).json({
+        success: false,
+        error: 'Validation error',
+        details: validationResult.error.issues,
+      });
+    }
+    const { teacherName, teacherEmail, academicYear, semester } = validationResult.data;
+
+    // Nothing is created unless every row is valid
+    const format = spreadsheetFormat(file.originalname, file.mimetype) ?? 'csv';
+    const { timeBlocks, cycleLength } = await readTimeBlockSheet(await fs.readFile(file.path), format);
+
+    // The teacher, timetable, blocks and revision are stored together or not at all
+    const school = requestSchool(req);
+    const { teacher, timetable, result } = await prisma.$transaction(async (tx) => {
+      const teacher = await databaseService.findOrCreateTeacher(
+        { schoolId: school.id, name: teacherName, email: teacherEmail },
+        tx
+      );
+      const created = await databaseService.createTimetable(
+        {
+          schoolId: school.id,
+          teacherId: teacher.id,
+          filePath: file.path,
+          fileType: file.mimetype,
+          originalFileName: file.originalname,
+          fileSize: file.size,
+          extractionMethod: IMPORT_METHOD,
+        },
+        tx
+      );
+
+      await databaseService.updateTimetableTerm(created.id, { academicYear, semester }, tx);
+      const timetable = await databaseService.updateTimetableCycle(created.id, cycleLength, tx);
+      const result = await replaceTimeBlocks(timetable, timeBlocks, tx);
+
+      await databaseService.updateTimetableStatus(timetable.id, ProcessingStatus.COMPLETED, undefined, tx);
+      await databaseService.assignTimetableRevision(timetable.id, tx);
+      return { teacher, timetable, result };
+    });
+    await relinkCatalog(timetable.id);
+
+    logInfo(`Imported timetable ${timetable.id} from ${file.originalname}`, {
+      actor: requestActor(req),
+      timeBlocks: result.count,
+    });
+    await emitWebhookEvent(school.id, 'timetable.completed', {
+      timetableId: timetable.id,
+      teacherId: teacher.id,
+      source: 'import',
+      version: result.version,
+      timeBlocksCount: result.count,
+    });
+
+    return res.status(201).json({
+      success: true,
+      message: 'Timetable imported successfully',
+      data: {
+        timetableId: timetable.id,
+        teacherId: teacher.id,
+        version: result.version,
+        timeBlocksCount: result.count,
+        cycleLength: timetable.cycleLength,
+      },
+    });
+  } catch (error) {
+    // Nothing was stored, so the spreadsheet is not kept either
+    await fs.unlink(file.path).catch(() => {});
+    if (sendImportError(res, error)) return;
+    logError('Error importing timetable', error);
+    return next(error);
+  }
+}
+
+/**
+ * Replace the time blocks of a timetable with a spreadsheet
+ * POST /api/v1/timetables/:id/import
+ * Multipart: file (.csv or .xlsx)
+ *
+ * The blocks are saved as a new version, typically after editing an export.
+ */
+export async function importTimetableBlocks(req: Request<{ id: string }>, res: Response, next: NextFunction) {
+  const file = req.file;
+  if (!file) {
+    return res.status(400).json({
+      success: false,
+      error: 'No file uploaded. Please provide a CSV or XLSX file.',
+    });
+  }
+
+  try {
+    const { id } = req.params;
+
+    const timetable = await findSchoolTimetable(req, id);
+    if (!timetable) {
+      return res.status(404).json({
+        success: false,
+        error: 'Timetable not found',
+      });
+    }
+
+    if (
+      timetable.processingStatus === 'PENDING' ||
+      timetable.processingStatus === 'PROCESSING'
+    ) {
+      return res.status(409).json({
+        success: false,
+        error: `Timetable is already ${timetable.processingStatus.toLowerCase()}`,
+      });
+    }
+
+    const format = spreadsheetFormat(file.originalname, file.mimetype) ?? 'csv';
+    const { timeBlocks, cycleLength } = await readTimeBlockSheet(await fs.readFile(file.path), format);
+
+    const updated =
+      cycleLength === timetable.cycleLength
+        ? timetable
+        : await databaseService.updateTimetableCycle(id, cycleLength);
+    const result = await replaceTimeBlocks(updated, timeBlocks);
+    await relinkCatalog(id);
+
+    logInfo(`Imported time blocks of timetable ${id} from ${file.originalname}`, {
+      actor: requestActor(req),
+      ...result,
+    });
+    await emitTimetableUpdated(req, id, 'blocks_imported', { version: result.version });
+
+    return res.json({
+      success: true,
+      message: 'Time blocks imported successfully',
+      data: {
+        version: result.version,
+        timeBlocksCount: result.count,
+        superseded: result.superseded,
+        cycleLength: updated.cycleLength,
+      },
+    });
+  } catch (error) {
+    if (sendImportError(res, error)) return;
+    logError('Error importing time blocks', error);
+    return next(error);
+  } finally {
+    // The blocks are stored; the spreadsheet itself is not kept
+    await fs.unlink(file.path).catch(() => {});
+  }
+}
+
+/**
+ * Delete timetable and associated data
+ * DELETE /api/v1/timetables/:id
+ */
+export async function deleteTimetable(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params;
+
+    logInfo(`Deleting timetable with ID: ${id}`);
+
+    // Check if timetable exists
+    const timetable = await prisma.timetable.findFirst({
+      where: { id, schoolId: requestSchool(req).id },
+      include: {
+        timeBlocks: true,
+        processingLogs: true,
+      },
+    });
+
+    if (!timetable) {
+      return res.status(404).json({
+        success: false,
+        error: 'Timetable not found',
+      });
+    }
+
+    // A running job would write to the deleted rows, so it is cancelled first
+    if (!(await stopTimetableJob(timetable.jobId))) {
+      return res.status(409).json({
+        success: false,
+        error: 'Timetable is still being processed and could not be stopped; try again shortly',
+      });
+    }
+
+    // Delete associated files (every page of a multi-image upload)
+    const pageFiles = (timetable.pageFiles as StoredPageFile[] | null) ?? [];
+    const storedPaths = pageFiles.length > 0 ? pageFiles.map((page) => page.path) : [timetable.filePath];
+    for (const storedPath of storedPaths.filter(Boolean)) {
+      const filePath = path.join(process.cwd(), storedPath);
+
+      try {
+        await fs.unlink(filePath);
+        logInfo(`Deleted file: ${filePath}`);
+      } catch (error) {
+        logError(`Failed to delete file: ${filePath}`, error);
+        // Continue with database deletion even if file deletion fails
+      }
+    }
+
+    // Delete stored extraction artifacts (rows cascade with the timetable)
+    await deleteArtifactFiles(timetable.id);
+
+    // Delete timetable (cascading delete will handle time blocks and logs)
+    // and close the gap it leaves in its revision chain
+    await prisma.$transaction(async (tx) => {
+      await tx.timetable.delete({
+        where: { id },
+      });
+      if (timetable.revision !== null) {
+        await databaseService.rebuildRevisionChains(timetable.teacherId, tx);
+      }
     });
 
     return res.json({
@@ -38,8 +38,20 @@
 
 
 import { Request, Response, NextFunction } from 'express';
-import { addTimetableJob, getJobStatus as getJobStatusFromQueue } from '../queues/timetable.queue';
-import { databaseService } from '../services/database.service';
+import { addTimetableJob, getJobStatus as getJobStatusFromQueue, timetableQueue } from '../queues/timetable.queue';
+import { databaseService, type StoredPageFile } from '../services/database.service';
+import { isImageFile } from '../services/ocr.service';
+import { ArchiveError } from '../services/archive.service';
+import { SPREADSHEET_CONTENT_TYPES } from '../services/spreadsheet.service';
+import { buildBatchSummary, createUploadBatch, getUploadBatch } from '../services/upload-batch.service';
+import {
+  JobNotCancellableError,
+  cancelTimetableJob,
+  getQueueState,
+  pauseTimetableQueue,
+  resumeTimetableQueue,
+} from '../services/job-control.service';
+import { requestSchool } from '../middleware/tenant';
 import { logInfo, logError } from '../utils/logger';
 import fs from 'fs/promises';
 
@@ -86,13 +98,16 @@ export const uploadTimetable = async (req: Request & { file?: any }, res: Respon
     });
 
     // Step 1: Find or create teacher
+    const school = requestSchool(req);
     const teacher = await databaseService.findOrCreateTeacher({
+      schoolId: school.id,
       name: teacherName,
       email: teacherEmail,
     });
 
     // Step 2: Create timetable record in database
     const timetable = await databaseService.createTimetable({
+      schoolId: school.id,
       teacherId: teacher.id,
       filePath: file.path,
       fileType: file.mimetype,
@@ -103,6 +118,7 @@ export const uploadTimetable = async (req: Request & { file?: any }, res: Respon
     // Step 3: Add job to processing queue
     const job = await addTimetableJob({
       timetableId: timetable.id,
+      schoolId: school.id,
       teacherId: teacher.id,
       filePath: file.path,
       fileType: file.mimetype,
@@ -144,6 +160,142 @@ export const uploadTimetable = async (req: Request & { file?: any }, res: Respon
   }
 };
 
+/**
+ * Handle a timetable photographed as several images
+ * POST /api/upload/multiple
+ *
+ * Pages are ordered by file name ("... 1.1.png" before "... 1.2.png") and
+ * extracted into a single timetable.
+ */
+export const uploadTimetablePages = async (
+  req: Request & { files?: any },
+  res: Response
+): Promise<void> => {
+  const files: Express.Multer.File[] = Array.isArray(req.files) ? req.files : [];
+
+  const cleanup = async () => {
+    await Promise.all(
+      files.map((file) =>
+        fs.unlink(file.path).catch(() => {
+          // Ignore cleanup errors
+        })
+      )
+    );
+  };
+
+  try {
+    // Check if files were uploaded
+    if (files.length === 0) {
+      res.status(400).json({
+        success: false,
+        error: 'No files uploaded. Please provide the timetable page images.',
+      });
+      return;
+    }
+
+    const nonImages = files.filter((file) => !isImageFile(file.mimetype));
+    if (nonImages.length > 0) {
+      await cleanup();
+      res.status(400).json({
+        success: false,
+        error: 'Only PNG and JPEG images can be combined into one timetable',
+        details: nonImages.map((file) => file.originalname),
+      });
+      return;
+    }
+
+    // Get teacher name from request body
+    const { teacherName, teacherEmail } = req.body;
+    if (!teacherName || typeof teacherName !== 'string') {
+      // Clean up uploaded files if validation fails
+      await cleanup();
+      res.status(400).json({
+        success: false,
+        error: 'Teacher name is required',
+      });
+      return;
+    }
+
+    // Natural order so "page 10" sorts after "page 2"
+    const ordered = [...files].sort((a, b) =>
+      a.originalname.localeCompare(b.originalname, undefined, { numeric: true, sensitivity: 'base' })
+    );
+    const pageFiles: StoredPageFile[] = ordered.map((file) => ({
+      path: file.path,
+      fileName: file.originalname,
+      mimeType: file.mimetype,
+      size: file.size,
+    }));
+
+    logInfo('📁 Page images uploaded', {
+      pages: pageFiles.map((page) => page.fileName),
+      totalSize: pageFiles.reduce((total, page) => total + page.size, 0),
+    });
+
+    // Step 1: Find or create teacher
+    const school = requestSchool(req);
+    const teacher = await databaseService.findOrCreateTeacher({
+      schoolId: school.id,
+      name: teacherName,
+      email: teacherEmail,
+    });
+
+    // Step 2: Create one timetable record for all pages
+    const timetable = await databaseService.createTimetable({
+      schoolId: school.id,
+      teacherId: teacher.id,
+      filePath: pageFiles[0].path,
+      fileType: pageFiles[0].mimeType,
+      originalFileName: pageFiles[0].fileName,
+      fileSize: pageFiles.reduce((total, page) => total + page.size, 0),
+      pageFiles,
+    });
+
+    // Step 3: Add job to processing queue
+    const job = await addTimetableJob({
+      timetableId: timetable.id,
+      schoolId: school.id,
+      teacherId: teacher.id,
+      filePath: pageFiles[0].path,
+      fileType: pageFiles[0].mimeType,
+      fileName: pageFiles[0].fileName,
+      pageFiles: pageFiles.map(({ path, fileName }) => ({ path, fileName })),
+    });
+
+    logInfo('✅ Page images uploaded and queued', {
+      timetableId: timetable.id,
+      jobId: job.id,
+      pages: pageFiles.length,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: `${pageFiles.length} page image(s) uploaded and queued for processing`,
+      data: {
+        jobId: job.id,
+        timetableId: timetable.id,
+        pages: pageFiles.map((page, index) => ({
+          page: index + 1,
+          fileName: page.fileName,
+          fileSize: page.size,
+        })),
+        status: 'queued',
+      },
+    });
+  } catch (error) {
+    logError('❌ Error uploading page images', error);
+
+    // Clean up files if they exist
+    await cleanup();
+
+    res.status(500).json({
+      success: false,
+      error: 'Failed to upload files',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
 /**
  * Get job status
  * GET /api/upload/status/:jobId
@@ -154,7 +306,8 @@ export const getJobStatus = async (req: Request, res: Response, next: NextFuncti
 
     const jobStatus = await getJobStatusFromQueue(jobId);
 
-    if (!jobStatus) {
+    // Jobs of other schools are reported as missing
+    if (!jobStatus || jobStatus.data.schoolId !== requestSchool(req).id) {
       res.status(404).json({
         success: false,
         error: 'Job not found',
@@ -172,3 +325,218 @@ export const getJobStatus = async (req: Request, res: Response, next: NextFuncti
     next(error);
   }
 };
+
+/**
+ * Cancel a waiting or active job
+ * DELETE /api/upload/jobs/:jobId
+ *
+ * A waiting job is removed and its timetable is CANCELLED at once (200). An
+ * active job is asked to stop; its timetable becomes CANCELLED when the
+ * worker has aborted the running OCR / LLM calls (202).
+ */
+export const cancelJob = async (
+  req: Request<{ jobId: string }>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const job = await timetableQueue.getJob(req.params.jobId);
+
+    // Jobs of other schools are reported as missing
+    if (!job || job.data.schoolId !== requestSchool(req).id) {
+      res.status(404).json({
+        success: false,
+        error: 'Job not found',
+      });
+      return;
+    }
+
+    const outcome = await cancelTimetableJob(job);
+
+    res.status(outcome === 'cancelled' ? 200 : 202).json({
+      success: true,
+      message: outcome === 'cancelled' ? 'Job cancelled' : 'Cancellation requested',
+      data: {
+        jobId: job.id,
+        timetableId: job.data.timetableId,
+        status: outcome,
+      },
+    });
+  } catch (error) {
+    if (error instanceof JobNotCancellableError) {
+      res.status(409).json({
+        success: false,
+        error: error.message,
+      });
+      return;
+    }
+    logError('Error cancelling job', error);
+    next(error);
+  }
+};
+
+/**
+ * Get whether the processing queue is paused, with its job counts (every school; admin only)
+ * GET /api/upload/queue
+ */
+export const getQueueStatus = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    res.status(200).json({
+      success: true,
+      message: 'Queue status retrieved',
+      data: await getQueueState(),
+    });
+  } catch (error) {
+    logError('Error getting queue status', error);
+    next(error);
+  }
+};
+
+/**
+ * Pause the processing queue for every school (admin only)
+ * POST /api/upload/queue/pause
+ */
+export const pauseQueue = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    res.status(200).json({
+      success: true,
+      message: 'Queue paused; active jobs will finish but no new jobs start',
+      data: await pauseTimetableQueue(),
+    });
+  } catch (error) {
+    logError('Error pausing queue', error);
+    next(error);
+  }
+};
+
+/**
+ * Resume the processing queue (admin only)
+ * POST /api/upload/queue/resume
+ */
+export const resumeQueue = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    res.status(200).json({
+      success: true,
+      message: 'Queue resumed',
+      data: await resumeTimetableQueue(),
+    });
+  } catch (error) {
+    logError('Error resuming queue', error);
+    next(error);
+  }
+};
+
+/**
+ * Handle a ZIP archive of timetables, one file per teacher
+ * POST /api/upload/batch
+ *
+ * Every PNG, JPEG, PDF or DOCX in the archive becomes a timetable job; the
+ * teacher is taken from the file name, or from the document when the file
+ * name holds none.
+ */
+export const uploadTimetableBatch = async (
+  req: Request & { file?: any },
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  if (!req.file) {
+    res.status(400).json({
+      success: false,
+      error: 'No file uploaded. Please provide a ZIP archive of timetables.',
+    });
+    return;
+  }
+
+  try {
+    const school = requestSchool(req);
+    const batch = await createUploadBatch(school.id, {
+      path: req.file.path,
+      originalName: req.file.originalname,
+    });
+
+    logInfo('✅ Timetable archive unpacked and queued', {
+      batchId: batch.id,
+      files: batch.totalFiles,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: `${batch.totalFiles} timetable(s) queued for processing`,
+      data: await getUploadBatch(school.id, batch.id),
+    });
+  } catch (error) {
+    if (error instanceof ArchiveError) {
+      res.status(400).json({
+        success: false,
+        error: error.message,
+        details: error.skipped.length > 0 ? error.skipped : undefined,
+      });
+      return;
+    }
+    logError('❌ Error uploading timetable archive', error);
+    next(error);
+  } finally {
+    // The archive itself is not kept once its files are unpacked
+    await fs.unlink(req.file.path).catch(() => {
+      // Ignore cleanup errors
+    });
+  }
+};
+
+/**
+ * Get the progress of a batch upload
+ * GET /api/upload/batch/:batchId
+ */
+export const getBatchStatus = async (
+  req: Request<{ batchId: string }>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const batch = await getUploadBatch(requestSchool(req).id, req.params.batchId);
+    if (!batch) {
+      res.status(404).json({
+        success: false,
+        error: 'Batch not found',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Batch status retrieved',
+      data: batch,
+    });
+  } catch (error) {
+    logError('Error getting batch status', error);
+    next(error);
+  }
+};
+
+/**
+ * Download the outcome of every file of a batch upload as CSV
+ * GET /api/upload/batch/:batchId/summary
+ */
+export const downloadBatchSummary = async (
+  req: Request<{ batchId: string }>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const batch = await getUploadBatch(requestSchool(req).id, req.params.batchId);
+    if (!batch) {
+      res.status(404).json({
+        success: false,
+        error: 'Batch not found',
+      });
+      return;
+    }
+
+    res.type(SPREADSHEET_CONTENT_TYPES.csv);
+    res.attachment(`batch-${batch.id}-summary.csv`);
+    res.send(buildBatchSummary(batch));
+  } catch (error) {
+    logError('Error building batch summary', error);
+    next(error);
+  }
+};
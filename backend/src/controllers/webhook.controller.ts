@@ -0,0 +1,336 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { WebhookDeliveryStatus, type WebhookDelivery, type WebhookSubscription } from '@prisma/client';
+import { logInfo, logError } from '../utils/logger';
+import {
+  WEBHOOK_EVENTS,
+  createWebhookSubscription,
+  deleteWebhookSubscription,
+  findWebhookSubscription,
+  listWebhookDeliveries,
+  listWebhookSubscriptions,
+  redeliverWebhook,
+  updateWebhookSubscription,
+} from '../services/webhook.service';
+import { WebhookTargetError } from '../services/webhook-target.service';
+import { prisma } from '../services/database.service';
+import { requestSchool } from '../middleware/tenant';
+
+/**
+ * Webhook Controller
+ * Manages the webhook subscriptions of the requesting school and their delivery log
+ */
+
+const WebhookCreateSchema = z.object({
+  url: z.url({ protocol: /^https?$/ }).max(2000),
+  events: z
+    .array(z.enum(WEBHOOK_EVENTS))
+    .min(1)
+    .transform((events) => Array.from(new Set(events))),
+  description: z.string().trim().max(200).nullable().optional(),
+  active: z.boolean().optional(),
+});
+
+const WebhookUpdateSchema = WebhookCreateSchema.partial();
+
+const DeliveryQuerySchema = z.object({
+  status: z.enum(WebhookDeliveryStatus).optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+});
+
+// The signing secret is left out; it is only returned on creation
+function toResponse(subscription: WebhookSubscription) {
+  return {
+    id: subscription.id,
+    url: subscription.url,
+    events: subscription.events,
+    description: subscription.description,
+    active: subscription.active,
+    createdAt: subscription.createdAt,
+    updatedAt: subscription.updatedAt,
+  };
+}
+
+function toDeliveryResponse(delivery: WebhookDelivery) {
+  return {
+    id: delivery.id,
+    eventId: delivery.eventId,
+    event: delivery.event,
+    status: delivery.status,
+    attempts: delivery.attempts,
+    responseStatus: delivery.responseStatus,
+    responseBody: delivery.responseBody,
+    error: delivery.error,
+    lastAttemptAt: delivery.lastAttemptAt,
+    deliveredAt: delivery.deliveredAt,
+    redeliveryOfId: delivery.redeliveryOfId,
+    createdAt: delivery.createdAt,
+    payload: delivery.payload,
+  };
+}
+
+function targetNotAllowed(res: Response, error: WebhookTargetError) {
+  return res.status(400).json({
+    success: false,
+    error: error.message,
+    details: { url: error.url, reason: error.reason },
+  });
+}
+
+function notFound(res: Response) {
+  return res.status(404).json({
+    success: false,
+    error: 'Webhook not found',
+  });
+}
+
+/**
+ * Create a webhook subscription
+ * POST /api/v1/webhooks
+ * Body: { url, events: ['timetable.completed', ...], description?, active? }
+ */
+export async function createWebhook(req: Request, res: Response, next: NextFunction) {
+  try {
+    const validationResult = WebhookCreateSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation error',
+        details: validationResult.error.issues,
+      });
+    }
+
+    const subscription = await createWebhookSubscription(requestSchool(req).id, validationResult.data);
+
+    logInfo(`Created webhook ${subscription.id}`, { url: subscription.url, events: subscription.events });
+
+    return res.status(201).json({
+      success: true,
+      message: 'Webhook created. The signing secret cannot be shown again; delete the webhook and create a new one if it is lost',
+      data: {
+        ...toResponse(subscription),
+        secret: subscription.secret,
+      },
+    });
+  } catch (error) {
+    if (error instanceof WebhookTargetError) {
+      return targetNotAllowed(res, error);
+    }
+    logError('Error creating webhook', error);
+    return next(error);
+  }
+}
+
+/**
+ * List webhook subscriptions
+ * GET /api/v1/webhooks
+ */
+export async function listWebhooks(req: Request, res: Response, next: NextFunction) {
+  try {
+    const subscriptions = await listWebhookSubscriptions(requestSchool(req).id);
+
+    return res.json({
+      success: true,
+      data: subscriptions.map(toResponse),
+    });
+  } catch (error) {
+    logError('Error listing webhooks', error);
+    return next(error);
+  }
+}
+
+/**
+ * Get a webhook subscription
+ * GET /api/v1/webhooks/:id
+ */
+export async function getWebhook(req: Request<{ id: string }>, res: Response, next: NextFunction) {
+  try {
+    const subscription = await findWebhookSubscription(requestSchool(req).id, req.params.id);
+    if (!subscription) {
+      return notFound(res);
+    }
+
+    return res.json({
+      success: true,
+      data: toResponse(subscription),
+    });
+  } catch (error) {
+    logError('Error fetching webhook', error);
+    return next(error);
+  }
+}
+
+/**
+ * Update a webhook subscription
+ * PATCH /api/v1/webhooks/:id
+ * Body: { url?, events?, description?, active? }
+ */
+export async function updateWebhook(req: Request<{ id: string }>, res: Response, next: NextFunction) {
+  try {
+    const validationResult = WebhookUpdateSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation error',
+        details: validationResult.error.issues,
+      });
+    }
+
+    const subscription = await updateWebhookSubscription(requestSchool(req).id, req.params.id, validationResult.data);
+    if (!subscription) {
+      return notFound(res);
+    }
+
+    logInfo(`Updated webhook ${subscription.id}`, { ...validationResult.data });
+
+    return res.json({
+      success: true,
+      message: 'Webhook updated successfully',
+      data: toResponse(subscription),
+    });
+  } catch (error) {
+    if (error instanceof WebhookTargetError) {
+      return targetNotAllowed(res, error);
+    }
+    logError('Error updating webhook', error);
+    return next(error);
+  }
+}
+
+/**
+ * Delete a webhook subscription and its delivery log
+ * DELETE /api/v1/webhooks/:id
+ */
+export async function deleteWebhook(req: Request<{ id: string }>, res: Response, next: NextFunction) {
+  try {
+    const subscription = await deleteWebhookSubscription(requestSchool(req).id, req.params.id);
+    if (!subscription) {
+      return notFound(res);
+    }
+
+    logInfo(`Deleted webhook ${subscription.id}`);
+
+    return res.json({
+      success: true,
+      message: 'Webhook deleted successfully',
+    });
+  } catch (error) {
+    logError('Error deleting webhook', error);
+    return next(error);
+  }
+}
+
+/**
+ * List the deliveries of a webhook, newest first
+ * GET /api/v1/webhooks/:id/deliveries?status=FAILED&limit=50
+ */
+export async function listDeliveries(req: Request<{ id: string }>, res: Response, next: NextFunction) {
+  try {
+    const queryResult = DeliveryQuerySchema.safeParse(req.query);
+    if (!queryResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid query parameters',
+        details: queryResult.error.issues,
+      });
+    }
+
+    const subscription = await findWebhookSubscription(requestSchool(req).id, req.params.id);
+    if (!subscription) {
+      return notFound(res);
+    }
+
+    const deliveries = await listWebhookDeliveries(subscription.id, queryResult.data);
+
+    return res.json({
+      success: true,
+      data: deliveries.map(toDeliveryResponse),
+    });
+  } catch (error) {
+    logError('Error listing webhook deliveries', error);
+    return next(error);
+  }
+}
+
+/**
+ * Send a delivery again (same event id and body, new delivery)
+ * POST /api/v1/webhooks/:id/deliveries/:deliveryId/redeliver
+ */
+export async function redeliverDelivery(
+  req: Request<{ id: string; deliveryId: string }>,
+  res: Response,
+  next: NextFunction
+) {
+  try {
+    const { id, deliveryId } = req.params;
+
+    const subscription = await findWebhookSubscription(requestSchool(req).id, id);
+    const delivery =
+      subscription &&
+      (await prisma.webhookDelivery.findFirst({ where: { id: deliveryId, subscriptionId: subscription.id } }));
+    if (!delivery) {
+      return res.status(404).json({
+        success: false,
+        error: 'Webhook delivery not found',
+      });
+    }
+
+    if (!subscription.active) {
+      return res.status(409).json({
+        success: false,
+        error: 'Webhook is disabled',
+      });
+    }
+
+    const redelivery = await redeliverWebhook(delivery);
+
+    logInfo(`Redelivering webhook delivery ${delivery.id} as ${redelivery.id}`);
+
+    return res.status(202).json({
+      success: true,
+      message: 'Delivery queued',
+      data: toDeliveryResponse(redelivery),
+    });
+  } catch (error) {
+    logError('Error redelivering webhook', error);
+    return next(error);
+  }
+}
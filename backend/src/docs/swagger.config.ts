@@ -74,6 +74,12 @@ An intelligent document processing system that extracts structured timetable dat
 - OCR: 95%+ (with AI Vision APIs)
 - PDF: 95% (text), 95% (scanned), 90% (mixed)
 - DOCX: 95% (text), 95% (images), 92% (hybrid)
+
+## Schools
+
+Every teacher, timetable, catalog entry and review item belongs to one school.
+Send the school's API key in the \`X-School-Key\` header on every request; requests without a valid key get \`401\`.
+Keys are issued when a school is created or with \`POST /api/v1/schools/{id}/api-key\` (both need \`X-Admin-Key\`).
       `,
       contact: {
         name: 'API Support',
@@ -111,6 +117,34 @@ An intelligent document processing system that extracts structured timetable dat
         name: 'Status',
         description: 'Job status and monitoring',
       },
+      {
+        name: 'Catalog',
+        description: 'Canonical subjects, rooms and class groups with aliases',
+      },
+      {
+        name: 'Reviews',
+        description: 'Extracted values flagged for review',
+      },
+      {
+        name: 'Schools',
+        description: 'Schools (tenants) and their extraction settings',
+      },
+      {
+        name: 'Teachers',
+        description: 'Teacher listing, editing, fuzzy matching and merging',
+      },
+      {
+        name: 'Feeds',
+        description: 'Subscribable calendar feeds of teachers, rooms and class groups',
+      },
+      {
+        name: 'Webhooks',
+        description: 'Signed notifications of timetable events with a delivery log',
+      },
+      {
+        name: 'Ingestion',
+        description: 'Timetables picked up from a hot folder or emailed to a mailbox',
+      },
     ],
     components: {
       schemas: {
@@ -149,6 +183,22 @@ An intelligent document processing system that extracts structured timetable dat
               nullable: true,
               example: 'john.smith@school.edu',
             },
+            aliases: {
+              type: 'array',
+              items: { type: 'string' },
+              example: ['Mr J. Smith'],
+              description: 'Other spellings of the name, matched on upload',
+            },
+            timetablesCount: {
+              type: 'integer',
+              example: 3,
+              description: 'Teacher endpoints only',
+            },
+            matchScore: {
+              type: 'number',
+              example: 0.9,
+              description: 'Name similarity (0-1), only when searching',
+            },
             createdAt: {
               type: 'string',
               format: 'date-time',
@@ -189,7 +239,7 @@ An intelligent document processing system that extracts structured timetable dat
             },
             status: {
               type: 'string',
-              enum: ['PENDING', 'PROCESSING', 'COMPLETED', 'FAILED'],
+              enum: ['PENDING', 'PROCESSING', 'COMPLETED', 'FAILED', 'CANCELLED'],
               example: 'COMPLETED',
             },
             extractedData: {
@@ -208,6 +258,52 @@ An intelligent document processing system that extracts structured timetable dat
               nullable: true,
               example: 'ai-vision',
             },
+            academicYear: {
+              type: 'string',
+              nullable: true,
+              example: '2024-2025',
+            },
+            semester: {
+              type: 'string',
+              nullable: true,
+              example: 'Term 1',
+            },
+            termStartDate: {
+              type: 'string',
+              format: 'date',
+              nullable: true,
+              example: '2025-09-03',
+              description: 'First day of the term (set through PATCH; bounds calendar exports)',
+            },
+            termEndDate: {
+              type: 'string',
+              format: 'date',
+              nullable: true,
+              example: '2025-12-19',
+            },
+            cycleLength: {
+              type: 'integer',
+              minimum: 1,
+              example: 2,
+              description: 'Weeks in the rotation (2 for Week A / Week B timetables)',
+            },
+            revision: {
+              type: 'integer',
+              nullable: true,
+              example: 2,
+              description: 'Upload revision within the teacher\'s academic year and semester',
+            },
+            isCurrent: {
+              type: 'boolean',
+              example: true,
+              description: 'Whether this is the latest revision for the teacher\'s term',
+            },
+            previousRevisionId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+              description: 'Revision this upload replaced',
+            },
             createdAt: {
               type: 'string',
               format: 'date-time',
@@ -234,6 +330,12 @@ An intelligent document processing system that extracts structured timetable dat
               enum: ['MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY', 'SATURDAY', 'SUNDAY'],
               example: 'MONDAY',
             },
+            weekIndex: {
+              type: 'integer',
+              minimum: 1,
+              example: 1,
+              description: 'Week of the rotation cycle (1 = Week 1 / Week A)',
+            },
             startTime: {
               type: 'string',
               pattern: '^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$',
@@ -271,8 +373,38 @@ An intelligent document processing system that extracts structured timetable dat
               type: 'number',
               format: 'float',
               minimum: 0,
-              maximum: 1,
-              example: 0.95,
+              maximum: 100,
+              example: 88,
+              description: 'Per-block confidence score',
+            },
+            confidenceFactors: {
+              type: 'object',
+              nullable: true,
+              description: 'Evidence behind the confidence score',
+              properties: {
+                base: { type: 'number', example: 92 },
+                ocrWordConfidence: { type: 'number', nullable: true, example: 87 },
+                agreement: {
+                  type: 'number',
+                  nullable: true,
+                  example: 0.75,
+                  description: 'Share of the block found in a second provider read of low-confidence images (null without one)',
+                },
+                readings: { type: 'integer', example: 1, description: 'Cross-check reads behind agreement' },
+                repairs: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  example: ['startTime: "9:00" → "09:00"'],
+                },
+                conflicts: { type: 'integer', example: 0 },
+                duplicates: { type: 'integer', example: 0 },
+              },
+            },
+            humanEditedFields: {
+              type: 'array',
+              items: { type: 'string' },
+              example: ['subject'],
+              description: 'Fields corrected by a person; kept when the timetable is reprocessed',
             },
             createdAt: {
               type: 'string',
@@ -284,6 +416,101 @@ An intelligent document processing system that extracts structured timetable dat
             },
           },
         },
+        TimetableArtifact: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+            },
+            kind: {
+              type: 'string',
+              enum: ['OCR_TEXT', 'OCR_READINGS', 'PAGE_IMAGE', 'LLM_OUTPUT'],
+              example: 'OCR_TEXT',
+            },
+            fileName: {
+              type: 'string',
+              example: 'extracted-text.txt',
+            },
+            mimeType: {
+              type: 'string',
+              example: 'text/plain',
+            },
+            size: {
+              type: 'integer',
+              example: 2048,
+            },
+            run: {
+              type: 'string',
+              nullable: true,
+              description: 'Processing run (job attempt) that produced the artifact',
+              example: 'job-42-attempt-1',
+            },
+            metadata: {
+              type: 'object',
+              nullable: true,
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+            downloadUrl: {
+              type: 'string',
+              example: '/api/v1/timetables/123e4567-e89b-12d3-a456-426614174000/artifacts/9b2f7c1e-0000-4000-8000-000000000000',
+            },
+          },
+        },
+        TimeBlockEdit: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+            },
+            timeBlockId: {
+              type: 'string',
+              format: 'uuid',
+              description: 'Block the edit was made on (an earlier-run block for carried-over corrections)',
+            },
+            field: {
+              type: 'string',
+              example: 'subject',
+            },
+            oldValue: {
+              type: 'string',
+              nullable: true,
+              example: 'Phys1cs',
+            },
+            newValue: {
+              type: 'string',
+              nullable: true,
+              example: 'Physics',
+            },
+            source: {
+              type: 'string',
+              enum: ['MANUAL', 'REVERT'],
+            },
+            actor: {
+              type: 'string',
+              nullable: true,
+              example: 'j.smith',
+            },
+            revertOfId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+              description: 'Edit undone by this one',
+            },
+            reverted: {
+              type: 'boolean',
+              description: 'Whether a later edit undid this one',
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+          },
+        },
         TimeBlockUpdate: {
           type: 'object',
           properties: {
@@ -292,6 +519,12 @@ An intelligent document processing system that extracts structured timetable dat
               enum: ['MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY', 'SATURDAY', 'SUNDAY'],
               example: 'TUESDAY',
             },
+            weekIndex: {
+              type: 'integer',
+              minimum: 1,
+              example: 2,
+              description: 'Move the block to another week of the rotation (at most cycleLength)',
+            },
             startTime: {
               type: 'string',
               pattern: '^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$',
@@ -328,19 +561,726 @@ An intelligent document processing system that extracts structured timetable dat
             },
           },
         },
-      },
-      responses: {
-        BadRequest: {
-          description: 'Bad Request - Invalid input',
-          content: {
-            'application/json': {
-              schema: {
-                $ref: '#/components/schemas/Error',
-              },
-              example: {
-                success: false,
-                error: 'Validation Error',
-                message: 'Invalid request parameters',
+        TimeBlockInput: {
+          type: 'object',
+          required: ['dayOfWeek', 'startTime', 'endTime', 'subject'],
+          properties: {
+            dayOfWeek: {
+              type: 'string',
+              enum: ['MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY', 'SATURDAY', 'SUNDAY'],
+              example: 'MONDAY',
+            },
+            weekIndex: {
+              type: 'integer',
+              minimum: 1,
+              default: 1,
+              description: 'Week of the rotation (at most cycleLength)',
+            },
+            startTime: {
+              type: 'string',
+              example: '09:00',
+              description: 'HH:mm; loose formats such as "9.00" or "2pm" are repaired',
+            },
+            endTime: {
+              type: 'string',
+              example: '10:00',
+            },
+            subject: {
+              type: 'string',
+              example: 'Mathematics',
+            },
+            classroom: {
+              type: 'string',
+              example: 'Room 101',
+            },
+            grade: {
+              type: 'string',
+              example: 'Year 7',
+            },
+            section: {
+              type: 'string',
+              example: 'A',
+            },
+            notes: {
+              type: 'string',
+              example: 'P1',
+            },
+          },
+        },
+        CatalogEntry: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+            },
+            name: {
+              type: 'string',
+              example: 'Mathematics',
+            },
+            aliases: {
+              type: 'array',
+              items: { type: 'string' },
+              example: ['Maths', 'Math'],
+            },
+            timeBlocksCount: {
+              type: 'integer',
+              example: 42,
+              description: 'Time blocks linked to this entry',
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+            updatedAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+          },
+        },
+        CatalogEntryInput: {
+          type: 'object',
+          required: ['name'],
+          properties: {
+            name: {
+              type: 'string',
+              example: 'Mathematics',
+            },
+            aliases: {
+              type: 'array',
+              items: { type: 'string' },
+              example: ['Maths', 'Math'],
+              description: 'Other spellings; case, spacing and punctuation are ignored when matching',
+            },
+          },
+        },
+        ReviewItem: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+            },
+            kind: {
+              type: 'string',
+              enum: ['UNMATCHED_SUBJECT', 'UNMATCHED_ROOM', 'UNMATCHED_CLASS_GROUP', 'TEACHER_NAME_CONFLICT'],
+              example: 'UNMATCHED_SUBJECT',
+            },
+            status: {
+              type: 'string',
+              enum: ['OPEN', 'RESOLVED', 'DISMISSED'],
+              example: 'OPEN',
+            },
+            value: {
+              type: 'string',
+              example: 'Maths',
+              description: 'Value as extracted',
+            },
+            timetableId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+            },
+            details: {
+              type: 'object',
+              nullable: true,
+              example: { timeBlockIds: ['123e4567-e89b-12d3-a456-426614174000'] },
+            },
+            resolution: {
+              type: 'string',
+              nullable: true,
+              example: 'Matched subject "Mathematics"',
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+            resolvedAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+            },
+          },
+        },
+        CalendarFeed: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+            },
+            scope: {
+              type: 'string',
+              enum: ['TEACHER', 'ROOM', 'CLASS_GROUP'],
+            },
+            targetId: {
+              type: 'string',
+              format: 'uuid',
+              description: 'Teacher, room or class group shown by the feed',
+            },
+            name: {
+              type: 'string',
+              nullable: true,
+              example: 'Lab 2',
+            },
+            includeBreaks: {
+              type: 'boolean',
+            },
+            revoked: {
+              type: 'boolean',
+            },
+            revokedAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+            },
+            lastAccessedAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+              description: 'Last poll by a calendar app (updated at most hourly)',
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+          },
+        },
+        WebhookSubscription: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+            },
+            url: {
+              type: 'string',
+              example: 'https://sis.example.org/hooks/timetables',
+            },
+            events: {
+              type: 'array',
+              items: {
+                type: 'string',
+                enum: ['timetable.completed', 'timetable.failed', 'timetable.cancelled', 'timetable.updated', 'block.corrected'],
+              },
+            },
+            description: {
+              type: 'string',
+              nullable: true,
+            },
+            active: {
+              type: 'boolean',
+              description: 'Disabled webhooks receive no events',
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+            updatedAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+          },
+        },
+        WebhookDelivery: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+              description: 'Sent as X-Webhook-Delivery',
+            },
+            eventId: {
+              type: 'string',
+              format: 'uuid',
+              description: 'Sent as X-Webhook-Id; the same for redeliveries, so receivers can ignore duplicates',
+            },
+            event: {
+              type: 'string',
+              example: 'timetable.completed',
+            },
+            status: {
+              type: 'string',
+              enum: ['PENDING', 'SUCCEEDED', 'FAILED'],
+            },
+            attempts: {
+              type: 'integer',
+              example: 1,
+            },
+            responseStatus: {
+              type: 'integer',
+              nullable: true,
+              example: 200,
+            },
+            responseBody: {
+              type: 'string',
+              nullable: true,
+              description: 'First 1000 characters of the response to the latest attempt',
+            },
+            error: {
+              type: 'string',
+              nullable: true,
+              example: 'Endpoint answered 503',
+            },
+            lastAttemptAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+            },
+            deliveredAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+            },
+            redeliveryOfId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+            payload: {
+              type: 'object',
+              description: 'Body sent: { id, event, createdAt, schoolId, data }',
+            },
+          },
+        },
+        IngestionSender: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+            },
+            address: {
+              type: 'string',
+              format: 'email',
+              example: 'office@school.example.org',
+            },
+            teacherId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+              description: 'Whose timetables the sender sends; null for staff sending for several teachers',
+            },
+            teacher: {
+              type: 'object',
+              nullable: true,
+              properties: {
+                id: { type: 'string', format: 'uuid' },
+                name: { type: 'string', example: 'Jane Smith' },
+              },
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+          },
+        },
+        IngestionRecord: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+            },
+            source: {
+              type: 'string',
+              enum: ['FOLDER', 'MAILDIR', 'IMAP'],
+            },
+            status: {
+              type: 'string',
+              enum: ['QUEUED', 'REJECTED'],
+            },
+            reference: {
+              type: 'string',
+              description: 'Path in the hot folder, or Message-ID of the email',
+              example: 'CAF3x9Z@mail.example.org',
+            },
+            sender: {
+              type: 'string',
+              nullable: true,
+              example: 'office@school.example.org',
+            },
+            subject: {
+              type: 'string',
+              nullable: true,
+              example: 'Timetables for next term',
+            },
+            fileName: {
+              type: 'string',
+              example: 'Jane Smith.pdf',
+            },
+            reason: {
+              type: 'string',
+              nullable: true,
+              example: 'Unsupported file type (PNG, JPEG, PDF or DOCX expected)',
+            },
+            timetableId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+            },
+            jobId: {
+              type: 'string',
+              nullable: true,
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+          },
+        },
+        UploadBatch: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+            },
+            originalFileName: {
+              type: 'string',
+              example: 'science-department.zip',
+            },
+            status: {
+              type: 'string',
+              enum: ['processing', 'completed'],
+            },
+            progress: {
+              type: 'integer',
+              example: 60,
+              description: 'Percentage of queued files that have finished',
+            },
+            totalFiles: {
+              type: 'integer',
+              example: 5,
+              description: 'Timetables queued from the archive (skipped entries not included)',
+            },
+            counts: {
+              type: 'object',
+              properties: {
+                pending: { type: 'integer', example: 1 },
+                processing: { type: 'integer', example: 1 },
+                completed: { type: 'integer', example: 2 },
+                failed: { type: 'integer', example: 1 },
+                cancelled: { type: 'integer', example: 0 },
+                skipped: { type: 'integer', example: 1 },
+              },
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+            completedAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+            },
+            files: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  path: {
+                    type: 'string',
+                    example: 'Science/Jane Smith.pdf',
+                    description: 'Path inside the archive',
+                  },
+                  status: {
+                    type: 'string',
+                    enum: ['PENDING', 'PROCESSING', 'COMPLETED', 'FAILED', 'CANCELLED', 'SKIPPED', 'DELETED'],
+                  },
+                  timetableId: {
+                    type: 'string',
+                    format: 'uuid',
+                  },
+                  jobId: {
+                    type: 'string',
+                  },
+                  teacher: {
+                    type: 'object',
+                    properties: {
+                      id: { type: 'string', format: 'uuid' },
+                      name: { type: 'string', example: 'Jane Smith' },
+                    },
+                  },
+                  teacherFrom: {
+                    type: 'string',
+                    enum: ['file_name', 'document'],
+                    description: 'Where the teacher name came from',
+                  },
+                  timeBlocksCount: {
+                    type: 'integer',
+                  },
+                  error: {
+                    type: 'string',
+                    description: 'Extraction error, or why the entry was skipped',
+                    example: 'Unsupported file type (PNG, JPEG, PDF or DOCX expected)',
+                  },
+                },
+              },
+            },
+          },
+        },
+        School: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+            },
+            name: {
+              type: 'string',
+              example: 'Riverside Academy',
+            },
+            slug: {
+              type: 'string',
+              example: 'riverside',
+            },
+            ocrProviderChain: {
+              type: 'array',
+              items: { type: 'string' },
+              example: ['google', 'openai'],
+              description: 'OCR providers tried in order; empty uses the server default (OCR_PROVIDER_CHAIN)',
+            },
+            bellSchedule: {
+              type: 'array',
+              nullable: true,
+              items: { $ref: '#/components/schemas/BellPeriod' },
+            },
+            workingDays: {
+              type: 'array',
+              items: {
+                type: 'string',
+                enum: ['MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY', 'SATURDAY', 'SUNDAY'],
+              },
+              example: ['MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY'],
+            },
+            teachersCount: {
+              type: 'integer',
+              example: 35,
+            },
+            timetablesCount: {
+              type: 'integer',
+              example: 120,
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+            updatedAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+          },
+        },
+        SchoolWithApiKey: {
+          allOf: [
+            { $ref: '#/components/schemas/School' },
+            {
+              type: 'object',
+              properties: {
+                apiKey: {
+                  type: 'string',
+                  example: 'q3Vh0b3J2cG9ZlW1a2V5LWV4YW1wbGUtb25seS0xMjM',
+                  description: 'Send in the X-School-Key header. Shown only in this response; only its hash is stored.',
+                },
+              },
+            },
+          ],
+        },
+        SchoolInput: {
+          type: 'object',
+          required: ['name', 'slug'],
+          properties: {
+            name: {
+              type: 'string',
+              example: 'Riverside Academy',
+            },
+            slug: {
+              type: 'string',
+              pattern: '^[a-z0-9]+(?:-[a-z0-9]+)*$',
+              example: 'riverside',
+            },
+            ocrProviderChain: {
+              type: 'array',
+              items: { type: 'string' },
+              example: ['google', 'openai'],
+            },
+            bellSchedule: {
+              type: 'array',
+              nullable: true,
+              items: { $ref: '#/components/schemas/BellPeriod' },
+              description: 'Given to the LLM so period labels (P1, P2) become times',
+            },
+            workingDays: {
+              type: 'array',
+              items: {
+                type: 'string',
+                enum: ['MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY', 'SATURDAY', 'SUNDAY'],
+              },
+              example: ['SUNDAY', 'MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY'],
+            },
+          },
+        },
+        BellPeriod: {
+          type: 'object',
+          required: ['label', 'startTime', 'endTime'],
+          properties: {
+            label: {
+              type: 'string',
+              example: 'P1',
+            },
+            startTime: {
+              type: 'string',
+              example: '08:30',
+            },
+            endTime: {
+              type: 'string',
+              example: '09:20',
+            },
+          },
+        },
+        QueueState: {
+          type: 'object',
+          properties: {
+            paused: {
+              type: 'boolean',
+              example: false,
+              description: 'A paused queue lets active jobs finish but starts no new ones',
+            },
+            waiting: { type: 'integer', example: 4 },
+            active: { type: 'integer', example: 2 },
+            completed: { type: 'integer', example: 87 },
+            failed: { type: 'integer', example: 3 },
+            delayed: { type: 'integer', example: 0 },
+            total: { type: 'integer', example: 96 },
+          },
+        },
+      },
+      parameters: {
+        SchoolHeader: {
+          in: 'header',
+          name: 'X-School-Key',
+          required: true,
+          schema: {
+            type: 'string',
+          },
+          description: 'API key of the school the request acts for',
+        },
+        CalendarIncludeBreaks: {
+          in: 'query',
+          name: 'includeBreaks',
+          required: false,
+          schema: {
+            type: 'boolean',
+            default: true,
+          },
+          description: 'Include break, lunch, assembly and registration blocks',
+        },
+        CalendarFrom: {
+          in: 'query',
+          name: 'from',
+          required: false,
+          schema: {
+            type: 'string',
+            format: 'date',
+            example: '2025-09-03',
+          },
+          description: 'First day of the calendar (overrides the term start date)',
+        },
+        CalendarTo: {
+          in: 'query',
+          name: 'to',
+          required: false,
+          schema: {
+            type: 'string',
+            format: 'date',
+            example: '2025-12-19',
+          },
+          description: 'Last day of the calendar (overrides the term end date)',
+        },
+        AdminKeyHeader: {
+          in: 'header',
+          name: 'X-Admin-Key',
+          required: true,
+          schema: {
+            type: 'string',
+          },
+          description: 'Value of ADMIN_API_KEY; school and queue administration is disabled when it is not set',
+        },
+        ActorHeader: {
+          in: 'header',
+          name: 'X-Actor',
+          required: false,
+          schema: {
+            type: 'string',
+            example: 'j.smith',
+          },
+          description: 'Name of the person making the change, stored in the edit history',
+        },
+      },
+      responses: {
+        BadRequest: {
+          description: 'Bad Request - Invalid input',
+          content: {
+            'application/json': {
+              schema: {
+                $ref: '#/components/schemas/Error',
+              },
+              example: {
+                success: false,
+                error: 'Validation Error',
+                message: 'Invalid request parameters',
+              },
+            },
+          },
+        },
+        TimeBlockValidation: {
+          description: 'Bad Request - Invalid time blocks or overlapping lessons',
+          content: {
+            'application/json': {
+              schema: {
+                $ref: '#/components/schemas/Error',
+              },
+              example: {
+                success: false,
+                error: 'Validation error',
+                details: ['Overlap: MONDAY 09:30-10:30: Chemistry and MONDAY 09:00-10:00: Physics'],
+              },
+            },
+          },
+        },
+        SpreadsheetValidation: {
+          description: 'Bad Request - Rows of the spreadsheet failed validation (numbered as in the sheet, header = 1)',
+          content: {
+            'application/json': {
+              schema: {
+                $ref: '#/components/schemas/Error',
+              },
+              example: {
+                success: false,
+                error: 'Validation error',
+                details: [
+                  { row: 4, issues: ['dayOfWeek: Invalid option: expected one of "MONDAY"|"TUESDAY"|...'] },
+                  { row: 7, issues: ['Overlaps row 8 (MONDAY 09:30-10:30: Chemistry)'] },
+                ],
+              },
+            },
+          },
+        },
+        Unauthorized: {
+          description: 'Unauthorized - Missing or invalid X-School-Key header',
+          content: {
+            'application/json': {
+              schema: {
+                $ref: '#/components/schemas/Error',
+              },
+              example: {
+                success: false,
+                error: 'Missing or invalid X-School-Key header',
               },
             },
           },
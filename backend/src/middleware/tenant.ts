@@ -0,0 +1,85 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import type { School } from '@prisma/client';
+import { findSchoolByApiKey } from '../services/school.service';
+
+declare global {
+  namespace Express {
+    interface Request {
+      school?: School; // Set by resolveSchool
+    }
+  }
+}
+
+export const SCHOOL_KEY_HEADER = 'X-School-Key';
+
+/**
+ * Resolve the school a request acts for from its API key (X-School-Key header)
+ * Requests without a valid key are refused; there is no fallback school.
+ */
+export async function resolveSchool(req: Request, res: Response, next: NextFunction) {
+  try {
+    const apiKey = req.get(SCHOOL_KEY_HEADER)?.trim();
+    const school = apiKey ? await findSchoolByApiKey(apiKey) : null;
+
+    if (!school) {
+      return res.status(401).json({
+        success: false,
+        error: `Missing or invalid ${SCHOOL_KEY_HEADER} header`,
+      });
+    }
+
+    req.school = school;
+    return next();
+  } catch (error) {
+    return next(error);
+  }
+}
+
+/**
+ * The school resolved for the request
+ * Only valid behind resolveSchool.
+ */
+export function requestSchool(req: Request): School {
+  if (!req.school) {
+    throw new Error('resolveSchool middleware did not run for this route');
+  }
+  return req.school;
+}
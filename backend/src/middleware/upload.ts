@@ -63,17 +63,18 @@ const storage = multer.diskStorage({
   },
 });
 
+// Timetable document types accepted for upload (also by folder and mailbox ingestion)
+export const UPLOAD_MIME_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/jpg',
+  'application/pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document', // .docx
+];
+
 // File filter to accept only specific file types
 const fileFilter = (_req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
-  const allowedMimeTypes = [
-    'image/png',
-    'image/jpeg',
-    'image/jpg',
-    'application/pdf',
-    'application/vnd.openxmlformats-officedocument.wordprocessingml.document', // .docx
-  ];
-
-  if (allowedMimeTypes.includes(file.mimetype)) {
+  if (UPLOAD_MIME_TYPES.includes(file.mimetype)) {
     cb(null, true);
   } else {
     cb(
@@ -99,6 +100,44 @@ export const uploadSingleFile = upload.single('file');
 // Middleware to handle multiple file uploads
 export const uploadMultipleFiles = upload.array('files', 5); // Max 5 files
 
+// Spreadsheets of time blocks (CSV or XLSX); browsers often send .csv as application/vnd.ms-excel
+const spreadsheetFilter = (_req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+  const extension = path.extname(file.originalname).toLowerCase();
+
+  if (extension === '.csv' || extension === '.xlsx') {
+    cb(null, true);
+  } else {
+    cb(new Error(`Invalid file type. Only CSV and XLSX files are allowed. Received: ${file.originalname}`));
+  }
+};
+
+// Middleware to handle a spreadsheet import
+export const uploadSpreadsheet = multer({
+  storage,
+  fileFilter: spreadsheetFilter,
+  limits: {
+    fileSize: config.env.MAX_FILE_SIZE,
+  },
+}).single('file');
+
+// ZIP archives of timetables for a batch upload
+const archiveFilter = (_req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+  if (path.extname(file.originalname).toLowerCase() === '.zip') {
+    cb(null, true);
+  } else {
+    cb(new Error(`Invalid file type. Only ZIP archives are allowed. Received: ${file.originalname}`));
+  }
+};
+
+// Middleware to handle a batch upload
+export const uploadArchive = multer({
+  storage,
+  fileFilter: archiveFilter,
+  limits: {
+    fileSize: config.env.MAX_ARCHIVE_SIZE, // 50MB default
+  },
+}).single('file');
+
 // Helper to delete file
 export const deleteFile = (filePath: string): void => {
   try {
@@ -0,0 +1,94 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+import { FlowProducer, JobsOptions } from 'bullmq';
+import { config } from '../config/env';
+import { TimetableJobData, timetableQueue } from './timetable.queue';
+
+// Job data interface
+export interface BatchJobData {
+  batchId: string;
+  schoolId: string;
+}
+
+// Redis connection config for BullMQ
+const connection = {
+  host: config.env.REDIS_HOST,
+  port: config.env.REDIS_PORT,
+  password: config.env.REDIS_PASSWORD,
+};
+
+export const BATCH_QUEUE_NAME = 'upload-batches';
+
+const batchJobOptions: JobsOptions = {
+  attempts: 3,
+  backoff: {
+    type: 'exponential',
+    delay: 2000,
+  },
+  // The batch itself is kept in the database
+  removeOnComplete: true,
+  removeOnFail: {
+    count: 50,
+  },
+};
+
+// Flows are added atomically: the parent and all its children, or nothing
+export const batchFlowProducer = new FlowProducer({ connection });
+
+/**
+ * Queue a batch: one timetable job per file under a parent job that runs once they have all finished
+ * Flows do not pick up queue defaults, so the timetable queue's options are applied to each child.
+ */
+export const addBatchFlow = async (data: BatchJobData, children: TimetableJobData[]) => {
+  return await batchFlowProducer.add({
+    name: 'complete-batch',
+    queueName: BATCH_QUEUE_NAME,
+    data,
+    opts: { ...batchJobOptions, jobId: `batch-${data.batchId}` },
+    children: children.map((child) => ({
+      name: 'process-timetable',
+      queueName: timetableQueue.name,
+      data: child,
+      // A child that fails for good must not leave the parent waiting forever
+      opts: { ...timetableQueue.defaultJobOptions, ignoreDependencyOnFailure: true },
+    })),
+  });
+};
+
+export default batchFlowProducer;
@@ -0,0 +1,93 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+import { Queue } from 'bullmq';
+import { config } from '../config/env';
+import { logInfo } from '../utils/logger';
+
+export type IngestionSourceName = 'folder' | 'maildir' | 'imap';
+
+// Job data interface
+export interface IngestionJobData {
+  source: IngestionSourceName;
+}
+
+// Redis connection config for BullMQ
+const connection = {
+  host: config.env.REDIS_HOST,
+  port: config.env.REDIS_PORT,
+  password: config.env.REDIS_PASSWORD,
+};
+
+// Create ingestion queue; a missed poll is simply made up by the next one
+export const ingestionQueue = new Queue<IngestionJobData>('ingestion', {
+  connection,
+  defaultJobOptions: {
+    removeOnComplete: true,
+    removeOnFail: {
+      count: 20,
+    },
+  },
+});
+
+/**
+ * Poll every configured source at INGEST_POLL_INTERVAL and stop polling unconfigured ones
+ * Schedulers live in Redis, so with several API instances each source is still polled once.
+ */
+export const scheduleIngestion = async () => {
+  const sources: Record<IngestionSourceName, string | undefined> = {
+    folder: config.env.INGEST_DIR,
+    maildir: config.env.INGEST_MAILDIR,
+    imap: config.env.INGEST_IMAP_URL,
+  };
+
+  for (const [source, setting] of Object.entries(sources) as Array<[IngestionSourceName, string | undefined]>) {
+    if (setting) {
+      await ingestionQueue.upsertJobScheduler(
+        `poll-${source}`,
+        { every: config.env.INGEST_POLL_INTERVAL },
+        { name: 'poll', data: { source } }
+      );
+      logInfo(`📥 Ingestion: polling ${source} every ${config.env.INGEST_POLL_INTERVAL / 1000}s`);
+    } else {
+      await ingestionQueue.removeJobScheduler(`poll-${source}`);
+    }
+  }
+};
+
+export default ingestionQueue;
@@ -0,0 +1,91 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+import { Worker, Job } from 'bullmq';
+import { IngestionStatus, type IngestionRecord } from '@prisma/client';
+import { config } from '../config/env';
+import { IngestionJobData } from './ingestion.queue';
+import { pollHotFolder, pollImapMailbox, pollMaildir } from '../services/ingestion.service';
+
+// Redis connection config for BullMQ
+const connection = {
+  host: config.env.REDIS_HOST,
+  port: config.env.REDIS_PORT,
+  password: config.env.REDIS_PASSWORD,
+};
+
+// Worker processor function; returns how many files were queued and rejected
+async function pollSource(job: Job<IngestionJobData>) {
+  let records: IngestionRecord[] = [];
+  switch (job.data.source) {
+    case 'folder':
+      if (config.env.INGEST_DIR) records = await pollHotFolder(config.env.INGEST_DIR);
+      break;
+    case 'maildir':
+      if (config.env.INGEST_MAILDIR) records = await pollMaildir(config.env.INGEST_MAILDIR);
+      break;
+    case 'imap':
+      if (config.env.INGEST_IMAP_URL) records = await pollImapMailbox(config.env.INGEST_IMAP_URL);
+      break;
+  }
+
+  const queued = records.filter((record) => record.status === IngestionStatus.QUEUED).length;
+  return { queued, rejected: records.length - queued };
+}
+
+// Create worker; one poll at a time so no file is picked up twice
+export const ingestionWorker = new Worker<IngestionJobData>('ingestion', pollSource, {
+  connection,
+  concurrency: 1,
+});
+
+ingestionWorker.on('failed', (job: Job<IngestionJobData> | undefined, error: Error) => {
+  console.error(`❌ Ingestion worker: polling ${job?.data.source} failed:`, error.message);
+});
+
+ingestionWorker.on('error', (error: Error) => {
+  console.error('❌ Ingestion worker error:', error);
+});
+
+// Close worker
+export const closeIngestionWorker = async () => {
+  await ingestionWorker.close();
+  console.log('✅ Ingestion worker closed');
+};
+
+export default ingestionWorker;
@@ -38,24 +38,34 @@
 
 
 import { Queue, Job, QueueEvents } from 'bullmq';
+import Redis from 'ioredis';
 import { config } from '../config/env';
+import { databaseService } from '../services/database.service';
+import type { ProviderAttempt } from '../services/providers/provider.registry';
+import type { ExtractionOverrides, PageFile } from '../services/extraction.service';
 
 // Job data interface
 export interface TimetableJobData {
   timetableId: string;
+  schoolId: string; // Job status is only visible to this school
   teacherId: string;
   filePath: string;
   fileType: string;
   fileName: string;
+  overrides?: ExtractionOverrides; // Set when an existing upload is reprocessed
+  pageFiles?: PageFile[]; // Ordered page images of a multi-image upload (filePath is the first)
+  batchId?: string; // Set for the files of a ZIP upload
+  teacherFromDocument?: boolean; // The file name held no teacher name; use the one read from the document
 }
 
 // Job result interface
 export interface TimetableJobResult {
   timetableId: string;
-  status: 'success' | 'failed';
+  status: 'success' | 'failed' | 'cancelled';
   extractedData?: {
     timeBlocks: Array<{
       dayOfWeek: string;
+      weekIndex: number;
       startTime: string;
       endTime: string;
       subject: string;
@@ -68,6 +78,7 @@ export interface TimetableJobResult {
   };
   error?: string;
   processingTime: number;
+  providerAttempts?: ProviderAttempt[];
 }
 
 // Redis connection config for BullMQ
@@ -117,9 +128,22 @@ export const addTimetableJob = async (
   data: TimetableJobData,
   priority?: number
 ): Promise<Job<TimetableJobData>> => {
-  return await timetableQueue.add('process-timetable', data, {
+  const job = await timetableQueue.add('process-timetable', data, {
     priority: priority || 0,
   });
+  await databaseService.setTimetableJob(data.timetableId, job.id!);
+  return job;
+};
+
+// Channel that carries cancellations to whichever worker runs the job
+export const JOB_CANCEL_CHANNEL = 'timetable-processing:cancel';
+
+// Connected on the first cancellation
+const cancelPublisher = new Redis({ ...connection, lazyConnect: true });
+
+// Ask the worker running an active job to stop it
+export const requestJobCancellation = async (jobId: string): Promise<void> => {
+  await cancelPublisher.publish(JOB_CANCEL_CHANNEL, jobId);
 };
 
 // Get job status
@@ -173,6 +197,7 @@ export const cleanQueue = async () => {
 export const closeQueue = async () => {
   await timetableQueue.close();
   await queueEvents.close();
+  cancelPublisher.disconnect();
   console.log('✅ Queue connections closed');
 };
 
@@ -38,11 +38,24 @@
 
 
 import { Worker, Job } from 'bullmq';
+import Redis from 'ioredis';
 import { DayOfWeek, ProcessingStatus } from '@prisma/client';
 import { config } from '../config/env';
-import { TimetableJobData, TimetableJobResult } from './timetable.queue';
-import { extractTimetable } from '../services/extraction.service';
+import { JOB_CANCEL_CHANNEL, TimetableJobData, TimetableJobResult } from './timetable.queue';
+import {
+  extractTimetable,
+  extractTimetableFromImages,
+  type PageExtraction,
+} from '../services/extraction.service';
 import { databaseService } from '../services/database.service';
+import { LOW_CONFIDENCE_THRESHOLD } from '../services/confidence.service';
+import { artifactRun, saveExtractionArtifacts } from '../services/artifact.service';
+import { linkTimeBlocksToCatalog } from '../services/catalog.service';
+import { getSchool, schoolContext, schoolProviderChain } from '../services/school.service';
+import { assignExtractedTeacher, checkExtractedTeacherName } from '../services/teacher.service';
+import { markTimetableCancelled } from '../services/job-control.service';
+import { emitWebhookEvent } from '../services/webhook.service';
+import type { ProviderAttempt } from '../services/providers/provider.registry';
 import { logInfo, logError } from '../utils/logger';
 
 // Redis connection config for BullMQ
@@ -52,15 +65,78 @@ const connection = {
   password: config.env.REDIS_PASSWORD,
 };
 
+/**
+ * Record every vision provider attempt on the job (job logs + processing log)
+ */
+async function recordProviderAttempts(
+  job: Job<TimetableJobData>,
+  timetableId: string,
+  attempts: ProviderAttempt[]
+): Promise<void> {
+  if (attempts.length === 0) return;
+
+  for (const attempt of attempts) {
+    await job.log(
+      `[ocr] ${attempt.provider} ${attempt.status} in ${attempt.latencyMs}ms` +
+        `${attempt.context ? ` (${attempt.context})` : ''}${attempt.error ? `: ${attempt.error}` : ''}`
+    );
+  }
+
+  const succeeded = attempts.filter((attempt) => attempt.status === 'success').length;
+  await databaseService.createProcessingLog({
+    timetableId,
+    step: 'ocr_providers',
+    status: succeeded > 0 ? 'success' : 'failed',
+    message: `${attempts.length} vision provider attempt(s), ${succeeded} succeeded`,
+    duration: attempts.reduce((total, attempt) => total + attempt.latencyMs, 0),
+    metadata: { attempts },
+  });
+}
+
+/**
+ * Record the OCR outcome of each page of a multi-image upload
+ */
+async function recordPageExtractions(
+  job: Job<TimetableJobData>,
+  timetableId: string,
+  pages: PageExtraction[]
+): Promise<void> {
+  for (const page of pages) {
+    await job.log(
+      `[page ${page.page}] ${page.fileName}: ${page.error ? `failed: ${page.error}` : `${page.textLength} chars via ${page.method}`}`
+    );
+    await databaseService.createProcessingLog({
+      timetableId,
+      step: 'ocr_page',
+      status: page.error ? 'failed' : 'success',
+      message: page.error
+        ? `Page ${page.page} (${page.fileName}) could not be read: ${page.error}`
+        : `Page ${page.page} (${page.fileName}): ${page.textLength} characters extracted`,
+      duration: page.processingTime,
+      metadata: { ...page },
+    });
+  }
+}
+
 // Worker processor function
-async function processTimetable(job: Job<TimetableJobData>): Promise<TimetableJobResult> {
+// The signal is aborted when the job is cancelled; OCR and LLM calls stop early and
+// nothing is saved. A job that has started saving its results runs to the end.
+async function processTimetable(
+  job: Job<TimetableJobData>,
+  _token?: string,
+  signal?: AbortSignal
+): Promise<TimetableJobResult> {
   const startTime = Date.now();
-  const { timetableId, filePath, fileType } = job.data;
+  const { timetableId, schoolId, filePath, fileType, overrides, pageFiles, teacherFromDocument } = job.data;
+  let { teacherId } = job.data;
+  let providerAttempts: ProviderAttempt[] = [];
 
   try {
     logInfo(`🔄 Processing timetable: ${timetableId}`, {
       filePath,
       fileType,
+      pages: pageFiles?.length,
+      overrides,
     });
 
     // Update progress - Starting extraction
@@ -68,7 +144,29 @@ async function processTimetable(job: Job<TimetableJobData>): Promise<TimetableJo
 
     // Step 1: Extract timetable data from file
     logInfo('Step 1: Extracting timetable data');
-    const extractionResult = await extractTimetable(filePath, fileType);
+    // The school's provider chain applies unless the reprocess request names one
+    const school = await getSchool(schoolId);
+    if (!school) {
+      throw new Error(`School ${schoolId} no longer exists`);
+    }
+    const extractionOptions = {
+      ...overrides,
+      ocrProviders: overrides?.ocrProviders ?? schoolProviderChain(school),
+      school: schoolContext(school),
+      timetableId,
+      signal,
+    };
+    // Multi-image uploads are OCRed page by page and structured together
+    const extractionResult = pageFiles && pageFiles.length > 1
+      ? await extractTimetableFromImages(pageFiles, extractionOptions)
+      : await extractTimetable(filePath, fileType, extractionOptions);
+    providerAttempts = extractionResult.providerAttempts;
+    await recordProviderAttempts(job, timetableId, providerAttempts);
+    if (extractionResult.pages) {
+      await recordPageExtractions(job, timetableId, extractionResult.pages);
+    }
+    await saveExtractionArtifacts(timetableId, artifactRun(job.id, job.attemptsMade + 1), extractionResult);
+    signal?.throwIfAborted();
     await job.updateProgress(60);
 
     if (!extractionResult.success || !extractionResult.timetableData) {
@@ -85,21 +183,57 @@ async function processTimetable(job: Job<TimetableJobData>): Promise<TimetableJo
     // Update timetable status to PROCESSING
     await databaseService.updateTimetableStatus(timetableId, ProcessingStatus.PROCESSING);
     
-    // Update teacher name with extracted name if available
-    if (extractionResult.timetableData.teacherName && extractionResult.timetableData.teacherName.trim()) {
-      const timetable = await databaseService.getTimetableWithDetails(timetableId);
-      if (timetable) {
-        logInfo('Updating teacher name with extracted value', {
-          oldName: timetable.teacher.name,
-          newName: extractionResult.timetableData.teacherName,
-        });
-        
-        await databaseService.updateTeacher(timetable.teacher.id, {
-          name: extractionResult.timetableData.teacherName,
+    // A batch file without a name in its file name takes the teacher named in the document
+    if (teacherFromDocument) {
+      try {
+        const assigned = await assignExtractedTeacher(timetableId, extractionResult.timetableData.teacherName);
+        if (assigned?.status === 'assigned') teacherId = assigned.teacherId;
+        await databaseService.createProcessingLog({
+          timetableId,
+          step: 'teacher_identity',
+          status: assigned ? 'success' : 'failed',
+          message: !assigned
+            ? 'No teacher name found in the document; the timetable needs to be assigned by hand'
+            : assigned.status === 'assigned'
+              ? `Assigned to ${assigned.created ? 'new' : 'existing'} teacher "${assigned.name}" named in the document`
+              : `Teacher "${extractionResult.timetableData.teacherName}" named in the document flagged for review`,
+          metadata: assigned ? { ...assigned } : undefined,
         });
+      } catch (error) {
+        logError(`Teacher assignment failed for timetable ${timetableId}`, error);
+      }
+    } else {
+      // The name read from the document never renames the teacher; a mismatch goes to review
+      try {
+        const teacherCheck = await checkExtractedTeacherName(
+          timetableId,
+          extractionResult.timetableData.teacherName
+        );
+        if (teacherCheck.status !== 'skipped') {
+          await databaseService.createProcessingLog({
+            timetableId,
+            step: 'teacher_identity',
+            status: 'success',
+            message: teacherCheck.status === 'matched'
+              ? 'Extracted teacher name matches the uploaded teacher'
+              : `Extracted teacher name "${extractionResult.timetableData.teacherName}" flagged for review`,
+            metadata: { ...teacherCheck },
+          });
+        }
+      } catch (error) {
+        logError(`Teacher name check failed for timetable ${timetableId}`, error);
       }
     }
     
+    // Store the academic term so timetables from different terms can be told apart
+    await databaseService.updateTimetableTerm(timetableId, {
+      academicYear: extractionResult.timetableData.academicYear,
+      semester: extractionResult.timetableData.semester,
+    });
+
+    // Week A / Week B timetables store each block with its rotation week
+    await databaseService.updateTimetableCycle(timetableId, extractionResult.timetableData.cycleLength);
+
     // Create processing log
     await databaseService.createProcessingLog({
       timetableId,
@@ -111,16 +245,25 @@ async function processTimetable(job: Job<TimetableJobData>): Promise<TimetableJo
         confidence: extractionResult.confidence,
         processingTime: extractionResult.processingTime,
         extractedTeacherName: extractionResult.timetableData.teacherName,
+        academicYear: extractionResult.timetableData.academicYear,
+        semester: extractionResult.timetableData.semester,
+        cycleLength: extractionResult.timetableData.cycleLength,
+        lowConfidenceBlocks: (extractionResult.blockConfidence || []).filter(
+          (block) => block.score < LOW_CONFIDENCE_THRESHOLD
+        ).length,
       },
     });
     
     await job.updateProgress(80);
 
-    // Save time blocks to database
-    await databaseService.createTimeBlocks(
+    // Save time blocks as a new version with their individual confidence scores
+    // so reprocessing replaces earlier results instead of appending to them
+    const blockConfidence = extractionResult.blockConfidence || [];
+    const savedVersion = await databaseService.createTimeBlockVersion(
       timetableId,
-      extractionResult.timetableData.timeBlocks.map((block) => ({
+      extractionResult.timetableData.timeBlocks.map((block, index) => ({
         dayOfWeek: block.dayOfWeek as DayOfWeek,
+        weekIndex: block.weekIndex,
         startTime: block.startTime,
         endTime: block.endTime,
         subject: block.subject,
@@ -128,15 +271,37 @@ async function processTimetable(job: Job<TimetableJobData>): Promise<TimetableJo
         grade: block.grade,
         section: block.section,
         notes: block.notes,
-        confidence: extractionResult.confidence,
+        confidence: blockConfidence[index]?.score ?? extractionResult.confidence,
+        confidenceFactors: blockConfidence[index]
+          ? { ...blockConfidence[index].factors }
+          : undefined,
       }))
     );
 
+    // Link blocks to the subject / room / class catalogs; unmatched values are flagged for review
+    try {
+      await linkTimeBlocksToCatalog(timetableId);
+    } catch (error) {
+      logError(`Catalog linking failed for timetable ${timetableId}`, error);
+    }
+
     await job.updateProgress(90);
 
     // Update timetable status to COMPLETED
     await databaseService.updateTimetableStatus(timetableId, ProcessingStatus.COMPLETED);
 
+    // A revised upload for the same teacher and term becomes the current revision
+    await databaseService.assignTimetableRevision(timetableId);
+
+    await emitWebhookEvent(schoolId, 'timetable.completed', {
+      timetableId,
+      teacherId,
+      source: overrides ? 'reprocess' : 'upload',
+      version: savedVersion.version,
+      timeBlocksCount: savedVersion.count,
+      confidence: extractionResult.confidence,
+    });
+
     // Step 4: Complete
     await job.updateProgress(100);
 
@@ -153,8 +318,9 @@ async function processTimetable(job: Job<TimetableJobData>): Promise<TimetableJo
       timetableId,
       status: 'success',
       extractedData: {
-        timeBlocks: extractionResult.timetableData.timeBlocks.map((block) => ({
+        timeBlocks: extractionResult.timetableData.timeBlocks.map((block, index) => ({
           dayOfWeek: block.dayOfWeek,
+          weekIndex: block.weekIndex,
           startTime: block.startTime,
           endTime: block.endTime,
           subject: block.subject,
@@ -162,13 +328,32 @@ async function processTimetable(job: Job<TimetableJobData>): Promise<TimetableJo
           grade: block.grade,
           section: block.section,
           notes: block.notes,
-          confidence: extractionResult.confidence,
+          confidence: blockConfidence[index]?.score ?? extractionResult.confidence,
         })),
       },
       processingTime,
+      providerAttempts,
     };
   } catch (error) {
     const processingTime = Date.now() - startTime;
+
+    if (signal?.aborted) {
+      const reason = typeof signal.reason === 'string' ? signal.reason : 'Cancelled by request';
+      logInfo(`⏹️ Timetable processing cancelled: ${timetableId}`);
+      try {
+        await markTimetableCancelled(job.data, reason);
+      } catch (dbError) {
+        logError('Error updating timetable status', dbError);
+      }
+      return {
+        timetableId,
+        status: 'cancelled',
+        error: reason,
+        processingTime,
+        providerAttempts,
+      };
+    }
+
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     logError(`❌ Error processing timetable ${timetableId}`, error);
 
@@ -191,11 +376,18 @@ async function processTimetable(job: Job<TimetableJobData>): Promise<TimetableJo
       logError('Error updating timetable status', dbError);
     }
 
+    await emitWebhookEvent(schoolId, 'timetable.failed', {
+      timetableId,
+      teacherId,
+      error: errorMessage,
+    });
+
     return {
       timetableId,
       status: 'failed',
       error: errorMessage,
       processingTime,
+      providerAttempts,
     };
   }
 }
@@ -231,8 +423,22 @@ timetableWorker.on('active', (job: Job<TimetableJobData>) => {
   console.log(`🔄 Worker: Processing job ${job.id}`);
 });
 
+// Cancellations are published to every worker; the one running the job aborts it
+const cancelSubscriber = new Redis({ ...connection, maxRetriesPerRequest: null });
+
+cancelSubscriber.subscribe(JOB_CANCEL_CHANNEL).catch((error: Error) => {
+  console.error('❌ Worker: Could not subscribe to job cancellations:', error.message);
+});
+
+cancelSubscriber.on('message', (_channel: string, jobId: string) => {
+  if (timetableWorker.cancelJob(jobId, 'Cancelled by request')) {
+    console.log(`⏹️ Worker: Cancelling job ${jobId}`);
+  }
+});
+
 // Close worker
 export const closeWorker = async () => {
+  await cancelSubscriber.quit();
   await timetableWorker.close();
   console.log('✅ Worker closed');
 };
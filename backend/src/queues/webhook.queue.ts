@@ -0,0 +1,80 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+import { Queue } from 'bullmq';
+import { config } from '../config/env';
+
+// Job data interface
+export interface WebhookJobData {
+  deliveryId: string;
+}
+
+// Redis connection config for BullMQ
+const connection = {
+  host: config.env.REDIS_HOST,
+  port: config.env.REDIS_PORT,
+  password: config.env.REDIS_PASSWORD,
+};
+
+// Attempts per delivery; retries wait 30s, 1m, 2m, 4m, 8m, 16m, 32m
+export const WEBHOOK_ATTEMPTS = 8;
+
+// Create webhook delivery queue
+export const webhookQueue = new Queue<WebhookJobData>('webhook-delivery', {
+  connection,
+  defaultJobOptions: {
+    attempts: WEBHOOK_ATTEMPTS,
+    backoff: {
+      type: 'exponential',
+      delay: 30000,
+    },
+    // The delivery log is kept in the database
+    removeOnComplete: true,
+    removeOnFail: {
+      count: 100,
+    },
+  },
+});
+
+// Add a delivery to the queue
+export const addWebhookJob = async (deliveryId: string) => {
+  // Job id = delivery id, so a delivery is never queued twice
+  return await webhookQueue.add('deliver-webhook', { deliveryId }, { jobId: deliveryId });
+};
+
+export default webhookQueue;
@@ -0,0 +1,77 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+import { Worker, Job } from 'bullmq';
+import { config } from '../config/env';
+import { WEBHOOK_ATTEMPTS, WebhookJobData } from './webhook.queue';
+import { attemptWebhookDelivery } from '../services/webhook.service';
+
+// Redis connection config for BullMQ
+const connection = {
+  host: config.env.REDIS_HOST,
+  port: config.env.REDIS_PORT,
+  password: config.env.REDIS_PASSWORD,
+};
+
+// Worker processor function; a thrown error schedules the next attempt
+async function deliverWebhook(job: Job<WebhookJobData>): Promise<void> {
+  const finalAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? WEBHOOK_ATTEMPTS);
+  await attemptWebhookDelivery(job.data.deliveryId, finalAttempt);
+}
+
+// Create worker
+export const webhookWorker = new Worker<WebhookJobData>('webhook-delivery', deliverWebhook, {
+  connection,
+  concurrency: 5,
+});
+
+webhookWorker.on('failed', (job: Job<WebhookJobData> | undefined, error: Error) => {
+  console.error(`❌ Webhook worker: delivery ${job?.data.deliveryId} attempt ${job?.attemptsMade} failed:`, error.message);
+});
+
+webhookWorker.on('error', (error: Error) => {
+  console.error('❌ Webhook worker error:', error);
+});
+
+// Close worker
+export const closeWebhookWorker = async () => {
+  await webhookWorker.close();
+  console.log('✅ Webhook worker closed');
+};
+
+export default webhookWorker;
@@ -0,0 +1,215 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+
+import { Router } from 'express';
+import {
+  listCatalog,
+  getCatalogItem,
+  createCatalogItem,
+  updateCatalogItem,
+  deleteCatalogItem,
+} from '../controllers/catalog.controller';
+
+const router = Router();
+
+/**
+ * @swagger
+ * components:
+ *   parameters:
+ *     CatalogName:
+ *       in: path
+ *       name: catalog
+ *       required: true
+ *       schema:
+ *         type: string
+ *         enum: [subjects, rooms, class-groups]
+ *       description: Which catalog to use
+ *     CatalogEntryId:
+ *       in: path
+ *       name: id
+ *       required: true
+ *       schema:
+ *         type: string
+ *         format: uuid
+ *       description: Catalog entry UUID
+ */
+
+/**
+ * @swagger
+ * /api/v1/catalog/{catalog}:
+ *   get:
+ *     summary: List catalog entries
+ *     description: List the canonical subjects, rooms or class groups with their aliases and the number of linked time blocks
+ *     tags: [Catalog]
+ *     parameters:
+ *       - $ref: '#/components/parameters/CatalogName'
+ *       - in: query
+ *         name: q
+ *         schema:
+ *           type: string
+ *           example: math
+ *         description: Only entries whose name or alias contains this text
+ *     responses:
+ *       200:
+ *         description: Entries retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/CatalogEntry'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalError'
+ *   post:
+ *     summary: Create a catalog entry
+ *     description: |
+ *       Add a canonical name with its aliases. Open review items whose value matches the new entry are
+ *       resolved and their time blocks linked.
+ *     tags: [Catalog]
+ *     parameters:
+ *       - $ref: '#/components/parameters/CatalogName'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CatalogEntryInput'
+ *     responses:
+ *       201:
+ *         description: Entry created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/CatalogEntry'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: The name or an alias already belongs to another entry
+ *       500:
+ *         $ref: '#/components/responses/InternalError'
+ */
+router.get('/:catalog', listCatalog);
+router.post('/:catalog', createCatalogItem);
+
+/**
+ * @swagger
+ * /api/v1/catalog/{catalog}/{id}:
+ *   get:
+ *     summary: Get a catalog entry
+ *     tags: [Catalog]
+ *     parameters:
+ *       - $ref: '#/components/parameters/CatalogName'
+ *       - $ref: '#/components/parameters/CatalogEntryId'
+ *     responses:
+ *       200:
+ *         description: Entry retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/CatalogEntry'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalError'
+ *   patch:
+ *     summary: Update a catalog entry
+ *     description: Rename an entry or replace its aliases. Omitted fields are kept.
+ *     tags: [Catalog]
+ *     parameters:
+ *       - $ref: '#/components/parameters/CatalogName'
+ *       - $ref: '#/components/parameters/CatalogEntryId'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CatalogEntryInput'
+ *     responses:
+ *       200:
+ *         description: Entry updated
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: The name or an alias already belongs to another entry
+ *       500:
+ *         $ref: '#/components/responses/InternalError'
+ *   delete:
+ *     summary: Delete a catalog entry
+ *     description: Linked time blocks keep their extracted text and lose the link
+ *     tags: [Catalog]
+ *     parameters:
+ *       - $ref: '#/components/parameters/CatalogName'
+ *       - $ref: '#/components/parameters/CatalogEntryId'
+ *     responses:
+ *       200:
+ *         description: Entry deleted
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalError'
+ */
+router.get('/:catalog/:id', getCatalogItem);
+router.patch('/:catalog/:id', updateCatalogItem);
+router.delete('/:catalog/:id', deleteCatalogItem);
+
+export default router;
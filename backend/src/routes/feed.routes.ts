@@ -0,0 +1,206 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+import { Router } from 'express';
+import { createFeed, listFeeds, revokeFeed, serveFeed } from '../controllers/feed.controller';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/v1/feeds:
+ *   get:
+ *     summary: List calendar feeds
+ *     description: The school's calendar feeds. Feed URLs are only shown when a feed is created.
+ *     tags: [Feeds]
+ *     parameters:
+ *       - in: query
+ *         name: scope
+ *         schema:
+ *           type: string
+ *           enum: [TEACHER, ROOM, CLASS_GROUP]
+ *       - in: query
+ *         name: targetId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: includeRevoked
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *     responses:
+ *       200:
+ *         description: Calendar feeds
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/CalendarFeed'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       500:
+ *         $ref: '#/components/responses/InternalError'
+ *   post:
+ *     summary: Create a calendar feed
+ *     description: |
+ *       Create a stable .ics URL for a teacher (their current timetable), a room or a class group
+ *       (every current timetable using it). The URL contains a secret token and is only returned here.
+ *     tags: [Feeds]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [scope, targetId]
+ *             properties:
+ *               scope:
+ *                 type: string
+ *                 enum: [TEACHER, ROOM, CLASS_GROUP]
+ *               targetId:
+ *                 type: string
+ *                 format: uuid
+ *               name:
+ *                 type: string
+ *                 description: Calendar name (defaults to the teacher, room or class group name)
+ *               includeBreaks:
+ *                 type: boolean
+ *                 default: true
+ *     responses:
+ *       201:
+ *         description: Calendar feed created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   allOf:
+ *                     - $ref: '#/components/schemas/CalendarFeed'
+ *                     - type: object
+ *                       properties:
+ *                         url:
+ *                           type: string
+ *                           example: https://timetables.example.org/api/feeds/3q2-7wEXAMPLEtokenvalue.ics
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalError'
+ */
+router.get('/', listFeeds);
+router.post('/', createFeed);
+
+/**
+ * @swagger
+ * /api/v1/feeds/{id}:
+ *   delete:
+ *     summary: Revoke a calendar feed
+ *     description: The feed URL stops working immediately
+ *     tags: [Feeds]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Calendar feed revoked
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalError'
+ */
+router.delete('/:id', revokeFeed);
+
+/**
+ * Public feed URLs polled by calendar apps (the token is the only credential)
+ */
+export const publicFeedRouter = Router();
+
+/**
+ * @swagger
+ * /api/feeds/{token}.ics:
+ *   get:
+ *     summary: Calendar feed
+ *     description: |
+ *       iCalendar feed for calendar apps, built from the current time blocks on every request.
+ *       Send If-None-Match / If-Modified-Since to get 304 when nothing changed. No X-School-Key is needed.
+ *     tags: [Feeds]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: iCalendar feed
+ *         headers:
+ *           ETag:
+ *             schema:
+ *               type: string
+ *           Last-Modified:
+ *             schema:
+ *               type: string
+ *         content:
+ *           text/calendar:
+ *             schema:
+ *               type: string
+ *       304:
+ *         description: Not modified since the last poll
+ *       404:
+ *         description: Unknown or revoked feed
+ */
+publicFeedRouter.get('/:token.ics', serveFeed);
+
+export default router;
@@ -0,0 +1,188 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+import { Router } from 'express';
+import { createSender, listSenders, deleteSender, listRecords } from '../controllers/ingestion.controller';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/v1/ingestion/senders:
+ *   get:
+ *     summary: List mail senders
+ *     description: Addresses whose emails to the ingestion mailbox are turned into uploads for this school.
+ *     tags: [Ingestion]
+ *     responses:
+ *       200:
+ *         description: Senders
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/IngestionSender'
+ *       500:
+ *         $ref: '#/components/responses/InternalError'
+ *   post:
+ *     summary: Register a mail sender
+ *     description: |
+ *       Emails from a registered address are routed to this school. With a teacherId every attachment becomes
+ *       a timetable of that teacher; without one (e.g. the school office) the teacher is taken from the file
+ *       name, or from the document when the file name holds no name. Teachers can also email from the address
+ *       stored on their teacher record without being registered. Mail from anyone else is ignored.
+ *       An address can be registered once per school, but not when it is a teacher's address in another school.
+ *       Mail from an address that several schools know (registered or as a teacher's email) is ignored.
+ *     tags: [Ingestion]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [address]
+ *             properties:
+ *               address:
+ *                 type: string
+ *                 format: email
+ *                 example: office@school.example.org
+ *               teacherId:
+ *                 type: string
+ *                 format: uuid
+ *                 nullable: true
+ *     responses:
+ *       201:
+ *         description: Sender registered
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/IngestionSender'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       404:
+ *         description: Teacher not found
+ *       409:
+ *         description: The address is already registered, or is a teacher's address in another school
+ *       500:
+ *         $ref: '#/components/responses/InternalError'
+ */
+router.get('/senders', listSenders);
+router.post('/senders', createSender);
+
+/**
+ * @swagger
+ * /api/v1/ingestion/senders/{id}:
+ *   delete:
+ *     summary: Remove a mail sender
+ *     tags: [Ingestion]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Sender removed
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+router.delete('/senders/:id', deleteSender);
+
+/**
+ * @swagger
+ * /api/v1/ingestion/records:
+ *   get:
+ *     summary: List ingested files
+ *     description: |
+ *       Every file taken from the hot folder or an email, newest first: queued files with their timetable and
+ *       job, rejected ones with the reason (unsupported type, too large, content not matching the type, or an
+ *       email without attachments). Emails from unknown senders are not recorded.
+ *     tags: [Ingestion]
+ *     parameters:
+ *       - in: query
+ *         name: source
+ *         schema:
+ *           type: string
+ *           enum: [FOLDER, MAILDIR, IMAP]
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [QUEUED, REJECTED]
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 200
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: Ingestion records
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/IngestionRecord'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ */
+router.get('/records', listRecords);
+
+export default router;
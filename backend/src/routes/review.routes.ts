@@ -0,0 +1,168 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+
+import { Router } from 'express';
+import { listReviewItems, updateReviewItem } from '../controllers/review.controller';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/v1/reviews:
+ *   get:
+ *     summary: List review items
+ *     description: Extracted values that need a person to check them, such as subjects, rooms and classes that match no catalog entry, or a teacher name that disagrees with the upload
+ *     tags: [Reviews]
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [OPEN, RESOLVED, DISMISSED]
+ *       - in: query
+ *         name: kind
+ *         schema:
+ *           type: string
+ *           enum: [UNMATCHED_SUBJECT, UNMATCHED_ROOM, UNMATCHED_CLASS_GROUP, TEACHER_NAME_CONFLICT]
+ *       - in: query
+ *         name: timetableId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Review items retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ReviewItem'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       500:
+ *         $ref: '#/components/responses/InternalError'
+ */
+router.get('/', listReviewItems);
+
+/**
+ * @swagger
+ * /api/v1/reviews/{id}:
+ *   patch:
+ *     summary: Resolve or dismiss a review item
+ *     description: |
+ *       Resolving with `catalogEntryId` adds the value as an alias of that entry and links every waiting time block.
+ *       Other open items with the same value are resolved too.
+ *       For `TEACHER_NAME_CONFLICT` items, `teacherId` moves the timetable to that teacher and `applyExtractedName`
+ *       renames the teacher to the name read from the document; resolving with neither keeps the uploaded teacher.
+ *     tags: [Reviews]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [status]
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [RESOLVED, DISMISSED]
+ *               catalogEntryId:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Catalog entry the value is an alias of
+ *               teacherId:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Teacher the timetable really belongs to (teacher name conflicts only)
+ *               applyExtractedName:
+ *                 type: boolean
+ *                 description: Rename the teacher to the extracted name (teacher name conflicts only)
+ *               resolution:
+ *                 type: string
+ *                 example: Not a real subject (OCR noise)
+ *     responses:
+ *       200:
+ *         description: Review item updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/ReviewItem'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: Item already resolved or dismissed, or the alias belongs to another entry
+ *       500:
+ *         $ref: '#/components/responses/InternalError'
+ */
+router.patch('/:id', updateReviewItem);
+
+export default router;
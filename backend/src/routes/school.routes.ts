@@ -0,0 +1,250 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+import { Router } from 'express';
+import {
+  listAllSchools,
+  getCurrentSchool,
+  getSchoolById,
+  issueApiKey,
+  registerSchool,
+  updateSchoolSettings,
+} from '../controllers/school.controller';
+import { requireAdmin } from '../middleware/admin';
+import { resolveSchool } from '../middleware/tenant';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/v1/schools:
+ *   get:
+ *     summary: List schools (admin)
+ *     description: Every school (tenant) on this deployment with its teacher and timetable counts
+ *     tags: [Schools]
+ *     parameters:
+ *       - $ref: '#/components/parameters/AdminKeyHeader'
+ *     responses:
+ *       200:
+ *         description: Schools retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/School'
+ *       401:
+ *         description: Missing or invalid X-Admin-Key header
+ *       403:
+ *         description: ADMIN_API_KEY is not set
+ *       500:
+ *         $ref: '#/components/responses/InternalError'
+ *   post:
+ *     summary: Create a school (admin)
+ *     description: |
+ *       Register a new school. The response carries the school's API key once; its data is reached
+ *       by sending that key in the X-School-Key header. Only the key's hash is stored.
+ *     tags: [Schools]
+ *     parameters:
+ *       - $ref: '#/components/parameters/AdminKeyHeader'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/SchoolInput'
+ *     responses:
+ *       201:
+ *         description: School created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/SchoolWithApiKey'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         description: Missing or invalid X-Admin-Key header
+ *       403:
+ *         description: ADMIN_API_KEY is not set
+ *       409:
+ *         description: The slug is already in use
+ *       500:
+ *         $ref: '#/components/responses/InternalError'
+ */
+router.get('/', requireAdmin, listAllSchools);
+router.post('/', requireAdmin, registerSchool);
+
+/**
+ * @swagger
+ * /api/v1/schools/{id}/api-key:
+ *   post:
+ *     summary: Issue a new API key for a school (admin)
+ *     description: |
+ *       Replaces the school's API key; the previous key stops working at once. Use it to give
+ *       the default school (and schools created before keys existed) their first key.
+ *     tags: [Schools]
+ *     parameters:
+ *       - $ref: '#/components/parameters/AdminKeyHeader'
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Key issued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/SchoolWithApiKey'
+ *       401:
+ *         description: Missing or invalid X-Admin-Key header
+ *       403:
+ *         description: ADMIN_API_KEY is not set
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalError'
+ */
+router.post('/:id/api-key', requireAdmin, issueApiKey);
+
+/**
+ * @swagger
+ * /api/v1/schools/current:
+ *   get:
+ *     summary: Get the current school
+ *     description: The school whose API key is sent in the X-School-Key header
+ *     tags: [Schools]
+ *     parameters:
+ *       - $ref: '#/components/parameters/SchoolHeader'
+ *     responses:
+ *       200:
+ *         description: School retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/School'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ */
+router.get('/current', resolveSchool, getCurrentSchool);
+
+/**
+ * @swagger
+ * /api/v1/schools/{id}:
+ *   get:
+ *     summary: Get a school
+ *     description: Only the school whose API key is sent; any other id returns 404
+ *     tags: [Schools]
+ *     parameters:
+ *       - $ref: '#/components/parameters/SchoolHeader'
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: School retrieved successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalError'
+ *   patch:
+ *     summary: Update a school
+ *     description: |
+ *       Change the name, slug or extraction settings. Omitted fields keep their value;
+ *       `bellSchedule: null` clears the bell schedule. New settings apply to uploads processed afterwards.
+ *       Only the school whose API key is sent can be updated; any other id returns 404.
+ *     tags: [Schools]
+ *     parameters:
+ *       - $ref: '#/components/parameters/SchoolHeader'
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/SchoolInput'
+ *     responses:
+ *       200:
+ *         description: School updated
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: The slug is already in use
+ *       500:
+ *         $ref: '#/components/responses/InternalError'
+ */
+router.get('/:id', resolveSchool, getSchoolById);
+router.patch('/:id', resolveSchool, updateSchoolSettings);
+
+export default router;
@@ -0,0 +1,276 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+import { Router } from 'express';
+import {
+  listAllTeachers,
+  matchTeacherName,
+  getTeacherById,
+  updateTeacherById,
+  mergeIntoTeacher,
+} from '../controllers/teacher.controller';
+import { exportTeacherCalendar } from '../controllers/timetable.controller';
+
+const router = Router();
+
+/**
+ * @swagger
+ * components:
+ *   parameters:
+ *     TeacherId:
+ *       in: path
+ *       name: id
+ *       required: true
+ *       schema:
+ *         type: string
+ *         format: uuid
+ *       description: Teacher UUID
+ */
+
+/**
+ * @swagger
+ * /api/v1/teachers:
+ *   get:
+ *     summary: List teachers
+ *     description: Teachers of the current school by name, or ranked by name similarity when `q` is given
+ *     tags: [Teachers]
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         schema:
+ *           type: string
+ *           example: j smith
+ *         description: Fuzzy name search (titles, case, word order and initials are ignored)
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Teachers retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Teacher'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       500:
+ *         $ref: '#/components/responses/InternalError'
+ */
+router.get('/', listAllTeachers);
+
+/**
+ * @swagger
+ * /api/v1/teachers/match:
+ *   get:
+ *     summary: Match a name against existing teachers
+ *     description: The closest teachers of the current school for a name, e.g. one read from a timetable, best first
+ *     tags: [Teachers]
+ *     parameters:
+ *       - in: query
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: Mr J. Srnith
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 5
+ *           maximum: 20
+ *     responses:
+ *       200:
+ *         description: Candidate teachers with their matchScore (0-1) and the name or alias that matched
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       500:
+ *         $ref: '#/components/responses/InternalError'
+ */
+router.get('/match', matchTeacherName);
+
+/**
+ * @swagger
+ * /api/v1/teachers/{id}:
+ *   get:
+ *     summary: Get a teacher
+ *     description: The teacher with a summary of each of their timetables
+ *     tags: [Teachers]
+ *     parameters:
+ *       - $ref: '#/components/parameters/TeacherId'
+ *     responses:
+ *       200:
+ *         description: Teacher retrieved successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalError'
+ *   patch:
+ *     summary: Update a teacher
+ *     description: |
+ *       Change the name, email or aliases. A renamed teacher keeps the old name as an alias.
+ *       `email: null` clears the email.
+ *     tags: [Teachers]
+ *     parameters:
+ *       - $ref: '#/components/parameters/TeacherId'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: John Smith
+ *               email:
+ *                 type: string
+ *                 nullable: true
+ *                 example: john.smith@school.edu
+ *               aliases:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 example: ['Mr J. Smith']
+ *     responses:
+ *       200:
+ *         description: Teacher updated
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: The email belongs to another teacher of the school
+ *       500:
+ *         $ref: '#/components/responses/InternalError'
+ */
+router.get('/:id', getTeacherById);
+router.patch('/:id', updateTeacherById);
+
+/**
+ * @swagger
+ * /api/v1/teachers/{id}/merge:
+ *   post:
+ *     summary: Merge duplicate teachers
+ *     description: |
+ *       Moves every timetable of the source teachers to this teacher, keeps their names as aliases and deletes them.
+ *       Revision chains are rebuilt so each term has one current timetable.
+ *     tags: [Teachers]
+ *     parameters:
+ *       - $ref: '#/components/parameters/TeacherId'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [sourceIds]
+ *             properties:
+ *               sourceIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *     responses:
+ *       200:
+ *         description: Teachers merged
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalError'
+ */
+router.post('/:id/merge', mergeIntoTeacher);
+
+/**
+ * @swagger
+ * /api/v1/teachers/{id}/calendar.ics:
+ *   get:
+ *     summary: Export a teacher's current timetable as iCalendar
+ *     description: |
+ *       The teacher's current timetable (latest term, or the term given) as an .ics file for calendar apps.
+ *       Each time block becomes a weekly recurring event bounded by the term dates.
+ *     tags: [Teachers]
+ *     parameters:
+ *       - $ref: '#/components/parameters/TeacherId'
+ *       - in: query
+ *         name: academicYear
+ *         schema:
+ *           type: string
+ *         example: 2024-2025
+ *       - in: query
+ *         name: semester
+ *         schema:
+ *           type: string
+ *         example: Term 1
+ *       - $ref: '#/components/parameters/CalendarIncludeBreaks'
+ *       - $ref: '#/components/parameters/CalendarFrom'
+ *       - $ref: '#/components/parameters/CalendarTo'
+ *     responses:
+ *       200:
+ *         description: iCalendar file
+ *         content:
+ *           text/calendar:
+ *             schema:
+ *               type: string
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalError'
+ */
+router.get('/:id/calendar.ics', exportTeacherCalendar);
+
+export default router;
@@ -42,8 +42,27 @@ import {
   getTimetableById,
   listTimetables,
   updateTimeBlock,
+  listTimeBlockHistory,
+  revertTimeBlockChange,
+  createTimeBlock,
+  deleteTimeBlock,
+  replaceTimetableBlocks,
+  reprocessTimetable,
+  listTimetableRevisions,
+  diffTimetables,
   deleteTimetable,
+  updateTimetable,
+  exportTimetableCalendar,
+  exportTimetableSpreadsheet,
+  printTimetable,
+  importTimetable,
+  importTimetableBlocks,
 } from '../controllers/timetable.controller';
+import {
+  listTimetableArtifacts,
+  downloadTimetableArtifact,
+} from '../controllers/artifact.controller';
+import { uploadSpreadsheet } from '../middleware/upload';
 
 const router = Router();
 
@@ -63,6 +82,33 @@ const router = Router();
  *           format: uuid
  *         description: Timetable UUID
  *         example: 123e4567-e89b-12d3-a456-426614174000
+ *       - in: query
+ *         name: minConfidence
+ *         schema:
+ *           type: number
+ *           minimum: 0
+ *           maximum: 100
+ *         description: Only return time blocks with confidence at or above this score
+ *       - in: query
+ *         name: maxConfidence
+ *         schema:
+ *           type: number
+ *           minimum: 0
+ *           maximum: 100
+ *         description: Only return time blocks with confidence at or below this score (e.g. 70 for doubtful blocks)
+ *       - in: query
+ *         name: sortBlocks
+ *         schema:
+ *           type: string
+ *           enum: [schedule, confidence:asc, confidence:desc]
+ *           default: schedule
+ *         description: Order of the returned time blocks
+ *       - in: query
+ *         name: week
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *         description: Only return time blocks of this rotation week (Week A = 1, Week B = 2)
  *     responses:
  *       200:
  *         description: Timetable retrieved successfully
@@ -131,11 +177,35 @@ router.get('/:id', getTimetableById);
  *           enum: [PENDING, PROCESSING, COMPLETED, FAILED]
  *         description: Filter by processing status
  *       - in: query
+ *         name: academicYear
+ *         schema:
+ *           type: string
+ *           example: 2024-2025
+ *         description: Filter by academic year (case-insensitive exact match)
+ *       - in: query
+ *         name: semester
+ *         schema:
+ *           type: string
+ *           example: Term 1
+ *         description: Filter by semester or term (case-insensitive exact match)
+ *       - in: query
+ *         name: current
+ *         schema:
+ *           type: boolean
+ *         description: Only list the current revision of each teacher's term
+ *       - in: query
  *         name: sort
  *         schema:
  *           type: string
  *           example: createdAt:desc
  *         description: 'Sort format: field:order (e.g., createdAt:desc, fileName:asc)'
+ *       - in: query
+ *         name: maxBlockConfidence
+ *         schema:
+ *           type: number
+ *           minimum: 0
+ *           maximum: 100
+ *         description: Only timetables with at least one time block at or below this confidence
  *     responses:
  *       200:
  *         description: Timetables retrieved successfully
@@ -190,7 +260,11 @@ router.get('/', listTimetables);
  * /api/v1/timetables/{timetableId}/blocks/{blockId}:
  *   patch:
  *     summary: Update a time block
- *     description: Update specific fields of a time block within a timetable
+ *     description: |
+ *       Update specific fields of a time block within a timetable.
+ *       Each changed field is recorded in the block's edit history and kept when the timetable is reprocessed.
+ *       The edited block is checked like a new one: it must start before it ends and not overlap
+ *       another current block of the same week and day.
  *     tags: [Timetables]
  *     parameters:
  *       - in: path
@@ -207,6 +281,7 @@ router.get('/', listTimetables);
  *           type: string
  *           format: uuid
  *         description: Time block UUID
+ *       - $ref: '#/components/parameters/ActorHeader'
  *     requestBody:
  *       required: true
  *       content:
@@ -257,6 +332,8 @@ router.get('/', listTimetables);
  *         $ref: '#/components/responses/BadRequest'
  *       404:
  *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: The block is no longer current (removed or replaced by a later version)
  *       500:
  *         $ref: '#/components/responses/InternalError'
  */
@@ -264,23 +341,310 @@ router.patch('/:timetableId/blocks/:blockId', updateTimeBlock);
 
 /**
  * @swagger
- * /api/v1/timetables/{id}:
+ * /api/v1/timetables/{timetableId}/blocks:
+ *   post:
+ *     summary: Add a time block
+ *     description: |
+ *       Add a lesson that extraction missed to the current version of the timetable.
+ *       The block is checked like extracted blocks (day and time formats, with the same repairs),
+ *       must start before it ends, stay within the rotation and not overlap another block of the same week and day.
+ *       Every field counts as corrected, so the block is kept when the timetable is reprocessed.
+ *     tags: [Timetables]
+ *     parameters:
+ *       - in: path
+ *         name: timetableId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - $ref: '#/components/parameters/ActorHeader'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TimeBlockInput'
+ *     responses:
+ *       201:
+ *         description: Time block created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/TimeBlock'
+ *       400:
+ *         $ref: '#/components/responses/TimeBlockValidation'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalError'
+ *   put:
+ *     summary: Replace all time blocks
+ *     description: |
+ *       Replace every current block of the timetable in one transaction. The set is checked as a whole
+ *       (the same rules as adding a block) and saved as a new version; the replaced blocks are kept as superseded.
+ *       Corrections on the replaced blocks are not carried over.
+ *     tags: [Timetables]
+ *     parameters:
+ *       - in: path
+ *         name: timetableId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - $ref: '#/components/parameters/ActorHeader'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [timeBlocks]
+ *             properties:
+ *               timeBlocks:
+ *                 type: array
+ *                 maxItems: 500
+ *                 items:
+ *                   $ref: '#/components/schemas/TimeBlockInput'
+ *     responses:
+ *       200:
+ *         description: Time blocks replaced
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     version:
+ *                       type: integer
+ *                       example: 3
+ *                     timeBlocksCount:
+ *                       type: integer
+ *                       example: 25
+ *                     superseded:
+ *                       type: integer
+ *                       example: 24
+ *       400:
+ *         $ref: '#/components/responses/TimeBlockValidation'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalError'
+ */
+router.post('/:timetableId/blocks', createTimeBlock);
+router.put('/:timetableId/blocks', replaceTimetableBlocks);
+
+/**
+ * @swagger
+ * /api/v1/timetables/{timetableId}/blocks/{blockId}:
  *   delete:
- *     summary: Delete a timetable
- *     description: Delete a timetable and all associated time blocks. Also removes the uploaded file from storage.
+ *     summary: Delete a time block
+ *     description: |
+ *       Remove a block that extraction invented. The block is kept as a superseded tombstone with
+ *       its edit history, the removal is recorded as a `deletedAt` edit, and reprocessing removes
+ *       the block the extractor reads for it again.
  *     tags: [Timetables]
  *     parameters:
  *       - in: path
- *         name: id
+ *         name: timetableId
  *         required: true
  *         schema:
  *           type: string
  *           format: uuid
- *         description: Timetable UUID to delete
- *         example: 123e4567-e89b-12d3-a456-426614174000
+ *       - in: path
+ *         name: blockId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - $ref: '#/components/parameters/ActorHeader'
  *     responses:
  *       200:
- *         description: Timetable deleted successfully
+ *         description: Time block deleted
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: The block is no longer current (already removed or replaced by a later version)
+ *       500:
+ *         $ref: '#/components/responses/InternalError'
+ */
+router.delete('/:timetableId/blocks/:blockId', deleteTimeBlock);
+
+/**
+ * @swagger
+ * /api/v1/timetables/{timetableId}/blocks/{blockId}/history:
+ *   get:
+ *     summary: Edit history of a time block
+ *     description: |
+ *       Every manual correction (who changed which field, from what to what, and when), newest first.
+ *       Corrections made before a reprocess are included, since they are carried over to the new run's blocks.
+ *       `fields` tells for each field whether the current value was extracted or corrected by a person.
+ *     tags: [Timetables]
+ *     parameters:
+ *       - in: path
+ *         name: timetableId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: blockId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Edit history
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     timeBlockId:
+ *                       type: string
+ *                       format: uuid
+ *                     version:
+ *                       type: integer
+ *                     fields:
+ *                       type: object
+ *                       additionalProperties:
+ *                         type: object
+ *                         properties:
+ *                           value: {}
+ *                           source:
+ *                             type: string
+ *                             enum: [extracted, corrected]
+ *                           extractedValue:
+ *                             description: What the extractor read (corrected fields only)
+ *                       example:
+ *                         subject: { value: Physics, source: corrected, extractedValue: Phys1cs }
+ *                         classroom: { value: Lab 2, source: extracted }
+ *                     edits:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/TimeBlockEdit'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalError'
+ */
+router.get('/:timetableId/blocks/:blockId/history', listTimeBlockHistory);
+
+/**
+ * @swagger
+ * /api/v1/timetables/{timetableId}/blocks/{blockId}/history/{editId}/revert:
+ *   post:
+ *     summary: Revert a time block edit
+ *     description: |
+ *       Set the edited field back to its previous value. The revert is recorded as a new edit.
+ *       Reverting to the extracted value makes the field machine-owned again.
+ *     tags: [Timetables]
+ *     parameters:
+ *       - in: path
+ *         name: timetableId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: blockId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: editId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - $ref: '#/components/parameters/ActorHeader'
+ *     responses:
+ *       200:
+ *         description: Edit reverted
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: |
+ *           The edit was already reverted, the field has changed again since, or the block is no longer
+ *           current (removed or replaced by a later version)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         $ref: '#/components/responses/InternalError'
+ */
+router.post('/:timetableId/blocks/:blockId/history/:editId/revert', revertTimeBlockChange);
+
+/**
+ * @swagger
+ * /api/v1/timetables/{id}/reprocess:
+ *   post:
+ *     summary: Reprocess a timetable
+ *     description: |
+ *       Re-run extraction on the stored upload with optional overrides.
+ *       The new time blocks are saved as a new version; blocks from earlier runs are kept but marked superseded.
+ *     tags: [Timetables]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Timetable UUID
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               ocrProviders:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [openai, deepseek, google, gemini, tesseract]
+ *                 description: Vision provider chain to use instead of OCR_PROVIDER_CHAIN
+ *                 example: [google, tesseract]
+ *               llmModel:
+ *                 type: string
+ *                 description: Structuring model (OpenAI, or Anthropic for claude-* names)
+ *                 example: gpt-4o
+ *               pageRange:
+ *                 type: object
+ *                 description: Only process these PDF pages (1-based, inclusive)
+ *                 properties:
+ *                   from:
+ *                     type: integer
+ *                     example: 1
+ *                   to:
+ *                     type: integer
+ *                     example: 2
+ *               agentic:
+ *                 type: boolean
+ *                 description: Use the agentic workflow instead of USE_AGENTIC_WORKFLOW
+ *     responses:
+ *       202:
+ *         description: Timetable queued for reprocessing
  *         content:
  *           application/json:
  *             schema:
@@ -291,24 +655,613 @@ router.patch('/:timetableId/blocks/:blockId', updateTimeBlock);
  *                   example: true
  *                 message:
  *                   type: string
- *                   example: Timetable and associated data deleted successfully
+ *                   example: Timetable queued for reprocessing
  *                 data:
  *                   type: object
  *                   properties:
- *                     deletedTimetableId:
+ *                     jobId:
+ *                       type: string
+ *                     timetableId:
  *                       type: string
  *                       format: uuid
- *                     deletedTimeBlocksCount:
+ *                     previousVersion:
  *                       type: integer
- *                       example: 5
- *                     fileRemoved:
- *                       type: boolean
- *                       example: true
+ *                       example: 1
+ *                     status:
+ *                       type: string
+ *                       example: queued
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: Timetable is already pending or processing
+ *       500:
+ *         $ref: '#/components/responses/InternalError'
+ */
+router.post('/:id/reprocess', reprocessTimetable);
+
+/**
+ * @swagger
+ * /api/v1/timetables/{id}/revisions:
+ *   get:
+ *     summary: List revisions of a timetable
+ *     description: List every upload for the same teacher, academic year and semester in revision order. The latest completed upload is the current revision.
+ *     tags: [Timetables]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: UUID of any revision in the chain
+ *     responses:
+ *       200:
+ *         description: Revisions retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: string
+ *                         format: uuid
+ *                       revision:
+ *                         type: integer
+ *                         example: 2
+ *                       isCurrent:
+ *                         type: boolean
+ *                       previousRevisionId:
+ *                         type: string
+ *                         format: uuid
+ *                         nullable: true
+ *                       timeBlocksCount:
+ *                         type: integer
+ *                         example: 24
+ *                       uploadedAt:
+ *                         type: string
+ *                         format: date-time
  *       404:
  *         $ref: '#/components/responses/NotFound'
  *       500:
  *         $ref: '#/components/responses/InternalError'
  */
+router.get('/:id/revisions', listTimetableRevisions);
+
+/**
+ * @swagger
+ * /api/v1/timetables/{id}/calendar.ics:
+ *   get:
+ *     summary: Export a timetable as iCalendar
+ *     description: |
+ *       One weekly recurring event (RRULE) per time block with the subject as title, the room as location
+ *       and the class and notes in the description. Rotating timetables repeat every cycleLength weeks,
+ *       Week 1 being the week the term starts in. Events run from the term start to the term end date;
+ *       without term dates they start in the current week and do not end. Times are floating (local time).
+ *     tags: [Timetables]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - $ref: '#/components/parameters/CalendarIncludeBreaks'
+ *       - $ref: '#/components/parameters/CalendarFrom'
+ *       - $ref: '#/components/parameters/CalendarTo'
+ *     responses:
+ *       200:
+ *         description: iCalendar file
+ *         content:
+ *           text/calendar:
+ *             schema:
+ *               type: string
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalError'
+ */
+router.get('/:id/calendar.ics', exportTimetableCalendar);
+
+/**
+ * @swagger
+ * /api/v1/timetables/{id}/export:
+ *   get:
+ *     summary: Export time blocks as a spreadsheet
+ *     description: |
+ *       One row per current time block under a header row of field names
+ *       (weekIndex, dayOfWeek, startTime, endTime, subject, classroom, grade, section, notes, confidence).
+ *       The file can be edited and imported back with POST /api/v1/timetables/{id}/import.
+ *     tags: [Timetables]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv, xlsx]
+ *           default: csv
+ *     responses:
+ *       200:
+ *         description: Spreadsheet file
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalError'
+ */
+router.get('/:id/export', exportTimetableSpreadsheet);
+
+/**
+ * @swagger
+ * /api/v1/timetables/{id}/print:
+ *   get:
+ *     summary: Render a timetable as a printable grid
+ *     description: |
+ *       A standardized A4 version of the timetable: teacher name and term on top, a column per day
+ *       (Saturday and Sunday only when used), a row per period and a color per subject, breaks in grey.
+ *       Rotating timetables get a page per week. PDF grids too long for a page continue on the next one.
+ *     tags: [Timetables]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [pdf, docx]
+ *           default: pdf
+ *       - in: query
+ *         name: orientation
+ *         schema:
+ *           type: string
+ *           enum: [landscape, portrait]
+ *           default: landscape
+ *     responses:
+ *       200:
+ *         description: Printable document
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           application/vnd.openxmlformats-officedocument.wordprocessingml.document:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalError'
+ */
+router.get('/:id/print', printTimetable);
+
+/**
+ * @swagger
+ * /api/v1/timetables/import:
+ *   post:
+ *     summary: Create a timetable from a spreadsheet
+ *     description: |
+ *       Import time blocks from a CSV or XLSX file laid out like an export. Columns are found by header
+ *       (dayOfWeek, startTime, endTime and subject are required; "Day", "Week", "Start", "End" and "Room" also work)
+ *       and other columns are ignored. Each row is validated with the extraction time block schema and the
+ *       time block checks (start before end, no overlaps); nothing is created unless every row is valid.
+ *       The timetable is completed straight away and becomes the teacher's current revision for the term.
+ *       The teacher, timetable, blocks and revision are stored in one transaction: a failed import leaves
+ *       nothing behind, not even the uploaded file.
+ *     tags: [Timetables]
+ *     parameters:
+ *       - $ref: '#/components/parameters/ActorHeader'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required: [file, teacherName]
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *                 description: .csv or .xlsx file (max 500 rows)
+ *               teacherName:
+ *                 type: string
+ *                 example: Jane Smith
+ *               teacherEmail:
+ *                 type: string
+ *               academicYear:
+ *                 type: string
+ *                 example: 2024-2025
+ *               semester:
+ *                 type: string
+ *                 example: Term 1
+ *     responses:
+ *       201:
+ *         description: Timetable created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     timetableId:
+ *                       type: string
+ *                       format: uuid
+ *                     teacherId:
+ *                       type: string
+ *                       format: uuid
+ *                     version:
+ *                       type: integer
+ *                       example: 1
+ *                     timeBlocksCount:
+ *                       type: integer
+ *                       example: 25
+ *                     cycleLength:
+ *                       type: integer
+ *                       example: 1
+ *       400:
+ *         $ref: '#/components/responses/SpreadsheetValidation'
+ *       500:
+ *         $ref: '#/components/responses/InternalError'
+ */
+router.post('/import', uploadSpreadsheet, importTimetable);
+
+/**
+ * @swagger
+ * /api/v1/timetables/{id}/import:
+ *   post:
+ *     summary: Replace time blocks from a spreadsheet
+ *     description: |
+ *       Replace every current block of the timetable with the rows of a CSV or XLSX file, read and validated
+ *       as for POST /api/v1/timetables/import. The blocks are saved as a new version (the replaced blocks are
+ *       kept as superseded) and the cycle length follows the highest weekIndex in the file.
+ *     tags: [Timetables]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - $ref: '#/components/parameters/ActorHeader'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required: [file]
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *     responses:
+ *       200:
+ *         description: Time blocks replaced
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     version:
+ *                       type: integer
+ *                       example: 3
+ *                     timeBlocksCount:
+ *                       type: integer
+ *                       example: 25
+ *                     superseded:
+ *                       type: integer
+ *                       example: 24
+ *                     cycleLength:
+ *                       type: integer
+ *                       example: 2
+ *       400:
+ *         $ref: '#/components/responses/SpreadsheetValidation'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: Timetable is still being processed
+ *       500:
+ *         $ref: '#/components/responses/InternalError'
+ */
+router.post('/:id/import', uploadSpreadsheet, importTimetableBlocks);
+
+/**
+ * @swagger
+ * /api/v1/timetables/{id}/diff/{otherId}:
+ *   get:
+ *     summary: Compare two timetables
+ *     description: |
+ *       List the time blocks added, removed, moved and changed from one timetable ({id}) to another ({otherId}).
+ *       Blocks are matched by week, day, start and end time and subject. A block of the same subject and class at a new day or time counts as moved.
+ *     tags: [Timetables]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Earlier timetable UUID
+ *       - in: path
+ *         name: otherId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Later timetable UUID
+ *     responses:
+ *       200:
+ *         description: Diff computed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     sameTeacher:
+ *                       type: boolean
+ *                     summary:
+ *                       type: object
+ *                       properties:
+ *                         added: { type: integer, example: 1 }
+ *                         removed: { type: integer, example: 0 }
+ *                         moved: { type: integer, example: 2 }
+ *                         changed: { type: integer, example: 1 }
+ *                         unchanged: { type: integer, example: 20 }
+ *                     added:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/TimeBlock'
+ *                     removed:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/TimeBlock'
+ *                     moved:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           from:
+ *                             $ref: '#/components/schemas/TimeBlock'
+ *                           to:
+ *                             $ref: '#/components/schemas/TimeBlock'
+ *                           fields:
+ *                             type: array
+ *                             items:
+ *                               type: string
+ *                             example: [dayOfWeek, startTime, endTime]
+ *                     changed:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           from:
+ *                             $ref: '#/components/schemas/TimeBlock'
+ *                           to:
+ *                             $ref: '#/components/schemas/TimeBlock'
+ *                           fields:
+ *                             type: array
+ *                             items:
+ *                               type: string
+ *                             example: [classroom]
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalError'
+ */
+router.get('/:id/diff/:otherId', diffTimetables);
+
+/**
+ * @swagger
+ * /api/v1/timetables/{id}/artifacts:
+ *   get:
+ *     summary: List extraction artifacts
+ *     description: List the intermediate outputs stored for a timetable (final OCR text, provider readings, PDF page renders, raw LLM JSON)
+ *     tags: [Timetables]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Timetable UUID
+ *     responses:
+ *       200:
+ *         description: Artifacts retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/TimetableArtifact'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalError'
+ */
+router.get('/:id/artifacts', listTimetableArtifacts);
+
+/**
+ * @swagger
+ * /api/v1/timetables/{id}/artifacts/{artifactId}:
+ *   get:
+ *     summary: Download an extraction artifact
+ *     description: Download one stored artifact file with its original content type
+ *     tags: [Timetables]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Timetable UUID
+ *       - in: path
+ *         name: artifactId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Artifact UUID
+ *     responses:
+ *       200:
+ *         description: Artifact file
+ *         content:
+ *           text/plain: {}
+ *           application/json: {}
+ *           image/png: {}
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalError'
+ */
+router.get('/:id/artifacts/:artifactId', downloadTimetableArtifact);
+
+/**
+ * @swagger
+ * /api/v1/timetables/{id}:
+ *   delete:
+ *     summary: Delete a timetable
+ *     description: Delete a timetable and all associated time blocks. Also removes the uploaded file from storage.
+ *     tags: [Timetables]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Timetable UUID to delete
+ *         example: 123e4567-e89b-12d3-a456-426614174000
+ *     responses:
+ *       200:
+ *         description: Timetable deleted successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Timetable and associated data deleted successfully
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     deletedTimetableId:
+ *                       type: string
+ *                       format: uuid
+ *                     deletedTimeBlocksCount:
+ *                       type: integer
+ *                       example: 5
+ *                     fileRemoved:
+ *                       type: boolean
+ *                       example: true
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalError'
+ */
+/**
+ * @swagger
+ * /api/v1/timetables/{id}:
+ *   patch:
+ *     summary: Update timetable details
+ *     description: Set the term dates that bound calendar exports (`null` clears a date). Revised uploads for the same term inherit them.
+ *     tags: [Timetables]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               termStartDate:
+ *                 type: string
+ *                 format: date
+ *                 nullable: true
+ *                 example: '2025-09-03'
+ *               termEndDate:
+ *                 type: string
+ *                 format: date
+ *                 nullable: true
+ *                 example: '2025-12-19'
+ *     responses:
+ *       200:
+ *         description: Timetable updated
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalError'
+ */
+router.patch('/:id', updateTimetable);
+
 router.delete('/:id', deleteTimetable);
 
 export default router;
@@ -38,10 +38,24 @@
 
 
 import { Router } from 'express';
-import { uploadTimetable, getJobStatus } from '../controllers/upload.controller';
-import { uploadSingleFile } from '../middleware/upload';
+import {
+  uploadTimetable,
+  uploadTimetablePages,
+  uploadTimetableBatch,
+  getBatchStatus,
+  downloadBatchSummary,
+  getJobStatus,
+  cancelJob,
+  getQueueStatus,
+  pauseQueue,
+  resumeQueue,
+} from '../controllers/upload.controller';
+import { uploadSingleFile, uploadMultipleFiles, uploadArchive } from '../middleware/upload';
+import { requireAdmin } from '../middleware/admin';
 
 const router = Router();
+// Deployment-wide queue administration, mounted without a school
+export const queueRouter = Router();
 
 /**
  * @swagger
@@ -161,6 +175,210 @@ const router = Router();
  */
 router.post('/', uploadSingleFile, uploadTimetable);
 
+/**
+ * @swagger
+ * /api/upload/multiple:
+ *   post:
+ *     summary: Upload a timetable photographed as several images
+ *     description: |
+ *       Upload up to 5 PNG/JPEG images that together show one timetable (e.g. overlapping phone photos).
+ *
+ *       Pages are ordered naturally by file name ("Example 1.1.png" before "Example 1.2.png"),
+ *       OCRed one by one with a processing log per page, then structured in a single LLM pass.
+ *       Rows repeated across overlapping photos are merged into one time block.
+ *     tags: [Upload]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - files
+ *               - teacherName
+ *             properties:
+ *               files:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: binary
+ *                 description: Page images (PNG or JPEG, max 5 files of 10MB each)
+ *               teacherName:
+ *                 type: string
+ *                 description: Name of the teacher
+ *                 example: Dr. John Smith
+ *               teacherEmail:
+ *                 type: string
+ *                 format: email
+ *                 description: Email address of the teacher (optional)
+ *                 example: john.smith@school.edu
+ *     responses:
+ *       201:
+ *         description: Page images uploaded and queued for processing
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: 2 page image(s) uploaded and queued for processing
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     jobId:
+ *                       type: string
+ *                     timetableId:
+ *                       type: string
+ *                       format: uuid
+ *                     pages:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           page:
+ *                             type: integer
+ *                             example: 1
+ *                           fileName:
+ *                             type: string
+ *                             example: Teacher Timetable Example 1.1.png
+ *                           fileSize:
+ *                             type: integer
+ *                             example: 524288
+ *                     status:
+ *                       type: string
+ *                       example: queued
+ *       400:
+ *         description: No files, a non-image file, or missing teacher name
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         $ref: '#/components/responses/InternalError'
+ */
+router.post('/multiple', uploadMultipleFiles, uploadTimetablePages);
+
+/**
+ * @swagger
+ * /api/upload/batch:
+ *   post:
+ *     summary: Upload a ZIP archive of timetables, one file per teacher
+ *     description: |
+ *       Every PNG, JPEG, PDF or DOCX in the archive becomes its own timetable, queued as a child job
+ *       of one BullMQ flow; the flow's parent job marks the batch complete once all files have finished.
+ *
+ *       **Teacher names** are read from file names ("Jane Smith.pdf", "smith_jane-timetable-2025.docx").
+ *       Files without a name ("scan0042.jpg") wait under an "Unidentified teacher" and are assigned to the
+ *       teacher named in the document once extracted. As with single uploads, a file name that disagrees
+ *       with the document is flagged for review.
+ *
+ *       **Safety:** archive paths are never used to write files, so path traversal entries cannot escape the
+ *       upload directory. Symbolic links, nested archives, unsupported types and files whose content does not
+ *       match their extension are skipped with a reason. At most 100 files are accepted, each within the
+ *       single-upload size limit and 200MB unpacked in total.
+ *     tags: [Upload]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - file
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *                 description: ZIP archive (max 50MB)
+ *     responses:
+ *       201:
+ *         description: Archive unpacked and its timetables queued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: 5 timetable(s) queued for processing
+ *                 data:
+ *                   $ref: '#/components/schemas/UploadBatch'
+ *       400:
+ *         description: No file, not a readable ZIP, too many or too large files, or no timetables in the archive
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         $ref: '#/components/responses/InternalError'
+ */
+router.post('/batch', uploadArchive, uploadTimetableBatch);
+
+/**
+ * @swagger
+ * /api/upload/batch/{batchId}:
+ *   get:
+ *     summary: Get the progress of a batch upload
+ *     description: Aggregate progress and counts, with the status, teacher and error of every archive entry.
+ *     tags: [Upload]
+ *     parameters:
+ *       - in: path
+ *         name: batchId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Batch status retrieved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/UploadBatch'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+router.get('/batch/:batchId', getBatchStatus);
+
+/**
+ * @swagger
+ * /api/upload/batch/{batchId}/summary:
+ *   get:
+ *     summary: Download a CSV summary of a batch upload
+ *     description: One row per archive entry (file, status, teacher, teacherFrom, timetableId, timeBlocks, error).
+ *     tags: [Upload]
+ *     parameters:
+ *       - in: path
+ *         name: batchId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: CSV summary
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+router.get('/batch/:batchId/summary', downloadBatchSummary);
+
 /**
  * @swagger
  * /api/upload/status/{jobId}:
@@ -174,6 +392,7 @@ router.post('/', uploadSingleFile, uploadTimetable);
  *       - PROCESSING (10-90%): Active extraction
  *       - COMPLETED (100%): Successfully extracted
  *       - FAILED: Processing error
+ *       - CANCELLED: Job cancelled with DELETE /api/upload/jobs/{jobId}
  *     tags: [Status]
  *     parameters:
  *       - in: path
@@ -253,4 +472,140 @@ router.post('/', uploadSingleFile, uploadTimetable);
  */
 router.get('/status/:jobId', getJobStatus);
 
+/**
+ * @swagger
+ * /api/upload/jobs/{jobId}:
+ *   delete:
+ *     summary: Cancel a waiting or active job
+ *     description: |
+ *       A job that has not started is removed from the queue and its timetable is set to CANCELLED (200).
+ *       An active job is asked to stop (202): the worker aborts its OCR and LLM calls, saves nothing
+ *       and sets the timetable to CANCELLED. A job that is already saving its results completes.
+ *       A cancelled timetable can be reprocessed.
+ *     tags: [Status]
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Job removed from the queue
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     jobId:
+ *                       type: string
+ *                     timetableId:
+ *                       type: string
+ *                       format: uuid
+ *                     status:
+ *                       type: string
+ *                       enum: [cancelled, cancelling]
+ *       202:
+ *         description: Cancellation requested from the worker running the job
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: The job has already completed or failed
+ */
+router.delete('/jobs/:jobId', cancelJob);
+
+/**
+ * @swagger
+ * /api/upload/queue:
+ *   get:
+ *     summary: Get whether the processing queue is paused, with its job counts (admin)
+ *     description: The counts cover every school's jobs
+ *     tags: [Status]
+ *     parameters:
+ *       - $ref: '#/components/parameters/AdminKeyHeader'
+ *     responses:
+ *       200:
+ *         description: Queue status retrieved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/QueueState'
+ *       401:
+ *         description: Missing or invalid X-Admin-Key header
+ *       403:
+ *         description: ADMIN_API_KEY is not set
+ */
+queueRouter.get('/', requireAdmin, getQueueStatus);
+
+/**
+ * @swagger
+ * /api/upload/queue/pause:
+ *   post:
+ *     summary: Pause the processing queue (admin)
+ *     description: |
+ *       Stops workers from starting new jobs for every school; active jobs finish.
+ *       Uploads are still accepted and wait in the queue until it is resumed.
+ *     tags: [Status]
+ *     parameters:
+ *       - $ref: '#/components/parameters/AdminKeyHeader'
+ *     responses:
+ *       200:
+ *         description: Queue paused
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/QueueState'
+ *       401:
+ *         description: Missing or invalid X-Admin-Key header
+ *       403:
+ *         description: ADMIN_API_KEY is not set
+ */
+queueRouter.post('/pause', requireAdmin, pauseQueue);
+
+/**
+ * @swagger
+ * /api/upload/queue/resume:
+ *   post:
+ *     summary: Resume the processing queue (admin)
+ *     tags: [Status]
+ *     parameters:
+ *       - $ref: '#/components/parameters/AdminKeyHeader'
+ *     responses:
+ *       200:
+ *         description: Queue resumed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/QueueState'
+ *       401:
+ *         description: Missing or invalid X-Admin-Key header
+ *       403:
+ *         description: ADMIN_API_KEY is not set
+ */
+queueRouter.post('/resume', requireAdmin, resumeQueue);
+
 export default router;
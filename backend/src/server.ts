@@ -40,6 +40,10 @@
 import app from './app';
 import { config } from './config/env';
 import timetableWorker, { closeWorker } from './queues/timetable.worker';
+import { closeWebhookWorker } from './queues/webhook.worker';
+import { closeBatchWorker } from './queues/batch.worker';
+import { closeIngestionWorker } from './queues/ingestion.worker';
+import { scheduleIngestion } from './queues/ingestion.queue';
 
 const PORT = config.env.PORT;
 
@@ -55,12 +59,20 @@ const server = app.listen(PORT, () => {
   console.log('=================================');
 });
 
+// Poll the configured hot folder and mailboxes
+scheduleIngestion().catch((error: Error) => {
+  console.error('❌ Could not schedule ingestion:', error.message);
+});
+
 // Graceful shutdown
 const gracefulShutdown = async (signal: string) => {
   console.log(`\n${signal} received. Starting graceful shutdown...`);
   
-  // Close worker first
+  // Close workers first
   await closeWorker();
+  await closeWebhookWorker();
+  await closeBatchWorker();
+  await closeIngestionWorker();
   
   server.close(() => {
     console.log('✅ HTTP server closed');
@@ -0,0 +1,167 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+import crypto from "crypto";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { config } from "../config/env";
+import { logInfo } from "../utils/logger";
+
+/**
+ * AI Provider Fixtures (record / replay)
+ *
+ * AI_PROVIDER_MODE=record calls the real vision and LLM providers and saves
+ * every request/response pair under AI_FIXTURES_DIR/<kind>/<hash>.json.
+ * AI_PROVIDER_MODE=replay serves those responses back by the hash of the
+ * request and never touches the network, so the whole pipeline (upload →
+ * worker → database) runs offline and deterministically.
+ *
+ * Request hashes ignore what changes between runs of the same document:
+ * temporary directories and the unique suffix multer adds to upload names.
+ */
+
+export type FixtureKind = "vision" | "llm" | "agent";
+
+export class FixtureMissingError extends Error {
+  constructor(
+    public readonly kind: FixtureKind,
+    public readonly hash: string
+  ) {
+    super(`No recorded ${kind} fixture for request ${hash} (record it with AI_PROVIDER_MODE=record)`);
+    this.name = "FixtureMissingError";
+  }
+}
+
+const TMP_DIR_REGEX = new RegExp(`${os.tmpdir().replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}/[^/\\s"]+`, "g");
+const UPLOAD_SUFFIX_REGEX = /-\d{13}-\d{1,10}(?=\.[a-z0-9]+)/gi;
+
+/**
+ * Whether recorded fixtures stand in for the real providers
+ */
+export function isReplayMode(): boolean {
+  return config.env.AI_PROVIDER_MODE === "replay";
+}
+
+/**
+ * Whether provider calls go through the fixture store at all
+ */
+export function isFixtureMode(): boolean {
+  return config.env.AI_PROVIDER_MODE !== "live";
+}
+
+/**
+ * JSON-safe copy of a request: keys sorted, buffers replaced by their
+ * SHA-256, run-specific paths removed
+ */
+function normalizeRequest(value: unknown): unknown {
+  if (Buffer.isBuffer(value)) {
+    return `sha256:${crypto.createHash("sha256").update(value).digest("hex")}`;
+  }
+  if (typeof value === "string") {
+    return value.replace(TMP_DIR_REGEX, "<tmp>").replace(UPLOAD_SUFFIX_REGEX, "");
+  }
+  if (Array.isArray(value)) {
+    return value.map(normalizeRequest);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+        .map((key) => [key, normalizeRequest((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+/**
+ * Content hash identifying a provider request
+ */
+export function fixtureHash(request: unknown): string {
+  return crypto
+    .createHash("sha256")
+    .update(JSON.stringify(normalizeRequest(request)))
+    .digest("hex")
+    .slice(0, 32);
+}
+
+/**
+ * Run a provider call through the fixture store
+ * live: run it; record: run it and save the response; replay: return the
+ * saved response or throw FixtureMissingError without running it
+ */
+export async function withFixture<T>(
+  kind: FixtureKind,
+  request: unknown,
+  run: () => Promise<T>
+): Promise<T> {
+  if (!isFixtureMode()) {
+    return run();
+  }
+
+  const hash = fixtureHash(request);
+  const filePath = path.join(config.env.AI_FIXTURES_DIR, kind, `${hash}.json`);
+
+  if (isReplayMode()) {
+    let raw: string;
+    try {
+      raw = await fs.readFile(filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        throw new FixtureMissingError(kind, hash);
+      }
+      throw error;
+    }
+    logInfo(`▶️ Replaying ${kind} fixture ${hash}`);
+    return JSON.parse(raw).response as T;
+  }
+
+  const response = await run();
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(
+    filePath,
+    JSON.stringify(
+      { kind, hash, recordedAt: new Date().toISOString(), request: normalizeRequest(request), response },
+      null,
+      2
+    )
+  );
+  logInfo(`⏺️ Recorded ${kind} fixture ${hash}`);
+  return response;
+}
@@ -0,0 +1,282 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+import { createWriteStream } from "fs";
+import fs from "fs/promises";
+import path from "path";
+import { Transform } from "stream";
+import { pipeline } from "stream/promises";
+import JSZip from "jszip";
+import { config } from "../config/env";
+
+/**
+ * Timetable Archives
+ *
+ * Unpacks a ZIP of timetable documents into the upload directory. Archive
+ * paths are only ever used as labels: every file is written under a fresh
+ * name, so entries like "../../etc/passwd" cannot escape the directory.
+ * Sizes are counted while inflating rather than trusted from the headers,
+ * which stops zip bombs early, and each file must start with the signature
+ * of the type its extension claims. Entries that cannot be used are skipped
+ * with a reason instead of failing the whole archive.
+ */
+
+export const MAX_ARCHIVE_FILES = 100;
+export const MAX_ARCHIVE_TOTAL_SIZE = 200 * 1024 * 1024; // Inflated size of all files together
+
+const DOCX_MIME_TYPE = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+const MIME_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".pdf": "application/pdf",
+  ".docx": DOCX_MIME_TYPE,
+};
+
+// First bytes of each type
+const SIGNATURES: Record<string, number[]> = {
+  "image/png": [0x89, 0x50, 0x4e, 0x47],
+  "image/jpeg": [0xff, 0xd8, 0xff],
+  "application/pdf": [0x25, 0x50, 0x44, 0x46], // %PDF
+  [DOCX_MIME_TYPE]: [0x50, 0x4b, 0x03, 0x04], // Itself a ZIP
+};
+
+const SYMLINK_MODE = 0o120000;
+
+export interface ArchiveFile {
+  entryPath: string; // Path inside the archive, e.g. "Science/Jane Smith.pdf"
+  fileName: string; // Last path segment
+  path: string; // Where the file was written
+  mimeType: string;
+  size: number;
+}
+
+export interface SkippedEntry {
+  entryPath: string;
+  reason: string;
+}
+
+export interface UnpackedArchive {
+  files: ArchiveFile[];
+  skipped: SkippedEntry[];
+}
+
+/**
+ * Raised when the archive as a whole cannot be used
+ */
+export class ArchiveError extends Error {
+  constructor(message: string, public readonly skipped: SkippedEntry[] = []) {
+    super(message);
+    this.name = "ArchiveError";
+  }
+}
+
+/**
+ * Raised while inflating an entry that breaks a size limit
+ */
+class EntryTooLargeError extends Error {
+  constructor(public readonly limit: "file" | "archive") {
+    super(limit === "file" ? "File is larger than the upload limit" : "Archive is larger than the unpacked size limit");
+    this.name = "EntryTooLargeError";
+  }
+}
+
+/**
+ * Why an entry is left out, or null when it should be unpacked
+ * OS clutter (__MACOSX, .DS_Store, Thumbs.db) gives undefined: dropped without a reason.
+ */
+function entryProblem(entry: JSZip.JSZipObject): string | null | undefined {
+  const original = (entry.unsafeOriginalName ?? entry.name).replace(/\\/g, "/");
+  const segments = original.split("/").filter(Boolean);
+  const fileName = segments[segments.length - 1] ?? "";
+
+  if (segments.some((segment) => segment === "__MACOSX") || fileName.startsWith(".") || fileName === "Thumbs.db") {
+    return undefined;
+  }
+  if (original.startsWith("/") || /^[a-z]:/i.test(original) || segments.includes("..")) {
+    return "Unsafe path";
+  }
+  const mode = typeof entry.unixPermissions === "number" ? entry.unixPermissions : 0;
+  if ((mode & 0o170000) === SYMLINK_MODE) {
+    return "Symbolic links are not unpacked";
+  }
+
+  const extension = path.extname(fileName).toLowerCase();
+  if (extension === ".zip") {
+    return "Nested archives are not unpacked";
+  }
+  if (!MIME_TYPES[extension]) {
+    return "Unsupported file type (PNG, JPEG, PDF or DOCX expected)";
+  }
+  return null;
+}
+
+/**
+ * MIME type of a timetable document by file extension (undefined for other files)
+ */
+export function timetableMimeType(fileName: string): string | undefined {
+  return MIME_TYPES[path.extname(fileName).toLowerCase()];
+}
+
+/**
+ * Whether data starts like a file of the MIME type; "image/jpg" counts as JPEG
+ */
+export function hasFileSignature(mimeType: string, data: Buffer): boolean {
+  const signature = SIGNATURES[mimeType === "image/jpg" ? "image/jpeg" : mimeType];
+  return Boolean(signature) && signature.every((byte, index) => data[index] === byte);
+}
+
+/**
+ * Name to store an uploaded file under: its base name made safe, plus a unique suffix
+ */
+export function storedFileName(fileName: string): string {
+  const extension = path.extname(fileName).toLowerCase();
+  const base = path
+    .basename(fileName, path.extname(fileName))
+    .replace(/[^\w.-]+/g, "_")
+    .replace(/^[_.]+/, "")
+    .slice(0, 80);
+  return `${base || "timetable"}-${Date.now()}-${Math.round(Math.random() * 1e9)}${extension}`;
+}
+
+/**
+ * Unpack the timetable documents of a ZIP archive into the upload directory
+ *
+ * Throws ArchiveError when the archive is unreadable, holds more than
+ * MAX_ARCHIVE_FILES documents or inflates past MAX_ARCHIVE_TOTAL_SIZE; files
+ * already written are removed again in that case.
+ */
+export async function unpackArchive(archivePath: string): Promise<UnpackedArchive> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(await fs.readFile(archivePath));
+  } catch (error) {
+    const encrypted = error instanceof Error && /encrypted/i.test(error.message);
+    throw new ArchiveError(encrypted ? "Password-protected archives are not supported" : "Not a readable ZIP archive");
+  }
+
+  const entries: JSZip.JSZipObject[] = [];
+  const skipped: SkippedEntry[] = [];
+  zip.forEach((_relativePath, entry) => {
+    if (entry.dir) return;
+    const problem = entryProblem(entry);
+    if (problem === null) {
+      entries.push(entry);
+    } else if (problem) {
+      skipped.push({ entryPath: entry.unsafeOriginalName ?? entry.name, reason: problem });
+    }
+  });
+
+  if (entries.length > MAX_ARCHIVE_FILES) {
+    throw new ArchiveError(`The archive holds ${entries.length} timetable files; at most ${MAX_ARCHIVE_FILES} are accepted`);
+  }
+
+  const files: ArchiveFile[] = [];
+  let totalSize = 0;
+  try {
+    for (const entry of entries) {
+      const fileName = path.posix.basename(entry.name);
+      const mimeType = MIME_TYPES[path.extname(fileName).toLowerCase()];
+      const target = path.join(config.env.UPLOAD_DIR, storedFileName(fileName));
+
+      let size = 0;
+      let head = Buffer.alloc(0);
+      const counter = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          size += chunk.length;
+          totalSize += chunk.length;
+          if (head.length < 8) head = Buffer.concat([head, chunk.subarray(0, 8)]);
+          if (size > config.env.MAX_FILE_SIZE) return callback(new EntryTooLargeError("file"));
+          if (totalSize > MAX_ARCHIVE_TOTAL_SIZE) return callback(new EntryTooLargeError("archive"));
+          callback(null, chunk);
+        },
+      });
+
+      try {
+        await pipeline(entry.nodeStream("nodebuffer"), counter, createWriteStream(target));
+      } catch (error) {
+        await fs.unlink(target).catch(() => {
+          // Ignore cleanup errors
+        });
+        if (error instanceof EntryTooLargeError && error.limit === "archive") {
+          throw new ArchiveError(`The unpacked archive exceeds ${MAX_ARCHIVE_TOTAL_SIZE / 1024 / 1024}MB`);
+        }
+        totalSize -= size;
+        skipped.push({
+          entryPath: entry.name,
+          reason: error instanceof EntryTooLargeError ? error.message : "Could not be unpacked",
+        });
+        continue;
+      }
+
+      if (!hasFileSignature(mimeType, head)) {
+        await fs.unlink(target).catch(() => {
+          // Ignore cleanup errors
+        });
+        totalSize -= size;
+        skipped.push({ entryPath: entry.name, reason: `Content is not a ${path.extname(fileName).slice(1).toUpperCase()} file` });
+        continue;
+      }
+
+      files.push({ entryPath: entry.name, fileName, path: target, mimeType, size });
+    }
+  } catch (error) {
+    await removeArchiveFiles(files);
+    throw error;
+  }
+
+  // Archive order is whatever the zipping tool chose; natural order is easier to follow
+  const byPath = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true, sensitivity: "base" });
+  files.sort((a, b) => byPath(a.entryPath, b.entryPath));
+  skipped.sort((a, b) => byPath(a.entryPath, b.entryPath));
+  return { files, skipped };
+}
+
+/**
+ * Delete unpacked files (after a failed batch)
+ */
+export async function removeArchiveFiles(files: ArchiveFile[]): Promise<void> {
+  await Promise.all(
+    files.map((file) =>
+      fs.unlink(file.path).catch(() => {
+        // Ignore cleanup errors
+      })
+    )
+  );
+}
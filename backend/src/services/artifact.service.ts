@@ -0,0 +1,218 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import { ArtifactKind, Prisma } from "@prisma/client";
+import { prisma } from "./database.service";
+import { config } from "../config/env";
+import { logInfo, logError, logWarn } from "../utils/logger";
+import type { ExtractionResult } from "./extraction.service";
+
+/**
+ * Extraction Artifact Store
+ *
+ * Keeps the intermediate outputs of an extraction run (final OCR text, every
+ * provider reading, PDF page renders and the raw structured LLM output) on
+ * disk under UPLOAD_DIR/artifacts/<timetableId>/<run>, with one
+ * TimetableArtifact row per file. Each run (job attempt) gets its own
+ * directory, so a retry or reprocess never overwrites the files an earlier
+ * row points to. This lets us tell OCR mistakes from structuring mistakes
+ * without re-running paid API calls.
+ */
+
+export interface SaveArtifactInput {
+  kind: ArtifactKind;
+  fileName: string;
+  mimeType: string;
+  content: Buffer | string;
+  metadata?: Prisma.InputJsonValue;
+}
+
+const ARTIFACTS_DIR = "artifacts";
+
+function artifactDir(timetableId: string, run?: string): string {
+  return run
+    ? path.join(ARTIFACTS_DIR, timetableId, run.replace(/[^A-Za-z0-9_-]/g, "_"))
+    : path.join(ARTIFACTS_DIR, timetableId);
+}
+
+/**
+ * Run name for a job attempt ("job-42-attempt-2")
+ */
+export function artifactRun(jobId: string | undefined, attempt: number): string {
+  return `job-${jobId ?? "unknown"}-attempt-${attempt}`;
+}
+
+/**
+ * Absolute path of a stored artifact (storagePath is relative to UPLOAD_DIR)
+ */
+export function resolveArtifactPath(storagePath: string): string {
+  const root = path.resolve(config.env.UPLOAD_DIR);
+  const resolved = path.resolve(root, storagePath);
+
+  // Never serve anything outside the upload directory
+  if (!resolved.startsWith(root + path.sep)) {
+    throw new Error(`Invalid artifact path: ${storagePath}`);
+  }
+
+  return resolved;
+}
+
+/**
+ * Write one artifact to disk and record it
+ */
+export async function saveArtifact(timetableId: string, run: string, input: SaveArtifactInput) {
+  const content = typeof input.content === "string" ? Buffer.from(input.content, "utf-8") : input.content;
+  const storagePath = path.join(artifactDir(timetableId, run), path.basename(input.fileName));
+  const absolutePath = resolveArtifactPath(storagePath);
+
+  await fs.mkdir(path.dirname(absolutePath), { recursive: true });
+  await fs.writeFile(absolutePath, content);
+
+  return prisma.timetableArtifact.create({
+    data: {
+      timetableId,
+      kind: input.kind,
+      fileName: path.basename(input.fileName),
+      mimeType: input.mimeType,
+      size: content.length,
+      storagePath,
+      run,
+      metadata: input.metadata,
+    },
+  });
+}
+
+/**
+ * Store everything an extraction run produced
+ * Failures are logged and never fail the job - artifacts are diagnostics only
+ */
+export async function saveExtractionArtifacts(
+  timetableId: string,
+  run: string,
+  result: ExtractionResult
+): Promise<number> {
+  const inputs: SaveArtifactInput[] = [];
+
+  if (result.extractedText) {
+    inputs.push({
+      kind: ArtifactKind.OCR_TEXT,
+      fileName: "extracted-text.txt",
+      mimeType: "text/plain",
+      content: result.extractedText,
+      metadata: { method: result.method, confidence: result.confidence },
+    });
+  }
+
+  if (result.providerReadings && result.providerReadings.length > 0) {
+    inputs.push({
+      kind: ArtifactKind.OCR_READINGS,
+      fileName: "ocr-readings.json",
+      mimeType: "application/json",
+      content: JSON.stringify(result.providerReadings, null, 2),
+      metadata: {
+        readings: result.providerReadings.length,
+        sources: Array.from(new Set(result.providerReadings.map((reading) => reading.source))),
+      },
+    });
+  }
+
+  (result.pageImages || []).forEach((image, index) => {
+    inputs.push({
+      kind: ArtifactKind.PAGE_IMAGE,
+      fileName: `page-${index + 1}.png`,
+      mimeType: "image/png",
+      content: image,
+      metadata: { page: index + 1 },
+    });
+  });
+
+  if (result.rawTimetableData) {
+    inputs.push({
+      kind: ArtifactKind.LLM_OUTPUT,
+      fileName: "llm-output.json",
+      mimeType: "application/json",
+      content: JSON.stringify(result.rawTimetableData, null, 2),
+      metadata: { timeBlocks: result.rawTimetableData.timeBlocks?.length ?? 0 },
+    });
+  }
+
+  let saved = 0;
+  for (const input of inputs) {
+    try {
+      await saveArtifact(timetableId, run, input);
+      saved++;
+    } catch (error) {
+      logWarn(`⚠️ Failed to store artifact ${input.fileName} for timetable ${timetableId}`, error);
+    }
+  }
+
+  logInfo(`📦 Stored ${saved}/${inputs.length} extraction artifacts for timetable ${timetableId} (${run})`);
+  return saved;
+}
+
+/**
+ * List artifacts of a timetable (oldest first)
+ */
+export async function listArtifacts(timetableId: string) {
+  return prisma.timetableArtifact.findMany({
+    where: { timetableId },
+    orderBy: [{ createdAt: "asc" }, { fileName: "asc" }],
+  });
+}
+
+/**
+ * Get one artifact, scoped to its timetable
+ */
+export async function getArtifact(timetableId: string, artifactId: string, schoolId: string) {
+  return prisma.timetableArtifact.findFirst({
+    where: { id: artifactId, timetableId, timetable: { schoolId } },
+  });
+}
+
+/**
+ * Remove stored artifact files of a timetable (rows cascade with the timetable)
+ */
+export async function deleteArtifactFiles(timetableId: string): Promise<void> {
+  try {
+    await fs.rm(resolveArtifactPath(artifactDir(timetableId)), { recursive: true, force: true });
+  } catch (error) {
+    logError(`Failed to delete artifacts for timetable ${timetableId}`, error);
+  }
+}
@@ -0,0 +1,219 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+import crypto from "crypto";
+import { CalendarFeedScope, ProcessingStatus, type CalendarFeed } from "@prisma/client";
+import { databaseService, prisma } from "./database.service";
+import { buildCalendar, type CalendarEntry } from "./ics.service";
+
+/**
+ * Calendar Feeds
+ *
+ * A feed is a stable .ics URL for a teacher, room or class group that
+ * calendar apps poll. It is opened with an unguessable token instead of an
+ * account; only the token's hash is stored, and revoking the feed makes the
+ * URL stop working. The calendar is built from the current blocks on every
+ * request, so manual edits and new versions show up on the next poll, while
+ * ETag / Last-Modified let unchanged calendars be answered with 304.
+ */
+
+export interface CalendarFeedInput {
+  scope: CalendarFeedScope;
+  targetId: string;
+  name?: string;
+  includeBreaks?: boolean;
+}
+
+export interface RenderedCalendarFeed {
+  body: string;
+  etag: string;
+  lastModified: Date;
+}
+
+// Last-access times are only written this often, so polling stays read-only
+const ACCESS_WRITE_INTERVAL_MS = 60 * 60 * 1000;
+
+function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Hash of a calendar ignoring DTSTAMP, which is not part of its content
+ */
+function contentHash(body: string): string {
+  const content = body.replace(/^DTSTAMP:.*\r\n/gm, "");
+  return crypto.createHash("sha256").update(content).digest("base64url").slice(0, 27);
+}
+
+/**
+ * Name of the teacher, room or class group a feed shows (null when it does not exist)
+ */
+async function feedTargetName(schoolId: string, scope: CalendarFeedScope, targetId: string) {
+  const where = { id: targetId, schoolId };
+  const select = { name: true };
+
+  switch (scope) {
+    case CalendarFeedScope.TEACHER:
+      return (await prisma.teacher.findFirst({ where, select }))?.name ?? null;
+    case CalendarFeedScope.ROOM:
+      return (await prisma.room.findFirst({ where, select }))?.name ?? null;
+    case CalendarFeedScope.CLASS_GROUP:
+      return (await prisma.classGroup.findFirst({ where, select }))?.name ?? null;
+  }
+}
+
+/**
+ * Current blocks shown by a feed
+ * Teachers: their current timetable of the latest term
+ * Rooms / class groups: blocks linked to the catalog entry in every current timetable of the school
+ */
+async function feedEntries(feed: CalendarFeed): Promise<CalendarEntry[]> {
+  if (feed.scope === CalendarFeedScope.TEACHER) {
+    const timetable = await databaseService.getCurrentTeacherTimetable(feed.targetId, feed.schoolId);
+    if (!timetable) return [];
+    return timetable.timeBlocks.map((block) => ({ block, timetable, teacher: timetable.teacher }));
+  }
+
+  const blocks = await prisma.timeBlock.findMany({
+    where: {
+      ...(feed.scope === CalendarFeedScope.ROOM ? { roomId: feed.targetId } : { classGroupId: feed.targetId }),
+      supersededAt: null,
+      timetable: { schoolId: feed.schoolId, isCurrent: true, processingStatus: ProcessingStatus.COMPLETED },
+    },
+    include: { timetable: { include: { teacher: true } } },
+    orderBy: [{ weekIndex: "asc" }, { dayOfWeek: "asc" }, { startTime: "asc" }],
+  });
+
+  return blocks.map(({ timetable, ...block }) => ({ block, timetable, teacher: timetable.teacher }));
+}
+
+/**
+ * Create a feed; the token is returned once and cannot be read back
+ * Returns null when the teacher, room or class group does not exist in the school
+ */
+export async function createCalendarFeed(schoolId: string, input: CalendarFeedInput) {
+  const targetName = await feedTargetName(schoolId, input.scope, input.targetId);
+  if (targetName === null) return null;
+
+  const token = crypto.randomBytes(24).toString("base64url");
+  const feed = await prisma.calendarFeed.create({
+    data: {
+      schoolId,
+      scope: input.scope,
+      targetId: input.targetId,
+      name: input.name ?? targetName,
+      includeBreaks: input.includeBreaks ?? true,
+      tokenHash: hashToken(token),
+    },
+  });
+
+  return { feed, token };
+}
+
+export async function listCalendarFeeds(
+  schoolId: string,
+  filter: { scope?: CalendarFeedScope; targetId?: string; includeRevoked?: boolean } = {}
+) {
+  return prisma.calendarFeed.findMany({
+    where: {
+      schoolId,
+      ...(filter.scope && { scope: filter.scope }),
+      ...(filter.targetId && { targetId: filter.targetId }),
+      ...(!filter.includeRevoked && { revokedAt: null }),
+    },
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+/**
+ * Revoke a feed so its URL stops working (null when the feed does not exist)
+ */
+export async function revokeCalendarFeed(schoolId: string, feedId: string) {
+  const feed = await prisma.calendarFeed.findFirst({ where: { id: feedId, schoolId } });
+  if (!feed || feed.revokedAt) return feed;
+
+  return prisma.calendarFeed.update({
+    where: { id: feed.id },
+    data: { revokedAt: new Date() },
+  });
+}
+
+/**
+ * Active feed opened by a token
+ */
+export async function findCalendarFeed(token: string) {
+  return prisma.calendarFeed.findFirst({
+    where: { tokenHash: hashToken(token), revokedAt: null },
+  });
+}
+
+/**
+ * Build a feed's calendar with its validators
+ * Last-Modified moves only when the content changes, and DTSTAMP follows it so
+ * an unchanged calendar is byte-for-byte the same between polls.
+ * Returns null when the feed's teacher, room or class group was deleted.
+ */
+export async function renderCalendarFeed(feed: CalendarFeed): Promise<RenderedCalendarFeed | null> {
+  const targetName = await feedTargetName(feed.schoolId, feed.scope, feed.targetId);
+  if (targetName === null) return null;
+
+  const entries = await feedEntries(feed);
+  const name = feed.name ?? targetName;
+  const options = { includeBreaks: feed.includeBreaks, showTeacher: feed.scope !== CalendarFeedScope.TEACHER };
+
+  const now = new Date();
+  let changedAt = feed.contentChangedAt ?? now;
+  let body = buildCalendar(name, entries, { ...options, now: changedAt });
+  let etag = contentHash(body);
+
+  if (etag !== feed.etag && changedAt !== now) {
+    changedAt = now;
+    body = buildCalendar(name, entries, { ...options, now: changedAt });
+    etag = contentHash(body);
+  }
+
+  const accessStale = !feed.lastAccessedAt || now.getTime() - feed.lastAccessedAt.getTime() > ACCESS_WRITE_INTERVAL_MS;
+  if (etag !== feed.etag || accessStale) {
+    await prisma.calendarFeed.update({
+      where: { id: feed.id },
+      data: { etag, contentChangedAt: changedAt, lastAccessedAt: now },
+    });
+  }
+
+  return { body, etag: `"${etag}"`, lastModified: changedAt };
+}
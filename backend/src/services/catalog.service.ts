@@ -0,0 +1,380 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+import { Prisma, ReviewKind, ReviewStatus } from "@prisma/client";
+import { prisma } from "./database.service";
+import { logInfo, logWarn } from "../utils/logger";
+
+/**
+ * Subject / Room / Class Group Catalogs
+ *
+ * The LLM prompt asks for normalized names, but spellings still drift
+ * between documents ("Maths", "Mathematics", "MATHS "). The catalogs hold one
+ * canonical entry per subject, room and class group with its known aliases.
+ * After extraction every time block is linked to the entries its values
+ * match, and values that match nothing become review items; once a reviewer
+ * adds the value as an alias, the waiting blocks are linked.
+ * Every school keeps its own catalogs.
+ */
+
+export type CatalogKind = "subject" | "room" | "classGroup";
+
+export interface CatalogEntryInput {
+  name: string;
+  aliases?: string[];
+}
+
+export interface CatalogLinkResult {
+  linked: Record<CatalogKind, number>;
+  unmatched: Record<CatalogKind, string[]>;
+}
+
+export const CATALOG_KINDS: CatalogKind[] = ["subject", "room", "classGroup"];
+
+const REVIEW_KINDS: Record<CatalogKind, ReviewKind> = {
+  subject: ReviewKind.UNMATCHED_SUBJECT,
+  room: ReviewKind.UNMATCHED_ROOM,
+  classGroup: ReviewKind.UNMATCHED_CLASS_GROUP,
+};
+
+const LINK_FIELDS = {
+  subject: "subjectId",
+  room: "roomId",
+  classGroup: "classGroupId",
+} as const;
+
+/**
+ * Raised when a name or alias already belongs to another entry of the catalog
+ */
+export class CatalogConflictError extends Error {
+  constructor(
+    public readonly value: string,
+    public readonly existingEntry: string
+  ) {
+    super(`"${value}" is already used by "${existingEntry}"`);
+    this.name = "CatalogConflictError";
+  }
+}
+
+/**
+ * The three catalog tables share one shape, so they are handled through the
+ * Subject delegate's type
+ */
+function catalogTable(kind: CatalogKind): Prisma.SubjectDelegate {
+  const tables = { subject: prisma.subject, room: prisma.room, classGroup: prisma.classGroup };
+  return tables[kind] as unknown as Prisma.SubjectDelegate;
+}
+
+/**
+ * Matching key of a catalog value: case, spacing and punctuation are ignored
+ * and room prefixes are unified ("Rm. 101" = "Room 101")
+ */
+export function catalogKey(kind: CatalogKind, value: string): string {
+  let key = value.toLowerCase().replace(/&/g, "and");
+  if (kind === "room") {
+    key = key.replace(/^\s*(?:rm|r)\b\.?/, "room");
+  }
+  return key.replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * The value of a time block a catalog matches against
+ */
+function blockValue(
+  kind: CatalogKind,
+  block: { subject: string; classroom: string | null; grade: string | null; section: string | null }
+): string {
+  if (kind === "subject") return block.subject.trim();
+  if (kind === "room") return (block.classroom ?? "").trim();
+  return [block.grade, block.section].map((part) => (part ?? "").trim()).filter(Boolean).join(" ");
+}
+
+function cleanInput(input: CatalogEntryInput): { name: string; aliases: string[] } {
+  const name = input.name.trim();
+  const aliases = [...new Set((input.aliases ?? []).map((alias) => alias.trim()).filter(Boolean))];
+  return { name, aliases: aliases.filter((alias) => alias !== name) };
+}
+
+/**
+ * Reject names and aliases whose key already belongs to another entry
+ */
+async function assertNoConflicts(schoolId: string, kind: CatalogKind, values: string[], excludeId?: string) {
+  const entries = await catalogTable(kind).findMany({
+    where: { schoolId, ...(excludeId ? { id: { not: excludeId } } : {}) },
+  });
+  const owners = new Map<string, string>();
+  for (const entry of entries) {
+    for (const value of [entry.name, ...entry.aliases]) {
+      owners.set(catalogKey(kind, value), entry.name);
+    }
+  }
+
+  for (const value of values) {
+    const owner = owners.get(catalogKey(kind, value));
+    if (owner) throw new CatalogConflictError(value, owner);
+  }
+}
+
+/**
+ * List catalog entries, optionally filtered by a name or alias fragment
+ */
+export async function listCatalogEntries(schoolId: string, kind: CatalogKind, search?: string) {
+  const entries = await catalogTable(kind).findMany({
+    where: { schoolId },
+    include: { _count: { select: { timeBlocks: true } } },
+    orderBy: { name: "asc" },
+  });
+  if (!search) return entries;
+
+  const needle = catalogKey(kind, search);
+  return entries.filter((entry) =>
+    [entry.name, ...entry.aliases].some((value) => catalogKey(kind, value).includes(needle))
+  );
+}
+
+export async function getCatalogEntry(schoolId: string, kind: CatalogKind, id: string) {
+  return catalogTable(kind).findFirst({
+    where: { id, schoolId },
+    include: { _count: { select: { timeBlocks: true } } },
+  });
+}
+
+export async function createCatalogEntry(schoolId: string, kind: CatalogKind, input: CatalogEntryInput) {
+  const { name, aliases } = cleanInput(input);
+  await assertNoConflicts(schoolId, kind, [name, ...aliases]);
+
+  const entry = await catalogTable(kind).create({ data: { schoolId, name, aliases } });
+  logInfo(`Created ${kind} catalog entry: ${entry.name}`, { aliases: entry.aliases });
+
+  await applyCatalogEntry(schoolId, kind, entry);
+  return entry;
+}
+
+/**
+ * Update an entry; omitted fields keep their value
+ */
+export async function updateCatalogEntry(
+  schoolId: string,
+  kind: CatalogKind,
+  id: string,
+  input: Partial<CatalogEntryInput>
+) {
+  const existing = await catalogTable(kind).findFirst({ where: { id, schoolId } });
+  if (!existing) return null;
+
+  const { name, aliases } = cleanInput({
+    name: input.name ?? existing.name,
+    aliases: input.aliases ?? existing.aliases,
+  });
+  await assertNoConflicts(schoolId, kind, [name, ...aliases], id);
+
+  const entry = await catalogTable(kind).update({ where: { id }, data: { name, aliases } });
+  logInfo(`Updated ${kind} catalog entry: ${entry.name}`, { aliases: entry.aliases });
+
+  await applyCatalogEntry(schoolId, kind, entry);
+  return entry;
+}
+
+/**
+ * Delete an entry; linked time blocks keep their text and lose the link
+ */
+export async function deleteCatalogEntry(schoolId: string, kind: CatalogKind, id: string) {
+  const existing = await catalogTable(kind).findFirst({ where: { id, schoolId } });
+  if (!existing) return null;
+
+  await catalogTable(kind).delete({ where: { id } });
+  logInfo(`Deleted ${kind} catalog entry: ${existing.name}`);
+  return existing;
+}
+
+/**
+ * Link the current time blocks of a timetable to catalog entries
+ *
+ * Runs after every extraction. Open review items from an earlier run of the
+ * same timetable are replaced, and each unmatched value gets one review item
+ * listing the blocks that carry it.
+ */
+export async function linkTimeBlocksToCatalog(timetableId: string): Promise<CatalogLinkResult> {
+  const { schoolId } = await prisma.timetable.findUniqueOrThrow({
+    where: { id: timetableId },
+    select: { schoolId: true },
+  });
+  const blocks = await prisma.timeBlock.findMany({ where: { timetableId, supersededAt: null } });
+  const result: CatalogLinkResult = {
+    linked: { subject: 0, room: 0, classGroup: 0 },
+    unmatched: { subject: [], room: [], classGroup: [] },
+  };
+
+  await prisma.reviewItem.deleteMany({
+    where: { timetableId, status: ReviewStatus.OPEN, kind: { in: Object.values(REVIEW_KINDS) } },
+  });
+
+  for (const kind of CATALOG_KINDS) {
+    const entries = await catalogTable(kind).findMany({ where: { schoolId } });
+    const entryByKey = new Map<string, string>();
+    for (const entry of entries) {
+      for (const value of [entry.name, ...entry.aliases]) {
+        entryByKey.set(catalogKey(kind, value), entry.id);
+      }
+    }
+
+    const blocksByEntry = new Map<string, string[]>();
+    const unlinked: string[] = [];
+    const unmatched = new Map<string, { value: string; timeBlockIds: string[] }>();
+
+    for (const block of blocks) {
+      const value = blockValue(kind, block);
+      const key = catalogKey(kind, value);
+      const entryId = key ? entryByKey.get(key) : undefined;
+
+      if (entryId) {
+        blocksByEntry.set(entryId, [...(blocksByEntry.get(entryId) ?? []), block.id]);
+        continue;
+      }
+
+      // Edited blocks may still point at the entry of their old value
+      if (block[LINK_FIELDS[kind]]) unlinked.push(block.id);
+      if (key) {
+        const pending = unmatched.get(key) ?? { value, timeBlockIds: [] };
+        pending.timeBlockIds.push(block.id);
+        unmatched.set(key, pending);
+      }
+    }
+
+    if (unlinked.length > 0) {
+      await prisma.timeBlock.updateMany({
+        where: { id: { in: unlinked } },
+        data: { [LINK_FIELDS[kind]]: null },
+      });
+    }
+
+    for (const [entryId, timeBlockIds] of blocksByEntry) {
+      await prisma.timeBlock.updateMany({
+        where: { id: { in: timeBlockIds } },
+        data: { [LINK_FIELDS[kind]]: entryId },
+      });
+      result.linked[kind] += timeBlockIds.length;
+    }
+
+    if (unmatched.size > 0) {
+      await prisma.reviewItem.createMany({
+        data: [...unmatched.values()].map(({ value, timeBlockIds }) => ({
+          schoolId,
+          kind: REVIEW_KINDS[kind],
+          value,
+          timetableId,
+          details: { timeBlockIds },
+        })),
+      });
+      result.unmatched[kind] = [...unmatched.values()].map(({ value }) => value);
+    }
+  }
+
+  logInfo(`Linked time blocks of timetable ${timetableId} to catalogs`, result);
+  if (CATALOG_KINDS.some((kind) => result.unmatched[kind].length > 0)) {
+    logWarn(`Unmatched catalog values flagged for review in timetable ${timetableId}`, result.unmatched);
+  }
+  return result;
+}
+
+/**
+ * Link the blocks of open review items that a new or updated entry now matches
+ */
+async function applyCatalogEntry(
+  schoolId: string,
+  kind: CatalogKind,
+  entry: { id: string; name: string; aliases: string[] }
+) {
+  const keys = new Set([entry.name, ...entry.aliases].map((value) => catalogKey(kind, value)));
+  const openItems = await prisma.reviewItem.findMany({
+    where: { schoolId, kind: REVIEW_KINDS[kind], status: ReviewStatus.OPEN },
+  });
+  const matched = openItems.filter((item) => keys.has(catalogKey(kind, item.value)));
+
+  for (const item of matched) {
+    const timeBlockIds = ((item.details as { timeBlockIds?: string[] } | null)?.timeBlockIds) ?? [];
+    await prisma.$transaction([
+      prisma.timeBlock.updateMany({
+        where: { id: { in: timeBlockIds } },
+        data: { [LINK_FIELDS[kind]]: entry.id },
+      }),
+      prisma.reviewItem.update({
+        where: { id: item.id },
+        data: {
+          status: ReviewStatus.RESOLVED,
+          resolution: `Matched ${kind} "${entry.name}"`,
+          resolvedAt: new Date(),
+        },
+      }),
+    ]);
+  }
+
+  if (matched.length > 0) {
+    logInfo(`Resolved ${matched.length} review item(s) with ${kind} "${entry.name}"`);
+  }
+}
+
+/**
+ * Review kinds that a catalog entry can resolve
+ */
+export function catalogKindForReview(kind: ReviewKind): CatalogKind | undefined {
+  return CATALOG_KINDS.find((catalog) => REVIEW_KINDS[catalog] === kind);
+}
+
+/**
+ * Resolve an unmatched value by adding it as an alias of an existing entry
+ * The item and every other open item with the same value are resolved
+ */
+export async function resolveReviewWithAlias(
+  schoolId: string,
+  kind: CatalogKind,
+  reviewValue: string,
+  entryId: string
+) {
+  const entry = await catalogTable(kind).findFirst({ where: { id: entryId, schoolId } });
+  if (!entry) return null;
+
+  const known = [entry.name, ...entry.aliases].some(
+    (value) => catalogKey(kind, value) === catalogKey(kind, reviewValue)
+  );
+  if (known) {
+    await applyCatalogEntry(schoolId, kind, entry);
+    return entry;
+  }
+  return updateCatalogEntry(schoolId, kind, entryId, { aliases: [...entry.aliases, reviewValue] });
+}
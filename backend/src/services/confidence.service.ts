@@ -0,0 +1,239 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+import type { TimeBlock } from "./llm.service";
+import { detectTimeConflicts } from "./embedding.service";
+import type { OCRWord, ProviderReading } from "./providers/provider.registry";
+
+/**
+ * Per-Block Confidence Scoring
+ *
+ * Replaces the single document-wide number with a 0-100 score for every
+ * time block, built from:
+ * - OCR word confidence of the block's tokens (Tesseract reports it)
+ * - Time format repairs applied by repairTimeBlocks
+ * - Overlaps with other blocks and exact duplicates
+ * - Agreement with a second provider's read, when low-confidence reads were
+ *   cross-checked (the text the LLM structured cannot check itself)
+ *
+ * The factors are stored next to the score so reviewers can see why a
+ * block was flagged.
+ */
+
+export interface BlockConfidenceFactors {
+  base: number; // Document-level confidence the score starts from
+  ocrWordConfidence: number | null; // Mean confidence of matched OCR words
+  agreement: number | null; // Share of block tokens found in the cross-check reads (0-1)
+  readings: number; // Cross-check reads agreement was measured against
+  repairs: string[];
+  conflicts: number;
+  duplicates: number;
+}
+
+export interface BlockConfidence {
+  score: number;
+  factors: BlockConfidenceFactors;
+}
+
+export interface ConfidenceEvidence {
+  baseConfidence: number;
+  readings: ProviderReading[];
+  repairs?: string[][]; // Aligned with the scored blocks
+}
+
+// Penalties (score points) and caps
+const REPAIR_PENALTY = 5;
+const MAX_REPAIR_PENALTY = 15;
+const CONFLICT_PENALTY = 15;
+const MAX_CONFLICT_PENALTY = 30;
+const DUPLICATE_PENALTY = 10;
+
+/**
+ * Threshold below which a block is considered doubtful by reviewers
+ */
+export const LOW_CONFIDENCE_THRESHOLD = 70;
+
+function normalizeToken(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+interface BlockTokens {
+  words: string[];
+  times: string[];
+}
+
+/**
+ * Tokens that should appear in the source text for a block
+ * Times are reduced to digits without leading zero ("09:00" → "900")
+ */
+function blockTokens(block: TimeBlock): BlockTokens {
+  const words = [block.subject, block.classroom]
+    .filter(Boolean)
+    .flatMap((value) => value.split(/\s+/))
+    .map(normalizeToken)
+    .filter((token) => token.length >= 2);
+
+  const times = [block.startTime, block.endTime].map((time) => time.replace(":", "").replace(/^0/, ""));
+
+  return { words: Array.from(new Set(words)), times: Array.from(new Set(times)) };
+}
+
+/**
+ * Times mentioned in a reading, in the same digit form as blockTokens
+ * ("9:00", "09.00", "0900" → "900"; "2:30 pm" or "2:30" → "230" and "1430")
+ */
+function readingTimes(text: string): Set<string> {
+  const times = new Set<string>();
+  const pattern = /(\d{1,2})\s*[:.h]?\s*(\d{2})\s*(am|pm)?/gi;
+
+  for (const match of text.matchAll(pattern)) {
+    const hours = parseInt(match[1], 10);
+    times.add(`${hours}${match[2]}`);
+    const meridiem = match[3]?.toLowerCase();
+    // "pm" times, and bare 1-7 o'clock times which in a school day mean afternoon
+    if ((meridiem === "pm" && hours < 12) || (!meridiem && hours >= 1 && hours <= 7)) {
+      times.add(`${hours + 12}${match[2]}`);
+    }
+  }
+
+  return times;
+}
+
+/**
+ * Share of block tokens present in a text
+ */
+function tokenSupport(tokens: BlockTokens, text: string): number {
+  const total = tokens.words.length + tokens.times.length;
+  if (total === 0) return 0;
+
+  const letters = normalizeToken(text);
+  const times = readingTimes(text);
+
+  const found =
+    tokens.words.filter((token) => letters.includes(token)).length +
+    tokens.times.filter((token) => times.has(token)).length;
+  return found / total;
+}
+
+/**
+ * Mean OCR confidence of words matching the block's tokens
+ */
+function ocrWordConfidence(tokens: BlockTokens, words: OCRWord[]): number | null {
+  const textTokens = new Set(tokens.words);
+  const matched = words.filter((word) => textTokens.has(normalizeToken(word.text)));
+
+  if (matched.length === 0) return null;
+  return matched.reduce((sum, word) => sum + word.confidence, 0) / matched.length;
+}
+
+function duplicateKey(block: TimeBlock): string {
+  return [block.weekIndex, block.dayOfWeek, block.startTime, block.endTime, normalizeToken(block.subject)].join("|");
+}
+
+/**
+ * Score every time block (result is aligned with the input blocks)
+ */
+export function scoreTimeBlocks(blocks: TimeBlock[], evidence: ConfidenceEvidence): BlockConfidence[] {
+  const conflictCounts = new Array<number>(blocks.length).fill(0);
+  for (const conflict of detectTimeConflicts(blocks)) {
+    // Exact duplicates are penalised separately below
+    if (duplicateKey(blocks[conflict.index1]) === duplicateKey(blocks[conflict.index2])) continue;
+    conflictCounts[conflict.index1]++;
+    conflictCounts[conflict.index2]++;
+  }
+
+  const keyCounts = new Map<string, number>();
+  for (const block of blocks) {
+    const key = duplicateKey(block);
+    keyCounts.set(key, (keyCounts.get(key) || 0) + 1);
+  }
+
+  const readings = evidence.readings.filter((reading) => reading.text.trim().length > 0);
+  const structured = readings.filter((reading) => !reading.crossCheck);
+  const crossChecks = readings.filter((reading) => reading.crossCheck);
+  const words = structured.flatMap((reading) => reading.words || []);
+
+  // Agreement needs an independent read of every structured part (page, image)
+  // of the document, otherwise blocks from unchecked parts would look unsupported
+  const covered =
+    crossChecks.length > 0 &&
+    structured.every((reading) => crossChecks.some((check) => check.context === reading.context));
+  const crossCheckText = covered ? crossChecks.map((check) => check.text).join("\n") : null;
+
+  return blocks.map((block, index) => {
+    const tokens = blockTokens(block);
+    const repairs = evidence.repairs?.[index] || [];
+    const duplicates = (keyCounts.get(duplicateKey(block)) || 1) - 1;
+
+    const wordConfidence = words.length > 0 ? ocrWordConfidence(tokens, words) : null;
+    const agreement = crossCheckText === null ? null : tokenSupport(tokens, crossCheckText);
+
+    // Start from OCR word confidence when available, else the document confidence
+    let score = wordConfidence ?? evidence.baseConfidence;
+
+    // Blocks the cross-check does not back up lose up to 40%
+    if (agreement !== null) {
+      score *= 0.6 + 0.4 * agreement;
+    }
+
+    score -= Math.min(repairs.length * REPAIR_PENALTY, MAX_REPAIR_PENALTY);
+    score -= Math.min(conflictCounts[index] * CONFLICT_PENALTY, MAX_CONFLICT_PENALTY);
+    score -= duplicates > 0 ? DUPLICATE_PENALTY : 0;
+
+    return {
+      score: Math.max(0, Math.min(100, Math.round(score))),
+      factors: {
+        base: evidence.baseConfidence,
+        ocrWordConfidence: wordConfidence === null ? null : Math.round(wordConfidence),
+        agreement: agreement === null ? null : Math.round(agreement * 100) / 100,
+        readings: covered ? crossChecks.length : 0,
+        repairs,
+        conflicts: conflictCounts[index],
+        duplicates,
+      },
+    };
+  });
+}
+
+/**
+ * Average of block scores (document-level summary)
+ */
+export function averageBlockConfidence(confidences: BlockConfidence[]): number {
+  if (confidences.length === 0) return 0;
+  return Math.round(confidences.reduce((sum, c) => sum + c.score, 0) / confidences.length);
+}
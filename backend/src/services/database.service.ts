@@ -37,8 +37,11 @@
  */
 
 
-import { PrismaClient, DayOfWeek, ProcessingStatus } from '@prisma/client';
+import { PrismaClient, Prisma, DayOfWeek, ProcessingStatus, type TimeBlock } from '@prisma/client';
 import { logInfo, logError } from '../utils/logger';
+import { normalizeTeacherName } from './teacher-match.service';
+import { matchTimeBlocks } from './timetable-diff.service';
+import { planRevisionChains } from './revision-chain.service';
 
 // Initialize Prisma Client
 const prisma = new PrismaClient({
@@ -47,20 +50,32 @@ const prisma = new PrismaClient({
 
 // Types for database operations
 interface CreateTeacherInput {
+  schoolId: string;
   name: string;
   email?: string;
 }
 
 interface CreateTimetableInput {
+  schoolId: string;
   teacherId: string;
   filePath: string;
   fileType: string;
   originalFileName: string;
   fileSize: number;
+  pageFiles?: StoredPageFile[]; // Multi-image uploads only, in page order
+  extractionMethod?: string; // Set up front when blocks do not come from extraction (spreadsheet imports)
 }
 
+export type StoredPageFile = {
+  path: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+};
+
 interface TimeBlockInput {
   dayOfWeek: DayOfWeek;
+  weekIndex?: number; // Rotation week, 1 when the timetable does not rotate
   startTime: string;
   endTime: string;
   subject: string;
@@ -69,6 +84,49 @@ interface TimeBlockInput {
   section?: string;
   notes?: string;
   confidence?: number;
+  confidenceFactors?: Prisma.InputJsonValue;
+}
+
+// Time block fields a person can correct (tracked in time_block_edits)
+export const EDITABLE_BLOCK_FIELDS = [
+  'dayOfWeek',
+  'weekIndex',
+  'startTime',
+  'endTime',
+  'subject',
+  'classroom',
+  'grade',
+  'section',
+  'notes',
+] as const;
+
+export type EditableBlockField = (typeof EDITABLE_BLOCK_FIELDS)[number];
+
+/**
+ * A block with its corrected fields set back to what the extractor read
+ * New runs are matched against these values, which the extractor reads again
+ */
+function extractedView(block: TimeBlock): TimeBlock {
+  return { ...block, ...((block.extractedValues as Partial<TimeBlock> | null) ?? {}), id: block.id };
+}
+
+/**
+ * Hold a teacher's revision chains until the transaction ends
+ * Uploads that finish together (batch uploads, the worker runs jobs side by
+ * side) would otherwise read the same latest revision and both become current.
+ */
+async function lockRevisionChains(tx: Prisma.TransactionClient, teacherId: string): Promise<void> {
+  await tx.$queryRaw`SELECT id FROM "teachers" WHERE id = ${teacherId} FOR UPDATE`;
+}
+
+/**
+ * Run work in the caller's transaction, or in a new one when there is none
+ */
+function inTransaction<T>(
+  tx: Prisma.TransactionClient | undefined,
+  work: (tx: Prisma.TransactionClient) => Promise<T>
+): Promise<T> {
+  return tx ? work(tx) : prisma.$transaction(work);
 }
 
 interface CreateProcessingLogInput {
@@ -77,6 +135,7 @@ interface CreateProcessingLogInput {
   status: 'success' | 'failed';
   message?: string;
   metadata?: Record<string, unknown>;
+  duration?: number;
 }
 
 /**
@@ -85,19 +144,31 @@ interface CreateProcessingLogInput {
  */
 class DatabaseService {
   /**
-   * Create or get existing teacher by name
+   * Create or get existing teacher within a school
+   * Matches by email first, then by name or alias ignoring titles, case and punctuation
    */
-  async findOrCreateTeacher(input: CreateTeacherInput) {
+  async findOrCreateTeacher(input: CreateTeacherInput, db: Prisma.TransactionClient = prisma) {
     try {
-      // Try to find existing teacher by name
-      let teacher = await prisma.teacher.findFirst({
-        where: { name: input.name },
-      });
+      let teacher = input.email
+        ? await db.teacher.findFirst({ where: { schoolId: input.schoolId, email: input.email } })
+        : null;
+
+      if (!teacher) {
+        const key = normalizeTeacherName(input.name);
+        const teachers = await db.teacher.findMany({
+          where: { schoolId: input.schoolId },
+          orderBy: { createdAt: 'asc' },
+        });
+        teacher = teachers.find((candidate) =>
+          [candidate.name, ...candidate.aliases].some((name) => normalizeTeacherName(name) === key)
+        ) ?? null;
+      }
 
       if (!teacher) {
         // Create new teacher if not found
-        teacher = await prisma.teacher.create({
+        teacher = await db.teacher.create({
           data: {
+            schoolId: input.schoolId,
             name: input.name,
             email: input.email,
           },
@@ -117,7 +188,7 @@ class DatabaseService {
   /**
    * Update teacher information
    */
-  async updateTeacher(teacherId: string, input: Partial<CreateTeacherInput>) {
+  async updateTeacher(teacherId: string, input: Partial<Omit<CreateTeacherInput, 'schoolId'>>) {
     try {
       const teacher = await prisma.teacher.update({
         where: { id: teacherId },
@@ -138,15 +209,18 @@ class DatabaseService {
   /**
    * Create a new timetable record
    */
-  async createTimetable(input: CreateTimetableInput) {
+  async createTimetable(input: CreateTimetableInput, db: Prisma.TransactionClient = prisma) {
     try {
-      const timetable = await prisma.timetable.create({
+      const timetable = await db.timetable.create({
         data: {
+          schoolId: input.schoolId,
           teacherId: input.teacherId,
           filePath: input.filePath,
           fileType: input.fileType,
           originalFileName: input.originalFileName,
           fileSize: input.fileSize,
+          pageFiles: input.pageFiles,
+          extractionMethod: input.extractionMethod,
           processingStatus: ProcessingStatus.PENDING,
         },
       });
@@ -165,10 +239,11 @@ class DatabaseService {
   async updateTimetableStatus(
     timetableId: string,
     status: ProcessingStatus,
-    errorMessage?: string
+    errorMessage?: string,
+    db: Prisma.TransactionClient = prisma
   ) {
     try {
-      const timetable = await prisma.timetable.update({
+      const timetable = await db.timetable.update({
         where: { id: timetableId },
         data: {
           processingStatus: status,
@@ -184,6 +259,80 @@ class DatabaseService {
     }
   }
 
+  /**
+   * Remember the queue job that processes a timetable, so it can be cancelled
+   */
+  async setTimetableJob(timetableId: string, jobId: string) {
+    try {
+      return await prisma.timetable.update({
+        where: { id: timetableId },
+        data: { jobId },
+      });
+    } catch (error) {
+      logError(`Error recording job ${jobId} for timetable ${timetableId}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update the academic term a timetable belongs to
+   * Empty values are stored as null so filters do not match blank strings.
+   * A timetable already in a revision chain (a reprocessed upload) whose term
+   * changes leaves its old chain and joins the new term's, so the teacher's
+   * chains are rebuilt.
+   */
+  async updateTimetableTerm(
+    timetableId: string,
+    term: { academicYear?: string | null; semester?: string | null },
+    tx?: Prisma.TransactionClient
+  ) {
+    try {
+      const academicYear = term.academicYear?.trim() || null;
+      const semester = term.semester?.trim() || null;
+
+      const timetable = await inTransaction(tx, async (tx) => {
+        const previous = await tx.timetable.findUniqueOrThrow({ where: { id: timetableId } });
+        const updated = await tx.timetable.update({
+          where: { id: timetableId },
+          data: { academicYear, semester },
+        });
+
+        const moved = previous.academicYear !== academicYear || previous.semester !== semester;
+        if (moved && previous.revision !== null) {
+          await this.rebuildRevisionChains(previous.teacherId, tx);
+        }
+        return updated;
+      });
+
+      logInfo(`Updated timetable ${timetableId} term`, {
+        academicYear: timetable.academicYear,
+        semester: timetable.semester,
+      });
+      return timetable;
+    } catch (error) {
+      logError(`Error updating timetable ${timetableId} term`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update the number of weeks in a timetable's rotation
+   */
+  async updateTimetableCycle(timetableId: string, cycleLength: number, db: Prisma.TransactionClient = prisma) {
+    try {
+      const timetable = await db.timetable.update({
+        where: { id: timetableId },
+        data: { cycleLength: Math.max(1, cycleLength) },
+      });
+
+      logInfo(`Updated timetable ${timetableId} cycle length`, { cycleLength: timetable.cycleLength });
+      return timetable;
+    } catch (error) {
+      logError(`Error updating timetable ${timetableId} cycle length`, error);
+      throw error;
+    }
+  }
+
   /**
    * Create time blocks for a timetable
    */
@@ -193,6 +342,7 @@ class DatabaseService {
         data: timeBlocks.map((block) => ({
           timetableId,
           dayOfWeek: block.dayOfWeek,
+          weekIndex: block.weekIndex,
           startTime: block.startTime,
           endTime: block.endTime,
           subject: block.subject,
@@ -201,6 +351,7 @@ class DatabaseService {
           section: block.section,
           notes: block.notes,
           confidence: block.confidence,
+          confidenceFactors: block.confidenceFactors,
         })),
       });
 
@@ -212,6 +363,172 @@ class DatabaseService {
     }
   }
 
+  /**
+   * Save an extraction run as a new version of the timetable's time blocks
+   * Blocks from earlier runs are marked superseded instead of being deleted
+   * A manual version (blocks entered by a reviewer) replaces corrections instead of carrying them over
+   */
+  async createTimeBlockVersion(
+    timetableId: string,
+    timeBlocks: TimeBlockInput[],
+    options: { manual?: boolean } = {},
+    tx?: Prisma.TransactionClient
+  ) {
+    try {
+      const result = await inTransaction(tx, async (tx) => {
+        const timetable = await tx.timetable.update({
+          where: { id: timetableId },
+          data: { currentVersion: { increment: 1 } },
+          select: { currentVersion: true },
+        });
+        const version = timetable.currentVersion;
+
+        // Human corrections on the current blocks must survive the new run
+        const corrected = options.manual
+          ? []
+          : await tx.timeBlock.findMany({
+              where: { timetableId, supersededAt: null, NOT: { humanEditedFields: { isEmpty: true } } },
+            });
+        // And so must blocks a person removed from the previous version
+        const removed = options.manual
+          ? []
+          : await tx.timeBlock.findMany({
+              where: { timetableId, version: version - 1, deletedAt: { not: null } },
+            });
+
+        const superseded = await tx.timeBlock.updateMany({
+          where: { timetableId, supersededAt: null, version: { lt: version } },
+          data: { supersededAt: new Date() },
+        });
+
+        const created = await tx.timeBlock.createMany({
+          data: timeBlocks.map((block) => ({
+            timetableId,
+            dayOfWeek: block.dayOfWeek,
+            weekIndex: block.weekIndex,
+            startTime: block.startTime,
+            endTime: block.endTime,
+            subject: block.subject,
+            classroom: block.classroom,
+            grade: block.grade,
+            section: block.section,
+            notes: block.notes,
+            confidence: block.confidence,
+            confidenceFactors: block.confidenceFactors,
+            version,
+            humanEditedFields: options.manual ? [...EDITABLE_BLOCK_FIELDS] : undefined,
+          })),
+        });
+
+        const carriedOver =
+          corrected.length > 0 ? await this.carryOverCorrections(tx, timetableId, version, corrected) : 0;
+        const removedAgain = removed.length > 0 ? await this.carryOverRemovals(tx, timetableId, version, removed) : 0;
+
+        return { version, count: created.count, superseded: superseded.count, carriedOver, removedAgain };
+      });
+
+      logInfo(
+        `Created ${result.count} time blocks (version ${result.version}) for timetable ${timetableId}`,
+        { superseded: result.superseded, carriedOver: result.carriedOver, removedAgain: result.removedAgain }
+      );
+      return result;
+    } catch (error) {
+      logError(`Error creating time block version for timetable ${timetableId}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Re-apply human corrections to the matching blocks of a new extraction run
+   * Blocks are matched on their machine-extracted values, so a corrected
+   * subject or time still finds the lesson the extractor reads again
+   */
+  private async carryOverCorrections(
+    tx: Prisma.TransactionClient,
+    timetableId: string,
+    version: number,
+    corrected: TimeBlock[]
+  ) {
+    const created = await tx.timeBlock.findMany({ where: { timetableId, version } });
+    const extractedViews = corrected.map(extractedView);
+    const byId = new Map(corrected.map((block) => [block.id, block]));
+
+    const pairs = matchTimeBlocks(extractedViews, created);
+    for (const { from, to } of pairs) {
+      const previous = byId.get(from.id)!;
+      const fields = previous.humanEditedFields as EditableBlockField[];
+
+      await tx.timeBlock.update({
+        where: { id: to.id },
+        data: {
+          ...Object.fromEntries(fields.map((field) => [field, previous[field]])),
+          humanEditedFields: fields,
+          extractedValues: Object.fromEntries(fields.map((field) => [field, to[field]])),
+          previousBlockId: previous.id,
+        },
+      });
+    }
+
+    // Blocks a reviewer added (nothing extracted) are kept even when the new run misses them
+    const paired = new Set(pairs.map(({ from }) => from.id));
+    const unmatched = corrected.filter((block) => !paired.has(block.id));
+    let added = 0;
+    for (const block of unmatched) {
+      if (block.extractedValues !== null) continue;
+      await tx.timeBlock.create({
+        data: {
+          timetableId,
+          dayOfWeek: block.dayOfWeek,
+          weekIndex: block.weekIndex,
+          startTime: block.startTime,
+          endTime: block.endTime,
+          subject: block.subject,
+          classroom: block.classroom,
+          grade: block.grade,
+          section: block.section,
+          notes: block.notes,
+          confidence: block.confidence,
+          version,
+          humanEditedFields: block.humanEditedFields,
+          previousBlockId: block.id,
+        },
+      });
+      added++;
+    }
+
+    if (unmatched.length > added) {
+      logInfo(`${unmatched.length - added} corrected time blocks had no match in the new run`, {
+        timetableId,
+        version,
+      });
+    }
+    return pairs.length + added;
+  }
+
+  /**
+   * Remove the blocks of a new extraction run that a person removed before
+   * Runs after carryOverCorrections; blocks that took over a correction stay.
+   */
+  private async carryOverRemovals(
+    tx: Prisma.TransactionClient,
+    timetableId: string,
+    version: number,
+    removed: TimeBlock[]
+  ) {
+    const created = await tx.timeBlock.findMany({ where: { timetableId, version, previousBlockId: null } });
+    const byId = new Map(removed.map((block) => [block.id, block]));
+
+    const pairs = matchTimeBlocks(removed.map(extractedView), created);
+    for (const { from, to } of pairs) {
+      const previous = byId.get(from.id)!;
+      await tx.timeBlock.update({
+        where: { id: to.id },
+        data: { supersededAt: previous.deletedAt, deletedAt: previous.deletedAt, previousBlockId: previous.id },
+      });
+    }
+    return pairs.length;
+  }
+
   /**
    * Create processing log entry
    */
@@ -224,6 +541,7 @@ class DatabaseService {
           status: input.status,
           message: input.message,
           metadata: input.metadata as any,
+          duration: input.duration,
         },
       });
 
@@ -236,15 +554,17 @@ class DatabaseService {
 
   /**
    * Get timetable with all related data
+   * Timetables of other schools are not found
    */
-  async getTimetableWithDetails(timetableId: string) {
+  async getTimetableWithDetails(timetableId: string, schoolId: string) {
     try {
-      const timetable = await prisma.timetable.findUnique({
-        where: { id: timetableId },
+      const timetable = await prisma.timetable.findFirst({
+        where: { id: timetableId, schoolId },
         include: {
           teacher: true,
           timeBlocks: {
-            orderBy: [{ dayOfWeek: 'asc' }, { startTime: 'asc' }],
+            where: { supersededAt: null },
+            orderBy: [{ weekIndex: 'asc' }, { dayOfWeek: 'asc' }, { startTime: 'asc' }],
           },
           processingLogs: {
             orderBy: { createdAt: 'asc' },
@@ -260,15 +580,16 @@ class DatabaseService {
   }
 
   /**
-   * Get all timetables for a teacher
+   * Get all timetables for a teacher of a school
    */
-  async getTeacherTimetables(teacherId: string) {
+  async getTeacherTimetables(teacherId: string, schoolId: string) {
     try {
       const timetables = await prisma.timetable.findMany({
-        where: { teacherId },
+        where: { teacherId, schoolId },
         include: {
           timeBlocks: {
-            orderBy: [{ dayOfWeek: 'asc' }, { startTime: 'asc' }],
+            where: { supersededAt: null },
+            orderBy: [{ weekIndex: 'asc' }, { dayOfWeek: 'asc' }, { startTime: 'asc' }],
           },
         },
         orderBy: { uploadedAt: 'desc' },
@@ -281,6 +602,155 @@ class DatabaseService {
     }
   }
 
+  /**
+   * Get the current timetable of a teacher (latest term unless one is given)
+   */
+  async getCurrentTeacherTimetable(
+    teacherId: string,
+    schoolId: string,
+    term: { academicYear?: string; semester?: string } = {}
+  ) {
+    try {
+      return await prisma.timetable.findFirst({
+        where: {
+          teacherId,
+          schoolId,
+          isCurrent: true,
+          processingStatus: ProcessingStatus.COMPLETED,
+          ...(term.academicYear && { academicYear: term.academicYear }),
+          ...(term.semester && { semester: term.semester }),
+        },
+        include: {
+          teacher: true,
+          timeBlocks: {
+            where: { supersededAt: null },
+            orderBy: [{ weekIndex: 'asc' }, { dayOfWeek: 'asc' }, { startTime: 'asc' }],
+          },
+        },
+        orderBy: { uploadedAt: 'desc' },
+      });
+    } catch (error) {
+      logError(`Error fetching current timetable of teacher ${teacherId}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Make a completed upload the current revision of its teacher's term
+   *
+   * A revised timetable for the same teacher, academic year and semester
+   * replaces the current one: it gets the next revision number and points
+   * back at the revision it replaced. Reprocessing keeps an upload's place in
+   * the chain.
+   */
+  async assignTimetableRevision(timetableId: string, tx?: Prisma.TransactionClient) {
+    try {
+      const result = await inTransaction(tx, async (tx) => {
+        const { teacherId } = await tx.timetable.findUniqueOrThrow({ where: { id: timetableId } });
+        await lockRevisionChains(tx, teacherId);
+
+        // Read again under the lock: the chain may have changed while waiting for it
+        const timetable = await tx.timetable.findUniqueOrThrow({ where: { id: timetableId } });
+        // Reprocessed uploads keep their place in the chain (updateTimetableTerm moves them when the term changes)
+        if (timetable.revision !== null) {
+          return timetable;
+        }
+
+        const term = {
+          teacherId: timetable.teacherId,
+          academicYear: timetable.academicYear,
+          semester: timetable.semester,
+        };
+
+        const latest = await tx.timetable.findFirst({
+          where: { ...term, revision: { not: null } },
+          orderBy: { revision: 'desc' },
+        });
+
+        await tx.timetable.updateMany({
+          where: { ...term, isCurrent: true },
+          data: { isCurrent: false },
+        });
+
+        return tx.timetable.update({
+          where: { id: timetableId },
+          data: {
+            revision: (latest?.revision ?? 0) + 1,
+            previousRevisionId: latest?.id ?? null,
+            isCurrent: true,
+            // A revised upload keeps the term dates set on the one it replaces
+            termStartDate: timetable.termStartDate ?? latest?.termStartDate ?? null,
+            termEndDate: timetable.termEndDate ?? latest?.termEndDate ?? null,
+          },
+        });
+      });
+
+      logInfo(`Timetable ${timetableId} is revision ${result.revision} for its term`, {
+        previousRevisionId: result.previousRevisionId,
+      });
+      return result;
+    } catch (error) {
+      logError(`Error assigning revision to timetable ${timetableId}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Renumber the revision chains of a teacher's terms by upload time
+   *
+   * Needed when timetables change teacher (merges, reassignments): the moved
+   * uploads join the chain of their new teacher's term and the newest one
+   * becomes current. Runs inside the caller's transaction; the uniqueness of
+   * revisions and current rows is checked when it commits.
+   */
+  async rebuildRevisionChains(teacherId: string, tx: Prisma.TransactionClient) {
+    try {
+      await lockRevisionChains(tx, teacherId);
+      const timetables = await tx.timetable.findMany({
+        where: { teacherId, revision: { not: null } },
+      });
+
+      const links = planRevisionChains(timetables);
+      for (const { id, ...link } of links) {
+        await tx.timetable.update({ where: { id }, data: link });
+      }
+
+      logInfo(`Rebuilt revision chains of teacher ${teacherId}`, {
+        terms: links.filter((link) => link.isCurrent).length,
+      });
+    } catch (error) {
+      logError(`Error rebuilding revision chains of teacher ${teacherId}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get every revision of the teacher's term a timetable belongs to
+   */
+  async getTimetableRevisions(timetableId: string, schoolId: string) {
+    try {
+      const timetable = await prisma.timetable.findFirst({ where: { id: timetableId, schoolId } });
+      if (!timetable) return null;
+
+      return prisma.timetable.findMany({
+        where: {
+          schoolId,
+          teacherId: timetable.teacherId,
+          academicYear: timetable.academicYear,
+          semester: timetable.semester,
+          revision: { not: null },
+        },
+        include: {
+          _count: { select: { timeBlocks: { where: { supersededAt: null } } } },
+        },
+        orderBy: { revision: 'asc' },
+      });
+    } catch (error) {
+      logError(`Error fetching revisions of timetable ${timetableId}`, error);
+      throw error;
+    }
+  }
+
   /**
    * Clean up: disconnect Prisma Client
    */
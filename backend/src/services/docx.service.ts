@@ -39,18 +39,20 @@
 import mammoth from "mammoth";
 import JSZip from "jszip";
 import fs from "fs/promises";
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import vision from "@google-cloud/vision";
 import { logInfo, logError, logWarn } from "../utils/logger";
-import { config } from "../config/env";
 import { buildDOCXImageExtractionPrompt } from "./prompts/ocr.prompts";
+import {
+  extractWithProviderChain,
+  type ProviderAttempt,
+  type VisionChainOptions,
+} from "./providers/provider.registry";
 
 /**
  * Advanced DOCX Service with AI/ML Support
  *
  * Capabilities:
  * 1. Text-based DOCX: Direct text extraction with mammoth
- * 2. Image-rich DOCX: Extract embedded images → AI Vision
+ * 2. Image-rich DOCX: Extract embedded images → vision provider chain (OCR_PROVIDER_CHAIN)
  * 3. Mixed DOCX: Hybrid extraction combining both methods
  *
  * Priority: Direct text extraction for speed, AI Vision for embedded images
@@ -63,258 +65,7 @@ export interface DOCXExtractionResult {
   method: "text-extraction" | "ai-vision" | "hybrid";
   confidence: number;
   imagesProcessed?: number;
-}
-
-/**
- * Extract text using OpenAI Vision from DOCX images
- */
-async function extractWithOpenAIVision(
-  imageBuffers: Buffer[]
-): Promise<string> {
-  try {
-    logInfo("🤖 Extracting DOCX images text with OpenAI Vision API");
-
-    if (!config.env.OPENAI_API_KEY) {
-      throw new Error("OpenAI API key not configured");
-    }
-
-    const extractedTexts: string[] = [];
-
-    // Process each image
-    for (let i = 0; i < imageBuffers.length; i++) {
-      logInfo(
-        `Processing image ${i + 1}/${imageBuffers.length} with OpenAI Vision`
-      );
-
-      const base64Image = imageBuffers[i].toString("base64");
-
-      // Use standardized prompt from shared module
-      const prompt = buildDOCXImageExtractionPrompt(i + 1, imageBuffers.length);
-
-      const response = await fetch(
-        "https://api.openai.com/v1/chat/completions",
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${config.env.OPENAI_API_KEY}`,
-          },
-          body: JSON.stringify({
-            model: "gpt-4o-mini",
-            messages: [
-              {
-                role: "user",
-                content: [
-                  {
-                    type: "text",
-                    text: prompt,
-                  },
-                  {
-                    type: "image_url",
-                    image_url: {
-                      url: `data:image/png;base64,${base64Image}`,
-                    },
-                  },
-                ],
-              },
-            ],
-            max_tokens: 2000,
-            temperature: 0, // Deterministic extraction
-          }),
-        }
-      );
-
-      if (!response.ok) {
-        throw new Error(`OpenAI Vision API error: ${response.status}`);
-      }
-
-      const data: any = await response.json();
-      const imageText = data.choices?.[0]?.message?.content?.trim() || "";
-      extractedTexts.push(imageText);
-    }
-
-    const fullText = extractedTexts.join("\n\n--- Image Break ---\n\n");
-    logInfo("✅ OpenAI Vision DOCX image extraction successful");
-
-    return fullText;
-  } catch (error) {
-    logError("❌ OpenAI Vision DOCX image extraction failed", error);
-    throw error;
-  }
-}
-
-/**
- * Extract text using Deepseek Vision from DOCX images
- */
-async function extractWithDeepseekVision(
-  imageBuffers: Buffer[]
-): Promise<string> {
-  try {
-    logInfo("🧠 Extracting DOCX images text with Deepseek Vision API");
-
-    if (!config.env.DEEPSEEK_API_KEY) {
-      throw new Error("Deepseek API key not configured");
-    }
-
-    const extractedTexts: string[] = [];
-
-    // Process each image
-    for (let i = 0; i < imageBuffers.length; i++) {
-      logInfo(
-        `Processing image ${i + 1}/${imageBuffers.length} with Deepseek Vision`
-      );
-
-      const base64Image = imageBuffers[i].toString("base64");
-
-      // Use standardized prompt from shared module
-      const prompt = buildDOCXImageExtractionPrompt(i + 1, imageBuffers.length);
-
-      const response = await fetch(
-        "https://api.deepseek.com/v1/chat/completions",
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${config.env.DEEPSEEK_API_KEY}`,
-          },
-          body: JSON.stringify({
-            model: "deepseek-vl2", // ✅ use lowercase model name
-            messages: [
-              {
-                role: "user",
-                content: [
-                  {
-                    type: "text",
-                    text: prompt,
-                  },
-                  {
-                    type: "image", // ✅ correct field
-                    image: `data:image/png;base64,${base64Image}`, // ✅ base64 inline
-                  },
-                ],
-              },
-            ],
-            max_tokens: 2000,
-            temperature: 0, // Deterministic extraction
-          }),
-        }
-      );
-
-      if (!response.ok) {
-        throw new Error(`Deepseek Vision API error: ${response.status}`);
-      }
-
-      const data: any = await response.json();
-      const imageText = data.choices?.[0]?.message?.content?.trim() || "";
-      extractedTexts.push(imageText);
-    }
-
-    const fullText = extractedTexts.join("\n\n--- Image Break ---\n\n");
-    logInfo("✅ Deepseek Vision DOCX image extraction successful");
-
-    return fullText;
-  } catch (error) {
-    logError("❌ Deepseek Vision DOCX image extraction failed", error);
-    throw error;
-  }
-}
-
-/**
- * Extract text using Google Gemini Vision from DOCX images
- */
-async function extractWithGoogleVision_old(
-  imageBuffers: Buffer[]
-): Promise<string> {
-  try {
-    logInfo("🤖 Extracting DOCX images text with Google Gemini Vision API");
-
-    if (!config.env.GOOGLE_API_KEY) {
-      throw new Error("Google API key not configured");
-    }
-
-    const genAI = new GoogleGenerativeAI(config.env.GOOGLE_API_KEY);
-    const model = genAI.getGenerativeModel({ model: "gemini-1.5-flash" });
-
-    const extractedTexts: string[] = [];
-
-    // Process each image
-    for (let i = 0; i < imageBuffers.length; i++) {
-      logInfo(
-        `Processing image ${i + 1}/${imageBuffers.length} with Google Vision`
-      );
-
-      const base64Image = imageBuffers[i].toString("base64");
-
-      // Use standardized prompt from shared module (same as OpenAI)
-      const prompt = buildDOCXImageExtractionPrompt(i + 1, imageBuffers.length);
-
-      const result = await model.generateContent([
-        prompt,
-        {
-          inlineData: {
-            data: base64Image,
-            mimeType: "image/png",
-          },
-        },
-      ]);
-
-      const response = await result.response;
-      const imageText = response.text().trim();
-      extractedTexts.push(imageText);
-    }
-
-    const fullText = extractedTexts.join("\n\n--- Image Break ---\n\n");
-    logInfo("✅ Google Vision DOCX image extraction successful");
-
-    return fullText;
-  } catch (error) {
-    logError("❌ Google Vision DOCX image extraction failed", error);
-    throw error;
-  }
-}
-
-async function extractWithGoogleVision(
-  imageBuffers: Buffer[]
-): Promise<string> {
-  try {
-    logInfo("🤖 Extracting DOCX images text with Google Vision API");
-
-    // Ensure the path to service account JSON is set
-    if (!config.env.GOOGLE_SERVICE_ACCOUNT_JSON) {
-      throw new Error(
-        "Google Service Account JSON path not configured in GOOGLE_SERVICE_ACCOUNT_JSON"
-      );
-    }
-
-    // Initialize Vision client with service account
-    const client = new vision.ImageAnnotatorClient({
-      keyFilename: config.env.GOOGLE_SERVICE_ACCOUNT_JSON,
-    });
-
-    const extractedTexts: string[] = [];
-
-    // Process each image
-    for (let i = 0; i < imageBuffers.length; i++) {
-      logInfo(`Processing image ${i + 1}/${imageBuffers.length} with Google Vision`);
-
-      const [result] = await client.documentTextDetection({ 
-        image: { content: imageBuffers[i] } 
-      });
-
-      const imageText = result.fullTextAnnotation?.text?.trim() || "";
-      extractedTexts.push(imageText);
-    }
-
-    const fullText = extractedTexts.join("\n\n--- Image Break ---\n\n");
-    logInfo("✅ Google Vision DOCX image extraction successful", {
-      textLength: fullText.length,
-    });
-
-    return fullText;
-  } catch (error) {
-    logError("❌ Google Vision DOCX image extraction failed", error);
-    throw error;
-  }
+  attempts: ProviderAttempt[];
 }
 
 /**
@@ -358,57 +109,47 @@ async function extractImagesFromDOCX(docxPath: string): Promise<Buffer[]> {
 
 /**
  * Extract text from DOCX images using AI Vision
+ * Each image runs through the vision provider chain independently
  */
-async function extractImagesWithAI(imageBuffers: Buffer[]): Promise<string> {
+async function extractImagesWithAI(
+  imageBuffers: Buffer[],
+  options: VisionChainOptions
+): Promise<string> {
   try {
     logInfo("🔍 Processing DOCX images with AI Vision");
 
-    let extractedText = "";
-
-    switch (config.env.WHICH_OCR_KEY) {
-      case "OPENAI_API_KEY":
-        // Try OpenAI Vision first (highest quality)
-        if (config.env.OPENAI_API_KEY) {
-          try {
-            extractedText = await extractWithOpenAIVision(imageBuffers);
-            return extractedText;
-          } catch (error) {
-            logWarn(
-              "⚠️ OpenAI Vision failed for DOCX images, trying Deepseek Vision",
-              error
-            );
-          }
-        }
-        break;
-      case "DEEPSEEK_API_KEY":
-        // Try Deepseek Vision as second option (cost-effective)
-        if (config.env.DEEPSEEK_API_KEY) {
-          try {
-            extractedText = await extractWithDeepseekVision(imageBuffers);
-            return extractedText;
-          } catch (error) {
-            logWarn(
-              "⚠️ Deepseek Vision failed for DOCX images, trying Google Vision",
-              error
-            );
-          }
-        }
-        break;
-      case "GOOGLE_API_KEY":
-        // Try Google Vision as third option
-        if (config.env.GOOGLE_API_KEY) {
-          try {
-            extractedText = await extractWithGoogleVision(imageBuffers);
-            return extractedText;
-          } catch (error) {
-            logWarn("⚠️ Google Vision failed for DOCX images", error);
-          }
-        }
-        break;
-      default:
+    const extractedTexts: string[] = [];
+
+    for (let i = 0; i < imageBuffers.length; i++) {
+      logInfo(`Processing image ${i + 1}/${imageBuffers.length} with vision provider chain`);
+
+      try {
+        const result = await extractWithProviderChain(
+          {
+            image: imageBuffers[i],
+            mimeType: "image/png",
+            // Use standardized prompt from shared module
+            prompt: buildDOCXImageExtractionPrompt(i + 1, imageBuffers.length),
+          },
+          { ...options, context: `docx image ${i + 1}/${imageBuffers.length}` }
+        );
+        extractedTexts.push(result.text);
+      } catch (error) {
+        // Logos and decorative images often contain no text at all
+        logWarn(`⚠️ No vision provider could read image ${i + 1}`, error);
+      }
+    }
+
+    if (extractedTexts.length === 0) {
+      throw new Error("All AI Vision methods failed for DOCX image extraction");
     }
 
-    throw new Error("All AI Vision methods failed for DOCX image extraction");
+    logInfo("✅ DOCX image extraction successful", {
+      images: imageBuffers.length,
+      imagesExtracted: extractedTexts.length,
+    });
+
+    return extractedTexts.join("\n\n--- Image Break ---\n\n");
   } catch (error) {
     logError("❌ DOCX image extraction failed", error);
     throw error;
@@ -425,9 +166,11 @@ async function extractImagesWithAI(imageBuffers: Buffer[]): Promise<string> {
  * 4. Combine both extractions (hybrid approach)
  */
 export async function extractTextFromDOCX(
-  docxPath: string
+  docxPath: string,
+  options: VisionChainOptions = {}
 ): Promise<DOCXExtractionResult> {
   const startTime = Date.now();
+  const attempts: ProviderAttempt[] = [];
 
   try {
     logInfo(`🚀 Starting AI-powered DOCX extraction for: ${docxPath}`);
@@ -457,7 +200,7 @@ export async function extractTextFromDOCX(
       );
 
       try {
-        const imageText = await extractImagesWithAI(imageBuffers);
+        const imageText = await extractImagesWithAI(imageBuffers, { ...options, attempts });
 
         if (textLength > 50) {
           // Hybrid: Combine text and image extraction
@@ -489,6 +232,12 @@ export async function extractTextFromDOCX(
     }
 
     const processingTime = Date.now() - startTime;
+    options.attempts?.push(...attempts);
+
+    // Native document text is an independent reading of the document
+    if (textLength >= 10) {
+      options.readings?.push({ source: "docx-text", text: textResult.value, confidence: 95 });
+    }
 
     logInfo("✨ DOCX extraction completed", {
       method,
@@ -505,6 +254,7 @@ export async function extractTextFromDOCX(
       method,
       confidence,
       imagesProcessed: imageBuffers.length,
+      attempts,
     };
   } catch (error) {
     logError("💥 DOCX extraction failed", error);
@@ -516,6 +266,16 @@ export async function extractTextFromDOCX(
   }
 }
 
+/**
+ * Read the raw text and HTML of a DOCX without touching embedded images
+ * Used by the deterministic table parser
+ */
+export async function readDOCXDocument(docxPath: string): Promise<{ text: string; html: string }> {
+  const textResult = await mammoth.extractRawText({ path: docxPath });
+  const htmlResult = await mammoth.convertToHtml({ path: docxPath });
+  return { text: textResult.value, html: htmlResult.value };
+}
+
 /**
  * Check if file is a DOCX
  */
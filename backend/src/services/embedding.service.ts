@@ -121,6 +121,7 @@ function initializeEmbeddings(): OpenAIEmbeddings {
 function timeBlockToSemanticText(block: TimeBlock, teacherName: string): string {
   return `
 Teacher: ${teacherName}
+Week: ${block.weekIndex}
 Day: ${block.dayOfWeek}
 Time: ${block.startTime} to ${block.endTime}
 Subject: ${block.subject}
@@ -130,6 +131,15 @@ Notes: ${block.notes || 'None'}
 `.trim();
 }
 
+/**
+ * Short label for a block in reports ("Week 2 MONDAY 09:00-10:00: Mathematics")
+ * The week is only shown for blocks after the first week of a rotation
+ */
+function describeBlock(block: TimeBlock): string {
+  const week = block.weekIndex > 1 ? `Week ${block.weekIndex} ` : '';
+  return `${week}${block.dayOfWeek} ${block.startTime}-${block.endTime}: ${block.subject}`;
+}
+
 /**
  * Convert time string (HH:mm) to minutes since midnight
  */
@@ -292,12 +302,14 @@ async function performSemanticAnalysis(
       // Skip self-comparison and already processed pairs
       if (similarBlockIndex === i) continue;
       if (similarBlockIndex < i) continue; // Avoid duplicate pairs
+      // The same lesson in another rotation week is not a duplicate
+      if (blocks[similarBlockIndex].weekIndex !== block.weekIndex) continue;
 
       // High similarity (>0.95) = likely duplicate
       if (score > 0.95) {
         duplicates.push({
-          original: `${block.dayOfWeek} ${block.startTime}-${block.endTime}: ${block.subject}`,
-          duplicate: `${blocks[similarBlockIndex].dayOfWeek} ${blocks[similarBlockIndex].startTime}-${blocks[similarBlockIndex].endTime}: ${blocks[similarBlockIndex].subject}`,
+          original: describeBlock(block),
+          duplicate: describeBlock(blocks[similarBlockIndex]),
           similarity: score,
           originalIndex: i,
           duplicateIndex: similarBlockIndex,
@@ -306,42 +318,21 @@ async function performSemanticAnalysis(
     }
   }
 
-  // 2. CONFLICT DETECTION - time overlaps on same day
+  // 2. CONFLICT DETECTION - time overlaps on same day of the same week
   logInfo('⚠️ Detecting time conflicts');
-  
-  for (let i = 0; i < blocks.length; i++) {
-    for (let j = i + 1; j < blocks.length; j++) {
-      const block1 = blocks[i];
-      const block2 = blocks[j];
-
-      // Only check same day
-      if (block1.dayOfWeek === block2.dayOfWeek) {
-        const start1 = timeToMinutes(block1.startTime);
-        const end1 = timeToMinutes(block1.endTime);
-        const start2 = timeToMinutes(block2.startTime);
-        const end2 = timeToMinutes(block2.endTime);
-
-        // Check for overlap: (start1 < end2) AND (end1 > start2)
-        if (start1 < end2 && end1 > start2) {
-          conflicts.push({
-            block1: `${block1.dayOfWeek} ${block1.startTime}-${block1.endTime}: ${block1.subject}`,
-            block2: `${block2.dayOfWeek} ${block2.startTime}-${block2.endTime}: ${block2.subject}`,
-            reason: 'Time overlap detected',
-            index1: i,
-            index2: j,
-          });
-        }
-      }
-    }
-  }
+  conflicts.push(...detectTimeConflicts(blocks));
 
   // 3. GAP DETECTION - missing expected slots
   logInfo('🕳️ Detecting schedule gaps');
   
   const daysOfWeek = ['MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY'];
-  
-  for (const day of daysOfWeek) {
-    const dayBlocks = blocks.filter((b) => b.dayOfWeek === day);
+  const weeks = [...new Set(blocks.map((b) => b.weekIndex))].sort((a, b) => a - b);
+  const rotating = weeks.length > 1;
+  const schoolDays = weeks.flatMap((week) => daysOfWeek.map((dayName) => ({ week, dayName })));
+
+  for (const { week, dayName } of schoolDays) {
+    const day = rotating ? `Week ${week} ${dayName}` : dayName;
+    const dayBlocks = blocks.filter((b) => b.dayOfWeek === dayName && b.weekIndex === week);
 
     if (dayBlocks.length === 0) {
       gaps.push({
@@ -384,6 +375,42 @@ async function performSemanticAnalysis(
   };
 }
 
+/**
+ * Detect time overlaps between blocks on the same day of the same rotation week
+ * Pure time arithmetic - works without embeddings, so validation can run offline
+ */
+export function detectTimeConflicts(blocks: TimeBlock[]): SemanticInsights['conflicts'] {
+  const conflicts: SemanticInsights['conflicts'] = [];
+
+  for (let i = 0; i < blocks.length; i++) {
+    for (let j = i + 1; j < blocks.length; j++) {
+      const block1 = blocks[i];
+      const block2 = blocks[j];
+
+      // Only check same day; Week A and Week B share days without clashing
+      if (block1.dayOfWeek === block2.dayOfWeek && block1.weekIndex === block2.weekIndex) {
+        const start1 = timeToMinutes(block1.startTime);
+        const end1 = timeToMinutes(block1.endTime);
+        const start2 = timeToMinutes(block2.startTime);
+        const end2 = timeToMinutes(block2.endTime);
+
+        // Check for overlap: (start1 < end2) AND (end1 > start2)
+        if (start1 < end2 && end1 > start2) {
+          conflicts.push({
+            block1: describeBlock(block1),
+            block2: describeBlock(block2),
+            reason: 'Time overlap detected',
+            index1: i,
+            index2: j,
+          });
+        }
+      }
+    }
+  }
+
+  return conflicts;
+}
+
 /**
  * Calculate timetable statistics
  */
@@ -507,7 +534,8 @@ export function buildRefinementContext(
 
 /**
  * Export helper function to check if embeddings are available
+ * Disabled while recording or replaying fixtures so prompts stay identical
  */
 export function areEmbeddingsAvailable(): boolean {
-  return !!config.env.OPENAI_API_KEY;
+  return !!config.env.OPENAI_API_KEY && config.env.AI_PROVIDER_MODE === 'live';
 }
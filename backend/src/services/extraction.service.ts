@@ -37,17 +37,23 @@
  */
 
 
-import { extractTextFromImage, isImageFile } from "./ocr.service";
-import { extractTextFromPDF, isPDFFile } from "./pdf.service";
+import { extractTextFromImage, extractTextFromImages, isImageFile } from "./ocr.service";
+import { extractTextFromPDF, isPDFFile, type PageRange } from "./pdf.service";
 import { extractTextFromDOCX, isDOCXFile } from "./docx.service";
 import {
+  dedupeTimeBlocks,
   extractTimetableWithLLM,
+  repairTimeBlocks,
   validateTimeBlocks,
+  type SchoolContext,
   type TimetableData,
 } from "./llm.service";
-// import { intelligentExtraction } from "./intelligent/intelligent.service";
+import { intelligentExtraction } from "./intelligent/intelligent.service";
+import { parseDocumentTables } from "./table-parser.service";
+import { scoreTimeBlocks, type BlockConfidence } from "./confidence.service";
+import type { ProviderAttempt, ProviderReading } from "./providers/provider.registry";
 import { config } from "../config/env";
-import { logInfo, logError } from "../utils/logger";
+import { logInfo, logError, logWarn } from "../utils/logger";
 
 export interface ExtractionResult {
   success: boolean;
@@ -56,60 +62,151 @@ export interface ExtractionResult {
   method: "ocr" | "pdf" | "docx" | "hybrid";
   confidence: number;
   processingTime: number;
+  providerAttempts: ProviderAttempt[]; // Every vision provider tried, in order
+  blockConfidence?: BlockConfidence[]; // Aligned with timetableData.timeBlocks
+  providerReadings?: ProviderReading[]; // Every successful provider / text-layer read, cross-checks included
+  pageImages?: Buffer[]; // PDF page renders sent to vision providers
+  rawTimetableData?: TimetableData; // Structured LLM output before repairs and validation
+  pages?: PageExtraction[]; // Per-image OCR outcome for multi-image uploads
   error?: string;
 }
 
+/**
+ * OCR outcome of one page of a multi-image upload
+ */
+export interface PageExtraction {
+  page: number; // 1-based position after ordering
+  fileName: string;
+  method: string;
+  confidence: number;
+  textLength: number;
+  processingTime: number;
+  error?: string;
+}
+
+/**
+ * One stored page image of a multi-image upload
+ */
+export interface PageFile {
+  path: string;
+  fileName: string;
+}
+
+/**
+ * Per-run overrides (e.g. from the reprocess endpoint)
+ */
+export interface ExtractionOverrides {
+  ocrProviders?: string[]; // Overrides OCR_PROVIDER_CHAIN for this extraction
+  llmModel?: string; // Overrides the default structuring model
+  pageRange?: PageRange; // Only process these PDF pages
+  agentic?: boolean; // Overrides USE_AGENTIC_WORKFLOW
+}
+
+export interface ExtractionOptions extends ExtractionOverrides {
+  timetableId?: string; // Enables per-step ProcessingLog rows for the agent
+  school?: SchoolContext; // Bell schedule and working days of the uploading school
+  signal?: AbortSignal; // Set by the worker; aborts OCR and LLM calls when the job is cancelled
+}
+
 /**
  * Main extraction orchestrator
  * Determines the best extraction method based on file type
  */
 export async function extractTimetable(
   filePath: string,
-  mimeType: string
+  mimeType: string,
+  options: ExtractionOptions = {}
 ): Promise<ExtractionResult> {
   const startTime = Date.now();
+  const providerAttempts: ProviderAttempt[] = [];
+  const providerReadings: ProviderReading[] = [];
+  const pageImages: Buffer[] = [];
+  const visionOptions = {
+    chain: options.ocrProviders,
+    attempts: providerAttempts,
+    readings: providerReadings,
+    pageImages,
+    pageRange: options.pageRange,
+    signal: options.signal,
+  };
+
+  let extractedText = "";
+  let method: "ocr" | "pdf" | "docx" | "hybrid" = "pdf";
+  let timetableData: TimetableData | undefined;
 
   try {
     logInfo("Starting timetable extraction", { filePath, mimeType });
 
-    let extractedText = "";
-    let method: "ocr" | "pdf" | "docx" | "hybrid" = "pdf";
+    let confidence: number | undefined;
 
-    // Step 2: Use Intelligent Agent or Simple LLM for structuring
-    const useAgenticWorkflow = config.env.USE_AGENTIC_WORKFLOW;
-    logInfo(
-      `Using ${useAgenticWorkflow ? "AGENTIC" : "SIMPLE"} extraction mode`
-    );
+    // Step 1: Clean digital tables (text DOCX, ruled PDF) are read without any AI call
+    if (isDOCXFile(mimeType) || isPDFFile(mimeType)) {
+      const tableResult = await parseDocumentTables(filePath, mimeType, options.pageRange);
+      if (tableResult) {
+        timetableData = tableResult.timetableData;
+        extractedText = tableResult.text;
+        method = isDOCXFile(mimeType) ? "docx" : "pdf";
+        confidence = 95;
+        providerReadings.push({
+          source: isDOCXFile(mimeType) ? "docx-text" : "pdf-text-layer",
+          text: tableResult.text,
+          confidence: 95,
+        });
+      }
+    }
 
-    let timetableData: TimetableData | undefined;
-    let confidence: number | undefined;
+    // Step 2: Use Intelligent Agent or Simple LLM for structuring
+    const useAgenticWorkflow = options.agentic ?? config.env.USE_AGENTIC_WORKFLOW;
+    if (!timetableData) {
+      logInfo(
+        `Using ${useAgenticWorkflow ? "AGENTIC" : "SIMPLE"} extraction mode`
+      );
+    }
 
-    if (useAgenticWorkflow) {
+    if (!timetableData && useAgenticWorkflow) {
       // Use intelligent agent-based extraction (default)
-      logInfo("Agentic workflow is not yet implemented, falling back to simple extraction");
-      // TODO: Implement agentic workflow
-      // const agentResult = await intelligentExtraction(
-      //   'ocr',
-      //   filePath
-      // );
-
-      // timetableData = agentResult;
-      // confidence = agentResult.metadata?.enhancedConfidence || 85;
-
-      // logInfo("Agent-based extraction completed", {
-      //   mode: agentResult.metadata?.extractionMode,
-      //   toolsUsed: agentResult.metadata?.agentToolsUsed,
-      //   confidence,
-      // });
+      try {
+        const agentResult = await intelligentExtraction(filePath, mimeType, {
+          timetableId: options.timetableId,
+          ocrProviders: options.ocrProviders,
+          providerAttempts,
+          providerReadings,
+          pageImages,
+          pageRange: options.pageRange,
+          llmModel: options.llmModel,
+          school: options.school,
+          signal: options.signal,
+        });
+
+        if (agentResult.timetableData) {
+          timetableData = agentResult.timetableData;
+          extractedText = agentResult.extractedText;
+          method = agentResult.method;
+          confidence = agentResult.confidence;
+
+          logInfo("Agent-based extraction completed", {
+            iterations: agentResult.iterations,
+            validationPassed: agentResult.validationPassed,
+            toolsUsed: agentResult.toolsUsed,
+            confidence,
+          });
+        } else {
+          logWarn("Agent produced no timetable data, falling back to simple extraction");
+        }
+      } catch (agentError) {
+        // A cancelled job does not start over with the simple workflow
+        options.signal?.throwIfAborted();
+        logWarn("Agentic workflow failed, falling back to simple extraction", agentError);
+      }
     }
     
-    // Always use simple extraction for now (until agentic workflow is implemented)
+    // Simple extraction (agentic workflow disabled or did not produce data)
     if (!timetableData) {
       // Step 1: Extract text based on file type
       if (isImageFile(mimeType)) {
-        // Image files -> OCR with AI/ML (OpenAI Vision, Google Vision, or Tesseract)
+        // Image files -> OCR through the vision provider chain
         logInfo("Processing as image file (AI-powered OCR)");
-        const ocrResult = await extractTextFromImage(filePath);
+        const ocrResult = await extractTextFromImage(filePath, visionOptions);
         extractedText = ocrResult.text;
         method = "ocr";
         logInfo(`OCR extraction completed using: ${ocrResult.method}`, {
@@ -119,7 +216,7 @@ export async function extractTimetable(
       } else if (isPDFFile(mimeType)) {
         // PDF files -> AI-powered extraction (auto-detects scanned/text-based/mixed)
         logInfo("Processing as PDF file (AI-powered extraction)");
-        const pdfResult = await extractTextFromPDF(filePath);
+        const pdfResult = await extractTextFromPDF(filePath, visionOptions);
         extractedText = pdfResult.text;
 
         // Map PDF extraction method to our method enum
@@ -145,7 +242,7 @@ export async function extractTimetable(
       } else if (isDOCXFile(mimeType)) {
         // DOCX files -> AI-powered extraction (auto-detects embedded images)
         logInfo("Processing as DOCX file (AI-powered extraction)");
-        const docxResult = await extractTextFromDOCX(filePath);
+        const docxResult = await extractTextFromDOCX(filePath, visionOptions);
         extractedText = docxResult.text;
 
         // Map DOCX extraction method to our method enum
@@ -189,7 +286,11 @@ export async function extractTimetable(
 
       // Use simple LLM extraction (legacy)
       logInfo("Starting LLM-based structuring");
-      const llmResult = await extractTimetableWithLLM(extractedText);
+      const llmResult = await extractTimetableWithLLM(extractedText, {
+        model: options.llmModel,
+        school: options.school,
+        signal: options.signal,
+      });
       timetableData = llmResult.timetableData;
       confidence = llmResult.confidence;
     }
@@ -199,21 +300,18 @@ export async function extractTimetable(
       throw new Error("Failed to extract timetable data");
     }
 
-    // Step 3: Validate extracted time blocks
-    const validatedTimeBlocks = validateTimeBlocks(timetableData.timeBlocks);
-    const finalTimetableData: TimetableData = {
-      ...timetableData,
-      timeBlocks: validatedTimeBlocks,
-    };
+    // Steps 3-4: Repair, validate and score the extracted time blocks
+    const { finalTimetableData, finalConfidence, blockConfidence } = finalizeTimetableData(
+      timetableData,
+      confidence,
+      { readings: providerReadings }
+    );
 
     const processingTime = Date.now() - startTime;
 
-    // Ensure confidence has a value
-    const finalConfidence = confidence ?? 75; // Default confidence if undefined
-
     logInfo("Timetable extraction completed successfully", {
       method,
-      entriesExtracted: validatedTimeBlocks.length,
+      entriesExtracted: finalTimetableData.timeBlocks.length,
       confidence: finalConfidence,
       totalProcessingTime: processingTime,
     });
@@ -225,22 +323,210 @@ export async function extractTimetable(
       method,
       confidence: finalConfidence,
       processingTime,
+      providerAttempts,
+      blockConfidence,
+      providerReadings,
+      pageImages,
+      rawTimetableData: timetableData,
     };
   } catch (error) {
     const processingTime = Date.now() - startTime;
     logError("Timetable extraction failed", error);
 
+    // Keep whatever was produced so the failure can be diagnosed
     return {
       success: false,
-      extractedText: "",
-      method: "pdf",
+      extractedText,
+      method,
+      confidence: 0,
+      processingTime,
+      providerAttempts,
+      providerReadings,
+      pageImages,
+      rawTimetableData: timetableData,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+/**
+ * Extract one timetable from several page images (e.g. phone photos)
+ *
+ * Pages are OCRed one by one in the given order, then a single structuring
+ * pass runs over the combined text and duplicate rows from overlapping
+ * photos are merged. Multi-page uploads always use the simple workflow
+ * because the agent works on a single document.
+ */
+export async function extractTimetableFromImages(
+  pageFiles: PageFile[],
+  options: ExtractionOptions = {}
+): Promise<ExtractionResult> {
+  const startTime = Date.now();
+  const providerAttempts: ProviderAttempt[] = [];
+  const providerReadings: ProviderReading[] = [];
+  const method = "ocr" as const;
+
+  let extractedText = "";
+  let pages: PageExtraction[] = [];
+  let timetableData: TimetableData | undefined;
+
+  try {
+    logInfo("Starting multi-image timetable extraction", {
+      pages: pageFiles.map((page) => page.fileName),
+    });
+    if (options.agentic) {
+      logWarn("Agentic workflow is not available for multi-image uploads, using simple extraction");
+    }
+
+    // Step 1: OCR each page in order
+    const ocrResults = await extractTextFromImages(
+      pageFiles.map((page) => page.path),
+      {
+        chain: options.ocrProviders,
+        attempts: providerAttempts,
+        readings: providerReadings,
+        signal: options.signal,
+      }
+    );
+
+    pages = ocrResults.map((result, index) => ({
+      page: index + 1,
+      fileName: pageFiles[index].fileName,
+      method: result.method,
+      confidence: result.confidence,
+      textLength: result.text.length,
+      processingTime: result.processingTime,
+      error: result.error,
+    }));
+
+    const readPages = ocrResults
+      .map((result, index) => ({ result, index }))
+      .filter(({ result }) => result.text.trim().length > 0);
+    if (readPages.length === 0) {
+      throw new Error("No text could be extracted from any page");
+    }
+
+    extractedText = readPages
+      .map(({ result, index }) =>
+        `--- Page ${index + 1} of ${pageFiles.length} (${pageFiles[index].fileName}) ---\n${result.text}`
+      )
+      .join("\n\n");
+
+    logInfo("Text extraction completed", {
+      method,
+      pagesRead: readPages.length,
+      textLength: extractedText.length,
+    });
+
+    // Step 2: Single structuring pass over all pages
+    logInfo("Starting LLM-based structuring");
+    const llmResult = await extractTimetableWithLLM(extractedText, {
+        model: options.llmModel,
+        school: options.school,
+        signal: options.signal,
+      });
+    timetableData = llmResult.timetableData;
+
+    // Pages that could not be read lower the overall confidence
+    const confidence = Math.round(llmResult.confidence * (readPages.length / pageFiles.length));
+
+    // Steps 3-4: Repair, merge duplicates from overlapping pages, and score
+    const { finalTimetableData, finalConfidence, blockConfidence } = finalizeTimetableData(
+      timetableData,
+      confidence,
+      { readings: providerReadings, dedupe: true }
+    );
+
+    const processingTime = Date.now() - startTime;
+
+    logInfo("Multi-image timetable extraction completed successfully", {
+      pages: pageFiles.length,
+      entriesExtracted: finalTimetableData.timeBlocks.length,
+      confidence: finalConfidence,
+      totalProcessingTime: processingTime,
+    });
+
+    return {
+      success: true,
+      timetableData: finalTimetableData,
+      extractedText,
+      method,
+      confidence: finalConfidence,
+      processingTime,
+      providerAttempts,
+      blockConfidence,
+      providerReadings,
+      rawTimetableData: timetableData,
+      pages,
+    };
+  } catch (error) {
+    const processingTime = Date.now() - startTime;
+    logError("Multi-image timetable extraction failed", error);
+
+    return {
+      success: false,
+      extractedText,
+      method,
       confidence: 0,
       processingTime,
+      providerAttempts,
+      providerReadings,
+      rawTimetableData: timetableData,
+      pages,
       error: error instanceof Error ? error.message : "Unknown error",
     };
   }
 }
 
+/**
+ * Repair and validate structured blocks, then score each one
+ * Optionally merges duplicate blocks (multi-image uploads)
+ */
+function finalizeTimetableData(
+  timetableData: TimetableData,
+  confidence: number | undefined,
+  context: {
+    readings: ProviderReading[];
+    dedupe?: boolean;
+  }
+): {
+  finalTimetableData: TimetableData;
+  finalConfidence: number;
+  blockConfidence: BlockConfidence[];
+} {
+  // Validate (and repair) extracted time blocks
+  let { timeBlocks: validatedTimeBlocks, repairs } = repairTimeBlocks(timetableData.timeBlocks);
+
+  if (context.dedupe) {
+    const deduped = dedupeTimeBlocks(validatedTimeBlocks);
+    validatedTimeBlocks = deduped.timeBlocks;
+    repairs = deduped.keptIndexes.map((index) => repairs[index]);
+  }
+
+  // Ensure confidence has a value
+  const finalConfidence = confidence ?? 75; // Default confidence if undefined
+
+  // Score each block from OCR, repair, conflict and cross-check evidence
+  const blockConfidence = scoreTimeBlocks(validatedTimeBlocks, {
+    baseConfidence: finalConfidence,
+    readings: context.readings,
+    repairs,
+  });
+
+  // The rotation covers at least every week a block was placed in
+  const cycleLength = Math.max(
+    Number.isInteger(timetableData.cycleLength) ? timetableData.cycleLength : 1,
+    ...validatedTimeBlocks.map((block) => block.weekIndex),
+    1
+  );
+
+  return {
+    finalTimetableData: { ...timetableData, cycleLength, timeBlocks: validatedTimeBlocks },
+    finalConfidence,
+    blockConfidence,
+  };
+}
+
 /**
  * Extract timetable from text directly (useful for testing)
  */
@@ -269,6 +555,7 @@ export async function extractTimetableFromText(
       method: "pdf",
       confidence: llmResult.confidence,
       processingTime,
+      providerAttempts: [],
     };
   } catch (error) {
     const processingTime = Date.now() - startTime;
@@ -279,6 +566,7 @@ export async function extractTimetableFromText(
       method: "pdf",
       confidence: 0,
       processingTime,
+      providerAttempts: [],
       error: error instanceof Error ? error.message : "Unknown error",
     };
   }
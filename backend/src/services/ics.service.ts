@@ -0,0 +1,241 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+import { DayOfWeek, type Teacher, type TimeBlock, type Timetable } from "@prisma/client";
+
+/**
+ * iCalendar Export
+ *
+ * Turns a timetable into an .ics calendar (RFC 5545) with one weekly
+ * recurring VEVENT per time block:
+ * - times are floating (wall clock), so calendar apps show them in the
+ *   teacher's own timezone
+ * - rotating timetables repeat every cycleLength weeks, Week 1 being the
+ *   week the term starts in
+ * - occurrences are bounded by the term dates when they are known;
+ *   otherwise the calendar starts in the current week and does not end
+ */
+
+export type CalendarTimetable = Timetable & { teacher: Teacher; timeBlocks: TimeBlock[] };
+
+// A block with the timetable it belongs to (feeds mix blocks of several timetables)
+export interface CalendarEntry {
+  block: TimeBlock;
+  timetable: Timetable;
+  teacher: Teacher;
+}
+
+export interface CalendarOptions {
+  includeBreaks?: boolean;
+  termStart?: Date | null; // Overrides the timetable's term dates
+  termEnd?: Date | null;
+  showTeacher?: boolean; // Add the teacher to event titles (room and class calendars)
+  now?: Date;
+}
+
+// Subjects that are not lessons (what extraction is asked to label as breaks)
+const BREAK_SUBJECT = /\b(break|lunch|recess|assembly|registration|free)\b/i;
+
+const DAY_OFFSETS: Record<DayOfWeek, number> = {
+  MONDAY: 0,
+  TUESDAY: 1,
+  WEDNESDAY: 2,
+  THURSDAY: 3,
+  FRIDAY: 4,
+  SATURDAY: 5,
+  SUNDAY: 6,
+};
+
+const DAY_CODES: Record<DayOfWeek, string> = {
+  MONDAY: "MO",
+  TUESDAY: "TU",
+  WEDNESDAY: "WE",
+  THURSDAY: "TH",
+  FRIDAY: "FR",
+  SATURDAY: "SA",
+  SUNDAY: "SU",
+};
+
+const PRODID = "-//Teacher Timetable Extraction//Timetable Export//EN";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isBreakBlock(block: Pick<TimeBlock, "subject">): boolean {
+  return BREAK_SUBJECT.test(block.subject);
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Fold a content line at 75 octets; continuation lines start with a space
+ */
+function foldLine(line: string): string {
+  if (Buffer.byteLength(line, "utf8") <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let size = 0;
+  let limit = 75;
+  for (const char of line) {
+    const charSize = Buffer.byteLength(char, "utf8");
+    if (size + charSize > limit) {
+      parts.push(current);
+      current = "";
+      size = 0;
+      limit = 74;
+    }
+    current += char;
+    size += charSize;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+function formatLocalTime(date: Date, time: string): string {
+  return `${formatDate(date)}T${time.replace(":", "")}00`;
+}
+
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function startOfWeek(date: Date): Date {
+  const midnight = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  return new Date(midnight - ((date.getUTCDay() + 6) % 7) * DAY_MS);
+}
+
+/**
+ * First date on or after the term start on which the block takes place
+ */
+function firstOccurrence(block: TimeBlock, weekOne: Date, cycleLength: number, termStart: Date): Date {
+  const offset = ((block.weekIndex - 1) * 7 + DAY_OFFSETS[block.dayOfWeek]) * DAY_MS;
+  let date = new Date(weekOne.getTime() + offset);
+  while (date < termStart) {
+    date = new Date(date.getTime() + cycleLength * 7 * DAY_MS);
+  }
+  return date;
+}
+
+function describeBlock(block: TimeBlock, cycleLength: number): string {
+  const lines: string[] = [];
+  const classGroup = [block.grade, block.section].filter(Boolean).join(" ");
+  if (classGroup) lines.push(`Class: ${classGroup}`);
+  if (cycleLength > 1) lines.push(`Week ${block.weekIndex} of ${cycleLength}`);
+  if (block.notes) lines.push(block.notes);
+  return lines.join("\n");
+}
+
+/**
+ * Name shown for the calendar, e.g. "Jane Smith - Term 1 2024-2025"
+ */
+export function calendarName(timetable: CalendarTimetable): string {
+  const term = [timetable.semester, timetable.academicYear].filter(Boolean).join(" ");
+  return term ? `${timetable.teacher.name} - ${term}` : `${timetable.teacher.name} - Timetable`;
+}
+
+/**
+ * Build an .ics document from time blocks
+ */
+export function buildCalendar(name: string, entries: CalendarEntry[], options: CalendarOptions = {}): string {
+  const now = options.now ?? new Date();
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ];
+
+  for (const { block, timetable, teacher } of entries) {
+    const isBreak = isBreakBlock(block);
+    if (isBreak && options.includeBreaks === false) continue;
+
+    const termStart = options.termStart ?? timetable.termStartDate ?? startOfWeek(now);
+    const termEnd = options.termEnd ?? timetable.termEndDate;
+    const cycleLength = Math.max(timetable.cycleLength, 1);
+
+    const date = firstOccurrence(block, startOfWeek(termStart), cycleLength, termStart);
+    if (termEnd && date > termEnd) continue;
+
+    const rule = [
+      "FREQ=WEEKLY",
+      ...(cycleLength > 1 ? [`INTERVAL=${cycleLength}`] : []),
+      `BYDAY=${DAY_CODES[block.dayOfWeek]}`,
+      ...(termEnd ? [`UNTIL=${formatDate(termEnd)}T235959`] : []),
+    ].join(";");
+
+    const summary = options.showTeacher ? `${block.subject} (${teacher.name})` : block.subject;
+    const description = describeBlock(block, cycleLength);
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${block.id}@timetable-extraction`,
+      `DTSTAMP:${formatUtc(now)}`,
+      `DTSTART:${formatLocalTime(date, block.startTime)}`,
+      `DTEND:${formatLocalTime(date, block.endTime)}`,
+      `RRULE:${rule}`,
+      `SUMMARY:${escapeText(summary)}`,
+      ...(block.classroom ? [`LOCATION:${escapeText(block.classroom)}`] : []),
+      ...(description ? [`DESCRIPTION:${escapeText(description)}`] : []),
+      ...(isBreak ? ["CATEGORIES:Break", "TRANSP:TRANSPARENT"] : []),
+      "END:VEVENT"
+    );
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+/**
+ * Build the .ics document of a timetable's current time blocks
+ */
+export function buildTimetableCalendar(timetable: CalendarTimetable, options: CalendarOptions = {}): string {
+  const entries = timetable.timeBlocks.map((block) => ({ block, timetable, teacher: timetable.teacher }));
+  return buildCalendar(calendarName(timetable), entries, options);
+}
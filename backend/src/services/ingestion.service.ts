@@ -0,0 +1,431 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import { IngestionSource, IngestionStatus, type IngestionRecord } from "@prisma/client";
+import { config } from "../config/env";
+import { UPLOAD_MIME_TYPES } from "../middleware/upload";
+import { addTimetableJob } from "../queues/timetable.queue";
+import { hasFileSignature, storedFileName, timetableMimeType } from "./archive.service";
+import { databaseService, prisma } from "./database.service";
+import { ImapClient, imapConfigFromUrl } from "./imap-client.service";
+import { parseMailMessage } from "./mail-message.service";
+import { DEFAULT_SCHOOL_ID, findSchool } from "./school.service";
+import { teacherForFile } from "./teacher.service";
+import { logError, logInfo, logWarn } from "../utils/logger";
+
+/**
+ * Hot Folder and Mailbox Ingestion
+ *
+ * Timetables dropped on a shared drive or emailed in become uploads like
+ * any other: each file is checked against the upload types, stored in the
+ * upload directory and queued with createTimetable + addTimetableJob.
+ *
+ * Hot folder: files directly in the folder belong to the default school,
+ * files in a sub-folder named after a school's slug to that school. Files
+ * are picked up once they have not changed for a few seconds (so half-copied
+ * files are left alone) and then moved to processed/ or rejected/.
+ *
+ * Mailboxes (a local Maildir or an IMAP mailbox): the sender decides the
+ * school and, when known, the teacher. A sender registered for a teacher
+ * sends that teacher's timetables; a sender registered without one (a
+ * secretary) or a teacher emailing from their own address is handled like a
+ * batch upload, with the teacher taken from the file name or the document.
+ * Mail from anyone else is ignored. Each email is marked as read once handled.
+ */
+
+export interface IngestionSenderInput {
+  address: string;
+  teacherId?: string | null;
+}
+
+interface IncomingFile {
+  source: IngestionSource;
+  schoolId: string;
+  reference: string;
+  fileName: string;
+  data: Buffer;
+  contentType?: string; // Declared type of an email attachment
+  teacherId?: string;
+  sender?: string;
+  subject?: string;
+}
+
+// Files changed more recently are probably still being copied
+const SETTLE_MS = 5000;
+// Sub-folders of the hot folder that hold handled files
+const PROCESSED_FOLDER = "processed";
+const REJECTED_FOLDER = "rejected";
+// Partial downloads and editor lock files
+const TEMPORARY_FILE = /^~\$|\.(tmp|part|crdownload|download)$/i;
+// Messages handled per IMAP poll; the rest wait for the next one
+const IMAP_BATCH_SIZE = 25;
+
+/**
+ * Raised when an address is already registered (for any school)
+ */
+export class IngestionSenderConflictError extends Error {
+  constructor(public readonly address: string, reason = "is already registered") {
+    super(`Sender "${address}" ${reason}`);
+    this.name = "IngestionSenderConflictError";
+  }
+}
+
+/**
+ * Store and queue one file, or record why it was not
+ */
+async function ingestFile(file: IncomingFile): Promise<IngestionRecord> {
+  const record = {
+    schoolId: file.schoolId,
+    source: file.source,
+    reference: file.reference,
+    fileName: file.fileName,
+    sender: file.sender,
+    subject: file.subject,
+  };
+  const reject = (reason: string) => {
+    logWarn(`Ingestion rejected ${file.fileName}: ${reason}`, { source: file.source, reference: file.reference });
+    return prisma.ingestionRecord.create({ data: { ...record, status: IngestionStatus.REJECTED, reason } });
+  };
+
+  const mimeType = timetableMimeType(file.fileName) ?? file.contentType?.toLowerCase();
+  if (!mimeType || !UPLOAD_MIME_TYPES.includes(mimeType)) {
+    return reject("Unsupported file type (PNG, JPEG, PDF or DOCX expected)");
+  }
+  if (file.data.length > config.env.MAX_FILE_SIZE) {
+    return reject("File is larger than the upload limit");
+  }
+  if (!hasFileSignature(mimeType, file.data)) {
+    return reject("Content does not match the file type");
+  }
+
+  const filePath = path.join(config.env.UPLOAD_DIR, storedFileName(file.fileName));
+  await fs.writeFile(filePath, file.data);
+
+  try {
+    const teacher = file.teacherId
+      ? { teacherId: file.teacherId, fromDocument: false }
+      : await teacherForFile(file.schoolId, file.fileName);
+
+    const timetable = await databaseService.createTimetable({
+      schoolId: file.schoolId,
+      teacherId: teacher.teacherId,
+      filePath,
+      fileType: mimeType,
+      originalFileName: file.fileName,
+      fileSize: file.data.length,
+    });
+
+    const job = await addTimetableJob({
+      timetableId: timetable.id,
+      schoolId: file.schoolId,
+      teacherId: teacher.teacherId,
+      filePath,
+      fileType: mimeType,
+      fileName: file.fileName,
+      teacherFromDocument: teacher.fromDocument || undefined,
+    });
+
+    logInfo(`📥 Ingested ${file.fileName} from ${file.source.toLowerCase()}`, { timetableId: timetable.id, jobId: job.id });
+    return await prisma.ingestionRecord.create({
+      data: { ...record, status: IngestionStatus.QUEUED, timetableId: timetable.id, jobId: job.id },
+    });
+  } catch (error) {
+    await fs.unlink(filePath).catch(() => {
+      // Ignore cleanup errors
+    });
+    throw error;
+  }
+}
+
+/**
+ * School and teacher of a mail sender, or null for unknown senders
+ *
+ * An address known to several schools (as a registered sender or a teacher's
+ * email) is not routed to any of them, so no school can take another's mail.
+ */
+async function resolveSender(address: string): Promise<{ schoolId: string; teacherId?: string } | null> {
+  const [senders, teachers] = await Promise.all([
+    prisma.ingestionSender.findMany({ where: { address }, take: 2 }),
+    prisma.teacher.findMany({
+      where: { email: { equals: address, mode: "insensitive" } },
+      select: { id: true, schoolId: true },
+    }),
+  ]);
+
+  const schoolIds = new Set([...senders, ...teachers].map((match) => match.schoolId));
+  if (schoolIds.size > 1) {
+    logWarn(`Sender ${address} is known to ${schoolIds.size} schools, not routing the email`);
+    return null;
+  }
+
+  if (senders.length === 1) {
+    return { schoolId: senders[0].schoolId, teacherId: senders[0].teacherId ?? undefined };
+  }
+
+  // A teacher's own address works without registering it, unless several teachers have it
+  return teachers.length === 1 ? { schoolId: teachers[0].schoolId, teacherId: teachers[0].id } : null;
+}
+
+/**
+ * Queue the attachments of one email; returns nothing for unknown senders
+ *
+ * A message that failed part way is polled again, so attachments that
+ * already have a record for the message (same reference and file name)
+ * are skipped instead of being queued a second time.
+ */
+export async function ingestMailMessage(
+  raw: Buffer,
+  source: IngestionSource,
+  fallbackReference: string
+): Promise<IngestionRecord[]> {
+  const message = parseMailMessage(raw);
+  const reference = message.messageId ?? fallbackReference;
+
+  const sender = message.from ? await resolveSender(message.from) : null;
+  if (!sender) {
+    logWarn(`Ignored email from unknown sender ${message.from ?? "(none)"}`, { reference, subject: message.subject });
+    return [];
+  }
+
+  const incoming = { source, schoolId: sender.schoolId, reference, sender: message.from, subject: message.subject };
+  if (message.attachments.length === 0) {
+    return [
+      await prisma.ingestionRecord.create({
+        data: { ...incoming, fileName: "(no attachments)", status: IngestionStatus.REJECTED, reason: "The email has no attachments" },
+      }),
+    ];
+  }
+
+  // Records left by an earlier attempt, counted per file name (an email can attach two "timetable.pdf")
+  const handled = new Map<string, number>();
+  const earlier = await prisma.ingestionRecord.findMany({
+    where: { schoolId: sender.schoolId, source, reference },
+    select: { fileName: true },
+  });
+  for (const { fileName } of earlier) handled.set(fileName, (handled.get(fileName) ?? 0) + 1);
+
+  const records: IngestionRecord[] = [];
+  for (const attachment of message.attachments) {
+    const seen = handled.get(attachment.fileName) ?? 0;
+    if (seen > 0) {
+      handled.set(attachment.fileName, seen - 1);
+      logInfo(`Skipped ${attachment.fileName}: already handled in an earlier attempt`, { reference });
+      continue;
+    }
+    records.push(
+      await ingestFile({
+        ...incoming,
+        fileName: attachment.fileName,
+        data: attachment.data,
+        contentType: attachment.contentType,
+        teacherId: sender.teacherId,
+      })
+    );
+  }
+  return records;
+}
+
+/**
+ * Move a handled hot folder file out of the way, keeping its name readable
+ */
+async function moveHandledFile(root: string, filePath: string, folder: string): Promise<void> {
+  const target = path.join(root, folder, path.relative(root, path.dirname(filePath)));
+  await fs.mkdir(target, { recursive: true });
+  await fs.rename(filePath, path.join(target, `${Date.now()}-${path.basename(filePath)}`));
+}
+
+/**
+ * Pick up the files of a hot folder
+ */
+export async function pollHotFolder(root: string): Promise<IngestionRecord[]> {
+  const folders = [{ dir: root, schoolId: DEFAULT_SCHOOL_ID }];
+  for (const entry of await fs.readdir(root, { withFileTypes: true })) {
+    if (!entry.isDirectory() || [PROCESSED_FOLDER, REJECTED_FOLDER].includes(entry.name)) continue;
+    const school = await findSchool(entry.name);
+    if (school) folders.push({ dir: path.join(root, entry.name), schoolId: school.id });
+  }
+
+  const records: IngestionRecord[] = [];
+  for (const folder of folders) {
+    for (const entry of await fs.readdir(folder.dir, { withFileTypes: true })) {
+      if (!entry.isFile() || entry.name.startsWith(".") || TEMPORARY_FILE.test(entry.name)) continue;
+
+      const filePath = path.join(folder.dir, entry.name);
+      try {
+        const stats = await fs.stat(filePath);
+        if (Date.now() - stats.mtimeMs < SETTLE_MS) continue;
+
+        const file = {
+          source: IngestionSource.FOLDER,
+          schoolId: folder.schoolId,
+          reference: path.relative(root, filePath),
+          fileName: entry.name,
+        };
+        // Too large to read: rejected before loading it
+        const record = stats.size > config.env.MAX_FILE_SIZE
+          ? await prisma.ingestionRecord.create({
+              data: { ...file, status: IngestionStatus.REJECTED, reason: "File is larger than the upload limit" },
+            })
+          : await ingestFile({ ...file, data: await fs.readFile(filePath) });
+
+        await moveHandledFile(root, filePath, record.status === IngestionStatus.QUEUED ? PROCESSED_FOLDER : REJECTED_FOLDER);
+        records.push(record);
+      } catch (error) {
+        // Left in place for the next poll
+        logError(`Could not ingest ${filePath}`, error);
+      }
+    }
+  }
+  return records;
+}
+
+/**
+ * Handle the new messages of a Maildir, moving each to cur/ marked as seen
+ */
+export async function pollMaildir(root: string): Promise<IngestionRecord[]> {
+  const records: IngestionRecord[] = [];
+  const names = (await fs.readdir(path.join(root, "new"))).filter((name) => !name.startsWith(".")).sort();
+
+  for (const name of names) {
+    const messagePath = path.join(root, "new", name);
+    try {
+      records.push(...(await ingestMailMessage(await fs.readFile(messagePath), IngestionSource.MAILDIR, name)));
+      // Maildir flags follow ":2," in ASCII order
+      const [base, flags = ""] = name.split(":2,");
+      const flagged = `${base}:2,${Array.from(new Set(`${flags}S`)).sort().join("")}`;
+      await fs.mkdir(path.join(root, "cur"), { recursive: true });
+      await fs.rename(messagePath, path.join(root, "cur", flagged));
+    } catch (error) {
+      // Stays in new/ and is tried again on the next poll
+      logError(`Could not ingest Maildir message ${name}`, error);
+    }
+  }
+  return records;
+}
+
+/**
+ * Handle the unread messages of an IMAP mailbox, marking each as read
+ */
+export async function pollImapMailbox(url: string): Promise<IngestionRecord[]> {
+  const mailbox = imapConfigFromUrl(url);
+  const client = await ImapClient.connect(mailbox);
+  const records: IngestionRecord[] = [];
+
+  try {
+    await client.login(mailbox.user, mailbox.password);
+    await client.select(mailbox.mailbox);
+
+    for (const uid of (await client.searchUnseen()).slice(0, IMAP_BATCH_SIZE)) {
+      const raw = await client.fetchMessage(uid);
+      if (raw) {
+        try {
+          records.push(...(await ingestMailMessage(raw, IngestionSource.IMAP, `${mailbox.mailbox}:${uid}`)));
+        } catch (error) {
+          // Stays unread and is tried again on the next poll
+          logError(`Could not ingest IMAP message ${uid}`, error);
+          continue;
+        }
+      }
+      await client.markSeen(uid);
+    }
+  } finally {
+    await client.logout();
+  }
+  return records;
+}
+
+export async function listIngestionSenders(schoolId: string) {
+  return prisma.ingestionSender.findMany({
+    where: { schoolId },
+    include: { teacher: { select: { id: true, name: true } } },
+    orderBy: { address: "asc" },
+  });
+}
+
+/**
+ * Register a mail sender for the school
+ * Returns null when the teacher is not in the school. A teacher's address in
+ * another school cannot be registered, so a school never takes over the mail
+ * of another school's teacher.
+ */
+export async function createIngestionSender(schoolId: string, input: IngestionSenderInput) {
+  const address = input.address.trim().toLowerCase();
+  if (input.teacherId && !(await prisma.teacher.findFirst({ where: { id: input.teacherId, schoolId } }))) {
+    return null;
+  }
+
+  if (await prisma.ingestionSender.findUnique({ where: { schoolId_address: { schoolId, address } } })) {
+    throw new IngestionSenderConflictError(address);
+  }
+  const otherSchoolTeacher = await prisma.teacher.findFirst({
+    where: { email: { equals: address, mode: "insensitive" }, schoolId: { not: schoolId } },
+  });
+  if (otherSchoolTeacher) {
+    throw new IngestionSenderConflictError(address, "is a teacher's address in another school");
+  }
+
+  return prisma.ingestionSender.create({
+    data: { schoolId, address, teacherId: input.teacherId ?? null },
+    include: { teacher: { select: { id: true, name: true } } },
+  });
+}
+
+/**
+ * Remove a sender; false when it is not one of the school's
+ */
+export async function deleteIngestionSender(schoolId: string, id: string): Promise<boolean> {
+  const { count } = await prisma.ingestionSender.deleteMany({ where: { id, schoolId } });
+  return count > 0;
+}
+
+export async function listIngestionRecords(
+  schoolId: string,
+  filter: { source?: IngestionSource; status?: IngestionStatus; limit?: number } = {}
+) {
+  return prisma.ingestionRecord.findMany({
+    where: {
+      schoolId,
+      ...(filter.source && { source: filter.source }),
+      ...(filter.status && { status: filter.status }),
+    },
+    orderBy: { createdAt: "desc" },
+    take: filter.limit ?? 50,
+  });
+}
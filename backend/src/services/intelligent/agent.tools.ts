@@ -0,0 +1,425 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+import { tool, type StructuredToolInterface } from "@langchain/core/tools";
+import { z } from "zod";
+import fs from "fs/promises";
+import path from "path";
+import os from "os";
+import { extractTextFromImage } from "../ocr.service";
+import {
+  convertPDFToImages,
+  extractTextFromPDF,
+  isPDFFile,
+  type PDFExtractionOptions,
+} from "../pdf.service";
+import { extractTextFromDOCX, isDOCXFile } from "../docx.service";
+import {
+  extractTimetableWithLLM,
+  refineTimetableWithLLM,
+  repairTimeBlocks,
+  type LLMOptions,
+  type TimetableData,
+} from "../llm.service";
+import {
+  areEmbeddingsAvailable,
+  detectTimeConflicts,
+  processWithEmbeddings,
+} from "../embedding.service";
+import { logInfo } from "../../utils/logger";
+
+/**
+ * Agent Tools
+ *
+ * Each tool wraps an existing extraction service so the agent reuses exactly
+ * the same OCR / PDF / DOCX / LLM code as the simple pipeline. Tools share a
+ * per-run workspace: tool results go back to the LLM as short JSON summaries,
+ * while the full text and structured data stay in the workspace.
+ */
+
+export type AgentExtractionMethod = "ocr" | "pdf" | "docx" | "hybrid";
+
+export interface AgentValidationReport {
+  passed: boolean;
+  issues: string[];
+  invalidBlocks: number;
+  conflicts: number;
+  duplicates: number;
+}
+
+export interface AgentWorkspace {
+  filePath: string;
+  mimeType: string;
+  extractedText: string;
+  method: AgentExtractionMethod;
+  timetableData?: TimetableData;
+  confidence?: number;
+  pageImagePaths: string[];
+  pageTexts: string[];
+  tempDir?: string;
+  lastValidation?: AgentValidationReport;
+  vision: PDFExtractionOptions; // Provider chain override, page range + attempt/reading/page collectors
+  llm: LLMOptions; // Structuring model override and school settings
+}
+
+/**
+ * Create an empty workspace for a single agent run
+ */
+export function createAgentWorkspace(
+  filePath: string,
+  mimeType: string,
+  vision: PDFExtractionOptions = {},
+  llm: LLMOptions = {}
+): AgentWorkspace {
+  return {
+    filePath,
+    mimeType,
+    extractedText: "",
+    method: "ocr",
+    pageImagePaths: [],
+    pageTexts: [],
+    vision,
+    llm,
+  };
+}
+
+/**
+ * Shorten long text for tool results (the LLM only needs a preview)
+ */
+function preview(text: string, maxLength = 600): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength)}…` : text;
+}
+
+/**
+ * Validate the workspace timetable
+ * Combines repairTimeBlocks (formats) with the embedding service checks
+ * (time conflicts, and semantic duplicates when embeddings are available)
+ */
+export async function validateWorkspace(
+  workspace: AgentWorkspace
+): Promise<AgentValidationReport> {
+  if (!workspace.timetableData) {
+    return {
+      passed: false,
+      issues: ["No structured timetable yet - call structure_timetable first"],
+      invalidBlocks: 0,
+      conflicts: 0,
+      duplicates: 0,
+    };
+  }
+
+  const issues: string[] = [];
+  const blocks = workspace.timetableData.timeBlocks;
+
+  if (blocks.length === 0) {
+    issues.push("No time blocks were extracted");
+  }
+
+  // Format checks (same rules the pipeline applies before saving)
+  // Repaired blocks are copies, so dropped blocks are found by their index
+  const { timeBlocks: validBlocks, keptIndexes } = repairTimeBlocks(blocks);
+  const invalidBlocks = blocks.filter((_block, index) => !keptIndexes.includes(index));
+  for (const block of invalidBlocks) {
+    issues.push(
+      `Invalid day/time format: ${block.dayOfWeek} ${block.startTime}-${block.endTime} ${block.subject}`
+    );
+  }
+
+  for (const block of validBlocks) {
+    if (block.startTime >= block.endTime) {
+      issues.push(
+        `startTime is not before endTime: ${block.dayOfWeek} ${block.startTime}-${block.endTime} ${block.subject}`
+      );
+    }
+  }
+
+  // Conflict checks from the embedding service
+  const conflicts = detectTimeConflicts(validBlocks);
+  for (const conflict of conflicts) {
+    issues.push(`Time overlap: ${conflict.block1} vs ${conflict.block2}`);
+  }
+
+  let duplicates = 0;
+  if (areEmbeddingsAvailable() && validBlocks.length > 1) {
+    const { semanticInsights } = await processWithEmbeddings({
+      ...workspace.timetableData,
+      timeBlocks: validBlocks,
+    });
+    duplicates = semanticInsights.duplicates.length;
+    for (const duplicate of semanticInsights.duplicates) {
+      issues.push(`Duplicate block: ${duplicate.original} ≈ ${duplicate.duplicate}`);
+    }
+  }
+
+  return {
+    passed: issues.length === 0,
+    issues,
+    invalidBlocks: invalidBlocks.length,
+    conflicts: conflicts.length,
+    duplicates,
+  };
+}
+
+/**
+ * Rebuild the workspace text from per-page OCR results
+ */
+function composePageText(workspace: AgentWorkspace): string {
+  return workspace.pageTexts
+    .map((text, i) => (text ? `--- Page ${i + 1} ---\n${text}` : ""))
+    .filter((text) => text.length > 0)
+    .join("\n\n");
+}
+
+/**
+ * Create the tool set bound to a workspace
+ */
+export function createAgentTools(workspace: AgentWorkspace): StructuredToolInterface[] {
+  const ocrImage = tool(
+    async ({ pagePath }: { pagePath?: string }) => {
+      const target = pagePath || workspace.filePath;
+      const pageIndex = workspace.pageImagePaths.indexOf(target);
+
+      if (target !== workspace.filePath && pageIndex === -1) {
+        throw new Error(`Unknown image path: ${target}. Use a path returned by render_pdf_pages.`);
+      }
+
+      const result = await extractTextFromImage(target, workspace.vision);
+
+      if (pageIndex === -1) {
+        workspace.extractedText = result.text;
+        workspace.method = "ocr";
+      } else {
+        workspace.pageTexts[pageIndex] = result.text;
+        workspace.extractedText = composePageText(workspace);
+        workspace.method = "hybrid";
+      }
+
+      return JSON.stringify({
+        provider: result.method,
+        confidence: result.confidence,
+        textLength: result.text.length,
+        page: pageIndex === -1 ? undefined : pageIndex + 1,
+        preview: preview(result.text),
+      });
+    },
+    {
+      name: "ocr_image",
+      description:
+        "Run AI Vision OCR on the uploaded image, or on a rendered PDF page when pagePath is given.",
+      schema: z.object({
+        pagePath: z
+          .string()
+          .optional()
+          .describe("Path of a page image returned by render_pdf_pages. Omit to OCR the uploaded image."),
+      }),
+    }
+  );
+
+  const extractPdfText = tool(
+    async () => {
+      if (!isPDFFile(workspace.mimeType)) {
+        throw new Error("The uploaded document is not a PDF");
+      }
+
+      const result = await extractTextFromPDF(workspace.filePath, workspace.vision);
+      workspace.extractedText = result.text;
+      workspace.method = result.method === "text-extraction" ? "pdf" : "hybrid";
+
+      return JSON.stringify({
+        method: result.method,
+        numPages: result.numPages,
+        confidence: result.confidence,
+        textLength: result.text.length,
+        preview: preview(result.text),
+      });
+    },
+    {
+      name: "extract_pdf_text",
+      description:
+        "Extract text from the uploaded PDF. Uses the text layer and falls back to AI Vision for scanned PDFs.",
+      schema: z.object({}),
+    }
+  );
+
+  const renderPdfPages = tool(
+    async () => {
+      if (!isPDFFile(workspace.mimeType)) {
+        throw new Error("The uploaded document is not a PDF");
+      }
+
+      const pages = await convertPDFToImages(workspace.filePath, workspace.vision.pageRange);
+      // Replaced, not appended, so repeated renders store each page once
+      workspace.vision.pageImages?.splice(0, workspace.vision.pageImages.length, ...pages);
+      workspace.tempDir = workspace.tempDir || (await fs.mkdtemp(path.join(os.tmpdir(), "agent-pages-")));
+
+      // Keep document page numbers when only a page range is rendered
+      const firstPage = workspace.vision.pageRange?.from ?? 1;
+      workspace.pageImagePaths = [];
+      for (let i = 0; i < pages.length; i++) {
+        const pagePath = path.join(workspace.tempDir, `page-${firstPage + i}.png`);
+        await fs.writeFile(pagePath, pages[i]);
+        workspace.pageImagePaths.push(pagePath);
+      }
+      workspace.pageTexts = new Array(pages.length).fill("");
+
+      return JSON.stringify({ pages: workspace.pageImagePaths });
+    },
+    {
+      name: "render_pdf_pages",
+      description:
+        "Render every page of the uploaded PDF (or the requested page range) to a PNG image. Returns page paths to pass to ocr_image.",
+      schema: z.object({}),
+    }
+  );
+
+  const parseDocx = tool(
+    async () => {
+      if (!isDOCXFile(workspace.mimeType)) {
+        throw new Error("The uploaded document is not a DOCX file");
+      }
+
+      const result = await extractTextFromDOCX(workspace.filePath, workspace.vision);
+      workspace.extractedText = result.text;
+      workspace.method = result.method === "text-extraction" ? "docx" : "hybrid";
+
+      return JSON.stringify({
+        method: result.method,
+        imagesProcessed: result.imagesProcessed,
+        confidence: result.confidence,
+        textLength: result.text.length,
+        preview: preview(result.text),
+      });
+    },
+    {
+      name: "parse_docx",
+      description: "Extract text from the uploaded DOCX, including AI Vision OCR of embedded images.",
+      schema: z.object({}),
+    }
+  );
+
+  const structureTimetable = tool(
+    async () => {
+      if (workspace.extractedText.trim().length < 10) {
+        throw new Error("Insufficient text extracted - run an extraction tool first");
+      }
+
+      const result = await extractTimetableWithLLM(workspace.extractedText, workspace.llm);
+      workspace.timetableData = result.timetableData;
+      workspace.confidence = result.confidence;
+
+      return JSON.stringify({
+        teacherName: result.timetableData.teacherName,
+        blocks: result.timetableData.timeBlocks.length,
+        confidence: result.confidence,
+        model: result.model,
+      });
+    },
+    {
+      name: "structure_timetable",
+      description: "Structure the extracted document text into timetable JSON using the LLM.",
+      schema: z.object({}),
+    }
+  );
+
+  const validateTimetable = tool(
+    async () => {
+      const report = await validateWorkspace(workspace);
+      workspace.lastValidation = report;
+      return JSON.stringify(report);
+    },
+    {
+      name: "validate_timetable",
+      description:
+        "Validate the structured timetable: HH:MM formats, day names, time overlaps and duplicate blocks.",
+      schema: z.object({}),
+    }
+  );
+
+  const correctTimetable = tool(
+    async ({ instructions }: { instructions?: string }) => {
+      if (!workspace.timetableData) {
+        throw new Error("No structured timetable to correct - call structure_timetable first");
+      }
+
+      const report = workspace.lastValidation || (await validateWorkspace(workspace));
+      const result = await refineTimetableWithLLM(
+        workspace.timetableData,
+        workspace.extractedText,
+        report.issues,
+        instructions,
+        workspace.llm
+      );
+
+      logInfo("Agent self-correction applied", {
+        blocksBefore: workspace.timetableData.timeBlocks.length,
+        blocksAfter: result.timetableData.timeBlocks.length,
+      });
+
+      workspace.timetableData = result.timetableData;
+      workspace.confidence = result.confidence;
+      workspace.lastValidation = undefined;
+
+      return JSON.stringify({
+        blocks: result.timetableData.timeBlocks.length,
+        confidence: result.confidence,
+        issuesAddressed: report.issues.length,
+      });
+    },
+    {
+      name: "correct_timetable",
+      description:
+        "Self-correct the structured timetable using the latest validation issues. Call validate_timetable afterwards.",
+      schema: z.object({
+        instructions: z
+          .string()
+          .optional()
+          .describe("Specific corrections to make, e.g. which overlapping block the source text supports"),
+      }),
+    }
+  );
+
+  return [
+    ocrImage,
+    extractPdfText,
+    renderPdfPages,
+    parseDocx,
+    structureTimetable,
+    validateTimetable,
+    correctTimetable,
+  ];
+}
@@ -0,0 +1,414 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+import path from "path";
+import fs from "fs/promises";
+import {
+  Annotation,
+  END,
+  GraphRecursionError,
+  MessagesAnnotation,
+  START,
+  StateGraph,
+} from "@langchain/langgraph";
+import {
+  AIMessage,
+  HumanMessage,
+  SystemMessage,
+  ToolMessage,
+  type BaseMessage,
+} from "@langchain/core/messages";
+import {
+  initializeLLM,
+  supportsToolCalling,
+  type SchoolContext,
+  type TimetableData,
+} from "../llm.service";
+import { databaseService } from "../database.service";
+import {
+  createAgentTools,
+  createAgentWorkspace,
+  validateWorkspace,
+  type AgentExtractionMethod,
+} from "./agent.tools";
+import { buildAgentSystemPrompt } from "../prompts/agent.prompts";
+import type { ProviderAttempt, ProviderReading } from "../providers/provider.registry";
+import type { PageRange } from "../pdf.service";
+import { withFixture } from "../ai-fixture.service";
+import { config } from "../../config/env";
+import { logInfo, logError, logWarn } from "../../utils/logger";
+
+/**
+ * Intelligent (Agentic) Extraction Service
+ *
+ * LangGraph workflow:
+ *
+ *   START → agent ⇄ tools
+ *             ↓ (no tool calls)
+ *          validate → END (passed or iteration limit)
+ *             ↓ (issues found)
+ *           agent
+ *
+ * The agent chooses the extraction tools; the validate node is a hard gate
+ * that runs repairTimeBlocks + the embedding conflict checks and sends the
+ * agent back with the issues until they pass or AGENT_MAX_ITERATIONS is hit.
+ * Every tool call and validation round is stored as a ProcessingLog row.
+ */
+
+export interface IntelligentExtractionOptions {
+  timetableId?: string;
+  maxIterations?: number;
+  verbose?: boolean;
+  ocrProviders?: string[]; // Overrides OCR_PROVIDER_CHAIN for this run
+  providerAttempts?: ProviderAttempt[]; // Collects every vision provider attempt
+  providerReadings?: ProviderReading[]; // Collects successful reads for block confidence
+  pageImages?: Buffer[]; // Collects PDF page renders for the artifact store
+  pageRange?: PageRange; // Only process these PDF pages
+  llmModel?: string; // Overrides the default LLM for the agent and its tools
+  school?: SchoolContext; // Bell schedule and working days given to the structuring tools
+  signal?: AbortSignal; // Stops the agent, its tools and model calls when the job is cancelled
+}
+
+export interface IntelligentExtractionResult {
+  timetableData?: TimetableData;
+  extractedText: string;
+  method: AgentExtractionMethod;
+  confidence: number;
+  iterations: number;
+  validationPassed: boolean;
+  issues: string[];
+  toolsUsed: string[];
+  providerAttempts: ProviderAttempt[];
+}
+
+const AgentState = Annotation.Root({
+  ...MessagesAnnotation.spec,
+  iteration: Annotation<number>({
+    reducer: (_current, next) => next,
+    default: () => 0,
+  }),
+  validationPassed: Annotation<boolean>({
+    reducer: (_current, next) => next,
+    default: () => false,
+  }),
+});
+
+/**
+ * Flatten message content to plain text (used for reasoning logs)
+ */
+function messageText(message: BaseMessage): string {
+  if (typeof message.content === "string") {
+    return message.content.trim();
+  }
+
+  return message.content
+    .map((part) => ("text" in part && typeof part.text === "string" ? part.text : ""))
+    .join(" ")
+    .trim();
+}
+
+/**
+ * Store an agent step as a ProcessingLog row
+ * Logging must never break extraction, so failures are only warned about
+ */
+async function recordAgentStep(
+  timetableId: string | undefined,
+  step: string,
+  status: "success" | "failed",
+  message: string,
+  metadata: Record<string, unknown>,
+  duration?: number
+): Promise<void> {
+  if (!timetableId) {
+    return;
+  }
+
+  try {
+    await databaseService.createProcessingLog({
+      timetableId,
+      step,
+      status,
+      message,
+      metadata,
+      duration,
+    });
+  } catch (error) {
+    logWarn("⚠️ Failed to record agent step", error);
+  }
+}
+
+/**
+ * Run the agentic extraction workflow for a single document
+ */
+export async function intelligentExtraction(
+  filePath: string,
+  mimeType: string,
+  options: IntelligentExtractionOptions = {}
+): Promise<IntelligentExtractionResult> {
+  const maxIterations = options.maxIterations ?? config.env.AGENT_MAX_ITERATIONS;
+  const verbose = options.verbose ?? config.env.AGENT_VERBOSE;
+  const { timetableId } = options;
+
+  const providerAttempts = options.providerAttempts ?? [];
+  const workspace = createAgentWorkspace(filePath, mimeType, {
+    chain: options.ocrProviders,
+    attempts: providerAttempts,
+    readings: options.providerReadings,
+    pageImages: options.pageImages,
+    pageRange: options.pageRange,
+    signal: options.signal,
+  }, { model: options.llmModel, school: options.school, signal: options.signal });
+  const tools = createAgentTools(workspace);
+  const toolsByName = new Map(tools.map((agentTool) => [agentTool.name, agentTool]));
+  const toolsUsed: string[] = [];
+
+  if (!supportsToolCalling(options.llmModel)) {
+    throw new Error("Configured LLM does not support tool calling (set LOCAL_LLM_TOOL_CALLING=true for local models that do)");
+  }
+  const systemPrompt = buildAgentSystemPrompt(path.basename(filePath), mimeType, maxIterations);
+
+  // Bound on the first live call so replay runs need no API keys
+  let model: ReturnType<NonNullable<ReturnType<typeof initializeLLM>["bindTools"]>> | undefined;
+  const bindModel = () => {
+    const llm = initializeLLM(options.llmModel);
+    if (!llm.bindTools) {
+      throw new Error("Configured LLM does not support tool calling");
+    }
+    return llm.bindTools(tools);
+  };
+
+  // One agent turn, recorded / replayed through the fixture store
+  const invokeModel = async (messages: BaseMessage[]): Promise<AIMessage> => {
+    const reply = await withFixture(
+      "agent",
+      {
+        model: options.llmModel ?? "default",
+        tools: tools.map((agentTool) => agentTool.name),
+        messages: messages.map((message) => ({
+          type: message.getType(),
+          content: message.content,
+          toolCalls: (message as AIMessage).tool_calls,
+          toolCallId: (message as ToolMessage).tool_call_id,
+        })),
+      },
+      async () => {
+        model = model ?? bindModel();
+        const response = await model.invoke(messages, { signal: options.signal });
+        return { content: response.content, tool_calls: response.tool_calls ?? [] };
+      }
+    );
+    return new AIMessage(reply);
+  };
+
+  // Agent node: decide the next tool call(s) or finish
+  const agentNode = async (state: typeof AgentState.State) => {
+    const response = await invokeModel([new SystemMessage(systemPrompt), ...state.messages]);
+
+    if (verbose) {
+      logInfo("🤖 Agent decision", {
+        reasoning: messageText(response),
+        toolCalls: response.tool_calls?.map((call) => call.name) || [],
+      });
+    }
+
+    return { messages: [response] };
+  };
+
+  // Tools node: execute tool calls and log each one with the agent's reasoning
+  const toolsNode = async (state: typeof AgentState.State) => {
+    const lastMessage = state.messages[state.messages.length - 1] as AIMessage;
+    const reasoning = messageText(lastMessage);
+    const results: ToolMessage[] = [];
+
+    for (const call of lastMessage.tool_calls || []) {
+      const agentTool = toolsByName.get(call.name);
+      const stepStart = Date.now();
+      let output: string;
+      let status: "success" | "failed" = "success";
+
+      try {
+        if (!agentTool) {
+          throw new Error(`Unknown tool: ${call.name}`);
+        }
+        output = String(await agentTool.invoke(call.args));
+      } catch (error) {
+        status = "failed";
+        output = `Error: ${error instanceof Error ? error.message : "Unknown error"}`;
+        logWarn(`⚠️ Agent tool ${call.name} failed`, error);
+      }
+
+      const duration = Date.now() - stepStart;
+      toolsUsed.push(call.name);
+
+      await recordAgentStep(
+        timetableId,
+        "agent_tool",
+        status,
+        `${call.name}: ${reasoning || "no reasoning given"}`,
+        {
+          tool: call.name,
+          args: call.args,
+          iteration: state.iteration + 1,
+          reasoning,
+          output: output.slice(0, 2000),
+        },
+        duration
+      );
+
+      results.push(
+        new ToolMessage({
+          content: output,
+          tool_call_id: call.id || call.name,
+          name: call.name,
+        })
+      );
+    }
+
+    return { messages: results };
+  };
+
+  // Validation gate: loop back to the agent until checks pass or budget is spent
+  const validateNode = async (state: typeof AgentState.State) => {
+    const iteration = state.iteration + 1;
+    const stepStart = Date.now();
+    const report = await validateWorkspace(workspace);
+    workspace.lastValidation = report;
+
+    await recordAgentStep(
+      timetableId,
+      "agent_validation",
+      report.passed ? "success" : "failed",
+      report.passed
+        ? `Validation passed on iteration ${iteration}`
+        : `Validation found ${report.issues.length} issue(s) on iteration ${iteration}`,
+      { iteration, maxIterations, ...report },
+      Date.now() - stepStart
+    );
+
+    if (report.passed || iteration >= maxIterations) {
+      return { iteration, validationPassed: report.passed };
+    }
+
+    return {
+      iteration,
+      validationPassed: false,
+      messages: [
+        new HumanMessage(
+          `Validation failed (iteration ${iteration}/${maxIterations}). Fix these issues with your tools, then stop:\n` +
+            report.issues.map((issue) => `- ${issue}`).join("\n")
+        ),
+      ],
+    };
+  };
+
+  const graph = new StateGraph(AgentState)
+    .addNode("agent", agentNode)
+    .addNode("tools", toolsNode)
+    .addNode("validate", validateNode)
+    .addEdge(START, "agent")
+    .addConditionalEdges("agent", (state) => {
+      const lastMessage = state.messages[state.messages.length - 1] as AIMessage;
+      return lastMessage.tool_calls && lastMessage.tool_calls.length > 0 ? "tools" : "validate";
+    })
+    .addEdge("tools", "agent")
+    .addConditionalEdges("validate", (state) =>
+      state.validationPassed || state.iteration >= maxIterations ? END : "agent"
+    )
+    .compile();
+
+  let iterations = 0;
+  let validationPassed = false;
+
+  try {
+    logInfo("🧠 Starting agentic extraction workflow", {
+      filePath,
+      mimeType,
+      maxIterations,
+    });
+
+    const finalState = await graph.invoke(
+      {
+        messages: [
+          new HumanMessage(
+            `Extract the timetable from the uploaded document (${path.basename(filePath)}, ${mimeType}).`
+          ),
+        ],
+      },
+      // Each validation round can take several agent/tool steps
+      { recursionLimit: maxIterations * 20, signal: options.signal }
+    );
+
+    iterations = finalState.iteration;
+    validationPassed = finalState.validationPassed;
+  } catch (error) {
+    if (error instanceof GraphRecursionError) {
+      logWarn("⚠️ Agent hit the recursion limit, using the latest workspace state");
+      iterations = maxIterations;
+    } else {
+      logError("Agentic extraction failed", error);
+      throw error;
+    }
+  } finally {
+    if (workspace.tempDir) {
+      await fs.rm(workspace.tempDir, { recursive: true, force: true }).catch(() => {
+        // Ignore cleanup errors
+      });
+    }
+  }
+
+  const issues = workspace.lastValidation?.issues || [];
+
+  logInfo("✅ Agentic extraction workflow finished", {
+    iterations,
+    validationPassed,
+    remainingIssues: issues.length,
+    toolsUsed,
+  });
+
+  return {
+    timetableData: workspace.timetableData,
+    extractedText: workspace.extractedText,
+    method: workspace.method,
+    confidence: workspace.confidence ?? 0,
+    iterations,
+    validationPassed,
+    issues,
+    toolsUsed,
+    providerAttempts,
+  };
+}
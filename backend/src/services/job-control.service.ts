@@ -0,0 +1,195 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+import { ProcessingStatus } from "@prisma/client";
+import type { Job } from "bullmq";
+import {
+  getQueueStats,
+  queueEvents,
+  requestJobCancellation,
+  timetableQueue,
+  type TimetableJobData,
+} from "../queues/timetable.queue";
+import { databaseService } from "./database.service";
+import { emitWebhookEvent } from "./webhook.service";
+import { logInfo, logWarn } from "../utils/logger";
+
+/**
+ * Job Control
+ *
+ * A timetable job can be cancelled until it has finished. A job still waiting
+ * in the queue is removed and its timetable marked CANCELLED straight away.
+ * An active job is stopped cooperatively: the worker running it aborts the
+ * signal handed to the OCR and LLM calls, and marks the timetable CANCELLED
+ * once they have returned. The queue itself can be paused, which lets active
+ * jobs finish but starts no new ones until it is resumed.
+ */
+
+// States of a job that no worker has picked up yet
+const QUEUED_STATES = new Set(["waiting", "delayed", "prioritized", "waiting-children"]);
+
+// How long deleting a timetable waits for its active job to stop
+const STOP_TIMEOUT_MS = 15000;
+
+export type CancelOutcome = "cancelled" | "cancelling";
+
+export interface QueueState {
+  paused: boolean;
+  waiting: number;
+  active: number;
+  completed: number;
+  failed: number;
+  delayed: number;
+  total: number;
+}
+
+/**
+ * Raised when a job has already finished and there is nothing to cancel
+ */
+export class JobNotCancellableError extends Error {
+  constructor(public readonly state: string) {
+    super(`Job is already ${state}`);
+    this.name = "JobNotCancellableError";
+  }
+}
+
+/**
+ * Remove a job that has not started; false when a worker picked it up in the meantime
+ */
+async function removeQueuedJob(job: Job<TimetableJobData>): Promise<boolean> {
+  try {
+    await job.remove();
+    return true;
+  } catch (error) {
+    // Active jobs are locked by their worker and cannot be removed
+    if (await job.isActive()) return false;
+    throw error;
+  }
+}
+
+/**
+ * Leave a timetable in the CANCELLED state, with a processing log and webhook
+ */
+export async function markTimetableCancelled(data: TimetableJobData, reason: string): Promise<void> {
+  await databaseService.updateTimetableStatus(data.timetableId, ProcessingStatus.CANCELLED, reason);
+  await databaseService.createProcessingLog({
+    timetableId: data.timetableId,
+    step: "cancelled",
+    status: "success",
+    message: reason,
+  });
+  await emitWebhookEvent(data.schoolId, "timetable.cancelled", {
+    timetableId: data.timetableId,
+    teacherId: data.teacherId,
+    reason,
+  });
+}
+
+/**
+ * Cancel a waiting or active timetable job
+ * Returns "cancelled" when the job was removed before it started, or
+ * "cancelling" when the worker running it has been asked to stop.
+ */
+export async function cancelTimetableJob(
+  job: Job<TimetableJobData>,
+  reason = "Cancelled by request"
+): Promise<CancelOutcome> {
+  const state = await job.getState();
+  if (QUEUED_STATES.has(state)) {
+    if (await removeQueuedJob(job)) {
+      await markTimetableCancelled(job.data, reason);
+      logInfo(`Removed queued job ${job.id} of timetable ${job.data.timetableId}`);
+      return "cancelled";
+    }
+  } else if (state !== "active") {
+    throw new JobNotCancellableError(state);
+  }
+
+  await requestJobCancellation(job.id!);
+  logInfo(`Requested cancellation of active job ${job.id} of timetable ${job.data.timetableId}`);
+  return "cancelling";
+}
+
+/**
+ * Stop the job of a timetable that is about to be deleted
+ * Waits for an active job to wind down so the worker does not write to a
+ * deleted timetable; returns false when it is still running after the wait.
+ */
+export async function stopTimetableJob(jobId: string | null): Promise<boolean> {
+  const job = jobId ? await timetableQueue.getJob(jobId) : undefined;
+  if (!job) return true;
+
+  if (QUEUED_STATES.has(await job.getState()) && (await removeQueuedJob(job))) {
+    return true;
+  }
+  if (!(await job.isActive())) return true;
+
+  await requestJobCancellation(job.id!);
+  try {
+    await job.waitUntilFinished(queueEvents, STOP_TIMEOUT_MS);
+  } catch (error) {
+    logWarn(`Job ${job.id} did not finish cleanly while being stopped`, error);
+  }
+  return !(await job.isActive());
+}
+
+/**
+ * Whether the queue is paused, with its job counts
+ */
+export async function getQueueState(): Promise<QueueState> {
+  const [paused, stats] = await Promise.all([timetableQueue.isPaused(), getQueueStats()]);
+  return { paused, ...stats };
+}
+
+/**
+ * Stop workers from starting new jobs (active jobs still finish)
+ */
+export async function pauseTimetableQueue(): Promise<QueueState> {
+  await timetableQueue.pause();
+  logInfo("Timetable processing queue paused");
+  return getQueueState();
+}
+
+/**
+ * Let workers pick up jobs again
+ */
+export async function resumeTimetableQueue(): Promise<QueueState> {
+  await timetableQueue.resume();
+  logInfo("Timetable processing queue resumed");
+  return getQueueState();
+}
@@ -44,11 +44,14 @@ import { config } from '../config/env';
 import { logInfo, logError, logWarn } from '../utils/logger';
 import { processWithEmbeddings, areEmbeddingsAvailable } from './embedding.service';
 import { SimpleVectorStore } from './simple-vector-store';
+import { withFixture } from './ai-fixture.service';
 
 // Define the timetable entry schema with enhanced field descriptions
 const TimeBlockSchema = z.object({
   dayOfWeek: z.enum(['MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY', 'SATURDAY', 'SUNDAY'])
     .describe('Day of week in full uppercase format (MONDAY, TUESDAY, etc.)'),
+  weekIndex: z.number().int()
+    .describe('Week of a rotating timetable this block belongs to: 1 for "Week 1"/"Week A", 2 for "Week 2"/"Week B", etc. Use 1 when the timetable does not rotate.'),
   startTime: z.string()
     .describe('Start time in strict 24-hour HH:MM format (e.g., "08:35", "09:00", "14:30"). Must be two digits for hours and minutes.'),
   endTime: z.string()
@@ -75,6 +78,8 @@ const TimetableSchema = z.object({
     .describe('Academic year in format "YYYY-YYYY" or "YYYY/YY" (e.g., "2024-2025", "2024/25"). Extract from document headers/footers/titles. Use empty string if not found - DO NOT guess.'),
   semester: z.string()
     .describe('Semester or term in format "Season YYYY" or "Term N" or "Semester N" (e.g., "Fall 2024", "Spring 2025", "Term 1"). Extract from document metadata. Use empty string if not found - DO NOT guess.'),
+  cycleLength: z.number().int()
+    .describe('Number of weeks in the rotation: 2 when the document has "Week 1"/"Week 2" or "Week A"/"Week B" sections, 1 for a single weekly timetable.'),
 });
 
 // Export schemas for use by intelligent agent
@@ -127,43 +132,209 @@ function chunkTextSemanticly(text: string): string[] {
   return chunks;
 }
 
+export interface LLMOptions {
+  model?: string; // Overrides the default model, e.g. "gpt-4o", "claude-3-5-sonnet-latest" or "local:qwen2.5"
+  school?: SchoolContext; // Settings of the school the timetable belongs to
+  signal?: AbortSignal; // Aborts the model call when the job is cancelled
+}
+
+/**
+ * Per-school settings given to the structuring prompt as hints
+ */
+export interface SchoolContext {
+  bellSchedule?: BellPeriod[];
+  workingDays?: string[]; // e.g. ["SUNDAY", "MONDAY", ...] for a Sunday-Thursday week
+}
+
+export interface BellPeriod {
+  label: string; // e.g. "P1", "Break"
+  startTime: string; // HH:MM
+  endTime: string; // HH:MM
+}
+
+/**
+ * Prompt section describing the school's bell schedule and working days
+ * Returns an empty string when the school has no settings
+ */
+function schoolContextSection(school?: SchoolContext): string {
+  const lines: string[] = [];
+  if (school?.workingDays && school.workingDays.length > 0) {
+    lines.push(`- Working days: ${school.workingDays.join(', ')}`);
+  }
+  if (school?.bellSchedule && school.bellSchedule.length > 0) {
+    lines.push('- Bell schedule (use it to turn period labels into times):');
+    lines.push(
+      ...school.bellSchedule.map((period) => `  - ${period.label}: ${period.startTime}-${period.endTime}`)
+    );
+  }
+  if (lines.length === 0) {
+    return '';
+  }
+
+  return `\n## School Settings\n${lines.join('\n')}\n- Prefer times printed in the text when they disagree with the bell schedule\n`;
+}
+
+const LOCAL_MODEL_PREFIX = 'local:';
+
+/**
+ * Model used when no override is given
+ * A configured local server wins so schools that keep data on-premises
+ * never fall through to a cloud model.
+ */
+function resolveModelName(model?: string): string {
+  if (model) {
+    return model;
+  }
+  if (config.env.LOCAL_LLM_BASE_URL) {
+    return `${LOCAL_MODEL_PREFIX}${config.env.LOCAL_LLM_MODEL}`;
+  }
+  return config.env.OPENAI_API_KEY ? 'gpt-4o-mini' : 'claude-3-haiku-20240307';
+}
+
+function isLocalModel(modelName: string): boolean {
+  return modelName.startsWith(LOCAL_MODEL_PREFIX) || modelName === config.env.LOCAL_LLM_MODEL;
+}
+
+/**
+ * Whether the model can call tools (required by the agentic workflow)
+ * Local models only do when LOCAL_LLM_TOOL_CALLING=true
+ */
+export function supportsToolCalling(model?: string): boolean {
+  return !isLocalModel(resolveModelName(model)) || config.env.LOCAL_LLM_TOOL_CALLING;
+}
+
 /**
  * Initialize LLM based on available API keys
+ * Model names starting with "claude" use Anthropic, "local:" names (or
+ * LOCAL_LLM_MODEL) the self-hosted OpenAI-compatible server, everything else OpenAI
  */
-function initializeLLM() {
-  if (config.env.OPENAI_API_KEY) {
-    logInfo('Using OpenAI GPT-4 for extraction');
+export function initializeLLM(model?: string) {
+  if (
+    !model &&
+    !config.env.OPENAI_API_KEY &&
+    !config.env.ANTHROPIC_API_KEY &&
+    !config.env.LOCAL_LLM_BASE_URL
+  ) {
+    throw new Error('No LLM configured. Please set OPENAI_API_KEY, ANTHROPIC_API_KEY or LOCAL_LLM_BASE_URL');
+  }
+
+  const modelName = resolveModelName(model);
+
+  if (isLocalModel(modelName)) {
+    if (!config.env.LOCAL_LLM_BASE_URL) {
+      throw new Error(`Model ${modelName} requires LOCAL_LLM_BASE_URL`);
+    }
+    const localName = modelName.startsWith(LOCAL_MODEL_PREFIX)
+      ? modelName.slice(LOCAL_MODEL_PREFIX.length)
+      : modelName;
+    logInfo(`Using local model ${localName} at ${config.env.LOCAL_LLM_BASE_URL} for extraction`);
     return new ChatOpenAI({
-      modelName: 'gpt-4o-mini',
+      modelName: localName,
       temperature: 0,
-      apiKey: config.env.OPENAI_API_KEY,
+      // Most local servers ignore the key but the client requires one
+      apiKey: config.env.LOCAL_LLM_API_KEY || 'local',
+      configuration: { baseURL: config.env.LOCAL_LLM_BASE_URL },
     });
-  } else if (config.env.ANTHROPIC_API_KEY) {
-    logInfo('Using Anthropic Claude for extraction');
+  }
+
+  if (modelName.startsWith('claude')) {
+    if (!config.env.ANTHROPIC_API_KEY) {
+      throw new Error(`Model ${modelName} requires ANTHROPIC_API_KEY`);
+    }
+    logInfo(`Using Anthropic ${modelName} for extraction`);
     return new ChatAnthropic({
-      modelName: 'claude-3-haiku-20240307',
+      modelName,
       temperature: 0,
       apiKey: config.env.ANTHROPIC_API_KEY,
     });
-  } else {
-    throw new Error('No LLM API key configured. Please set OPENAI_API_KEY or ANTHROPIC_API_KEY');
   }
+
+  if (!config.env.OPENAI_API_KEY) {
+    throw new Error(`Model ${modelName} requires OPENAI_API_KEY`);
+  }
+  logInfo(`Using OpenAI ${modelName} for extraction`);
+  return new ChatOpenAI({
+    modelName,
+    temperature: 0,
+    apiKey: config.env.OPENAI_API_KEY,
+  });
+}
+
+/**
+ * Pull the JSON object out of a free-text model reply
+ * Tolerates markdown fences and text around the object
+ */
+function parseJsonReply(reply: string): unknown {
+  const unfenced = reply.replace(/```(?:json)?/gi, '');
+  const start = unfenced.indexOf('{');
+  const end = unfenced.lastIndexOf('}');
+  if (start < 0 || end <= start) {
+    throw new Error('Model reply did not contain a JSON object');
+  }
+  return JSON.parse(unfenced.slice(start, end + 1));
+}
+
+/**
+ * LLM that returns validated TimetableData
+ *
+ * Uses native structured output (tool calling) where the model supports it.
+ * Local models without tool calling get JSON mode instead: the schema is
+ * appended to the prompt and the reply is parsed and validated with zod.
+ * Calls go through the fixture store so they can be recorded and replayed.
+ */
+function createTimetableLLM(
+  model?: string,
+  signal?: AbortSignal
+): { invoke(prompt: string): Promise<TimetableData> } {
+  const createStructuredLLM = (): { invoke(prompt: string): Promise<TimetableData> } => {
+    const llm = initializeLLM(model);
+
+    if (supportsToolCalling(model)) {
+      const structured = llm.withStructuredOutput(TimetableSchema);
+      return { invoke: (prompt: string) => structured.invoke(prompt, { signal }) };
+    }
+
+    const schema = JSON.stringify(z.toJSONSchema(TimetableSchema));
+    return {
+      async invoke(prompt: string) {
+        const response = await llm.invoke(
+          `${prompt}\n\nRespond with ONLY a JSON object (no markdown, no commentary) matching this JSON Schema:\n${schema}`,
+          { signal }
+        );
+        const reply = typeof response.content === 'string'
+          ? response.content
+          : response.content.map((part) => (part.type === 'text' ? part.text : '')).join('');
+        return TimetableSchema.parse(parseJsonReply(reply));
+      },
+    };
+  };
+
+  // Created on first live call so replay runs need no API keys
+  let structuredLLM: { invoke(prompt: string): Promise<TimetableData> } | undefined;
+  return {
+    invoke: (prompt: string) =>
+      withFixture('llm', { model: model ?? 'default', prompt }, () => {
+        structuredLLM = structuredLLM ?? createStructuredLLM();
+        return structuredLLM.invoke(prompt);
+      }),
+  };
 }
 
 /**
  * Extract timetable data from text using LLM with advanced Data Extraction Agent prompt
  * Uses embeddings-first approach: chunk text → embed → retrieve relevant chunks → single LLM call
  */
-export async function extractTimetableWithLLM(text: string): Promise<LLMExtractionResult> {
+export async function extractTimetableWithLLM(
+  text: string,
+  options: LLMOptions = {}
+): Promise<LLMExtractionResult> {
   const startTime = Date.now();
 
   try {
     logInfo('Starting LLM extraction with Data Extraction Agent', { textLength: text.length });
 
-    const llm = initializeLLM();
-
-    // Create structured output parser
-    const structuredLLM = llm.withStructuredOutput(TimetableSchema);
+    // Create structured output parser (JSON mode for local models without tool calling)
+    const structuredLLM = createTimetableLLM(options.model, options.signal);
     
     // Step 1: PRE-PROCESS with embeddings to reduce token usage (if available)
     let contextToSend = text;
@@ -215,7 +386,7 @@ export async function extractTimetableWithLLM(text: string): Promise<LLMExtracti
     const prompt = `You are the Data Structuring & Analysis Agent. Your mission is to parse already-extracted timetable text into clean, structured, validated, database-ready JSON.${embeddingContext}
 
 **CRITICAL CONTEXT**: The text you receive has already been extracted from documents using LLM OCR/PDF APIs. Your job is NOT to perform OCR extraction - it's to UNDERSTAND, STRUCTURE, NORMALIZE, and VALIDATE the pre-extracted text.
-
+${schoolContextSection(options.school)}
 ## Your Input - Pre-Extracted Text
 You receive raw text that has already been extracted by OCR/Vision APIs from timetable images/PDFs. This text may contain:
 - Unstructured time entries (e.g., "Monday 8:00 AM Math Room 101 Grade 10A")
@@ -232,6 +403,7 @@ Search the ENTIRE text for:
 - **Teacher name**: Usually in headers ("Teacher:", "Instructor:", prominent text at top)
 - **Academic year**: Patterns like "2024-2025", "Academic Year 2024-2025", "2024/25"
 - **Semester/Term**: "Fall 2024", "Spring 2025", "Term 1", "Semester 2", "Autumn Term"
+- **Rotation cycle**: Headings like "Week 1"/"Week 2", "Week A"/"Week B" or "Wk1"/"Wk2" mean a multi-week timetable; cycleLength is the number of distinct weeks (1 when there are none)
 
 ### Stage 2: Parse & Structure Time Blocks
 For EACH time entry found in the text, extract and structure:
@@ -251,6 +423,12 @@ For EACH time entry found in the text, extract and structure:
   - "Tuesday", "Tue", "T" → "TUESDAY"
   - Handle multi-day entries: "Mon-Wed" → create separate blocks for Monday, Tuesday, Wednesday
 
+**Rotation Week Detection:**
+- Set weekIndex from the nearest week heading above the entry: "Week 1"/"Week A" → 1, "Week 2"/"Week B" → 2
+- Day labels such as "Mon A", "Mon B" or "Monday (Wk2)" carry the week too
+- Without any week headings every block has weekIndex 1
+- The same day and time in different weeks is NOT a duplicate or an overlap
+
 **Field Extraction & Normalization:**
 - **subject**: Course/class name
   - Normalize common abbreviations: "Math" → "Mathematics", "PE" → "Physical Education", "Sci" → "Science"
@@ -271,9 +449,9 @@ For EACH time entry found in the text, extract and structure:
 
 ### Stage 3: Data Quality Validation
 Perform these checks:
-- ✅ NO duplicate time blocks (same day + time + subject)
-- ✅ NO overlapping time slots (same teacher can't be in two places)
-- ✅ Time blocks chronologically ordered per day
+- ✅ NO duplicate time blocks (same week + day + time + subject)
+- ✅ NO overlapping time slots within the same week (same teacher can't be in two places)
+- ✅ Time blocks chronologically ordered per week and day
 - ✅ startTime MUST be before endTime
 - ✅ Day names in proper format (MONDAY, TUESDAY, etc.)
 - ✅ Times in HH:MM 24-hour format
@@ -295,9 +473,11 @@ Return ONLY valid JSON matching this exact structure:
   "teacherName": "Full teacher name extracted from document headers",
   "academicYear": "2024-2025" or null if not found,
   "semester": "Fall 2024" or "Spring 2025" or null if not found,
+  "cycleLength": 1 for a weekly timetable, 2 for Week A / Week B,
   "timeBlocks": [
     {
       "dayOfWeek": "MONDAY" | "TUESDAY" | "WEDNESDAY" | "THURSDAY" | "FRIDAY" | "SATURDAY" | "SUNDAY",
+      "weekIndex": 1 (week of the rotation, 1 when the timetable does not rotate),
       "startTime": "HH:MM" (24-hour format, e.g., "08:35", "14:00"),
       "endTime": "HH:MM" (24-hour format, e.g., "09:30", "15:45"),
       "subject": "Full subject name (normalized)",
@@ -344,9 +524,11 @@ TUESDAY
   "teacherName": "Ms. Sarah Johnson",
   "academicYear": "2024-2025",
   "semester": "",
+  "cycleLength": 1,
   "timeBlocks": [
     {
       "dayOfWeek": "MONDAY",
+      "weekIndex": 1,
       "startTime": "08:00",
       "endTime": "09:00",
       "subject": "Mathematics",
@@ -357,6 +539,7 @@ TUESDAY
     },
     {
       "dayOfWeek": "MONDAY",
+      "weekIndex": 1,
       "startTime": "09:15",
       "endTime": "10:15",
       "subject": "Mathematics",
@@ -367,6 +550,7 @@ TUESDAY
     },
     {
       "dayOfWeek": "MONDAY",
+      "weekIndex": 1,
       "startTime": "10:30",
       "endTime": "11:00",
       "subject": "Break",
@@ -377,6 +561,7 @@ TUESDAY
     },
     {
       "dayOfWeek": "MONDAY",
+      "weekIndex": 1,
       "startTime": "11:00",
       "endTime": "12:00",
       "subject": "Geometry",
@@ -387,6 +572,7 @@ TUESDAY
     },
     {
       "dayOfWeek": "TUESDAY",
+      "weekIndex": 1,
       "startTime": "08:00",
       "endTime": "09:00",
       "subject": "Mathematics",
@@ -429,7 +615,7 @@ Parse and structure this text into clean, validated JSON following all rules abo
       timetableData: result,
       confidence,
       processingTime,
-      model: config.env.OPENAI_API_KEY ? 'gpt-4o-mini' : 'claude-3-haiku',
+      model: resolveModelName(options.model),
     };
   } catch (error) {
     logError('LLM extraction failed', error);
@@ -437,6 +623,70 @@ Parse and structure this text into clean, validated JSON following all rules abo
   }
 }
 
+/**
+ * Re-structure a timetable after validation found problems (self-correction)
+ * Receives the previous JSON, the validation issues and the source text,
+ * and returns a corrected timetable in the same schema
+ */
+export async function refineTimetableWithLLM(
+  timetableData: TimetableData,
+  sourceText: string,
+  issues: string[],
+  instructions?: string,
+  options: LLMOptions = {}
+): Promise<LLMExtractionResult> {
+  const startTime = Date.now();
+
+  try {
+    logInfo('Starting LLM self-correction', { issues: issues.length });
+
+    const structuredLLM = createTimetableLLM(options.model, options.signal);
+
+    const prompt = `You are the Data Structuring & Analysis Agent performing a SELF-CORRECTION pass on a timetable you structured earlier.
+
+## Validation Issues Found
+${issues.length > 0 ? issues.map((issue, i) => `${i + 1}. ${issue}`).join('\n') : 'None reported'}
+${instructions ? `\n## Additional Instructions\n${instructions}\n` : ''}${schoolContextSection(options.school)}
+## Rules
+- Fix ONLY what the issues describe; keep every other block unchanged
+- Times MUST be strict 24-hour HH:MM and startTime MUST be before endTime
+- Resolve overlaps by re-reading the source text; remove a block only if the source does not support it
+- Merge duplicates into a single block
+- Blocks in different rotation weeks (weekIndex) never overlap or duplicate each other
+- NEVER invent data that is not present in the source text
+
+## Previous Structured Output
+${JSON.stringify(timetableData, null, 2)}
+
+## Source Text (pre-extracted)
+${sourceText}
+
+Return the corrected timetable as JSON following the same schema:`;
+
+    const result = await structuredLLM.invoke(prompt);
+
+    const processingTime = Date.now() - startTime;
+    const confidence = calculateConfidence(result);
+
+    logInfo('✅ LLM self-correction completed', {
+      entriesBefore: timetableData.timeBlocks.length,
+      entriesAfter: result.timeBlocks.length,
+      confidence,
+      processingTime,
+    });
+
+    return {
+      timetableData: result,
+      confidence,
+      processingTime,
+      model: resolveModelName(options.model),
+    };
+  } catch (error) {
+    logError('LLM self-correction failed', error);
+    throw new Error(`LLM self-correction failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
 /**
  * Calculate confidence score based on data completeness
  */
@@ -467,26 +717,154 @@ function calculateConfidence(data: TimetableData): number {
   return Math.round((totalScore / maxScore) * 100);
 }
 
+const TIME_REGEX = /^([0-1][0-9]|2[0-3]):[0-5][0-9]$/;
+const VALID_DAYS = ['MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY', 'SATURDAY', 'SUNDAY'];
+
 /**
- * Validate and clean extracted time blocks
+ * Repair a loosely formatted time ("9:00", "9.00", "0900", "2:30 PM", "2pm")
+ * Returns null when the value cannot be interpreted
  */
-export function validateTimeBlocks(timeBlocks: TimeBlock[]): TimeBlock[] {
-  return timeBlocks.filter((block) => {
-    // Validate time format (HH:mm)
-    const timeRegex = /^([0-1][0-9]|2[0-3]):[0-5][0-9]$/;
-    
-    if (!timeRegex.test(block.startTime) || !timeRegex.test(block.endTime)) {
-      logError('Invalid time format', { block });
-      return false;
+function repairTime(value: string): string | null {
+  const match = value
+    .trim()
+    .toLowerCase()
+    .match(/^(\d{1,2})(?:\s*[:.h]\s*(\d{2})|(\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)?$/);
+
+  if (!match) {
+    return null;
+  }
+
+  let hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2] ?? match[3] ?? '0', 10);
+  const meridiem = match[4]?.replace(/\./g, '');
+
+  if (meridiem === 'pm' && hours < 12) hours += 12;
+  if (meridiem === 'am' && hours === 12) hours = 0;
+
+  if (hours > 23 || minutes > 59) {
+    return null;
+  }
+
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+/**
+ * Repair and validate extracted time blocks
+ *
+ * Fixable formatting problems are repaired instead of dropping the block, and
+ * each repair is reported (aligned with the returned blocks) so the
+ * confidence service can lower the score of repaired blocks. The index of
+ * each returned block in the input tells which blocks were dropped.
+ */
+export function repairTimeBlocks(
+  timeBlocks: TimeBlock[]
+): { timeBlocks: TimeBlock[]; repairs: string[][]; keptIndexes: number[] } {
+  const repairedBlocks: TimeBlock[] = [];
+  const repairs: string[][] = [];
+  const keptIndexes: number[] = [];
+
+  timeBlocks.forEach((original, index) => {
+    const block = { ...original };
+    const blockRepairs: string[] = [];
+
+    // Validate time format (HH:mm), repairing where possible
+    for (const field of ['startTime', 'endTime'] as const) {
+      if (!TIME_REGEX.test(block[field])) {
+        const repaired = repairTime(block[field]);
+        if (repaired) {
+          blockRepairs.push(`${field}: "${block[field]}" → "${repaired}"`);
+          block[field] = repaired;
+        }
+      }
+    }
+
+    if (!TIME_REGEX.test(block.startTime) || !TIME_REGEX.test(block.endTime)) {
+      logError('Invalid time format', { block: original });
+      return;
+    }
+
+    // 12-hour afternoon end times without a meridiem ("11:00-1:00")
+    if (block.endTime <= block.startTime) {
+      const [hours, minutes] = block.endTime.split(':');
+      const afternoon = `${String(parseInt(hours, 10) + 12).padStart(2, '0')}:${minutes}`;
+      if (parseInt(hours, 10) < 12 && afternoon > block.startTime && afternoon <= '23:59') {
+        blockRepairs.push(`endTime: "${block.endTime}" → "${afternoon}"`);
+        block.endTime = afternoon;
+      }
     }
 
     // Validate day of week
-    const validDays = ['MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY', 'SATURDAY', 'SUNDAY'];
-    if (!validDays.includes(block.dayOfWeek)) {
-      logError('Invalid day of week', { block });
-      return false;
+    const day = block.dayOfWeek.toUpperCase() as TimeBlock['dayOfWeek'];
+    if (day !== block.dayOfWeek && VALID_DAYS.includes(day)) {
+      blockRepairs.push(`dayOfWeek: "${block.dayOfWeek}" → "${day}"`);
+      block.dayOfWeek = day;
+    }
+    if (!VALID_DAYS.includes(block.dayOfWeek)) {
+      logError('Invalid day of week', { block: original });
+      return;
+    }
+
+    // Rotation week must be a positive whole number (1 for non-rotating timetables)
+    if (!Number.isInteger(block.weekIndex) || block.weekIndex < 1) {
+      blockRepairs.push(`weekIndex: "${block.weekIndex}" → "1"`);
+      block.weekIndex = 1;
+    }
+
+    repairedBlocks.push(block);
+    repairs.push(blockRepairs);
+    keptIndexes.push(index);
+  });
+
+  return { timeBlocks: repairedBlocks, repairs, keptIndexes };
+}
+
+/**
+ * Validate and clean extracted time blocks
+ */
+export function validateTimeBlocks(timeBlocks: TimeBlock[]): TimeBlock[] {
+  return repairTimeBlocks(timeBlocks).timeBlocks;
+}
+
+/**
+ * Merge duplicate time blocks (same week, day, times and subject)
+ *
+ * Overlapping photos of one timetable repeat the rows they share. Empty
+ * fields of the kept block are filled from its duplicates, and the index of
+ * each kept block in the input is returned so per-block data can be realigned.
+ */
+export function dedupeTimeBlocks(timeBlocks: TimeBlock[]): { timeBlocks: TimeBlock[]; keptIndexes: number[] } {
+  const kept: TimeBlock[] = [];
+  const keptIndexes: number[] = [];
+  const byKey = new Map<string, TimeBlock>();
+
+  timeBlocks.forEach((block, index) => {
+    const key = [
+      block.weekIndex,
+      block.dayOfWeek,
+      block.startTime,
+      block.endTime,
+      block.subject.trim().toLowerCase(),
+    ].join('|');
+
+    const existing = byKey.get(key);
+    if (!existing) {
+      const copy = { ...block };
+      byKey.set(key, copy);
+      kept.push(copy);
+      keptIndexes.push(index);
+      return;
     }
 
-    return true;
+    for (const field of ['classroom', 'grade', 'section', 'notes'] as const) {
+      if (!existing[field] && block[field]) {
+        existing[field] = block[field];
+      }
+    }
   });
+
+  if (kept.length < timeBlocks.length) {
+    logInfo(`Merged ${timeBlocks.length - kept.length} duplicate time blocks`);
+  }
+
+  return { timeBlocks: kept, keptIndexes };
 }
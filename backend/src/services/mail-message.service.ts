@@ -0,0 +1,228 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+/**
+ * Email Messages
+ *
+ * Just enough RFC 5322 / MIME to take the attachments out of an email:
+ * folded headers, encoded words ("=?UTF-8?B?...?="), RFC 2231 file names,
+ * base64 and quoted-printable bodies, nested multiparts and forwarded
+ * messages. The raw message is handled as a latin1 string so every byte
+ * maps to one character and binary attachments survive untouched.
+ */
+
+export interface MailAttachment {
+  fileName: string;
+  contentType: string;
+  data: Buffer;
+}
+
+export interface MailMessage {
+  messageId?: string;
+  from?: string; // Sender address, lowercased
+  fromName?: string;
+  subject?: string;
+  attachments: MailAttachment[];
+}
+
+interface MimePart {
+  headers: Map<string, string>;
+  body: string; // latin1
+}
+
+// Forwarded messages are unpacked this many levels deep
+const MAX_DEPTH = 5;
+
+function splitPart(raw: string): MimePart {
+  const match = /\r?\n\r?\n/.exec(raw);
+  const head = match ? raw.slice(0, match.index) : raw;
+  const body = match ? raw.slice(match.index + match[0].length) : "";
+
+  const headers = new Map<string, string>();
+  for (const line of head.replace(/\r?\n[ \t]+/g, " ").split(/\r?\n/)) {
+    const colon = line.indexOf(":");
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    if (!headers.has(name)) headers.set(name, line.slice(colon + 1).trim());
+  }
+  return { headers, body };
+}
+
+function decodeCharset(data: Buffer, charset: string): string {
+  try {
+    return new TextDecoder(charset.trim().toLowerCase()).decode(data);
+  } catch {
+    return data.toString("utf8");
+  }
+}
+
+function decodeQuotedPrintable(text: string): Buffer {
+  const bytes = text
+    .replace(/=\r?\n/g, "")
+    .replace(/=([0-9a-f]{2})/gi, (_match, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+  return Buffer.from(bytes, "latin1");
+}
+
+/**
+ * Header text with encoded words decoded ("=?UTF-8?Q?M=C3=BCller?=" -> "Müller")
+ */
+function decodeHeader(value: string): string {
+  const text = Buffer.from(value, "latin1").toString("utf8");
+  return text
+    .replace(/(=\?[^?]+\?[bq]\?[^?]*\?=)\s+(?==\?)/gi, "$1")
+    .replace(/=\?([^?]+)\?([bq])\?([^?]*)\?=/gi, (_match, charset: string, encoding: string, encoded: string) => {
+      const data = encoding.toLowerCase() === "b"
+        ? Buffer.from(encoded, "base64")
+        : decodeQuotedPrintable(encoded.replace(/_/g, " "));
+      return decodeCharset(data, charset.replace(/\*.*$/, ""));
+    });
+}
+
+/**
+ * Value and parameters of a structured header
+ * 'attachment; filename="a.pdf"' -> { value: "attachment", params: { filename: "a.pdf" } }
+ */
+function parseStructuredHeader(header: string | undefined): { value: string; params: Map<string, string> } {
+  const params = new Map<string, string>();
+  if (!header) return { value: "", params };
+
+  const [value, ...rest] = header.match(/(?:[^;"]|"(?:\\.|[^"\\])*")+/g) ?? [""];
+  const continuations = new Map<string, Array<{ index: number; text: string; encoded: boolean }>>();
+
+  for (const item of rest) {
+    const equals = item.indexOf("=");
+    if (equals < 0) continue;
+    let name = item.slice(0, equals).trim().toLowerCase();
+    let text = item.slice(equals + 1).trim();
+    if (text.startsWith('"')) text = text.slice(1, -1).replace(/\\(.)/g, "$1");
+
+    // RFC 2231: filename*=UTF-8''%C3%BC.pdf, filename*0*=..., filename*1=...
+    const section = /^(.+?)\*(\d+)?(\*)?$/.exec(name);
+    if (section) {
+      name = section[1];
+      const parts = continuations.get(name) ?? [];
+      parts.push({ index: Number(section[2] ?? 0), text, encoded: Boolean(section[3]) || section[2] === undefined });
+      continuations.set(name, parts);
+    } else {
+      params.set(name, decodeHeader(text));
+    }
+  }
+
+  for (const [name, parts] of continuations) {
+    parts.sort((a, b) => a.index - b.index);
+    let charset = "utf-8";
+    const bytes = parts
+      .map((part, position) => {
+        let text = part.text;
+        if (part.encoded && position === 0) {
+          const [declared, , rest] = text.split("'");
+          if (rest !== undefined) {
+            charset = declared || charset;
+            text = rest;
+          }
+        }
+        return part.encoded ? text.replace(/%([0-9a-f]{2})/gi, (_m, hex: string) => String.fromCharCode(parseInt(hex, 16))) : text;
+      })
+      .join("");
+    params.set(name, decodeCharset(Buffer.from(bytes, "latin1"), charset));
+  }
+
+  return { value: value.trim().toLowerCase(), params };
+}
+
+function decodeBody(part: MimePart): Buffer {
+  const encoding = (part.headers.get("content-transfer-encoding") ?? "").toLowerCase();
+  if (encoding === "base64") return Buffer.from(part.body.replace(/[^A-Za-z0-9+/=]/g, ""), "base64");
+  if (encoding === "quoted-printable") return decodeQuotedPrintable(part.body);
+  return Buffer.from(part.body, "latin1");
+}
+
+function collectAttachments(part: MimePart, attachments: MailAttachment[], depth: number): void {
+  const contentType = parseStructuredHeader(part.headers.get("content-type") ?? "text/plain");
+
+  if (contentType.value.startsWith("multipart/")) {
+    const boundary = contentType.params.get("boundary");
+    if (!boundary || depth > MAX_DEPTH) return;
+    const delimiter = `--${boundary}`;
+    const sections = part.body.split(new RegExp(`(?:^|\\r?\\n)${delimiter.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}`));
+    // Before the first delimiter is the preamble; from "--boundary--" on the epilogue
+    for (const section of sections.slice(1)) {
+      if (section.startsWith("--")) break;
+      collectAttachments(splitPart(section.replace(/^[ \t]*\r?\n/, "")), attachments, depth + 1);
+    }
+    return;
+  }
+
+  if (contentType.value === "message/rfc822" && depth <= MAX_DEPTH) {
+    collectAttachments(splitPart(decodeBody(part).toString("latin1")), attachments, depth + 1);
+    return;
+  }
+
+  const disposition = parseStructuredHeader(part.headers.get("content-disposition"));
+  const fileName = disposition.params.get("filename") ?? contentType.params.get("name");
+  // Images embedded in the text (signature logos) are referenced by Content-ID
+  const embedded = disposition.value === "inline" && part.headers.has("content-id");
+  if (!fileName || embedded) return;
+
+  attachments.push({
+    fileName: fileName.replace(/^.*[\\/]/, ""),
+    contentType: contentType.value || "application/octet-stream",
+    data: decodeBody(part),
+  });
+}
+
+/**
+ * Sender, subject and attachments of a raw email
+ */
+export function parseMailMessage(raw: Buffer): MailMessage {
+  const message = splitPart(raw.toString("latin1"));
+  const from = decodeHeader(message.headers.get("from") ?? "");
+  const address = /<([^<>\s]+@[^<>\s]+)>/.exec(from)?.[1] ?? /[^\s<>"]+@[^\s<>"]+/.exec(from)?.[0];
+  const fromName = from.replace(/<[^>]*>/, "").replace(/"/g, "").trim();
+
+  const attachments: MailAttachment[] = [];
+  collectAttachments(message, attachments, 0);
+
+  return {
+    messageId: message.headers.get("message-id")?.replace(/[<>]/g, "").trim() || undefined,
+    from: address?.toLowerCase(),
+    fromName: fromName && fromName !== address ? fromName : undefined,
+    subject: message.headers.has("subject") ? decodeHeader(message.headers.get("subject")!) : undefined,
+    attachments,
+  };
+}
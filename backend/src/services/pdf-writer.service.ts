@@ -0,0 +1,237 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+import zlib from "zlib";
+
+/**
+ * PDF Writer
+ *
+ * A minimal PDF 1.4 writer for generated documents: filled and outlined
+ * rectangles and single lines of text in the standard Helvetica fonts,
+ * which every PDF reader has built in, so nothing is embedded. Text is
+ * WinAnsi encoded; characters outside it print as "?". Coordinates are in
+ * points from the top-left corner of the page.
+ */
+
+export type PdfFont = "regular" | "bold";
+
+export const A4_SIZE = { width: 595.28, height: 841.89 };
+
+// Advance widths (1/1000 em) of the printable ASCII characters, from the Adobe font metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+// Used for accented letters and other characters outside printable ASCII
+const DEFAULT_WIDTH = 556;
+
+// WinAnsi codes of the characters that differ from Latin-1 (0x80-0x9F)
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80, "‚": 0x82, "„": 0x84, "…": 0x85, "†": 0x86, "‡": 0x87, "‰": 0x89,
+  "‘": 0x91, "’": 0x92, "“": 0x93, "”": 0x94, "•": 0x95, "–": 0x96, "—": 0x97, "™": 0x99,
+};
+
+const FONT_RESOURCES: Record<PdfFont, string> = { regular: "F1", bold: "F2" };
+
+function winAnsiCode(char: string): number {
+  const code = char.codePointAt(0) ?? 0x3f;
+  if ((code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff)) return code;
+  return WIN_ANSI_EXTRAS[char] ?? 0x3f;
+}
+
+// Literal string contents: WinAnsi bytes, escaping parentheses and backslashes
+function pdfString(text: string): string {
+  return Array.from(text, (char) => {
+    const code = winAnsiCode(char);
+    if (code === 0x28 || code === 0x29 || code === 0x5c) return `\\${char}`;
+    return code < 0x80 ? String.fromCharCode(code) : `\\${code.toString(8)}`;
+  }).join("");
+}
+
+function color(hex: string): string {
+  const value = parseInt(hex, 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff].map((part) => (part / 255).toFixed(3)).join(" ");
+}
+
+function number(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+interface PdfPage {
+  width: number;
+  height: number;
+  operations: string[];
+}
+
+export class PdfDocument {
+  private readonly pages: PdfPage[] = [];
+
+  constructor(private readonly title: string) {}
+
+  /**
+   * Start a new page; drawing goes to the latest page
+   */
+  addPage(width: number, height: number): void {
+    this.pages.push({ width, height, operations: [] });
+  }
+
+  private get page(): PdfPage {
+    const page = this.pages[this.pages.length - 1];
+    if (!page) throw new Error("addPage must be called before drawing");
+    return page;
+  }
+
+  /**
+   * Width of a line of text in points
+   */
+  textWidth(text: string, size: number, font: PdfFont = "regular"): number {
+    const widths = font === "bold" ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+    let units = 0;
+    for (const char of text) {
+      const code = char.codePointAt(0) ?? 0;
+      units += code >= 0x20 && code < 0x7f ? widths[code - 0x20] : char === "…" ? 1000 : DEFAULT_WIDTH;
+    }
+    return (units * size) / 1000;
+  }
+
+  /**
+   * Shorten text with an ellipsis until it fits the width
+   */
+  fitText(text: string, maxWidth: number, size: number, font: PdfFont = "regular"): string {
+    if (this.textWidth(text, size, font) <= maxWidth) return text;
+    const chars = Array.from(text);
+    while (chars.length > 0 && this.textWidth(`${chars.join("")}…`, size, font) > maxWidth) {
+      chars.pop();
+    }
+    return chars.length > 0 ? `${chars.join("").trimEnd()}…` : "";
+  }
+
+  /**
+   * Draw a rectangle, filled and/or outlined (colors as RRGGBB)
+   */
+  rect(x: number, y: number, width: number, height: number, style: { fill?: string; stroke?: string; lineWidth?: number }): void {
+    const ops = this.page.operations;
+    const bottom = this.page.height - y - height;
+    ops.push("q");
+    if (style.fill) ops.push(`${color(style.fill)} rg`);
+    if (style.stroke) ops.push(`${color(style.stroke)} RG ${number(style.lineWidth ?? 0.5)} w`);
+    const paint = style.fill && style.stroke ? "B" : style.fill ? "f" : "S";
+    ops.push(`${number(x)} ${number(bottom)} ${number(width)} ${number(height)} re ${paint}`, "Q");
+  }
+
+  /**
+   * Draw a line of text with its top at y
+   */
+  text(x: number, y: number, text: string, size: number, font: PdfFont = "regular", fill = "000000"): void {
+    // Helvetica's ascender is about 0.72 em above the baseline
+    const baseline = this.page.height - y - size * 0.72;
+    this.page.operations.push(
+      `BT ${color(fill)} rg /${FONT_RESOURCES[font]} ${number(size)} Tf ${number(x)} ${number(baseline)} Td (${pdfString(text)}) Tj ET`
+    );
+  }
+
+  /**
+   * Serialize the document
+   */
+  toBuffer(): Buffer {
+    const objects: string[] = [];
+    const add = (body: string) => objects.push(body); // Object ids are 1-based
+
+    const catalogId = add("");
+    const pagesId = add("");
+    const regularFontId = add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+    const boldFontId = add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>");
+    const infoId = add(`<< /Title (${pdfString(this.title)}) /Producer (Teacher Timetable Extraction) >>`);
+
+    const streams = new Map<number, Buffer>();
+    const pageIds = this.pages.map((page) => {
+      const content = zlib.deflateSync(Buffer.from(page.operations.join("\n"), "latin1"));
+      const contentId = add(`<< /Length ${content.length} /Filter /FlateDecode >>`);
+      streams.set(contentId, content);
+      return add(
+        `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${number(page.width)} ${number(page.height)}] ` +
+          `/Resources << /Font << /F1 ${regularFontId} 0 R /F2 ${boldFontId} 0 R >> >> /Contents ${contentId} 0 R >>`
+      );
+    });
+    objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`;
+    objects[pagesId - 1] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`;
+
+    const chunks: Buffer[] = [Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1")];
+    let length = chunks[0].length;
+    const offsets: number[] = [];
+    objects.forEach((body, index) => {
+      const id = index + 1;
+      const stream = streams.get(id);
+      const chunk = Buffer.concat([
+        Buffer.from(`${id} 0 obj\n${body}\n`, "latin1"),
+        ...(stream ? [Buffer.from("stream\n"), stream, Buffer.from("\nendstream\n")] : []),
+        Buffer.from("endobj\n"),
+      ]);
+      offsets.push(length);
+      chunks.push(chunk);
+      length += chunk.length;
+    });
+
+    const xref = [
+      "xref",
+      `0 ${objects.length + 1}`,
+      "0000000000 65535 f ",
+      ...offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n `),
+      "trailer",
+      `<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>`,
+      "startxref",
+      String(length),
+      "%%EOF",
+    ].join("\n");
+    chunks.push(Buffer.from(`${xref}\n`, "latin1"));
+
+    return Buffer.concat(chunks);
+  }
+}
@@ -36,24 +36,26 @@
  * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
  */
 
-import * as pdfParse from "pdf-parse";
+import { PDFParse } from "pdf-parse";
 import { pdfToPng } from "pdf-to-png-converter";
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import vision from "@google-cloud/vision";
 import fs from "fs/promises";
 import fsSync from "fs";
 import path from "path";
 import os from "os";
 import { logInfo, logError, logWarn } from "../utils/logger";
-import { config } from "../config/env";
 import { buildPDFPageExtractionPrompt } from "./prompts/ocr.prompts";
+import {
+  extractWithProviderChain,
+  type ProviderAttempt,
+  type VisionChainOptions,
+} from "./providers/provider.registry";
 
 /**
  * Advanced PDF Service with AI/ML Support
  *
  * Capabilities:
  * 1. Text-based PDFs: Direct text extraction with pdf-parse
- * 2. Scanned PDFs: Convert to images → AI Vision (OpenAI/Google)
+ * 2. Scanned PDFs: Convert to images → vision provider chain (OCR_PROVIDER_CHAIN)
  * 3. Mixed PDFs: Hybrid extraction combining both methods
  *
  * Priority: AI Vision for scanned content, direct extraction for text
@@ -71,266 +73,101 @@ export interface PDFExtractionResult {
   processingTime: number;
   method: "text-extraction" | "ai-vision" | "hybrid";
   confidence?: number;
+  attempts: ProviderAttempt[];
 }
 
 /**
- * Extract text using OpenAI Vision from PDF images
+ * Inclusive, 1-based page range
  */
-async function extractWithOpenAIVision(pdfImages: Buffer[]): Promise<string> {
-  try {
-    logInfo("🤖 Extracting PDF text with OpenAI Vision API");
-
-    if (!config.env.OPENAI_API_KEY) {
-      throw new Error("OpenAI API key not configured");
-    }
-
-    const extractedTexts: string[] = [];
-
-    // Process each page
-    for (let i = 0; i < pdfImages.length; i++) {
-      logInfo(
-        `Processing page ${i + 1}/${pdfImages.length} with OpenAI Vision`
-      );
-
-      const base64Image = pdfImages[i].toString("base64");
-
-      // Use standardized prompt from shared module (same for OpenAI and Google)
-      const prompt = buildPDFPageExtractionPrompt(i + 1, pdfImages.length);
-
-      const response = await fetch(
-        "https://api.openai.com/v1/chat/completions",
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${config.env.OPENAI_API_KEY}`,
-          },
-          body: JSON.stringify({
-            model: "gpt-4o-mini",
-            messages: [
-              {
-                role: "user",
-                content: [
-                  {
-                    type: "text",
-                    text: prompt,
-                  },
-                  {
-                    type: "image_url",
-                    image_url: {
-                      url: `data:image/png;base64,${base64Image}`,
-                    },
-                  },
-                ],
-              },
-            ],
-            max_tokens: 2000,
-            temperature: 0, // Deterministic extraction
-          }),
-        }
-      );
-
-      if (!response.ok) {
-        throw new Error(`OpenAI Vision API error: ${response.status}`);
-      }
-
-      const data: any = await response.json();
-      const pageText = data.choices?.[0]?.message?.content?.trim() || "";
-      extractedTexts.push(pageText);
-    }
+export interface PageRange {
+  from: number;
+  to: number;
+}
 
-    const fullText = extractedTexts.join("\n\n--- Page Break ---\n\n");
-    logInfo("✅ OpenAI Vision PDF extraction successful");
+export interface PDFExtractionOptions extends VisionChainOptions {
+  pageImages?: Buffer[]; // Collects page renders (stored as extraction artifacts)
+  pageRange?: PageRange; // Only process these pages (defaults to all)
+}
 
-    return fullText;
-  } catch (error) {
-    logError("❌ OpenAI Vision PDF extraction failed", error);
-    throw error;
-  }
+function pageNumbers(range: PageRange): number[] {
+  return Array.from({ length: range.to - range.from + 1 }, (_, i) => range.from + i);
 }
 
 /**
- * Extract text using Deepseek Vision from PDF images
+ * Clamp a requested page range to the document
  */
-async function extractWithDeepseekVision(pdfImages: Buffer[]): Promise<string> {
-  try {
-    logInfo("🧠 Extracting PDF text with Deepseek Vision API");
-
-    if (!config.env.DEEPSEEK_API_KEY) {
-      throw new Error("Deepseek API key not configured");
-    }
-
-    const extractedTexts: string[] = [];
-
-    // Process each page
-    for (let i = 0; i < pdfImages.length; i++) {
-      logInfo(
-        `Processing page ${i + 1}/${pdfImages.length} with Deepseek Vision`
-      );
-
-      const base64Image = pdfImages[i].toString("base64");
-
-      // Use standardized prompt from shared module
-      const prompt = buildPDFPageExtractionPrompt(i + 1, pdfImages.length);
-
-      const response = await fetch(
-        "https://api.deepseek.com/v1/chat/completions",
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${config.env.DEEPSEEK_API_KEY}`,
-          },
-          body: JSON.stringify({
-            model: "deepseek-vl2", // ✅ use lowercase model name
-            messages: [
-              {
-                role: "user",
-                content: [
-                  {
-                    type: "text",
-                    text: prompt,
-                  },
-                  {
-                    type: "image", // ✅ correct field
-                    image: `data:image/png;base64,${base64Image}`, // ✅ base64 inline
-                  },
-                ],
-              },
-            ],
-            max_tokens: 2000,
-            temperature: 0, // Deterministic extraction
-          }),
-        }
-      );
-
-      if (!response.ok) {
-        throw new Error(`Deepseek Vision API error: ${response.status}`);
-      }
-
-      const data: any = await response.json();
-      const pageText = data.choices?.[0]?.message?.content?.trim() || "";
-      extractedTexts.push(pageText);
-    }
-
-    const fullText = extractedTexts.join("\n\n--- Page Break ---\n\n");
-    logInfo("✅ Deepseek Vision PDF extraction successful");
-
-    return fullText;
-  } catch (error) {
-    logError("❌ Deepseek Vision PDF extraction failed", error);
-    throw error;
+function clampPageRange(pageRange: PageRange | undefined, total: number): PageRange | undefined {
+  if (!pageRange) return undefined;
+  if (pageRange.from > total) {
+    throw new Error(`Page range ${pageRange.from}-${pageRange.to} is outside the document (${total} pages)`);
   }
+  return { from: pageRange.from, to: Math.min(pageRange.to, total) };
 }
 
 /**
- * Extract text using Google Gemini Vision from PDF images
+ * Read the embedded text layer and document info with pdf-parse
  */
-async function extractWithGoogleVision_old(pdfImages: Buffer[]): Promise<string> {
-  try {
-    logInfo("🤖 Extracting PDF text with Google Gemini Vision API");
-
-    if (!config.env.GOOGLE_API_KEY) {
-      throw new Error("Google API key not configured");
-    }
-
-    const genAI = new GoogleGenerativeAI(config.env.GOOGLE_API_KEY);
-    const model = genAI.getGenerativeModel({ model: "gemini-1.5-flash" });
-
-    const extractedTexts: string[] = [];
-
-    // Process each page
-    for (let i = 0; i < pdfImages.length; i++) {
-      logInfo(
-        `Processing page ${i + 1}/${pdfImages.length} with Google Vision`
-      );
-
-      const base64Image = pdfImages[i].toString("base64");
-
-      // Use standardized prompt from shared module (same as OpenAI)
-      const prompt = buildPDFPageExtractionPrompt(i + 1, pdfImages.length);
-
-      const result = await model.generateContent([
-        prompt,
-        {
-          inlineData: {
-            data: base64Image,
-            mimeType: "image/png",
-          },
-        },
-      ]);
+async function parsePDF(dataBuffer: Buffer, pageRange?: PageRange) {
+  const parser = new PDFParse({ data: new Uint8Array(dataBuffer) });
 
-      const response = await result.response;
-      const pageText = response.text().trim();
-      extractedTexts.push(pageText);
-    }
+  try {
+    const info = await parser.getInfo();
+    const range = clampPageRange(pageRange, info.total);
 
-    const fullText = extractedTexts.join("\n\n--- Page Break ---\n\n");
-    logInfo("✅ Google Vision PDF extraction successful");
+    const textResult = await parser.getText(range ? { partial: pageNumbers(range) } : undefined);
 
-    return fullText;
-  } catch (error) {
-    logError("❌ Google Vision PDF extraction failed", error);
-    throw error;
+    return {
+      text: textResult.text,
+      numPages: range ? range.to - range.from + 1 : info.total,
+      pageRange: range,
+      info: info.info || {},
+    };
+  } finally {
+    await parser.destroy();
   }
 }
 
-async function extractWithGoogleVision(pdfImages: Buffer[]): Promise<string> {
-  try {
-    logInfo("🤖 Extracting PDF text with Google Vision API");
-
-    // Ensure the path to service account JSON is set
-    if (!config.env.GOOGLE_SERVICE_ACCOUNT_JSON) {
-      throw new Error(
-        "Google Service Account JSON path not configured in GOOGLE_SERVICE_ACCOUNT_JSON"
-      );
-    }
-
-    // Initialize Vision client with service account
-    const client = new vision.ImageAnnotatorClient({
-      keyFilename: config.env.GOOGLE_SERVICE_ACCOUNT_JSON,
-    });
-
-    const extractedTexts: string[] = [];
-
-    // Process each page
-    for (let i = 0; i < pdfImages.length; i++) {
-      logInfo(`Processing page ${i + 1}/${pdfImages.length} with Google Vision`);
-
-      const [result] = await client.documentTextDetection({ 
-        image: { content: pdfImages[i] } 
-      });
+/**
+ * Read the text layer and ruled tables of a PDF without any AI call
+ * Used by the deterministic table parser; scanned PDFs yield no tables
+ */
+export async function extractPDFTables(
+  pdfPath: string,
+  pageRange?: PageRange
+): Promise<{ text: string; tables: string[][][] }> {
+  const parser = new PDFParse({ data: new Uint8Array(await fs.readFile(pdfPath)) });
 
-      const pageText = result.fullTextAnnotation?.text?.trim() || "";
-      extractedTexts.push(pageText);
-    }
+  try {
+    const info = await parser.getInfo();
+    const range = clampPageRange(pageRange, info.total);
+    const params = range ? { partial: pageNumbers(range) } : undefined;
 
-    const fullText = extractedTexts.join("\n\n--- Page Break ---\n\n");
-    logInfo("✅ Google Vision PDF extraction successful", {
-      textLength: fullText.length,
-    });
+    const textResult = await parser.getText(params);
+    const tableResult = await parser.getTable(params);
 
-    return fullText;
-  } catch (error) {
-    logError("❌ Google Vision PDF extraction failed", error);
-    throw error;
+    return {
+      text: textResult.text,
+      tables: tableResult.pages.flatMap((page) => page.tables),
+    };
+  } finally {
+    await parser.destroy();
   }
 }
 
 /**
  * Convert PDF to images for AI vision processing
  */
-async function convertPDFToImages(pdfPath: string): Promise<Buffer[]> {
+export async function convertPDFToImages(pdfPath: string, pageRange?: PageRange): Promise<Buffer[]> {
   try {
-    logInfo("📄 Converting PDF to images for AI vision");
+    logInfo("📄 Converting PDF to images for AI vision", { pageRange });
 
     // Create temporary directory for images
     const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "pdf-images-"));
 
-    // Convert PDF to PNG images
+    // Convert PDF to PNG images (all pages unless a range is given)
     const pngPages = await pdfToPng(pdfPath, {
       outputFolder: tempDir,
-      // Process all pages by default
+      pagesToProcess: pageRange ? pageNumbers(pageRange) : undefined,
     });
 
     // Read all generated images
@@ -353,59 +190,58 @@ async function convertPDFToImages(pdfPath: string): Promise<Buffer[]> {
 
 /**
  * Extract text from PDF using AI Vision (for scanned PDFs)
+ * Each page runs through the vision provider chain independently
  */
-async function extractScannedPDFWithAI(pdfPath: string): Promise<string> {
+async function extractScannedPDFWithAI(
+  pdfPath: string,
+  options: PDFExtractionOptions
+): Promise<{ text: string; confidence: number }> {
   try {
     logInfo("🔍 Processing scanned PDF with AI Vision");
 
     // Convert PDF pages to images
-    const pdfImages = await convertPDFToImages(pdfPath);
-
-    let extractedText = "";
-
-    switch (config.env.WHICH_OCR_KEY) {
-      case "OPENAI_API_KEY":
-        // Try Deepseek Vision as second option (cost-effective)
-        if (config.env.DEEPSEEK_API_KEY) {
-          try {
-            extractedText = await extractWithDeepseekVision(pdfImages);
-            return extractedText;
-          } catch (error) {
-            logWarn(
-              "⚠️ Deepseek Vision failed for PDF, trying Deepseek Vision",
-              error
-            );
-          }
-        }
-        break;
-      case "DEEPSEEK_API_KEY":
-        // try Deepseek Vision as second option
-        if (config.env.DEEPSEEK_API_KEY) {
-          try {
-            extractedText = await extractWithDeepseekVision(pdfImages);
-            return extractedText;
-          } catch (error) {
-            logWarn(
-              "⚠️ Deepseek Vision failed for PDF, trying Google Vision",
-            );
-          }
-        }
-        break;
-      case "GOOGLE_API_KEY":
-        // Try Google Vision as third option
-        if (config.env.GOOGLE_API_KEY) {
-          try {
-            extractedText = await extractWithGoogleVision(pdfImages);
-            return extractedText;
-          } catch (error) {
-            logWarn("⚠️ Google Vision failed for PDF", error);
-          }
-        }
-        break;
-      default:
+    const pdfImages = await convertPDFToImages(pdfPath, options.pageRange);
+    // Replaced, not appended: the agent may render the same document again
+    options.pageImages?.splice(0, options.pageImages.length, ...pdfImages);
+
+    const extractedTexts: string[] = [];
+    const confidences: number[] = [];
+
+    for (let i = 0; i < pdfImages.length; i++) {
+      logInfo(`Processing page ${i + 1}/${pdfImages.length} with vision provider chain`);
+
+      try {
+        const result = await extractWithProviderChain(
+          {
+            image: pdfImages[i],
+            mimeType: "image/png",
+            // Use standardized prompt from shared module (same for every provider)
+            prompt: buildPDFPageExtractionPrompt(i + 1, pdfImages.length),
+          },
+          { ...options, context: `pdf page ${i + 1}/${pdfImages.length}` }
+        );
+        extractedTexts.push(result.text);
+        confidences.push(result.confidence);
+      } catch (error) {
+        logWarn(`⚠️ No vision provider could read page ${i + 1}`, error);
+      }
     }
 
-    throw new Error("All AI Vision methods failed for scanned PDF extraction");
+    if (extractedTexts.length === 0) {
+      throw new Error("All AI Vision methods failed for scanned PDF extraction");
+    }
+
+    logInfo("✅ Vision extraction completed", {
+      pages: pdfImages.length,
+      pagesExtracted: extractedTexts.length,
+    });
+
+    // Unreadable pages lower the overall confidence proportionally
+    const averageConfidence = confidences.reduce((sum, c) => sum + c, 0) / confidences.length;
+    return {
+      text: extractedTexts.join("\n\n--- Page Break ---\n\n"),
+      confidence: Math.round(averageConfidence * (confidences.length / pdfImages.length)),
+    };
   } catch (error) {
     logError("❌ Scanned PDF extraction failed", error);
     throw error;
@@ -421,9 +257,12 @@ async function extractScannedPDFWithAI(pdfPath: string): Promise<string> {
  * 3. For mixed PDFs, combine both methods (hybrid)
  */
 export async function extractTextFromPDF(
-  pdfPath: string
+  pdfPath: string,
+  options: PDFExtractionOptions = {}
 ): Promise<PDFExtractionResult> {
   const startTime = Date.now();
+  const attempts: ProviderAttempt[] = [];
+  const chainOptions: PDFExtractionOptions = { ...options, attempts };
 
   try {
     logInfo(`🚀 Starting AI-powered PDF extraction for: ${pdfPath}`);
@@ -432,14 +271,14 @@ export async function extractTextFromPDF(
     const dataBuffer = fsSync.readFileSync(pdfPath);
 
     // Parse PDF with pdf-parse
-    // @ts-ignore - pdf-parse types issue
-    const pdfData = await pdfParse(dataBuffer);
+    const pdfData = await parsePDF(dataBuffer, options.pageRange);
+    chainOptions.pageRange = pdfData.pageRange;
 
     const textLength = pdfData.text.trim().length;
-    const textDensity = textLength / pdfData.numpages;
+    const textDensity = textLength / Math.max(pdfData.numPages, 1);
 
     logInfo("📊 PDF Analysis", {
-      numPages: pdfData.numpages,
+      numPages: pdfData.numPages,
       textLength,
       textDensity: textDensity.toFixed(2),
     });
@@ -453,9 +292,10 @@ export async function extractTextFromPDF(
       // Scanned PDF (low text density) - Use AI Vision
       logInfo("⚡ Detected scanned PDF, using AI Vision extraction");
       try {
-        finalText = await extractScannedPDFWithAI(pdfPath);
+        const aiResult = await extractScannedPDFWithAI(pdfPath, chainOptions);
+        finalText = aiResult.text;
         method = "ai-vision";
-        confidence = 95;
+        confidence = aiResult.confidence;
       } catch (error) {
         logWarn(
           "⚠️ AI Vision extraction failed, using basic text extraction",
@@ -469,9 +309,9 @@ export async function extractTextFromPDF(
       // Mixed PDF (medium text density) - Try hybrid approach
       logInfo("⚡ Detected mixed PDF, using hybrid extraction");
       try {
-        const aiText = await extractScannedPDFWithAI(pdfPath);
+        const aiResult = await extractScannedPDFWithAI(pdfPath, chainOptions);
         // Combine both extractions
-        finalText = `${pdfData.text}\n\n--- AI Enhanced Extraction ---\n\n${aiText}`;
+        finalText = `${pdfData.text}\n\n--- AI Enhanced Extraction ---\n\n${aiResult.text}`;
         method = "hybrid";
         confidence = 90;
       } catch (error) {
@@ -492,6 +332,12 @@ export async function extractTextFromPDF(
     }
 
     const processingTime = Date.now() - startTime;
+    options.attempts?.push(...attempts);
+
+    // The embedded text layer is an independent reading of the document
+    if (textLength >= 10) {
+      options.readings?.push({ source: "pdf-text-layer", text: pdfData.text, confidence: 95 });
+    }
 
     logInfo("✨ PDF extraction completed", {
       method,
@@ -502,7 +348,7 @@ export async function extractTextFromPDF(
 
     return {
       text: finalText,
-      numPages: pdfData.numpages,
+      numPages: pdfData.numPages,
       metadata: {
         title: pdfData.info?.Title,
         author: pdfData.info?.Author,
@@ -512,6 +358,7 @@ export async function extractTextFromPDF(
       processingTime,
       method,
       confidence,
+      attempts,
     };
   } catch (error) {
     logError("💥 PDF extraction failed", error);
@@ -532,11 +379,10 @@ export async function isPDFScanned(pdfPath: string): Promise<boolean> {
     // Read PDF file
     const dataBuffer = fsSync.readFileSync(pdfPath);
 
-    // @ts-ignore - pdf-parse types issue
-    const pdfData = await pdf(dataBuffer);
+    const pdfData = await parsePDF(dataBuffer);
 
     // Calculate text density
-    const textDensity = pdfData.text.trim().length / pdfData.numpages;
+    const textDensity = pdfData.text.trim().length / Math.max(pdfData.numPages, 1);
 
     // Less than 50 characters per page suggests it's scanned
     const isScanned = textDensity < 50;
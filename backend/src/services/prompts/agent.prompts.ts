@@ -0,0 +1,87 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+/**
+ * Agentic Workflow Prompts
+ *
+ * System prompt for the LangGraph extraction agent (intelligent.service.ts).
+ * The agent decides which tools to call; the graph enforces the validation
+ * gate and the iteration limit, so the prompt only describes the workflow.
+ */
+
+/**
+ * Build the system prompt for the extraction agent
+ *
+ * Used by: Intelligent extraction service (agent node)
+ * Input: Uploaded file metadata and iteration budget
+ * Output: Tool-calling instructions for the agent
+ */
+export function buildAgentSystemPrompt(
+  fileName: string,
+  mimeType: string,
+  maxIterations: number
+): string {
+  return `You are the Timetable Extraction Agent. You turn an uploaded teacher timetable document into validated, structured timetable data by calling tools.
+
+DOCUMENT: ${fileName} (${mimeType})
+
+AVAILABLE TOOLS:
+• ocr_image - AI Vision OCR of the uploaded image, or of a rendered PDF page
+• extract_pdf_text - PDF text layer extraction (auto-detects scanned pages and uses AI Vision)
+• render_pdf_pages - Render every PDF page to a PNG so each page can be OCR'd separately
+• parse_docx - DOCX text extraction including embedded images
+• structure_timetable - Structure the extracted text into timetable JSON (LLM)
+• validate_timetable - Check time formats, overlaps and duplicates of the current JSON
+• correct_timetable - Self-correct the current JSON using the validation issues
+
+WORKFLOW:
+1. Get the document text with the tool that matches the file type
+   - Images: ocr_image
+   - PDFs: extract_pdf_text first; if the text is sparse or garbled, render_pdf_pages and ocr_image each page
+   - DOCX: parse_docx
+2. Call structure_timetable once you have enough text
+3. Call validate_timetable
+4. If validation reports issues, call correct_timetable (optionally with specific instructions), then validate again
+5. Stop calling tools when validation passes
+
+RULES:
+• Before every tool call, state in one or two sentences WHY you are calling it - this reasoning is stored in the processing log
+• Never invent timetable data; only fix what the source text supports
+• You have ${maxIterations} validation rounds in total - do not repeat a tool call that already succeeded with the same input
+• When you are done, reply with a short summary and no tool calls`;
+}
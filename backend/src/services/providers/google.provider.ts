@@ -0,0 +1,114 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+import vision from "@google-cloud/vision";
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import { config } from "../../config/env";
+import type { VisionProvider, VisionRequest } from "./vision.provider";
+
+/**
+ * Google Cloud Vision provider (service account, documentTextDetection)
+ * Pure OCR engine - the prompt is not used
+ */
+export const googleVisionProvider: VisionProvider = {
+  name: "google",
+  method: "google-vision",
+
+  isConfigured() {
+    return !!config.env.GOOGLE_SERVICE_ACCOUNT_JSON;
+  },
+
+  async extractText(request: VisionRequest) {
+    const client = new vision.ImageAnnotatorClient({
+      keyFilename: config.env.GOOGLE_SERVICE_ACCOUNT_JSON,
+    });
+
+    // OCR with documentTextDetection for structured text
+    const [result] = await client.documentTextDetection({
+      image: { content: request.image },
+    });
+
+    const pages = result.fullTextAnnotation?.pages || [];
+    const pageConfidences = pages
+      .map((page) => page.confidence)
+      .filter((confidence): confidence is number => typeof confidence === "number");
+
+    return {
+      text: result.fullTextAnnotation?.text?.trim() || "",
+      confidence:
+        pageConfidences.length > 0
+          ? Math.round((pageConfidences.reduce((sum, c) => sum + c, 0) / pageConfidences.length) * 100)
+          : 95, // Approximate confidence
+    };
+  },
+};
+
+/**
+ * Google Gemini Vision provider (API key)
+ * Best for: High-quality image recognition, multilingual support
+ */
+export const geminiVisionProvider: VisionProvider = {
+  name: "gemini",
+  method: "gemini-vision",
+
+  isConfigured() {
+    return !!config.env.GOOGLE_API_KEY;
+  },
+
+  async extractText(request: VisionRequest) {
+    const genAI = new GoogleGenerativeAI(config.env.GOOGLE_API_KEY as string);
+    const model = genAI.getGenerativeModel({ model: "gemini-1.5-flash" });
+
+    const result = await model.generateContent([
+      request.prompt,
+      {
+        inlineData: {
+          data: request.image.toString("base64"),
+          mimeType: request.mimeType || "image/png",
+        },
+      },
+    ], { signal: request.signal });
+
+    const response = await result.response;
+
+    return {
+      text: response.text().trim(),
+      confidence: 95, // Gemini Vision typically has 95%+ accuracy
+    };
+  },
+};
@@ -0,0 +1,90 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+import { config } from "../../config/env";
+import { toDataUrl, type VisionProvider, type VisionRequest } from "./vision.provider";
+
+/**
+ * OpenAI Vision provider (GPT-4o-mini)
+ * Best for: Complex layouts, handwritten text, mixed content
+ */
+export const openAIVisionProvider: VisionProvider = {
+  name: "openai",
+  method: "openai-vision",
+
+  isConfigured() {
+    return !!config.env.OPENAI_API_KEY;
+  },
+
+  async extractText(request: VisionRequest) {
+    const response = await fetch("https://api.openai.com/v1/chat/completions", {
+      method: "POST",
+      signal: request.signal,
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${config.env.OPENAI_API_KEY}`,
+      },
+      body: JSON.stringify({
+        model: "gpt-4o-mini",
+        messages: [
+          {
+            role: "user",
+            content: [
+              { type: "text", text: request.prompt },
+              { type: "image_url", image_url: { url: toDataUrl(request) } },
+            ],
+          },
+        ],
+        max_tokens: 2000,
+        temperature: 0, // Zero temperature for deterministic extraction
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`OpenAI Vision API error (${response.status}): ${errorText}`);
+    }
+
+    const data: any = await response.json();
+
+    return {
+      text: data.choices?.[0]?.message?.content?.trim() || "",
+      confidence: 95, // OpenAI Vision typically has 95%+ accuracy
+    };
+  },
+};
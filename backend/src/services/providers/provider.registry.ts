@@ -0,0 +1,264 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+import { config } from "../../config/env";
+import { logInfo, logWarn } from "../../utils/logger";
+import { openAIVisionProvider } from "./openai.provider";
+import { deepseekVisionProvider } from "./deepseek.provider";
+import { googleVisionProvider, geminiVisionProvider } from "./google.provider";
+import { tesseractProvider } from "./tesseract.provider";
+import { isReplayMode, withFixture } from "../ai-fixture.service";
+import { LOW_CONFIDENCE_THRESHOLD } from "../confidence.service";
+import type {
+  OCRWord,
+  ProviderAttempt,
+  ProviderReading,
+  VisionMethod,
+  VisionProvider,
+  VisionProviderName,
+  VisionRequest,
+} from "./vision.provider";
+
+/**
+ * Vision Provider Registry
+ *
+ * Providers are tried in the order given by OCR_PROVIDER_CHAIN
+ * (e.g. "openai,google,tesseract"). Unconfigured providers are skipped,
+ * failing providers fall through to the next one, and every attempt is
+ * reported back so callers can persist it on the job.
+ *
+ * When readings are collected and the first read is below the low-confidence
+ * threshold, the rest of the chain is asked for a second, independent read.
+ * It is only kept as a cross-check reading for block confidence; the text
+ * passed on to structuring is always the first read.
+ */
+
+const providers = new Map<VisionProviderName, VisionProvider>();
+
+/**
+ * Register (or replace) a vision provider
+ */
+export function registerVisionProvider(provider: VisionProvider): void {
+  providers.set(provider.name, provider);
+}
+
+[openAIVisionProvider, deepseekVisionProvider, googleVisionProvider, geminiVisionProvider, tesseractProvider].forEach(
+  registerVisionProvider
+);
+
+export function getVisionProvider(name: string): VisionProvider | undefined {
+  return providers.get(name.trim().toLowerCase() as VisionProviderName);
+}
+
+export function listVisionProviders(): VisionProviderName[] {
+  return Array.from(providers.keys());
+}
+
+/**
+ * Whether a name is exactly that of a registered provider
+ */
+export function isVisionProviderName(name: string): name is VisionProviderName {
+  return providers.has(name as VisionProviderName);
+}
+
+/**
+ * Legacy WHICH_OCR_KEY values mapped to provider names
+ */
+const LEGACY_OCR_KEYS: Record<string, VisionProviderName> = {
+  OPENAI_API_KEY: "openai",
+  DEEPSEEK_API_KEY: "deepseek",
+  GOOGLE_API_KEY: "google",
+};
+
+/**
+ * Resolve the provider chain to use
+ *
+ * Priority: explicit override > OCR_PROVIDER_CHAIN > WHICH_OCR_KEY (+ tesseract)
+ * Unknown provider names are dropped with a warning.
+ */
+export function resolveProviderChain(override?: string[] | string): VisionProviderName[] {
+  let names: string[];
+
+  if (override && override.length > 0) {
+    names = Array.isArray(override) ? override : override.split(",");
+  } else if (config.env.OCR_PROVIDER_CHAIN.length > 0) {
+    names = config.env.OCR_PROVIDER_CHAIN;
+  } else {
+    const legacy = config.env.WHICH_OCR_KEY ? LEGACY_OCR_KEYS[config.env.WHICH_OCR_KEY] : undefined;
+    names = legacy ? [legacy, "tesseract"] : ["tesseract"];
+  }
+
+  const chain: VisionProviderName[] = [];
+  for (const raw of names) {
+    const provider = getVisionProvider(raw);
+    if (!provider) {
+      logWarn(`⚠️ Unknown vision provider "${raw.trim()}" in chain, ignoring`);
+      continue;
+    }
+    if (!chain.includes(provider.name)) {
+      chain.push(provider.name);
+    }
+  }
+
+  return chain;
+}
+
+export interface VisionChainOptions {
+  chain?: string[] | string; // Overrides the configured chain
+  context?: string; // Label stored on each attempt, e.g. "pdf page 2/3"
+  attempts?: ProviderAttempt[]; // Sink that collects attempts across calls
+  readings?: ProviderReading[]; // Sink that collects successful reads (and low-confidence cross-checks) across calls
+  minTextLength?: number; // Results shorter than this count as failures
+  signal?: AbortSignal; // Stops the chain (and the running call) when the job is cancelled
+}
+
+export interface VisionChainResult {
+  text: string;
+  confidence: number;
+  provider: VisionProviderName;
+  method: VisionMethod;
+  attempts: ProviderAttempt[];
+  words?: OCRWord[];
+}
+
+/**
+ * Raised when every provider in the chain was skipped or failed
+ */
+export class ProviderChainError extends Error {
+  constructor(message: string, public readonly attempts: ProviderAttempt[]) {
+    super(message);
+    this.name = "ProviderChainError";
+  }
+}
+
+/**
+ * Run a vision request through the provider chain until one succeeds
+ */
+export async function extractWithProviderChain(
+  request: VisionRequest,
+  options: VisionChainOptions = {}
+): Promise<VisionChainResult> {
+  const chain = resolveProviderChain(options.chain);
+  const minTextLength = options.minTextLength ?? 10;
+  const attempts: ProviderAttempt[] = [];
+
+  const record = (attempt: ProviderAttempt) => {
+    attempts.push(attempt);
+    options.attempts?.push(attempt);
+  };
+
+  let primary: VisionChainResult | undefined;
+
+  for (const name of chain) {
+    const provider = providers.get(name)!;
+    const context = primary ? [options.context, "cross-check"].filter(Boolean).join(", ") : options.context;
+    options.signal?.throwIfAborted();
+
+    // Replayed providers need no credentials
+    if (!isReplayMode() && !provider.isConfigured()) {
+      record({ provider: name, status: "skipped", latencyMs: 0, context, error: "Not configured" });
+      continue;
+    }
+
+    const startTime = Date.now();
+    try {
+      logInfo(`🔎 Vision provider ${name} attempting${context ? ` (${context})` : ""}`);
+      const result = await withFixture(
+        "vision",
+        { provider: name, mimeType: request.mimeType, prompt: request.prompt, image: request.image },
+        () => provider.extractText({ ...request, signal: options.signal })
+      );
+
+      if (!result.text || result.text.length < minTextLength) {
+        throw new Error(`${name} returned insufficient text`);
+      }
+
+      record({ provider: name, status: "success", latencyMs: Date.now() - startTime, context });
+      options.readings?.push({
+        source: name,
+        context: options.context,
+        text: result.text,
+        confidence: result.confidence,
+        words: result.words,
+        crossCheck: primary ? true : undefined,
+      });
+
+      if (primary) {
+        logInfo(`✅ Vision provider ${name} cross-checked the ${primary.provider} read`, { textLength: result.text.length });
+        break;
+      }
+
+      logInfo(`✅ Vision provider ${name} succeeded`, { textLength: result.text.length });
+      primary = {
+        text: result.text,
+        confidence: result.confidence,
+        provider: name,
+        method: provider.method,
+        attempts,
+        words: result.words,
+      };
+
+      if (!options.readings || result.confidence >= LOW_CONFIDENCE_THRESHOLD) {
+        break;
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      record({ provider: name, status: "failed", latencyMs: Date.now() - startTime, context, error: message });
+      // A cancelled job does not fall through to the next provider
+      options.signal?.throwIfAborted();
+      logWarn(`⚠️ Vision provider ${name} failed, trying next in chain`, { error: message });
+    }
+  }
+
+  if (primary) {
+    return primary;
+  }
+
+  throw new ProviderChainError(
+    `All vision providers failed (chain: ${chain.join(" → ") || "empty"})`,
+    attempts
+  );
+}
+
+export type {
+  OCRWord,
+  ProviderAttempt,
+  ProviderReading,
+  VisionProviderName,
+  VisionMethod,
+} from "./vision.provider";
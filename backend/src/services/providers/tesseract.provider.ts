@@ -0,0 +1,115 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+import Tesseract from "tesseract.js";
+import sharp from "sharp";
+import { logInfo, logError } from "../../utils/logger";
+import type { OCRWord, VisionProvider, VisionRequest } from "./vision.provider";
+
+/**
+ * Preprocess image to improve OCR accuracy
+ * Applies multiple enhancement techniques for optimal text recognition
+ */
+async function preprocessImage(image: Buffer): Promise<Buffer> {
+  try {
+    const metadata = await sharp(image).metadata();
+
+    let pipeline = sharp(image)
+      .grayscale() // Convert to grayscale for better text contrast
+      .normalize() // Normalize histogram for better contrast
+      .sharpen() // Sharpen edges for clearer text
+      .threshold(128); // Apply binary threshold for better text separation
+
+    // Resize if image is too small (optimal: 1500-2500px width)
+    if (metadata.width && metadata.width < 1500) {
+      pipeline = pipeline.resize({ width: 2000, fit: "inside" });
+    }
+
+    return await pipeline.png().toBuffer();
+  } catch (error) {
+    logError("Image preprocessing failed", error);
+    // Use original image if preprocessing fails
+    return image;
+  }
+}
+
+/**
+ * Tesseract.js provider - local, free, always available
+ * Pure OCR engine - the prompt is not used
+ */
+export const tesseractProvider: VisionProvider = {
+  name: "tesseract",
+  method: "tesseract",
+
+  isConfigured() {
+    return true;
+  },
+
+  async extractText(request: VisionRequest) {
+    const processedImage = await preprocessImage(request.image);
+
+    const worker = await Tesseract.createWorker("eng", undefined, {
+      logger: (m) => {
+        if (m.status === "recognizing text") {
+          logInfo(`Tesseract progress: ${Math.round(m.progress * 100)}%`);
+        }
+      },
+    });
+
+    try {
+      // Request block output so word-level confidences are available
+      const result = await worker.recognize(processedImage, {}, { text: true, blocks: true });
+
+      const words: OCRWord[] = (result.data.blocks || []).flatMap((block) =>
+        block.paragraphs.flatMap((paragraph) =>
+          paragraph.lines.flatMap((line) =>
+            line.words.map((word) => ({ text: word.text, confidence: word.confidence }))
+          )
+        )
+      );
+
+      return {
+        text: result.data.text.trim(),
+        confidence: result.data.confidence,
+        words,
+      };
+    } finally {
+      await worker.terminate();
+    }
+  },
+};
@@ -0,0 +1,116 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+/**
+ * Vision Provider Contract
+ *
+ * Every OCR/vision backend (OpenAI, Deepseek, Google Cloud Vision, Gemini,
+ * Tesseract) implements this interface and is registered in
+ * provider.registry.ts. Images, PDF pages and DOCX embedded images all go
+ * through the same ordered fallback chain.
+ */
+
+export type VisionProviderName = "openai" | "deepseek" | "google" | "gemini" | "tesseract";
+
+export type VisionMethod =
+  | "openai-vision"
+  | "deepseek-vision"
+  | "google-vision"
+  | "gemini-vision"
+  | "tesseract";
+
+export interface VisionRequest {
+  image: Buffer;
+  mimeType: string;
+  prompt: string; // Ignored by pure OCR engines (Google Cloud Vision, Tesseract)
+  signal?: AbortSignal; // Aborts the call when the job is cancelled
+}
+
+/**
+ * Word-level OCR confidence (0-100), only reported by engines that expose it
+ */
+export interface OCRWord {
+  text: string;
+  confidence: number;
+}
+
+export interface VisionProviderResult {
+  text: string;
+  confidence: number;
+  words?: OCRWord[];
+}
+
+export interface VisionProvider {
+  readonly name: VisionProviderName;
+  readonly method: VisionMethod;
+  isConfigured(): boolean;
+  extractText(request: VisionRequest): Promise<VisionProviderResult>;
+}
+
+/**
+ * One provider attempt inside a fallback chain
+ */
+export interface ProviderAttempt {
+  provider: VisionProviderName;
+  status: "success" | "failed" | "skipped";
+  latencyMs: number;
+  context?: string; // e.g. "image", "pdf page 2/3", "docx image 1/2"
+  error?: string;
+}
+
+/**
+ * A successful read of the source document by one provider (or a native text
+ * layer). Kept per run for block confidence: word confidences come from the
+ * reads that were structured, agreement only from cross-check reads.
+ */
+export interface ProviderReading {
+  source: string; // Provider name, or "pdf-text-layer" / "docx-text"
+  context?: string;
+  text: string;
+  confidence: number;
+  words?: OCRWord[];
+  crossCheck?: boolean; // Second read of a low-confidence image; never sent to the LLM
+}
+
+/**
+ * Image MIME type for a data URL (defaults to PNG like rendered PDF pages)
+ */
+export function toDataUrl(request: VisionRequest): string {
+  const mimeType = request.mimeType === "image/jpg" ? "image/jpeg" : request.mimeType || "image/png";
+  return `data:${mimeType};base64,${request.image.toString("base64")}`;
+}
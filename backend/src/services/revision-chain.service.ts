@@ -0,0 +1,81 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+/**
+ * Revision Chains
+ *
+ * Each upload for a teacher's term is a revision of the one before it. A
+ * chain is numbered by upload time, every revision points at the one it
+ * replaced and only the newest is current. Chains are rebuilt from scratch
+ * whenever their membership changes (merges, reassignments, a term read
+ * differently on reprocessing, a deleted revision).
+ */
+
+export interface RevisionLink {
+  id: string;
+  revision: number;
+  previousRevisionId: string | null;
+  isCurrent: boolean;
+}
+
+export interface ChainedTimetable {
+  id: string;
+  academicYear: string | null;
+  semester: string | null;
+  uploadedAt: Date;
+}
+
+/**
+ * Revision links of a teacher's timetables, one chain per term
+ */
+export function planRevisionChains(timetables: ChainedTimetable[]): RevisionLink[] {
+  const terms = new Map<string, ChainedTimetable[]>();
+  for (const timetable of [...timetables].sort((a, b) => a.uploadedAt.getTime() - b.uploadedAt.getTime())) {
+    const term = `${timetable.academicYear ?? ""}|${timetable.semester ?? ""}`;
+    terms.set(term, [...(terms.get(term) ?? []), timetable]);
+  }
+
+  return [...terms.values()].flatMap((chain) =>
+    chain.map((timetable, index) => ({
+      id: timetable.id,
+      revision: index + 1,
+      previousRevisionId: index > 0 ? chain[index - 1].id : null,
+      isCurrent: index === chain.length - 1,
+    }))
+  );
+}
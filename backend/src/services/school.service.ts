@@ -0,0 +1,192 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+import crypto from "crypto";
+import { DayOfWeek, Prisma, type School } from "@prisma/client";
+import { prisma } from "./database.service";
+import type { BellPeriod, SchoolContext } from "./llm.service";
+import { logInfo } from "../utils/logger";
+
+/**
+ * Schools (tenants)
+ *
+ * One deployment serves several schools. Teachers, timetables, catalogs and
+ * review items belong to exactly one school, and each school has its own
+ * extraction settings: the OCR providers to try first, its bell schedule and
+ * its working days. Requests choose their school with the school's API key
+ * in the X-School-Key header; only the key's hash is stored. Data from before
+ * multi-tenancy was moved into the default school, which (like every school)
+ * is reached once an admin has issued it a key.
+ */
+
+export const DEFAULT_SCHOOL_ID = "00000000-0000-4000-8000-000000000001";
+
+export interface SchoolInput {
+  name: string;
+  slug: string;
+  ocrProviderChain?: string[];
+  bellSchedule?: BellPeriod[] | null;
+  workingDays?: DayOfWeek[];
+}
+
+/**
+ * Raised when a slug is already used by another school
+ */
+export class SchoolConflictError extends Error {
+  constructor(public readonly slug: string) {
+    super(`School slug "${slug}" is already in use`);
+    this.name = "SchoolConflictError";
+  }
+}
+
+function hashApiKey(apiKey: string): string {
+  return crypto.createHash("sha256").update(apiKey).digest("hex");
+}
+
+function newApiKey(): string {
+  return crypto.randomBytes(32).toString("base64url");
+}
+
+/**
+ * Find a school by id or slug
+ */
+export async function findSchool(idOrSlug: string): Promise<School | null> {
+  return prisma.school.findFirst({
+    where: { OR: [{ id: idOrSlug }, { slug: idOrSlug.toLowerCase() }] },
+  });
+}
+
+/**
+ * Find the school an API key belongs to
+ */
+export async function findSchoolByApiKey(apiKey: string): Promise<School | null> {
+  return prisma.school.findUnique({ where: { apiKeyHash: hashApiKey(apiKey) } });
+}
+
+export async function getSchool(id: string): Promise<School | null> {
+  return prisma.school.findUnique({ where: { id } });
+}
+
+export async function listSchools() {
+  return prisma.school.findMany({
+    include: { _count: { select: { teachers: true, timetables: true } } },
+    orderBy: { name: "asc" },
+  });
+}
+
+async function assertSlugAvailable(slug: string, excludeId?: string) {
+  const existing = await prisma.school.findUnique({ where: { slug } });
+  if (existing && existing.id !== excludeId) {
+    throw new SchoolConflictError(slug);
+  }
+}
+
+function settingsData(input: Partial<SchoolInput>) {
+  return {
+    ocrProviderChain: input.ocrProviderChain,
+    bellSchedule:
+      input.bellSchedule === null
+        ? Prisma.DbNull
+        : (input.bellSchedule as unknown as Prisma.InputJsonValue | undefined),
+    workingDays: input.workingDays,
+  };
+}
+
+/**
+ * Create a school; its API key is returned once and cannot be read back
+ */
+export async function createSchool(input: SchoolInput): Promise<{ school: School; apiKey: string }> {
+  const slug = input.slug.toLowerCase();
+  await assertSlugAvailable(slug);
+
+  const apiKey = newApiKey();
+  const school = await prisma.school.create({
+    data: { name: input.name.trim(), slug, apiKeyHash: hashApiKey(apiKey), ...settingsData(input) },
+  });
+  logInfo(`Created school: ${school.name} (ID: ${school.id})`);
+  return { school, apiKey };
+}
+
+/**
+ * Issue a new API key for a school; the previous key stops working
+ */
+export async function issueSchoolApiKey(id: string): Promise<{ school: School; apiKey: string }> {
+  const apiKey = newApiKey();
+  const school = await prisma.school.update({
+    where: { id },
+    data: { apiKeyHash: hashApiKey(apiKey) },
+  });
+  logInfo(`Issued a new API key for school: ${school.name} (ID: ${school.id})`);
+  return { school, apiKey };
+}
+
+/**
+ * Update a school; omitted fields keep their value and a null bell schedule clears it
+ */
+export async function updateSchool(id: string, input: Partial<SchoolInput>) {
+  const slug = input.slug?.toLowerCase();
+  if (slug) {
+    await assertSlugAvailable(slug, id);
+  }
+
+  const school = await prisma.school.update({
+    where: { id },
+    data: { name: input.name?.trim(), slug, ...settingsData(input) },
+  });
+  logInfo(`Updated school: ${school.name} (ID: ${school.id})`);
+  return school;
+}
+
+/**
+ * OCR providers to use for a school's uploads (undefined falls back to OCR_PROVIDER_CHAIN)
+ */
+export function schoolProviderChain(school: School): string[] | undefined {
+  return school.ocrProviderChain.length > 0 ? school.ocrProviderChain : undefined;
+}
+
+/**
+ * The settings of a school the structuring prompt is given
+ */
+export function schoolContext(school: School): SchoolContext {
+  return {
+    bellSchedule: Array.isArray(school.bellSchedule)
+      ? (school.bellSchedule as unknown as BellPeriod[])
+      : undefined,
+    workingDays: school.workingDays,
+  };
+}
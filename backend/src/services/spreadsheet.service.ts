@@ -0,0 +1,429 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+import JSZip from "jszip";
+
+/**
+ * Spreadsheets
+ *
+ * Just enough of CSV (RFC 4180) and XLSX (SpreadsheetML) to move a table
+ * of cells in and out: one sheet, text and number cells, no styles or
+ * formulas. Reading takes the first worksheet and returns every cell as
+ * text, padded so all rows have the same number of cells. Uploaded sheets
+ * are untrusted: values past the row / column limits are rejected while
+ * reading, so a forged cell reference cannot make the table huge.
+ */
+
+export type SpreadsheetFormat = "csv" | "xlsx";
+export type SpreadsheetCell = string | number | null | undefined;
+
+export const SPREADSHEET_CONTENT_TYPES: Record<SpreadsheetFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+// Bounds for reading a sheet; blank cells beyond them are ignored, values rejected
+export interface SpreadsheetLimits {
+  maxRows?: number; // Including the header row
+  maxColumns?: number;
+}
+
+export const MAX_SHEET_ROWS = 10000;
+export const MAX_SHEET_COLUMNS = 50;
+
+// Inflated size of a single part (worksheet, shared strings) of an XLSX upload
+const MAX_XLSX_PART_SIZE = 20 * 1024 * 1024;
+
+export class SpreadsheetFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SpreadsheetFormatError";
+  }
+}
+
+// Cells starting with these are run as formulas when a CSV is opened in a spreadsheet app
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function tooManyRows(maxRows: number): SpreadsheetFormatError {
+  return new SpreadsheetFormatError(`Spreadsheet has more than ${maxRows} rows`);
+}
+
+function tooManyColumns(maxColumns: number): SpreadsheetFormatError {
+  return new SpreadsheetFormatError(`Spreadsheet has more than ${maxColumns} columns`);
+}
+
+function padRows(rows: string[][]): string[][] {
+  const width = Math.max(0, ...rows.map((row) => row.length));
+  return rows.map((row) => [...row, ...Array<string>(width - row.length).fill("")]);
+}
+
+/**
+ * Detect the format of an uploaded spreadsheet from its name or MIME type
+ */
+export function spreadsheetFormat(fileName: string, mimeType = ""): SpreadsheetFormat | null {
+  const name = fileName.toLowerCase();
+  if (name.endsWith(".xlsx") || mimeType === SPREADSHEET_CONTENT_TYPES.xlsx) return "xlsx";
+  if (name.endsWith(".csv") || mimeType === "text/csv") return "csv";
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// CSV
+// ---------------------------------------------------------------------------
+
+function csvField(cell: SpreadsheetCell): string {
+  if (cell === null || cell === undefined) return "";
+  let value = String(cell);
+  if (typeof cell === "string" && FORMULA_PREFIX.test(value)) {
+    value = `'${value}`;
+  }
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Write rows as CSV
+ * Starts with a byte order mark so Excel reads the file as UTF-8
+ */
+export function writeCsv(rows: SpreadsheetCell[][]): string {
+  return "\uFEFF" + rows.map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+/**
+ * Parse CSV text into rows
+ * Undoes the formula guard added by writeCsv
+ */
+export function parseCsv(text: string, limits: SpreadsheetLimits = {}): string[][] {
+  const { maxRows = MAX_SHEET_ROWS, maxColumns = MAX_SHEET_COLUMNS } = limits;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endField = () => {
+    if (row.length >= maxColumns) {
+      if (field !== "") throw tooManyColumns(maxColumns);
+    } else {
+      row.push(field.length > 1 && field[0] === "'" && FORMULA_PREFIX.test(field.slice(1)) ? field.slice(1) : field);
+    }
+    field = "";
+  };
+  const endRow = () => {
+    endField();
+    if (rows.length >= maxRows) {
+      if (row.some((value) => value !== "")) throw tooManyRows(maxRows);
+    } else {
+      rows.push(row);
+    }
+    row = [];
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === ",") {
+      endField();
+    } else if (char === "\r" || char === "\n") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) {
+    throw new SpreadsheetFormatError("Unterminated quoted field in CSV");
+  }
+  if (field !== "" || row.length > 0) endRow();
+
+  return padRows(rows);
+}
+
+// ---------------------------------------------------------------------------
+// XLSX
+// ---------------------------------------------------------------------------
+
+const MAIN_NS = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+const REL_NS = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const PACKAGE_REL_NS = "http://schemas.openxmlformats.org/package/2006/relationships";
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+function escapeXml(value: string): string {
+  return value
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function unescapeXml(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (_match, entity: string) => {
+    switch (entity.toLowerCase()) {
+      case "lt": return "<";
+      case "gt": return ">";
+      case "amp": return "&";
+      case "quot": return '"';
+      case "apos": return "'";
+      default:
+        return String.fromCodePoint(
+          entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+        );
+    }
+  });
+}
+
+// 0 -> A, 25 -> Z, 26 -> AA
+function columnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function columnIndex(name: string): number {
+  return name.split("").reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+// Sheet names are limited to 31 characters and may not contain []:*?/\
+function sheetName(name: string): string {
+  return name.replace(/[[\]:*?/\\]/g, " ").trim().slice(0, 31) || "Sheet1";
+}
+
+function xlsxCell(cell: SpreadsheetCell, ref: string): string {
+  if (cell === null || cell === undefined || cell === "") return "";
+  if (typeof cell === "number" && Number.isFinite(cell)) {
+    return `<c r="${ref}"><v>${cell}</v></c>`;
+  }
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(cell))}</t></is></c>`;
+}
+
+/**
+ * Write rows as a single-sheet XLSX workbook
+ * The first row is frozen so it stays visible as a header
+ */
+export async function writeXlsx(name: string, rows: SpreadsheetCell[][]): Promise<Buffer> {
+  const sheetRows = rows
+    .map((row, r) => `<row r="${r + 1}">${row.map((cell, c) => xlsxCell(cell, `${columnName(c)}${r + 1}`)).join("")}</row>`)
+    .join("");
+
+  const zip = new JSZip();
+  zip.file(
+    "[Content_Types].xml",
+    XML_DECLARATION +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      "</Types>"
+  );
+  zip.file(
+    "_rels/.rels",
+    XML_DECLARATION +
+      `<Relationships xmlns="${PACKAGE_REL_NS}">` +
+      `<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+      "</Relationships>"
+  );
+  zip.file(
+    "xl/workbook.xml",
+    XML_DECLARATION +
+      `<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}">` +
+      `<sheets><sheet name="${escapeXml(sheetName(name))}" sheetId="1" r:id="rId1"/></sheets>` +
+      "</workbook>"
+  );
+  zip.file(
+    "xl/_rels/workbook.xml.rels",
+    XML_DECLARATION +
+      `<Relationships xmlns="${PACKAGE_REL_NS}">` +
+      `<Relationship Id="rId1" Type="${REL_NS}/worksheet" Target="worksheets/sheet1.xml"/>` +
+      "</Relationships>"
+  );
+  zip.file(
+    "xl/worksheets/sheet1.xml",
+    XML_DECLARATION +
+      `<worksheet xmlns="${MAIN_NS}">` +
+      '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+      `<sheetData>${sheetRows}</sheetData>` +
+      "</worksheet>"
+  );
+
+  return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
+
+// Text of every <t> element, skipping phonetic guides (<rPh>)
+function elementText(xml: string): string {
+  const text = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, "");
+  return Array.from(text.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g), (match) => unescapeXml(match[1])).join("");
+}
+
+function attribute(attributes: string, name: string): string | undefined {
+  return new RegExp(`\\b${name}="([^"]*)"`).exec(attributes)?.[1];
+}
+
+// Text of a part of an uploaded workbook, read no further than MAX_XLSX_PART_SIZE
+async function readZipText(zip: JSZip, name: string): Promise<string | null> {
+  const file = zip.file(name);
+  if (!file) return null;
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  await new Promise<void>((resolve, reject) => {
+    const stream = file.nodeStream("nodebuffer");
+    stream
+      .on("data", (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_XLSX_PART_SIZE) {
+          stream.pause();
+          reject(new SpreadsheetFormatError(`Workbook part ${name} is larger than ${MAX_XLSX_PART_SIZE / 1024 / 1024}MB`));
+          return;
+        }
+        chunks.push(chunk);
+      })
+      .on("error", reject)
+      .on("end", () => resolve());
+  });
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+// Path of the first worksheet, following the workbook relationships
+async function firstSheetPath(zip: JSZip): Promise<string> {
+  const workbook = await readZipText(zip, "xl/workbook.xml");
+  const rels = await readZipText(zip, "xl/_rels/workbook.xml.rels");
+  const sheetId = workbook && /<sheet\b[^>]*\br:id="([^"]+)"/.exec(workbook)?.[1];
+
+  if (sheetId && rels) {
+    for (const match of rels.matchAll(/<Relationship\b([^>]*)\/?>/g)) {
+      if (attribute(match[1], "Id") === sheetId) {
+        const target = attribute(match[1], "Target") ?? "";
+        return target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+      }
+    }
+  }
+  return "xl/worksheets/sheet1.xml";
+}
+
+/**
+ * Read the first sheet of an XLSX workbook
+ * Numbers are returned as written in the file, so times typed into Excel come back as fractions of a day
+ */
+export async function readXlsx(data: Buffer, limits: SpreadsheetLimits = {}): Promise<string[][]> {
+  const { maxRows = MAX_SHEET_ROWS, maxColumns = MAX_SHEET_COLUMNS } = limits;
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch {
+    throw new SpreadsheetFormatError("File is not a valid XLSX workbook");
+  }
+
+  const sheet = await readZipText(zip, await firstSheetPath(zip));
+  if (sheet === null) {
+    throw new SpreadsheetFormatError("Workbook has no worksheet");
+  }
+
+  const sharedStringsXml = (await readZipText(zip, "xl/sharedStrings.xml")) ?? "";
+  const sharedStrings = Array.from(sharedStringsXml.matchAll(/<si>([\s\S]*?)<\/si>/g), (match) => elementText(match[1]));
+
+  const rows: string[][] = [];
+  let nextRow = 0;
+  for (const rowMatch of sheet.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowRef = Number(attribute(rowMatch[1], "r"));
+    const rowNumber = Number.isInteger(rowRef) && rowRef > 0 ? rowRef : nextRow + 1;
+    nextRow = rowNumber;
+    const row: string[] = [];
+
+    let nextColumn = 0;
+    for (const cellMatch of (rowMatch[2] ?? "").matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const ref = attribute(cellMatch[1], "r");
+      const column = ref && /^[A-Z]+\d*$/.test(ref) ? columnIndex(ref.replace(/\d+$/, "")) : nextColumn;
+      nextColumn = column + 1;
+
+      const content = cellMatch[2] ?? "";
+      const rawValue = /<v>([\s\S]*?)<\/v>/.exec(content)?.[1];
+      const type = attribute(cellMatch[1], "t");
+      let value: string;
+      if (type === "s") {
+        value = sharedStrings[Number(rawValue)] ?? "";
+      } else if (type === "inlineStr") {
+        value = elementText(content);
+      } else {
+        value = rawValue === undefined ? "" : unescapeXml(rawValue);
+      }
+
+      if (column >= maxColumns) {
+        if (value !== "") throw tooManyColumns(maxColumns);
+        continue;
+      }
+      while (row.length < column) row.push("");
+      row[column] = value;
+    }
+
+    // Formatted but empty rows far down the sheet are common; only values count
+    if (rowNumber > maxRows) {
+      if (row.some((value) => value !== "")) throw tooManyRows(maxRows);
+      continue;
+    }
+    while (rows.length < rowNumber - 1) rows.push([]);
+    rows[rowNumber - 1] = row;
+  }
+
+  return padRows(rows.map((row) => Array.from(row, (cell) => cell ?? "")));
+}
+
+/**
+ * Read rows from a CSV or XLSX file
+ * Blank rows are kept so row numbers match the sheet
+ */
+export async function readSpreadsheet(
+  data: Buffer,
+  format: SpreadsheetFormat,
+  limits: SpreadsheetLimits = {}
+): Promise<string[][]> {
+  return format === "csv" ? parseCsv(data.toString("utf8"), limits) : readXlsx(data, limits);
+}
@@ -0,0 +1,525 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+import { extractPDFTables, isPDFFile, type PageRange } from "./pdf.service";
+import { isDOCXFile, readDOCXDocument } from "./docx.service";
+import type { TimeBlock, TimetableData } from "./llm.service";
+import { logInfo, logWarn } from "../utils/logger";
+
+/**
+ * Deterministic Table Parser
+ *
+ * Clean digital timetables (DOCX tables, ruled PDF tables) already carry
+ * their structure: a row or column of days and a header of periods with
+ * times. This service reads that grid directly and emits time blocks with
+ * no AI call, so these documents are free, instant and reproducible.
+ *
+ * When a grid cannot be interpreted with certainty (no day or period
+ * headers, ragged rows, cells without a time) it returns null and the
+ * caller falls back to the LLM. Tables without day or period headers
+ * (legends, room lists) are skipped, but a table that has them and still
+ * cannot be read sends the whole document to the LLM.
+ *
+ * Rotating timetables usually give each week its own table ("Week A",
+ * "Week B"); the week is read from the table's header or, failing that,
+ * from the order of week headings in the document.
+ */
+
+export interface TableCell {
+  text: string;
+  spanId?: number; // Shared by every grid position a merged (colspan / rowspan) cell covers
+}
+
+export type TableGrid = TableCell[][];
+
+export interface TableParseResult {
+  timetableData: TimetableData;
+  text: string; // Document text, kept as the extraction's source text
+  tables: number; // Tables found in the document
+  interpretedTables: number; // Tables that produced time blocks
+}
+
+interface TimeRange {
+  startTime: string;
+  endTime: string;
+}
+
+const DAYS: TimeBlock["dayOfWeek"][] = [
+  "MONDAY",
+  "TUESDAY",
+  "WEDNESDAY",
+  "THURSDAY",
+  "FRIDAY",
+  "SATURDAY",
+  "SUNDAY",
+];
+
+const TIME_RANGE_REGEX =
+  /(\d{1,2})[:.](\d{2})\s*(am|pm)?\s*(?:-|–|—|to)\s*(\d{1,2})[:.](\d{2})\s*(am|pm)?/i;
+const ROOM_REGEX = /\b(?:room|rm\.?|lab|hall|gym|studio)\s*[A-Z]?\d+[A-Z]?\b/i;
+const GRADE_REGEX = /\b(?:year|yr|grade|class)\s*\d{1,2}\s*[A-Z]?\b/i;
+const EMPTY_CELL_REGEX = /^[\s\-–—_.▪•]*$/;
+const WEEK_REGEX = /\b(?:week|wk)\s*[:\-–]?\s*([1-9]|[A-D])\b/gi;
+
+/**
+ * Decode the HTML entities mammoth emits
+ */
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&amp;/g, "&");
+}
+
+function spanAttribute(attributes: string, name: "colspan" | "rowspan"): number {
+  const match = attributes.match(new RegExp(`${name}\\s*=\\s*["']?(\\d+)`, "i"));
+  return match ? Math.max(1, parseInt(match[1], 10)) : 1;
+}
+
+/**
+ * Read every <table> of an HTML document into a grid
+ * Merged cells are expanded so each grid position holds the cell's text;
+ * nested tables become grids of their own.
+ */
+export function parseHtmlTables(html: string): TableGrid[] {
+  interface RawCell {
+    text: string;
+    colspan: number;
+    rowspan: number;
+  }
+  interface RawTable {
+    rows: RawCell[][];
+    cell?: RawCell;
+  }
+
+  const grids: TableGrid[] = [];
+  const stack: RawTable[] = [];
+  const tagRegex = /<(\/?)([a-z0-9]+)([^>]*)>|([^<]+)/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = tagRegex.exec(html)) !== null) {
+    const [, closing, rawTag, attributes, text] = match;
+    const table = stack[stack.length - 1];
+
+    if (text !== undefined) {
+      if (table?.cell) table.cell.text += decodeEntities(text);
+      continue;
+    }
+
+    const tag = rawTag.toLowerCase();
+    if (tag === "table") {
+      if (!closing) {
+        stack.push({ rows: [] });
+      } else if (table) {
+        stack.pop();
+        grids.push(expandSpans(table.rows));
+      }
+    } else if (!table) {
+      continue;
+    } else if (tag === "tr" && !closing) {
+      table.rows.push([]);
+      table.cell = undefined;
+    } else if ((tag === "td" || tag === "th") && !closing) {
+      if (table.rows.length === 0) table.rows.push([]);
+      table.cell = {
+        text: "",
+        colspan: spanAttribute(attributes, "colspan"),
+        rowspan: spanAttribute(attributes, "rowspan"),
+      };
+      table.rows[table.rows.length - 1].push(table.cell);
+    } else if ((tag === "td" || tag === "th") && closing) {
+      table.cell = undefined;
+    } else if (table.cell && (tag === "br" || ((tag === "p" || tag === "li") && closing))) {
+      table.cell.text += "\n";
+    }
+  }
+
+  return grids;
+
+  function expandSpans(rows: RawCell[][]): TableGrid {
+    const grid: TableGrid = [];
+    let spanId = 0;
+
+    rows.forEach((row, rowIndex) => {
+      grid[rowIndex] = grid[rowIndex] || [];
+      let column = 0;
+
+      for (const cell of row) {
+        while (grid[rowIndex][column]) column++;
+        const id = cell.colspan > 1 || cell.rowspan > 1 ? ++spanId : undefined;
+
+        for (let r = 0; r < cell.rowspan; r++) {
+          grid[rowIndex + r] = grid[rowIndex + r] || [];
+          for (let c = 0; c < cell.colspan; c++) {
+            grid[rowIndex + r][column + c] = { text: cell.text.trim(), spanId: id };
+          }
+        }
+        column += cell.colspan;
+      }
+    });
+
+    // Fill holes left by spans that run past a short row
+    return grid
+      .slice(0, rows.length)
+      .map((row) => Array.from(row, (cell) => cell || { text: "" }));
+  }
+}
+
+/**
+ * Detect a day of the week in a header cell
+ * Accepts "Monday", "Mon.", "TUES" and letters stacked one per line ("M\nO\nN")
+ */
+function detectDay(text: string): TimeBlock["dayOfWeek"] | undefined {
+  const token = text.toUpperCase().replace(/[^A-Z]/g, "");
+  if (token.length < 3) return undefined;
+  return DAYS.find((day) => day.startsWith(token) || token.startsWith(day));
+}
+
+/**
+ * Rotation weeks named in a text, in order of first appearance
+ * "Week 2" → 2, "Week B" → 2
+ */
+function detectWeeks(text: string): number[] {
+  const weeks: number[] = [];
+  for (const match of text.matchAll(WEEK_REGEX)) {
+    const label = match[1].toUpperCase();
+    const week = /\d/.test(label) ? parseInt(label, 10) : label.charCodeAt(0) - 64;
+    if (!weeks.includes(week)) weeks.push(week);
+  }
+  return weeks;
+}
+
+/**
+ * Week label in a table's first row or first column ("Week A", "Wk 2")
+ */
+function detectGridWeek(grid: TableGrid): number | undefined {
+  const headerCells = [...(grid[0] ?? []), ...grid.map((row) => row[0]).filter(Boolean)];
+  for (const cell of headerCells) {
+    const [week] = detectWeeks(cell.text);
+    if (week !== undefined) return week;
+  }
+  return undefined;
+}
+
+/**
+ * Convert a clock reading to HH:mm
+ * Without am/pm, hours before 7 are read as afternoon (a school day does
+ * not start before 7:00, so "1.30" is 13:30)
+ */
+function toClock(hours: number, minutes: number, meridiem?: string): string {
+  let h = hours;
+  if (meridiem) {
+    const pm = meridiem.toLowerCase() === "pm";
+    if (pm && h < 12) h += 12;
+    if (!pm && h === 12) h = 0;
+  } else if (h < 7) {
+    h += 12;
+  }
+  return `${String(h).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+}
+
+/**
+ * Find a time range ("8.55 - 10.10", "1:40pm–2:30pm") in a cell
+ */
+function parseTimeRange(text: string): (TimeRange & { match: string }) | undefined {
+  const match = text.replace(/\s+/g, " ").match(TIME_RANGE_REGEX);
+  if (!match) return undefined;
+
+  const [, startH, startM, startMeridiem, endH, endM, endMeridiem] = match;
+  if (parseInt(startM, 10) > 59 || parseInt(endM, 10) > 59) return undefined;
+
+  // "7:30pm - 8:15": an end without am/pm before the start shares its afternoon
+  const startTime = toClock(parseInt(startH, 10), parseInt(startM, 10), startMeridiem);
+  let endTime = toClock(parseInt(endH, 10), parseInt(endM, 10), endMeridiem);
+  if (endTime <= startTime && !endMeridiem) {
+    const hours = parseInt(endTime.slice(0, 2), 10);
+    if (hours < 12) endTime = `${String(hours + 12).padStart(2, "0")}${endTime.slice(2)}`;
+  }
+  if (endTime <= startTime || startTime > "23:59" || endTime > "23:59") return undefined;
+
+  return { startTime, endTime, match: match[0] };
+}
+
+/**
+ * Split a cell into subject, classroom and grade
+ */
+function cellToBlock(
+  text: string,
+  dayOfWeek: TimeBlock["dayOfWeek"],
+  weekIndex: number,
+  time: TimeRange
+): TimeBlock {
+  let content = text.split("\n").map((line) => line.trim()).filter(Boolean).join(" ");
+
+  const room = content.match(ROOM_REGEX);
+  if (room) content = content.replace(room[0], " ");
+  const grade = content.match(GRADE_REGEX);
+  if (grade) content = content.replace(grade[0], " ");
+
+  const subject = content.replace(/\s+/g, " ").replace(/^[\s,;:/\-–]+|[\s,;:/\-–]+$/g, "");
+
+  return {
+    dayOfWeek,
+    weekIndex,
+    startTime: time.startTime,
+    endTime: time.endTime,
+    subject: subject || text.replace(/\s+/g, " ").trim(),
+    classroom: room ? room[0].trim() : "",
+    grade: grade ? grade[0].trim() : "",
+    section: "",
+    notes: "",
+  };
+}
+
+/**
+ * Interpret a grid whose first column holds the days and whose header row
+ * holds the periods. Returns null when the grid cannot be read with certainty.
+ */
+function interpretDayRows(grid: TableGrid, weekIndex: number): TimeBlock[] | null {
+  const dayRows = grid
+    .map((row, index) => ({ index, day: row.length > 0 ? detectDay(row[0].text) : undefined }))
+    .filter((row): row is { index: number; day: TimeBlock["dayOfWeek"] } => row.day !== undefined);
+  if (dayRows.length === 0) return null;
+
+  // Period header: the last row above the first day row that is mostly time ranges
+  let headerIndex = -1;
+  for (let index = dayRows[0].index - 1; index >= 0; index--) {
+    const cells = grid[index].slice(1);
+    const times = cells.filter((cell) => parseTimeRange(cell.text)).length;
+    if (times > 0 && times >= Math.ceil(cells.length / 2)) {
+      headerIndex = index;
+      break;
+    }
+  }
+  if (headerIndex < 0) return null;
+
+  const header = grid[headerIndex];
+  const periods = header.map((cell, column) => (column === 0 ? undefined : parseTimeRange(cell.text)));
+  const blocks: TimeBlock[] = [];
+
+  for (const { index, day } of dayRows) {
+    const row = grid[index];
+    // Ragged rows mean cells cannot be matched to periods
+    if (row.length !== header.length) return null;
+
+    let previous: { block: TimeBlock; spanId?: number } | undefined;
+
+    for (let column = 1; column < row.length; column++) {
+      const cell = row[column];
+      if (EMPTY_CELL_REGEX.test(cell.text)) {
+        previous = undefined;
+        continue;
+      }
+
+      // Cells of a merged span extend the block they started
+      if (previous && cell.spanId !== undefined && cell.spanId === previous.spanId) {
+        const period = periods[column];
+        if (period && period.endTime > previous.block.endTime) {
+          previous.block.endTime = period.endTime;
+        }
+        continue;
+      }
+
+      // A time written in the cell overrides the period header
+      const ownTime = parseTimeRange(cell.text);
+      const time = ownTime ?? periods[column];
+      if (!time) return null;
+
+      const text = ownTime ? cell.text.replace(ownTime.match, " ").trim() : cell.text;
+      if (EMPTY_CELL_REGEX.test(text)) return null;
+
+      const block = cellToBlock(text, day, weekIndex, time);
+      blocks.push(block);
+      previous = { block, spanId: cell.spanId };
+    }
+  }
+
+  return blocks.length > 0 ? blocks : null;
+}
+
+function transpose(grid: TableGrid): TableGrid | null {
+  const width = grid[0]?.length ?? 0;
+  if (width === 0 || grid.some((row) => row.length !== width)) return null;
+  return Array.from({ length: width }, (_, column) => grid.map((row) => row[column]));
+}
+
+/**
+ * Interpret one timetable grid, with days either down the first column or
+ * across the first row
+ * The blocks belong to the week labelled in the grid's header (1 if none)
+ */
+export function interpretTimetableGrid(
+  grid: TableGrid,
+  weekIndex = detectGridWeek(grid) ?? 1
+): TimeBlock[] | null {
+  const byRows = interpretDayRows(grid, weekIndex);
+  if (byRows) return byRows;
+
+  const transposed = transpose(grid);
+  return transposed ? interpretDayRows(transposed, weekIndex) : null;
+}
+
+/**
+ * Whether a grid has the day or period headers of a timetable
+ * Used to tell a timetable the parser could not read from a table that is
+ * not a timetable at all (a legend, a list of rooms).
+ */
+function looksLikeTimetableGrid(grid: TableGrid): boolean {
+  const headers = [grid[0] ?? [], grid.map((row) => row[0]).filter(Boolean)];
+  return headers.some((cells) => {
+    const days = new Set(cells.map((cell) => detectDay(cell.text)).filter(Boolean));
+    const periods = cells.filter((cell) => parseTimeRange(cell.text)).length;
+    return days.size >= 2 || periods >= 2;
+  });
+}
+
+/**
+ * Pick up teacher name, academic year and term from the document text
+ */
+function detectTimetableDetails(text: string): Omit<TimetableData, "timeBlocks" | "cycleLength"> {
+  const teacher = text.match(/\bteacher(?:'s)?(?:\s+name)?\s*[:\-–]\s*([^\n\r|]{2,60})/i);
+  const year = text.match(/\b(20\d{2})\s*[-/–]\s*(20\d{2}|\d{2})\b/);
+  const semester =
+    text.match(/\b(?:term|semester)\s*\d\b/i) ||
+    text.match(/\b(?:fall|spring|summer|autumn|winter)\s+(?:term\s+|semester\s+)?20\d{2}\b/i);
+
+  return {
+    teacherName: teacher ? teacher[1].trim() : "",
+    academicYear: year ? `${year[1]}-${year[2].length === 2 ? year[1].slice(0, 2) + year[2] : year[2]}` : "",
+    semester: semester ? semester[0].trim() : "",
+  };
+}
+
+/**
+ * Parse the tables of a text-based DOCX or PDF into timetable data
+ * Returns null (never throws) when the document has no interpretable
+ * timetable grid, so the caller can fall back to the LLM.
+ */
+export async function parseDocumentTables(
+  filePath: string,
+  mimeType: string,
+  pageRange?: PageRange
+): Promise<TableParseResult | null> {
+  const startTime = Date.now();
+
+  try {
+    let text = "";
+    let grids: TableGrid[] = [];
+
+    if (isDOCXFile(mimeType)) {
+      const document = await readDOCXDocument(filePath);
+      text = document.text;
+      grids = parseHtmlTables(document.html);
+    } else if (isPDFFile(mimeType)) {
+      const document = await extractPDFTables(filePath, pageRange);
+      text = document.text;
+      grids = document.tables.map((table) => table.map((row) => row.map((cell) => ({ text: cell.trim() }))));
+    } else {
+      return null;
+    }
+
+    if (grids.length === 0) {
+      logInfo("No tables found for deterministic parsing");
+      return null;
+    }
+
+    const tables = grids.map((grid) => ({
+      grid,
+      labelled: detectGridWeek(grid) !== undefined,
+      blocks: interpretTimetableGrid(grid),
+    }));
+
+    // A timetable that could not be read (a second week, another page) would be lost
+    const unreadable = tables.filter((table) => table.blocks === null && looksLikeTimetableGrid(table.grid));
+    if (unreadable.length > 0) {
+      logInfo(`Deterministic table parser could not read ${unreadable.length} timetable table(s), falling back to LLM`);
+      return null;
+    }
+
+    const interpreted = tables.filter(
+      (table): table is { grid: TableGrid; labelled: boolean; blocks: TimeBlock[] } => table.blocks !== null
+    );
+    if (interpreted.length === 0) {
+      logInfo(`Deterministic table parser could not interpret ${grids.length} table(s), falling back to LLM`);
+      return null;
+    }
+
+    // Week headings outside the tables: one table per heading, in document order
+    const documentWeeks = detectWeeks(text);
+    if (documentWeeks.length > 1 && interpreted.some((table) => !table.labelled)) {
+      if (documentWeeks.length !== interpreted.length) {
+        logInfo(
+          `Found ${documentWeeks.length} week headings for ${interpreted.length} table(s), falling back to LLM`
+        );
+        return null;
+      }
+      interpreted.forEach((table, index) => {
+        table.blocks.forEach((block) => (block.weekIndex = documentWeeks[index]));
+      });
+    }
+
+    const timeBlocks = interpreted.flatMap((table) => table.blocks);
+    const timetableData: TimetableData = {
+      ...detectTimetableDetails(text),
+      cycleLength: Math.max(...timeBlocks.map((block) => block.weekIndex)),
+      timeBlocks,
+    };
+
+    logInfo("✅ Deterministic table parsing completed", {
+      tables: grids.length,
+      interpretedTables: interpreted.length,
+      entriesExtracted: timetableData.timeBlocks.length,
+      cycleLength: timetableData.cycleLength,
+      processingTime: Date.now() - startTime,
+    });
+
+    return {
+      timetableData,
+      text,
+      tables: grids.length,
+      interpretedTables: interpreted.length,
+    };
+  } catch (error) {
+    logWarn("Deterministic table parsing failed, falling back to LLM", error);
+    return null;
+  }
+}
@@ -0,0 +1,248 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+/**
+ * Teacher Name Matching
+ *
+ * Extracted and typed teacher names rarely agree letter for letter:
+ * "Mrs. J. Smith", "Jane Smith", "SMITH Jane" and an OCR'd "Jane Srnith"
+ * are all the same person. Names are compared after dropping titles, case
+ * and punctuation and folding common OCR confusions (rn/m, 0/o, 1/l),
+ * ignoring word order and letting an initial stand for a first name.
+ *
+ * Only those equivalences make two names the same teacher. Edit distance
+ * ranks search results and flags near misses for review, but never merges
+ * people on its own: "Mary Lee" and "Mark Lee" differ by one letter.
+ */
+
+/** Score at or above which a different name is a near miss worth a reviewer's look */
+export const TEACHER_NEAR_MISS_THRESHOLD = 0.85;
+
+const TITLES = new Set(["mr", "mrs", "ms", "miss", "mx", "dr", "prof", "sir", "madam", "teacher"]);
+
+export interface TeacherCandidate {
+  id: string;
+  name: string;
+  aliases?: string[];
+}
+
+export interface TeacherMatch<T extends TeacherCandidate = TeacherCandidate> {
+  teacher: T;
+  score: number;
+  matchedName: string; // The name or alias that scored best
+  sameName: boolean; // The name or an alias is the same teacher name (see isSameTeacherName)
+}
+
+/**
+ * Name tokens without titles, accents, case, punctuation or OCR confusions
+ */
+function nameTokens(name: string): string[] {
+  return name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .split(" ")
+    .filter((token) => token && !TITLES.has(token))
+    .map((token) => token.replace(/rn/g, "m").replace(/vv/g, "w").replace(/0/g, "o").replace(/1/g, "l"));
+}
+
+/**
+ * Comparable form of a name ("Mrs. Jane  SMITH" -> "jane smith")
+ */
+export function normalizeTeacherName(name: string): string {
+  return nameTokens(name).join(" ");
+}
+
+// File name words that describe the document rather than the teacher
+const FILE_NAME_NOISE = new Set([
+  "timetable", "timetables", "schedule", "tt", "teacher", "staff", "term", "week", "semester", "sem",
+  "year", "yr", "grade", "class", "autumn", "fall", "spring", "summer", "winter", "final", "draft",
+  "copy", "scan", "scanned", "photo", "image", "img", "page", "updated", "revised", "new", "latest",
+]);
+
+// Words that name a subject, department or document rather than a person
+const NON_NAME_WORDS = new Set([
+  "example", "sample", "test", "template", "assignment", "pack", "dept", "department", "faculty", "office",
+  "admin", "school", "rota", "cover", "duty", "exam", "exams", "report", "list", "form", "room", "all",
+  "master", "document", "doc", "file", "export", "maths", "math", "mathematics", "science", "english",
+  "history", "geography", "physics", "chemistry", "biology", "music", "pe", "ict", "computing", "french",
+  "spanish", "german", "drama", "ta", "tas", "sen", "senco", "hod", "ks", "primary", "secondary",
+]);
+
+/**
+ * Name candidate written in a file name, or null when there is none
+ * "Science/jane_smith-timetable-2025.pdf" -> "Jane Smith"; "scan0042.jpg" -> null.
+ * Not every candidate is a person ("Maths Dept"); see looksLikePersonName.
+ */
+export function teacherNameFromFileName(filePath: string): string | null {
+  const words = (filePath.split(/[\\/]/).pop() ?? "")
+    .replace(/\.[a-z0-9]{1,5}$/i, "")
+    .split(/[\s_\-.,()[\]+]+/)
+    .filter((word) => word && !/\d/.test(word) && !FILE_NAME_NOISE.has(word.toLowerCase()));
+  if (!words.some((word) => word.length > 1 && !TITLES.has(word.toLowerCase()))) return null;
+
+  return words
+    .map((word) => (word === word.toLowerCase() || word === word.toUpperCase()
+      ? word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()
+      : word))
+    .join(" ");
+}
+
+/**
+ * Whether a name taken from a file name looks like a person's name
+ * Two to four words, or a title and one word, none of them a subject,
+ * department or document word: "Jane Smith" and "Mr Patel" do; "Example",
+ * "Maths Dept" and "Ta Assignment Pack" do not.
+ */
+export function looksLikePersonName(name: string): boolean {
+  const words = name.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.some((word) => NON_NAME_WORDS.has(word) || !/^[\p{L}'.]+$/u.test(word))) return false;
+
+  const names = words.filter((word) => !TITLES.has(word.replace(/\.$/, "")));
+  if (names.length > 4 || !names.some((word) => word.length > 1)) return false;
+  return names.length >= 2 || names.length < words.length;
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function editRatio(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 0 : 1 - levenshtein(a, b) / longest;
+}
+
+/**
+ * "j smith" matches "jane smith": every token is equal or an initial of the
+ * other side's token, and at least one full token is shared
+ */
+function initialsMatch(a: string[], b: string[]): boolean {
+  if (a.length !== b.length || a.length < 2) return false;
+
+  let fullMatches = 0;
+  for (let index = 0; index < a.length; index++) {
+    const [left, right] = [a[index], b[index]];
+    if (left === right) {
+      fullMatches += left.length > 1 ? 1 : 0;
+    } else if (!(left.length === 1 && right.startsWith(left)) && !(right.length === 1 && left.startsWith(right))) {
+      return false;
+    }
+  }
+  return fullMatches > 0;
+}
+
+/**
+ * Whether two names are the same teacher
+ * True when the words agree once titles, case, punctuation and OCR
+ * confusions are dropped (in any order), or when an initial stands for a
+ * word of the other name. "Jane Srnith" is "Jane Smith"; "Jake Smith" is not.
+ */
+export function isSameTeacherName(a: string, b: string): boolean {
+  const tokensA = nameTokens(a);
+  const tokensB = nameTokens(b);
+  if (tokensA.length === 0 || tokensB.length === 0) return false;
+
+  const sortedA = [...tokensA].sort();
+  const sortedB = [...tokensB].sort();
+  return (
+    sortedA.join(" ") === sortedB.join(" ") || initialsMatch(tokensA, tokensB) || initialsMatch(sortedA, sortedB)
+  );
+}
+
+/**
+ * Similarity of two teacher names between 0 (unrelated) and 1 (same name)
+ */
+export function teacherNameSimilarity(a: string, b: string): number {
+  const tokensA = nameTokens(a);
+  const tokensB = nameTokens(b);
+  if (tokensA.length === 0 || tokensB.length === 0) return 0;
+
+  const sortedA = [...tokensA].sort();
+  const sortedB = [...tokensB].sort();
+  const score = Math.max(
+    editRatio(tokensA.join(" "), tokensB.join(" ")),
+    editRatio(sortedA.join(" "), sortedB.join(" "))
+  );
+
+  // An initial is weaker evidence than the full name
+  if (initialsMatch(tokensA, tokensB) || initialsMatch(sortedA, sortedB)) {
+    return Math.max(score, 0.9);
+  }
+  return score;
+}
+
+/**
+ * Score a name against each teacher (name and aliases), best match first
+ * Teachers below minScore are left out.
+ */
+export function rankTeacherMatches<T extends TeacherCandidate>(
+  name: string,
+  teachers: T[],
+  minScore = 0.5
+): TeacherMatch<T>[] {
+  return teachers
+    .map((teacher) => {
+      const known = [teacher.name, ...(teacher.aliases ?? [])];
+      let best: TeacherMatch<T> = {
+        teacher,
+        score: 0,
+        matchedName: teacher.name,
+        sameName: known.some((candidate) => isSameTeacherName(name, candidate)),
+      };
+      for (const candidate of known) {
+        const score = teacherNameSimilarity(name, candidate);
+        if (score > best.score) best = { ...best, score, matchedName: candidate };
+      }
+      return { ...best, score: Math.round(best.score * 100) / 100 };
+    })
+    .filter((match) => match.score >= minScore)
+    .sort((a, b) => b.score - a.score);
+}
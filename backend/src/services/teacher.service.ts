@@ -0,0 +1,450 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+import { ReviewKind, ReviewStatus, type ReviewItem } from "@prisma/client";
+import { databaseService, prisma } from "./database.service";
+import {
+  TEACHER_NEAR_MISS_THRESHOLD,
+  isSameTeacherName,
+  looksLikePersonName,
+  normalizeTeacherName,
+  rankTeacherMatches,
+  teacherNameFromFileName,
+  teacherNameSimilarity,
+} from "./teacher-match.service";
+import { logInfo, logWarn } from "../utils/logger";
+
+/**
+ * Teachers
+ *
+ * Listing, editing and merging the teachers of a school, and checking the
+ * teacher name read from a document against the teacher the upload was made
+ * for. A disagreement never renames anyone: it becomes a review item listing
+ * the closest existing teachers, and the reviewer decides.
+ */
+
+export interface TeacherUpdateInput {
+  name?: string;
+  email?: string | null;
+  aliases?: string[];
+}
+
+export interface TeacherListOptions {
+  search?: string; // Fuzzy name search
+  page: number;
+  limit: number;
+}
+
+/** Holds batch uploads until the teacher is read from the document */
+export const UNIDENTIFIED_TEACHER_NAME = "Unidentified teacher";
+
+export interface TeacherNameCheck {
+  status: "matched" | "conflict" | "skipped";
+  score?: number; // Similarity of the extracted name to the uploaded teacher
+  candidates?: TeacherMatchSummary[];
+}
+
+export interface TeacherMatchSummary {
+  teacherId: string;
+  name: string;
+  score: number;
+}
+
+/** Outcome of giving a timetable the teacher named in its document */
+export type TeacherAssignment =
+  | { status: "assigned"; teacherId: string; name: string; created: boolean }
+  | { status: "review"; candidates: TeacherMatchSummary[] };
+
+/**
+ * Raised when an email already belongs to another teacher of the school
+ */
+export class TeacherConflictError extends Error {
+  constructor(public readonly email: string) {
+    super(`Email "${email}" is already used by another teacher`);
+    this.name = "TeacherConflictError";
+  }
+}
+
+/**
+ * Aliases without duplicates (by comparable form) or the teacher's own name
+ */
+function cleanAliases(name: string, aliases: string[]): string[] {
+  const seen = new Set([normalizeTeacherName(name)]);
+  const result: string[] = [];
+  for (const alias of aliases.map((value) => value.trim()).filter(Boolean)) {
+    const key = normalizeTeacherName(alias);
+    if (key && !seen.has(key)) {
+      seen.add(key);
+      result.push(alias);
+    }
+  }
+  return result;
+}
+
+/**
+ * List a school's teachers
+ * With a search term, teachers are ranked by name similarity instead of name
+ */
+export async function listTeachers(schoolId: string, options: TeacherListOptions) {
+  const include = { _count: { select: { timetables: true } } } as const;
+
+  if (!options.search) {
+    const [teachers, total] = await Promise.all([
+      prisma.teacher.findMany({
+        where: { schoolId },
+        include,
+        orderBy: { name: "asc" },
+        skip: (options.page - 1) * options.limit,
+        take: options.limit,
+      }),
+      prisma.teacher.count({ where: { schoolId } }),
+    ]);
+    return { teachers: teachers.map((teacher) => ({ ...teacher, matchScore: undefined })), total };
+  }
+
+  const teachers = await prisma.teacher.findMany({ where: { schoolId }, include });
+  const matches = rankTeacherMatches(options.search, teachers);
+  return {
+    teachers: matches
+      .slice((options.page - 1) * options.limit, options.page * options.limit)
+      .map((match) => ({ ...match.teacher, matchScore: match.score })),
+    total: matches.length,
+  };
+}
+
+export async function getTeacher(schoolId: string, id: string) {
+  return prisma.teacher.findFirst({
+    where: { id, schoolId },
+    include: {
+      timetables: {
+        select: {
+          id: true,
+          originalFileName: true,
+          processingStatus: true,
+          academicYear: true,
+          semester: true,
+          revision: true,
+          isCurrent: true,
+          uploadedAt: true,
+        },
+        orderBy: { uploadedAt: "desc" },
+      },
+    },
+  });
+}
+
+/**
+ * Existing teachers whose name or alias resembles a name, best match first
+ */
+export async function findTeacherMatches(schoolId: string, name: string, limit = 5) {
+  const teachers = await prisma.teacher.findMany({ where: { schoolId } });
+  return rankTeacherMatches(name, teachers).slice(0, limit);
+}
+
+/**
+ * Update a teacher; omitted fields keep their value and a null email clears it
+ * A renamed teacher keeps the old name as an alias so later uploads still match.
+ */
+export async function updateTeacher(schoolId: string, id: string, input: TeacherUpdateInput) {
+  const existing = await prisma.teacher.findFirst({ where: { id, schoolId } });
+  if (!existing) return null;
+
+  const email = input.email === undefined ? existing.email : input.email?.trim() || null;
+  if (email && email !== existing.email) {
+    const owner = await prisma.teacher.findFirst({ where: { schoolId, email, id: { not: id } } });
+    if (owner) throw new TeacherConflictError(email);
+  }
+
+  const name = input.name?.trim() || existing.name;
+  const renamed = normalizeTeacherName(name) !== normalizeTeacherName(existing.name);
+  const aliases = cleanAliases(name, [
+    ...(input.aliases ?? existing.aliases),
+    ...(renamed ? [existing.name] : []),
+  ]);
+
+  const teacher = await prisma.teacher.update({ where: { id }, data: { name, email, aliases } });
+  logInfo(`Updated teacher: ${teacher.name} (ID: ${teacher.id})`, { aliases: teacher.aliases });
+  return teacher;
+}
+
+/**
+ * Merge duplicate teachers into one
+ *
+ * Timetables of the merged teachers move to the target, their names become
+ * aliases of the target and the target keeps its email (or takes the first
+ * merged one). Revision chains are rebuilt so each term has one current
+ * timetable. Every id must belong to the school (checked by the caller).
+ */
+export async function mergeTeachers(schoolId: string, targetId: string, sourceIds: string[]) {
+  const result = await prisma.$transaction(async (tx) => {
+    const target = await tx.teacher.findFirstOrThrow({ where: { id: targetId, schoolId } });
+    const sources = await tx.teacher.findMany({ where: { id: { in: sourceIds }, schoolId } });
+
+    const moved = await tx.timetable.updateMany({
+      where: { teacherId: { in: sources.map((source) => source.id) } },
+      data: { teacherId: target.id },
+    });
+    await tx.teacher.deleteMany({ where: { id: { in: sources.map((source) => source.id) } } });
+
+    const teacher = await tx.teacher.update({
+      where: { id: target.id },
+      data: {
+        email: target.email ?? sources.find((source) => source.email)?.email ?? null,
+        aliases: cleanAliases(target.name, [
+          ...target.aliases,
+          ...sources.flatMap((source) => [source.name, ...source.aliases]),
+        ]),
+      },
+    });
+
+    await databaseService.rebuildRevisionChains(target.id, tx);
+    return { teacher, movedTimetables: moved.count, mergedTeachers: sources.map((source) => source.id) };
+  });
+
+  logInfo(`Merged ${result.mergedTeachers.length} teacher(s) into ${result.teacher.name}`, {
+    teacherId: result.teacher.id,
+    movedTimetables: result.movedTimetables,
+  });
+  return result;
+}
+
+/**
+ * Open a teacher name conflict for a timetable, listing the closest teachers
+ */
+async function openTeacherConflict(
+  timetable: { id: string; schoolId: string; teacher: { id: string; name: string } },
+  name: string,
+  candidates: TeacherMatchSummary[]
+) {
+  await prisma.reviewItem.create({
+    data: {
+      schoolId: timetable.schoolId,
+      kind: ReviewKind.TEACHER_NAME_CONFLICT,
+      value: name,
+      timetableId: timetable.id,
+      details: {
+        teacherId: timetable.teacher.id,
+        uploadedName: timetable.teacher.name,
+        extractedName: name,
+        candidates: candidates.map((candidate) => ({ ...candidate })),
+      },
+    },
+  });
+}
+
+/**
+ * Compare the teacher name read from a timetable with the teacher it was uploaded for
+ *
+ * Runs after every extraction. A name that is the teacher's name or one of
+ * their aliases (see isSameTeacherName) is accepted; anything else, however
+ * close, replaces the timetable's open conflict item with a new one listing
+ * the closest teachers of the school.
+ */
+export async function checkExtractedTeacherName(
+  timetableId: string,
+  extractedName: string | undefined
+): Promise<TeacherNameCheck> {
+  const timetable = await prisma.timetable.findUniqueOrThrow({
+    where: { id: timetableId },
+    include: { teacher: true },
+  });
+
+  await prisma.reviewItem.deleteMany({
+    where: { timetableId, kind: ReviewKind.TEACHER_NAME_CONFLICT, status: ReviewStatus.OPEN },
+  });
+
+  const name = extractedName?.trim();
+  if (!name) {
+    return { status: "skipped" };
+  }
+
+  const { teacher } = timetable;
+  const known = [teacher.name, ...teacher.aliases];
+  const score = Math.max(...known.map((candidate) => teacherNameSimilarity(name, candidate)));
+  if (known.some((candidate) => isSameTeacherName(name, candidate))) {
+    return { status: "matched", score: Math.round(score * 100) / 100 };
+  }
+
+  const candidates = (await findTeacherMatches(timetable.schoolId, name)).map((match) => ({
+    teacherId: match.teacher.id,
+    name: match.teacher.name,
+    score: match.score,
+  }));
+  await openTeacherConflict(timetable, name, candidates);
+
+  logWarn(`Extracted teacher name "${name}" disagrees with "${teacher.name}"`, { timetableId, candidates });
+  return { status: "conflict", score: Math.round(score * 100) / 100, candidates };
+}
+
+/**
+ * Teacher for a file that arrived without one (batch upload, hot folder, email)
+ *
+ * A name in the file name that is the name of exactly one teacher gives that
+ * teacher, and one that looks like a person's name but matches nobody
+ * creates one. Otherwise ("Maths Dept.pdf", a name several teachers share)
+ * the file goes to the placeholder teacher with fromDocument set, so the
+ * worker assigns the teacher named in the document.
+ */
+export async function teacherForFile(
+  schoolId: string,
+  fileName: string
+): Promise<{ teacherId: string; fromDocument: boolean }> {
+  const name = teacherNameFromFileName(fileName);
+  if (name) {
+    const sameName = (await findTeacherMatches(schoolId, name)).filter(
+      (match) => match.sameName && match.teacher.name !== UNIDENTIFIED_TEACHER_NAME
+    );
+    if (sameName.length === 1) {
+      return { teacherId: sameName[0].teacher.id, fromDocument: false };
+    }
+    if (sameName.length === 0 && looksLikePersonName(name)) {
+      const teacher = await databaseService.findOrCreateTeacher({ schoolId, name });
+      return { teacherId: teacher.id, fromDocument: false };
+    }
+  }
+
+  const placeholder = await databaseService.findOrCreateTeacher({ schoolId, name: UNIDENTIFIED_TEACHER_NAME });
+  return { teacherId: placeholder.id, fromDocument: true };
+}
+
+/**
+ * Give a timetable uploaded without a teacher the teacher named in the document
+ *
+ * Used for batch uploads whose file name held no name. A single existing
+ * teacher with the same name is taken and a name unlike any teacher's
+ * creates one. A name that is the same as several teachers ("J. Smith") or
+ * only close to one ("Jake Smith" for "Jane Smith") is not guessed: the
+ * timetable stays with the placeholder teacher and a conflict item asks a
+ * reviewer to pick. Without an extracted name nothing changes (null).
+ */
+export async function assignExtractedTeacher(
+  timetableId: string,
+  extractedName: string | undefined
+): Promise<TeacherAssignment | null> {
+  const name = extractedName?.trim();
+  if (!name) return null;
+
+  const timetable = await prisma.timetable.findUniqueOrThrow({
+    where: { id: timetableId },
+    include: { teacher: true },
+  });
+  const matches = (await findTeacherMatches(timetable.schoolId, name)).filter(
+    (match) => match.teacher.name !== UNIDENTIFIED_TEACHER_NAME
+  );
+  const sameName = matches.filter((match) => match.sameName);
+  const nearMisses = matches.filter((match) => match.score >= TEACHER_NEAR_MISS_THRESHOLD);
+
+  if (sameName.length > 1 || (sameName.length === 0 && nearMisses.length > 0)) {
+    const candidates = matches.map((match) => ({
+      teacherId: match.teacher.id,
+      name: match.teacher.name,
+      score: match.score,
+    }));
+    await prisma.reviewItem.deleteMany({
+      where: { timetableId, kind: ReviewKind.TEACHER_NAME_CONFLICT, status: ReviewStatus.OPEN },
+    });
+    await openTeacherConflict(timetable, name, candidates);
+
+    logWarn(`Teacher "${name}" named in timetable ${timetableId} needs review`, { candidates });
+    return { status: "review", candidates };
+  }
+
+  const [match] = sameName;
+  const teacher = match?.teacher ?? (await prisma.teacher.create({ data: { schoolId: timetable.schoolId, name } }));
+
+  // Runs before the revision is assigned, so there is no chain to rebuild
+  await prisma.timetable.update({ where: { id: timetableId }, data: { teacherId: teacher.id } });
+
+  logInfo(`Timetable ${timetableId} assigned to ${match ? "existing" : "new"} teacher "${teacher.name}"`);
+  return { status: "assigned", teacherId: teacher.id, name: teacher.name, created: !match };
+}
+
+/**
+ * Resolve a teacher name conflict
+ *
+ * teacherId moves the timetable to that teacher; applyExtractedName renames
+ * the timetable's teacher to the extracted name (keeping the old name as an
+ * alias). Returns null when the teacher is not in the item's school.
+ */
+export async function resolveTeacherConflict(
+  item: ReviewItem,
+  options: { teacherId?: string; applyExtractedName?: boolean; resolution?: string }
+) {
+  const timetable = item.timetableId
+    ? await prisma.timetable.findUnique({ where: { id: item.timetableId } })
+    : null;
+  let teacherId = timetable?.teacherId;
+  const steps: string[] = [];
+
+  if (options.teacherId && timetable && options.teacherId !== timetable.teacherId) {
+    const teacher = await prisma.teacher.findFirst({ where: { id: options.teacherId, schoolId: item.schoolId } });
+    if (!teacher) return null;
+
+    await prisma.$transaction(async (tx) => {
+      await tx.timetable.update({ where: { id: timetable.id }, data: { teacherId: teacher.id } });
+      await databaseService.rebuildRevisionChains(timetable.teacherId, tx);
+      await databaseService.rebuildRevisionChains(teacher.id, tx);
+    });
+    teacherId = teacher.id;
+    steps.push(`Moved to teacher "${teacher.name}"`);
+  }
+
+  const current = teacherId ? await prisma.teacher.findUnique({ where: { id: teacherId } }) : null;
+  if (options.applyExtractedName && timetable && current?.name === UNIDENTIFIED_TEACHER_NAME) {
+    // The placeholder holds many timetables; give this one its own teacher instead of renaming it
+    const teacher = await databaseService.findOrCreateTeacher({ schoolId: item.schoolId, name: item.value });
+    await prisma.$transaction(async (tx) => {
+      await tx.timetable.update({ where: { id: timetable.id }, data: { teacherId: teacher.id } });
+      await databaseService.rebuildRevisionChains(current.id, tx);
+      await databaseService.rebuildRevisionChains(teacher.id, tx);
+    });
+    steps.push(`Moved to teacher "${teacher.name}"`);
+  } else if (options.applyExtractedName && teacherId) {
+    const teacher = await updateTeacher(item.schoolId, teacherId, { name: item.value });
+    steps.push(`Renamed teacher to "${teacher?.name}"`);
+  }
+
+  return prisma.reviewItem.update({
+    where: { id: item.id },
+    data: {
+      status: ReviewStatus.RESOLVED,
+      resolution: options.resolution ?? (steps.join("; ") || "Kept uploaded teacher"),
+      resolvedAt: new Date(),
+    },
+  });
+}
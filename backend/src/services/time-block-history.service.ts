@@ -0,0 +1,243 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+import { Prisma, TimeBlockEditSource, type TimeBlock, type TimeBlockEdit } from "@prisma/client";
+import { EDITABLE_BLOCK_FIELDS, prisma, type EditableBlockField } from "./database.service";
+
+/**
+ * Time Block History
+ *
+ * Manual corrections are recorded field by field in time_block_edits (who,
+ * from what, to what, when). Each block also remembers which fields a person
+ * corrected and what the extractor had read for them:
+ * - reprocessing re-applies the corrections to the new run's blocks
+ * - setting a field back to the extracted value hands it back to the machine
+ */
+
+export type TimeBlockChanges = Partial<Pick<TimeBlock, EditableBlockField>>;
+
+export type FieldSource = "extracted" | "corrected";
+
+interface EditOptions {
+  actor?: string | null;
+  source?: TimeBlockEditSource;
+  revertOfId?: string;
+}
+
+export class TimeBlockRevertError extends Error {
+  constructor(public readonly editId: string, reason: string) {
+    super(`Edit ${editId} cannot be reverted: ${reason}`);
+    this.name = "TimeBlockRevertError";
+  }
+}
+
+function toEditValue(value: unknown): string | null {
+  return value === null || value === undefined ? null : String(value);
+}
+
+function fromEditValue(field: EditableBlockField, value: string | null) {
+  return field === "weekIndex" && value !== null ? Number(value) : value;
+}
+
+function extractedValuesOf(block: TimeBlock): Record<string, unknown> {
+  return { ...((block.extractedValues as Record<string, unknown> | null) ?? {}) };
+}
+
+/**
+ * Ids of the block and of the earlier-run blocks its corrections came from
+ */
+async function blockLineage(block: TimeBlock): Promise<string[]> {
+  const ids = [block.id];
+  let previousId = block.previousBlockId;
+
+  while (previousId && !ids.includes(previousId)) {
+    ids.push(previousId);
+    const previous = await prisma.timeBlock.findUnique({
+      where: { id: previousId },
+      select: { previousBlockId: true },
+    });
+    previousId = previous?.previousBlockId ?? null;
+  }
+
+  return ids;
+}
+
+/**
+ * Apply changes to a time block, recording one edit per field that changed
+ */
+export async function editTimeBlock(block: TimeBlock, changes: TimeBlockChanges, options: EditOptions = {}) {
+  const fields = EDITABLE_BLOCK_FIELDS.filter(
+    (field) => changes[field] !== undefined && changes[field] !== block[field]
+  );
+  if (fields.length === 0) {
+    return { block, edits: [] as TimeBlockEdit[] };
+  }
+
+  const extracted = extractedValuesOf(block);
+  const corrected = new Set<string>(block.humanEditedFields);
+  for (const field of fields) {
+    if (!corrected.has(field)) extracted[field] = block[field];
+
+    if (changes[field] === extracted[field]) {
+      // Back to what the extractor read: no longer a correction
+      corrected.delete(field);
+      delete extracted[field];
+    } else {
+      corrected.add(field);
+    }
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const updated = await tx.timeBlock.update({
+      where: { id: block.id },
+      data: {
+        ...Object.fromEntries(fields.map((field) => [field, changes[field]])),
+        humanEditedFields: EDITABLE_BLOCK_FIELDS.filter((field) => corrected.has(field)),
+        extractedValues:
+          Object.keys(extracted).length > 0 ? (extracted as Prisma.InputJsonObject) : Prisma.DbNull,
+      },
+    });
+
+    const edits: TimeBlockEdit[] = [];
+    for (const field of fields) {
+      edits.push(
+        await tx.timeBlockEdit.create({
+          data: {
+            timeBlockId: block.id,
+            timetableId: block.timetableId,
+            field,
+            oldValue: toEditValue(block[field]),
+            newValue: toEditValue(changes[field]),
+            source: options.source ?? TimeBlockEditSource.MANUAL,
+            actor: options.actor ?? null,
+            revertOfId: options.revertOfId,
+          },
+        })
+      );
+    }
+
+    return { block: updated, edits };
+  });
+}
+
+/**
+ * Remove a time block, keeping it as a tombstone
+ * The block is superseded rather than deleted, so its edit history survives,
+ * and the removal is recorded as an edit of deletedAt. Reprocessing removes
+ * the block the extractor reads for it again (see createTimeBlockVersion).
+ */
+export async function removeTimeBlock(block: TimeBlock, options: EditOptions = {}) {
+  const removedAt = new Date();
+
+  return prisma.$transaction(async (tx) => {
+    const removed = await tx.timeBlock.update({
+      where: { id: block.id },
+      data: { supersededAt: removedAt, deletedAt: removedAt },
+    });
+    const edit = await tx.timeBlockEdit.create({
+      data: {
+        timeBlockId: block.id,
+        timetableId: block.timetableId,
+        field: "deletedAt",
+        oldValue: null,
+        newValue: removedAt.toISOString(),
+        source: options.source ?? TimeBlockEditSource.MANUAL,
+        actor: options.actor ?? null,
+      },
+    });
+
+    return { block: removed, edits: [edit] };
+  });
+}
+
+/**
+ * Edit history of a time block (newest first), including corrections made
+ * before a reprocess carried them over, and where each field's value came from
+ */
+export async function getTimeBlockHistory(block: TimeBlock) {
+  const lineage = await blockLineage(block);
+  const edits = await prisma.timeBlockEdit.findMany({
+    where: { timeBlockId: { in: lineage } },
+    orderBy: { createdAt: "desc" },
+  });
+  const reverted = new Set(edits.map((edit) => edit.revertOfId).filter(Boolean));
+  const extracted = extractedValuesOf(block);
+
+  const fields = Object.fromEntries(
+    EDITABLE_BLOCK_FIELDS.map((field) => {
+      const source: FieldSource = block.humanEditedFields.includes(field) ? "corrected" : "extracted";
+      return [
+        field,
+        source === "corrected"
+          ? { value: block[field], source, extractedValue: extracted[field] ?? null }
+          : { value: block[field], source },
+      ];
+    })
+  );
+
+  return {
+    fields,
+    edits: edits.map((edit) => ({ ...edit, reverted: reverted.has(edit.id) })),
+  };
+}
+
+/**
+ * Undo one edit by setting its field back to the previous value
+ * Returns null when the edit does not belong to the block
+ */
+export async function revertTimeBlockEdit(block: TimeBlock, editId: string, actor?: string | null) {
+  const lineage = await blockLineage(block);
+  const edit = await prisma.timeBlockEdit.findFirst({
+    where: { id: editId, timeBlockId: { in: lineage } },
+  });
+  if (!edit) return null;
+
+  const field = edit.field as EditableBlockField;
+  if (await prisma.timeBlockEdit.count({ where: { revertOfId: edit.id } })) {
+    throw new TimeBlockRevertError(edit.id, "it has already been reverted");
+  }
+  if (toEditValue(block[field]) !== edit.newValue) {
+    throw new TimeBlockRevertError(edit.id, `${field} has been changed again since`);
+  }
+
+  return editTimeBlock(block, { [field]: fromEditValue(field, edit.oldValue) } as TimeBlockChanges, {
+    actor,
+    source: TimeBlockEditSource.REVERT,
+    revertOfId: edit.id,
+  });
+}
@@ -0,0 +1,257 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+import { DayOfWeek, type TimeBlock } from "@prisma/client";
+import { TimeBlockSchema } from "./llm.service";
+import { detectTimeConflicts } from "./embedding.service";
+import { checkTimeBlocks, TimeBlockValidationError, type TimeBlockDraft } from "./time-block.service";
+import {
+  readSpreadsheet,
+  writeCsv,
+  writeXlsx,
+  type SpreadsheetCell,
+  type SpreadsheetFormat,
+} from "./spreadsheet.service";
+
+/**
+ * Time Block Spreadsheets
+ *
+ * A timetable is exported with one row per time block under a header row
+ * of field names. Imports read the same layout: columns are found by header
+ * (in any order, with a few aliases such as "Day" and "Room"), unknown
+ * columns such as confidence are ignored, and each row is validated with
+ * the extraction TimeBlockSchema before the block checks shared with the
+ * time block endpoints. Problems are reported by sheet row number.
+ */
+
+export const SHEET_COLUMNS = [
+  "weekIndex",
+  "dayOfWeek",
+  "startTime",
+  "endTime",
+  "subject",
+  "classroom",
+  "grade",
+  "section",
+  "notes",
+  "confidence",
+] as const;
+
+type ImportField = Exclude<(typeof SHEET_COLUMNS)[number], "confidence">;
+
+const REQUIRED_COLUMNS: ImportField[] = ["dayOfWeek", "startTime", "endTime", "subject"];
+
+// Normalized header (lowercase letters and digits) -> field
+const COLUMN_ALIASES: Record<string, ImportField> = {
+  weekindex: "weekIndex",
+  week: "weekIndex",
+  dayofweek: "dayOfWeek",
+  day: "dayOfWeek",
+  starttime: "startTime",
+  start: "startTime",
+  endtime: "endTime",
+  end: "endTime",
+  subject: "subject",
+  classroom: "classroom",
+  room: "classroom",
+  grade: "grade",
+  section: "section",
+  notes: "notes",
+};
+
+// Imports are saved as one version, so they share the block replacement limit
+export const MAX_IMPORT_ROWS = 500;
+
+export interface SheetRowIssue {
+  row: number;
+  issues: string[];
+}
+
+export class TimeBlockImportError extends Error {
+  constructor(public readonly rows: SheetRowIssue[]) {
+    super(`Invalid spreadsheet: ${rows.length} row(s) with errors`);
+    this.name = "TimeBlockImportError";
+  }
+}
+
+/**
+ * Build a spreadsheet of time blocks
+ */
+export async function buildTimeBlockSheet(
+  name: string,
+  blocks: TimeBlock[],
+  format: SpreadsheetFormat
+): Promise<Buffer> {
+  const rows: SpreadsheetCell[][] = [
+    [...SHEET_COLUMNS],
+    ...blocks.map((block) => SHEET_COLUMNS.map((column) => block[column])),
+  ];
+
+  return format === "csv" ? Buffer.from(writeCsv(rows), "utf8") : writeXlsx(name, rows);
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+// "Mon", "monday" -> MONDAY
+function normalizeDay(value: string): string {
+  const day = value.trim().toUpperCase();
+  if (day.length >= 3) {
+    const match = Object.values(DayOfWeek).find((candidate) => candidate.startsWith(day));
+    if (match) return match;
+  }
+  return day;
+}
+
+// Blank -> 1, "2" -> 2, "Week B" / "B" -> 2
+function normalizeWeek(value: string): number {
+  const week = value.trim().replace(/^week\s*/i, "");
+  if (week === "") return 1;
+  if (/^[a-z]$/i.test(week)) return week.toUpperCase().charCodeAt(0) - 64;
+  return Number(week);
+}
+
+// Excel stores typed times as a fraction of a day (0.375 = 09:00), sometimes with a date part
+function normalizeTime(value: string): string {
+  const time = value.trim();
+  if (!/^\d+\.\d+$/.test(time)) return time;
+
+  const minutes = Math.round((Number(time) % 1) * 24 * 60) % (24 * 60);
+  return `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Read and validate the time blocks of a spreadsheet
+ * Throws TimeBlockImportError listing every row with a problem
+ */
+export async function readTimeBlockSheet(
+  data: Buffer,
+  format: SpreadsheetFormat
+): Promise<{ timeBlocks: TimeBlockDraft[]; cycleLength: number }> {
+  // One header row, then at most MAX_IMPORT_ROWS blocks
+  const [header = [], ...rows] = await readSpreadsheet(data, format, { maxRows: MAX_IMPORT_ROWS + 1 });
+
+  const columns = new Map<ImportField, number>();
+  header.forEach((cell, index) => {
+    const field = COLUMN_ALIASES[normalizeHeader(cell)];
+    if (field && !columns.has(field)) columns.set(field, index);
+  });
+  const missing = REQUIRED_COLUMNS.filter((field) => !columns.has(field));
+  if (missing.length > 0) {
+    throw new TimeBlockImportError([{ row: 1, issues: [`Missing column(s): ${missing.join(", ")}`] }]);
+  }
+
+  const cell = (row: string[], field: ImportField) => {
+    const index = columns.get(field);
+    return index === undefined ? "" : (row[index] ?? "").trim();
+  };
+
+  const problems = new Map<number, string[]>();
+  const report = (row: number, issue: string) => problems.set(row, [...(problems.get(row) ?? []), issue]);
+
+  // Sheet row numbers start at 1 for the header
+  const entries = rows
+    .map((row, index) => ({ row, rowNumber: index + 2 }))
+    .filter(({ row }) => row.some((value) => value.trim() !== ""));
+
+  if (entries.length === 0) {
+    throw new TimeBlockImportError([{ row: 1, issues: ["Spreadsheet has no time blocks"] }]);
+  }
+  if (entries.length > MAX_IMPORT_ROWS) {
+    throw new TimeBlockImportError([
+      { row: entries[MAX_IMPORT_ROWS].rowNumber, issues: [`At most ${MAX_IMPORT_ROWS} time blocks can be imported`] },
+    ]);
+  }
+
+  const timeBlocks: TimeBlockDraft[] = [];
+  const rowNumbers: number[] = [];
+  for (const { row, rowNumber } of entries) {
+    const parsed = TimeBlockSchema.safeParse({
+      dayOfWeek: normalizeDay(cell(row, "dayOfWeek")),
+      weekIndex: normalizeWeek(cell(row, "weekIndex")),
+      startTime: normalizeTime(cell(row, "startTime")),
+      endTime: normalizeTime(cell(row, "endTime")),
+      subject: cell(row, "subject"),
+      classroom: cell(row, "classroom"),
+      grade: cell(row, "grade"),
+      section: cell(row, "section"),
+      notes: cell(row, "notes"),
+    });
+    if (!parsed.success) {
+      parsed.error.issues.forEach((issue) => report(rowNumber, `${issue.path.join(".")}: ${issue.message}`));
+      continue;
+    }
+    if (parsed.data.subject === "") {
+      report(rowNumber, "subject: must not be empty");
+      continue;
+    }
+    if (parsed.data.weekIndex < 1) {
+      report(rowNumber, "weekIndex: must be 1 or more");
+      continue;
+    }
+
+    timeBlocks.push({ ...parsed.data, dayOfWeek: parsed.data.dayOfWeek as DayOfWeek });
+    rowNumbers.push(rowNumber);
+  }
+
+  // The rotation is as long as the highest week in the sheet
+  const cycleLength = Math.max(1, ...timeBlocks.map((block) => block.weekIndex ?? 1));
+
+  // Row-level block checks, then overlaps between the rows that passed them
+  const checked = timeBlocks.flatMap((draft, index) => {
+    try {
+      return [{ block: checkTimeBlocks([draft], cycleLength)[0], rowNumber: rowNumbers[index] }];
+    } catch (error) {
+      if (!(error instanceof TimeBlockValidationError)) throw error;
+      error.issues.forEach((issue) => report(rowNumbers[index], issue));
+      return [];
+    }
+  });
+  for (const conflict of detectTimeConflicts(checked.map(({ block }) => block))) {
+    report(checked[conflict.index1].rowNumber, `Overlaps row ${checked[conflict.index2].rowNumber} (${conflict.block2})`);
+  }
+
+  if (problems.size > 0) {
+    throw new TimeBlockImportError(
+      Array.from(problems, ([row, issues]) => ({ row, issues })).sort((a, b) => a.row - b.row)
+    );
+  }
+
+  return { timeBlocks: checked.map(({ block }) => ({ ...block, dayOfWeek: block.dayOfWeek as DayOfWeek })), cycleLength };
+}
@@ -0,0 +1,190 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+import { DayOfWeek, type Prisma, type TimeBlock, type Timetable } from "@prisma/client";
+import { EDITABLE_BLOCK_FIELDS, databaseService, prisma } from "./database.service";
+import { validateTimeBlocks, type TimeBlock as CheckedTimeBlock } from "./llm.service";
+import { detectTimeConflicts } from "./embedding.service";
+
+/**
+ * Time Blocks
+ *
+ * Blocks added or replaced by a reviewer go through the same checks as
+ * extracted ones (validateTimeBlocks, with its repairs), then must start
+ * before they end, sit in a week of the rotation and not overlap another
+ * block of the same week and day. They are stored as corrected in every
+ * field, so reprocessing keeps them.
+ */
+
+export interface TimeBlockDraft {
+  dayOfWeek: DayOfWeek;
+  weekIndex?: number;
+  startTime: string;
+  endTime: string;
+  subject: string;
+  classroom?: string | null;
+  grade?: string | null;
+  section?: string | null;
+  notes?: string | null;
+}
+
+export class TimeBlockValidationError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid time blocks: ${issues.join("; ")}`);
+    this.name = "TimeBlockValidationError";
+  }
+}
+
+// Person-entered blocks are not scored by the extractor
+const MANUAL_BLOCK_CONFIDENCE = 100;
+
+function toCheckedShape(draft: TimeBlockDraft): CheckedTimeBlock {
+  return {
+    dayOfWeek: draft.dayOfWeek,
+    weekIndex: draft.weekIndex ?? 1,
+    startTime: draft.startTime,
+    endTime: draft.endTime,
+    subject: draft.subject,
+    classroom: draft.classroom ?? "",
+    grade: draft.grade ?? "",
+    section: draft.section ?? "",
+    notes: draft.notes ?? "",
+  };
+}
+
+/**
+ * Validate blocks for a timetable, returning them with formats repaired
+ * `existing` blocks only take part in the overlap check
+ */
+export function checkTimeBlocks(
+  drafts: TimeBlockDraft[],
+  cycleLength: number,
+  existing: CheckedTimeBlock[] = []
+): CheckedTimeBlock[] {
+  const issues: string[] = [];
+  const blocks: CheckedTimeBlock[] = [];
+
+  drafts.forEach((draft, index) => {
+    const label = drafts.length > 1 ? `Block ${index + 1}: ` : "";
+    const [block] = validateTimeBlocks([toCheckedShape(draft)]);
+    if (!block) {
+      issues.push(`${label}invalid day or time (${draft.dayOfWeek} ${draft.startTime}-${draft.endTime})`);
+      return;
+    }
+    if (block.startTime >= block.endTime) {
+      issues.push(`${label}startTime must be before endTime (${block.startTime}-${block.endTime})`);
+    }
+    if (block.weekIndex > cycleLength) {
+      issues.push(`${label}weekIndex must not exceed the timetable's cycle length (${cycleLength})`);
+    }
+    blocks.push(block);
+  });
+
+  if (issues.length === 0) {
+    // Conflicts are reported with the lower index first, so index1 is always one of ours
+    for (const conflict of detectTimeConflicts([...blocks, ...existing])) {
+      if (conflict.index1 < blocks.length) {
+        issues.push(`Overlap: ${conflict.block1} and ${conflict.block2}`);
+      }
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new TimeBlockValidationError(issues);
+  }
+  return blocks;
+}
+
+/**
+ * Add a block to the current version of a timetable
+ */
+export async function addTimeBlock(timetable: Timetable, draft: TimeBlockDraft) {
+  const current = await prisma.timeBlock.findMany({
+    where: { timetableId: timetable.id, supersededAt: null },
+  });
+  const [block] = checkTimeBlocks([draft], timetable.cycleLength, current.map(toCheckedShape));
+
+  return prisma.timeBlock.create({
+    data: {
+      timetableId: timetable.id,
+      ...block,
+      dayOfWeek: block.dayOfWeek as DayOfWeek,
+      confidence: MANUAL_BLOCK_CONFIDENCE,
+      version: timetable.currentVersion,
+      humanEditedFields: [...EDITABLE_BLOCK_FIELDS],
+    },
+  });
+}
+
+/**
+ * Check an edit of a current block against the timetable's other current blocks
+ * `changes` holds only the edited fields; the rest are taken from the block
+ */
+export async function checkTimeBlockEdit(
+  timetable: Timetable,
+  block: TimeBlock,
+  changes: Partial<TimeBlockDraft>
+) {
+  const others = await prisma.timeBlock.findMany({
+    where: { timetableId: timetable.id, supersededAt: null, id: { not: block.id } },
+  });
+  checkTimeBlocks([{ ...block, ...changes }], timetable.cycleLength, others.map(toCheckedShape));
+}
+
+/**
+ * Replace every current block of a timetable
+ * Saved as a new version, so the replaced blocks stay available as superseded
+ */
+export async function replaceTimeBlocks(
+  timetable: Timetable,
+  drafts: TimeBlockDraft[],
+  tx?: Prisma.TransactionClient
+) {
+  const blocks = checkTimeBlocks(drafts, timetable.cycleLength);
+
+  return databaseService.createTimeBlockVersion(
+    timetable.id,
+    blocks.map((block) => ({
+      ...block,
+      dayOfWeek: block.dayOfWeek as DayOfWeek,
+      confidence: MANUAL_BLOCK_CONFIDENCE,
+    })),
+    { manual: true },
+    tx
+  );
+}
@@ -0,0 +1,220 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+/**
+ * Timetable Diff
+ *
+ * Compares the time blocks of two uploads (usually two revisions of one
+ * teacher's term) so heads of department can see what changed:
+ * - unchanged / changed: same week, day, times and subject (changed when the
+ *   room, class or notes differ)
+ * - moved: same subject and class, now at another day or time
+ * - added / removed: everything left over
+ */
+
+export interface DiffableBlock {
+  id?: string;
+  weekIndex: number;
+  dayOfWeek: string;
+  startTime: string;
+  endTime: string;
+  subject: string;
+  classroom?: string | null;
+  grade?: string | null;
+  section?: string | null;
+  notes?: string | null;
+}
+
+export interface BlockSlot {
+  id?: string;
+  weekIndex: number;
+  dayOfWeek: string;
+  startTime: string;
+  endTime: string;
+  subject: string;
+  classroom: string;
+  grade: string;
+  section: string;
+}
+
+export interface BlockChange {
+  from: BlockSlot;
+  to: BlockSlot;
+  fields: string[]; // Fields that differ between the two blocks
+}
+
+export interface TimetableDiff {
+  summary: {
+    added: number;
+    removed: number;
+    moved: number;
+    changed: number;
+    unchanged: number;
+  };
+  added: BlockSlot[];
+  removed: BlockSlot[];
+  moved: BlockChange[];
+  changed: BlockChange[];
+}
+
+const COMPARED_FIELDS = ["classroom", "grade", "section", "notes"] as const;
+
+function normalize(value: string | null | undefined): string {
+  return (value ?? "").trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+function slotKey(block: DiffableBlock): string {
+  return [block.weekIndex, block.dayOfWeek, block.startTime, block.endTime, normalize(block.subject)].join("|");
+}
+
+/**
+ * A lesson is the same class being taught, wherever it sits in the week
+ */
+function lessonKey(block: DiffableBlock): string {
+  return [normalize(block.subject), normalize(block.grade), normalize(block.section)].join("|");
+}
+
+function toSlot(block: DiffableBlock): BlockSlot {
+  return {
+    id: block.id,
+    weekIndex: block.weekIndex,
+    dayOfWeek: block.dayOfWeek,
+    startTime: block.startTime,
+    endTime: block.endTime,
+    subject: block.subject,
+    classroom: block.classroom ?? "",
+    grade: block.grade ?? "",
+    section: block.section ?? "",
+  };
+}
+
+function changedFields(from: DiffableBlock, to: DiffableBlock): string[] {
+  const fields: string[] = [];
+  for (const field of ["weekIndex", "dayOfWeek", "startTime", "endTime"] as const) {
+    if (from[field] !== to[field]) fields.push(field);
+  }
+  for (const field of COMPARED_FIELDS) {
+    if (normalize(from[field]) !== normalize(to[field])) fields.push(field);
+  }
+  return fields;
+}
+
+/**
+ * Take blocks out of `pool` that match `block` by key (first match wins)
+ */
+function takeMatch(pool: DiffableBlock[], key: string, keyOf: (block: DiffableBlock) => string) {
+  const index = pool.findIndex((candidate) => keyOf(candidate) === key);
+  return index >= 0 ? pool.splice(index, 1)[0] : undefined;
+}
+
+/**
+ * Pair each block of an earlier run with the block of a later run that holds
+ * the same lesson (same slot first, then same subject and class elsewhere)
+ */
+export function matchTimeBlocks<T extends DiffableBlock, U extends DiffableBlock>(
+  fromBlocks: T[],
+  toBlocks: U[]
+): Array<{ from: T; to: U }> {
+  const pool: DiffableBlock[] = [...toBlocks];
+  const pairs: Array<{ from: T; to: U }> = [];
+  const unmatched: T[] = [];
+
+  for (const block of fromBlocks) {
+    const match = takeMatch(pool, slotKey(block), slotKey);
+    if (match) pairs.push({ from: block, to: match as U });
+    else unmatched.push(block);
+  }
+  for (const block of unmatched) {
+    const match = takeMatch(pool, lessonKey(block), lessonKey);
+    if (match) pairs.push({ from: block, to: match as U });
+  }
+
+  return pairs;
+}
+
+/**
+ * Diff the time blocks of two timetables (from → to)
+ */
+export function diffTimeBlocks(fromBlocks: DiffableBlock[], toBlocks: DiffableBlock[]): TimetableDiff {
+  const unmatchedFrom: DiffableBlock[] = [];
+  const unmatchedTo = [...toBlocks];
+  const changed: BlockChange[] = [];
+  let unchanged = 0;
+
+  // 1. Same slot and subject
+  for (const block of fromBlocks) {
+    const match = takeMatch(unmatchedTo, slotKey(block), slotKey);
+    if (!match) {
+      unmatchedFrom.push(block);
+      continue;
+    }
+
+    const fields = changedFields(block, match);
+    if (fields.length === 0) {
+      unchanged++;
+    } else {
+      changed.push({ from: toSlot(block), to: toSlot(match), fields });
+    }
+  }
+
+  // 2. Same lesson at another day or time
+  const removed: DiffableBlock[] = [];
+  const moved: BlockChange[] = [];
+  for (const block of unmatchedFrom) {
+    const match = takeMatch(unmatchedTo, lessonKey(block), lessonKey);
+    if (match) {
+      moved.push({ from: toSlot(block), to: toSlot(match), fields: changedFields(block, match) });
+    } else {
+      removed.push(block);
+    }
+  }
+
+  return {
+    summary: {
+      added: unmatchedTo.length,
+      removed: removed.length,
+      moved: moved.length,
+      changed: changed.length,
+      unchanged,
+    },
+    added: unmatchedTo.map(toSlot),
+    removed: removed.map(toSlot),
+    moved,
+    changed,
+  };
+}
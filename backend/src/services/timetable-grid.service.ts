@@ -0,0 +1,164 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+import { DayOfWeek, type Teacher, type TimeBlock, type Timetable } from "@prisma/client";
+import { isBreakBlock } from "./ics.service";
+
+/**
+ * Timetable Grids
+ *
+ * The printable layout shared by the PDF and DOCX renderers: one grid per
+ * week of the rotation, with a column per teaching day and a row per
+ * distinct start and end time (period). Each subject gets its own color
+ * so a lesson reads the same across the week; breaks are grey.
+ */
+
+export type GridTimetable = Timetable & { teacher: Teacher; timeBlocks: TimeBlock[] };
+
+export type PageOrientation = "landscape" | "portrait";
+
+export interface GridCell {
+  subject: string;
+  details: string[]; // Room, then class
+  color: string; // RRGGBB
+}
+
+export interface GridPeriod {
+  startTime: string;
+  endTime: string;
+}
+
+export interface WeekGrid {
+  heading: string | null; // "Week 2" for rotating timetables
+  days: DayOfWeek[];
+  periods: GridPeriod[];
+  cells: GridCell[][][]; // [period][day] -> blocks in that slot
+}
+
+export interface TimetableGrid {
+  title: string;
+  subtitle: string | null;
+  weeks: WeekGrid[];
+}
+
+const WEEKDAYS: DayOfWeek[] = [
+  DayOfWeek.MONDAY,
+  DayOfWeek.TUESDAY,
+  DayOfWeek.WEDNESDAY,
+  DayOfWeek.THURSDAY,
+  DayOfWeek.FRIDAY,
+];
+const WEEKEND: DayOfWeek[] = [DayOfWeek.SATURDAY, DayOfWeek.SUNDAY];
+
+// Light fills that keep black text readable when printed
+const SUBJECT_COLORS = [
+  "BFDBFE", "BBF7D0", "FDE68A", "FBCFE8", "DDD6FE", "FED7AA",
+  "A5F3FC", "D9F99D", "FECACA", "C7D2FE", "99F6E4", "F5D0FE",
+];
+const BREAK_COLOR = "E5E7EB";
+
+export function dayLabel(day: DayOfWeek): string {
+  return day.charAt(0) + day.slice(1).toLowerCase();
+}
+
+function subjectKey(subject: string): string {
+  return subject.trim().toLowerCase();
+}
+
+/**
+ * Assign colors to subjects in alphabetical order
+ * Subjects only share a color when there are more subjects than colors
+ */
+function subjectColors(blocks: TimeBlock[]): Map<string, string> {
+  const subjects = Array.from(
+    new Set(blocks.filter((block) => !isBreakBlock(block)).map((block) => subjectKey(block.subject)))
+  ).sort();
+  return new Map(subjects.map((subject, index) => [subject, SUBJECT_COLORS[index % SUBJECT_COLORS.length]]));
+}
+
+function gridCell(block: TimeBlock, colors: Map<string, string>): GridCell {
+  const group = [block.grade, block.section].filter(Boolean).join(" ");
+  return {
+    subject: block.subject,
+    details: [block.classroom, group].filter((detail): detail is string => Boolean(detail)),
+    color: isBreakBlock(block) ? BREAK_COLOR : colors.get(subjectKey(block.subject)) ?? BREAK_COLOR,
+  };
+}
+
+function byTime(a: GridPeriod, b: GridPeriod): number {
+  return a.startTime.localeCompare(b.startTime) || a.endTime.localeCompare(b.endTime);
+}
+
+/**
+ * Lay out the current blocks of a timetable as weekly grids
+ * Saturday and Sunday only get a column when some week has blocks on them
+ */
+export function buildTimetableGrid(timetable: GridTimetable): TimetableGrid {
+  const blocks = timetable.timeBlocks;
+  const colors = subjectColors(blocks);
+  const days = [
+    ...WEEKDAYS,
+    ...WEEKEND.filter((day) => blocks.some((block) => block.dayOfWeek === day)),
+  ];
+  const cycleLength = Math.max(timetable.cycleLength, ...blocks.map((block) => block.weekIndex));
+
+  const weeks: WeekGrid[] = [];
+  for (let week = 1; week <= cycleLength; week++) {
+    const weekBlocks = blocks.filter((block) => block.weekIndex === week);
+    const periods = Array.from(
+      new Map(weekBlocks.map((block) => [`${block.startTime}-${block.endTime}`, { startTime: block.startTime, endTime: block.endTime }])).values()
+    ).sort(byTime);
+
+    const cells = periods.map((period) =>
+      days.map((day) =>
+        weekBlocks
+          .filter((block) => block.dayOfWeek === day && block.startTime === period.startTime && block.endTime === period.endTime)
+          .map((block) => gridCell(block, colors))
+      )
+    );
+
+    weeks.push({ heading: cycleLength > 1 ? `Week ${week}` : null, days, periods, cells });
+  }
+
+  const term = [timetable.semester, timetable.academicYear].filter(Boolean).join(" ");
+  return {
+    title: timetable.teacher.name,
+    subtitle: term || null,
+    weeks,
+  };
+}
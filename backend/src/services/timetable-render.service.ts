@@ -0,0 +1,361 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+import {
+  Document,
+  Packer,
+  PageOrientation,
+  Paragraph,
+  ShadingType,
+  Table,
+  TableCell,
+  TableLayoutType,
+  TableRow,
+  TextRun,
+  VerticalAlign,
+  WidthType,
+} from "docx";
+import { A4_SIZE, PdfDocument } from "./pdf-writer.service";
+import {
+  buildTimetableGrid,
+  dayLabel,
+  type GridCell,
+  type GridTimetable,
+  type PageOrientation as GridOrientation,
+  type TimetableGrid,
+  type WeekGrid,
+} from "./timetable-grid.service";
+
+/**
+ * Printable Timetables
+ *
+ * Renders the weekly grid of a timetable (see timetable-grid.service) as an
+ * A4 PDF or DOCX: teacher name and term on top, days across, periods down,
+ * one page per week of the rotation. PDF grids that do not fit a page
+ * continue on the next one with the day headers repeated.
+ */
+
+export type PrintFormat = "pdf" | "docx";
+
+export const PRINT_CONTENT_TYPES: Record<PrintFormat, string> = {
+  pdf: "application/pdf",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+};
+
+const HEADER_FILL = "1F2937";
+const HEADER_TEXT = "FFFFFF";
+const BORDER_COLOR = "9CA3AF";
+const EMPTY_FILL = "FFFFFF";
+const MUTED_TEXT = "4B5563";
+
+// ---------------------------------------------------------------------------
+// PDF
+// ---------------------------------------------------------------------------
+
+const PDF_MARGIN = 36;
+const PDF_TIME_COLUMN = 58;
+const PDF_HEADER_ROW = 20;
+const PDF_MIN_ROW = 28;
+const PDF_MAX_ROW = 64;
+const PDF_PADDING = 3;
+
+function pdfPageSize(orientation: GridOrientation) {
+  return orientation === "landscape"
+    ? { width: A4_SIZE.height, height: A4_SIZE.width }
+    : { ...A4_SIZE };
+}
+
+// Title block at the top of each page; returns the y below it
+function drawPdfTitle(pdf: PdfDocument, grid: TimetableGrid, week: WeekGrid, width: number): number {
+  let y = PDF_MARGIN;
+  pdf.text(PDF_MARGIN, y, pdf.fitText(grid.title, width, 18, "bold"), 18, "bold");
+  y += 24;
+
+  const subtitle = [grid.subtitle, week.heading].filter(Boolean).join(" · ");
+  if (subtitle) {
+    pdf.text(PDF_MARGIN, y, pdf.fitText(subtitle, width, 11), 11, "regular", MUTED_TEXT);
+    y += 18;
+  }
+  return y + 4;
+}
+
+// Lines of text from the top of a box, as many as fit
+function drawPdfLines(
+  pdf: PdfDocument,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  lines: { text: string; size: number; bold?: boolean; color?: string }[]
+): void {
+  let top = y + PDF_PADDING;
+  for (const line of lines) {
+    const lineHeight = line.size * 1.2;
+    if (top + lineHeight > y + height) break;
+    const font = line.bold ? "bold" : "regular";
+    pdf.text(x + PDF_PADDING, top, pdf.fitText(line.text, width - 2 * PDF_PADDING, line.size, font), line.size, font, line.color);
+    top += lineHeight;
+  }
+}
+
+function drawPdfCell(pdf: PdfDocument, x: number, y: number, width: number, height: number, cells: GridCell[]): void {
+  if (cells.length === 0) {
+    pdf.rect(x, y, width, height, { fill: EMPTY_FILL, stroke: BORDER_COLOR });
+    return;
+  }
+
+  // Blocks sharing a slot split the cell
+  const partHeight = height / cells.length;
+  const size = Math.min(9, Math.max(6, partHeight / 3.6));
+  cells.forEach((cell, index) => {
+    const top = y + index * partHeight;
+    pdf.rect(x, top, width, partHeight, { fill: cell.color, stroke: BORDER_COLOR });
+    drawPdfLines(pdf, x, top, width, partHeight, [
+      { text: cell.subject, size, bold: true },
+      ...cell.details.map((detail) => ({ text: detail, size: size - 1, color: MUTED_TEXT })),
+    ]);
+  });
+}
+
+function drawPdfHeaderRow(pdf: PdfDocument, week: WeekGrid, y: number, dayWidth: number): void {
+  pdf.rect(PDF_MARGIN, y, PDF_TIME_COLUMN, PDF_HEADER_ROW, { fill: HEADER_FILL, stroke: BORDER_COLOR });
+  pdf.text(PDF_MARGIN + PDF_PADDING, y + 5.5, "Time", 9, "bold", HEADER_TEXT);
+  week.days.forEach((day, index) => {
+    const x = PDF_MARGIN + PDF_TIME_COLUMN + index * dayWidth;
+    pdf.rect(x, y, dayWidth, PDF_HEADER_ROW, { fill: HEADER_FILL, stroke: BORDER_COLOR });
+    pdf.text(x + PDF_PADDING, y + 5.5, pdf.fitText(dayLabel(day), dayWidth - 2 * PDF_PADDING, 9, "bold"), 9, "bold", HEADER_TEXT);
+  });
+}
+
+function drawPdfWeek(pdf: PdfDocument, grid: TimetableGrid, week: WeekGrid, orientation: GridOrientation): void {
+  const page = pdfPageSize(orientation);
+  const tableWidth = page.width - 2 * PDF_MARGIN;
+  const dayWidth = (tableWidth - PDF_TIME_COLUMN) / week.days.length;
+
+  let index = 0;
+  do {
+    pdf.addPage(page.width, page.height);
+    let y = drawPdfTitle(pdf, grid, week, tableWidth);
+
+    if (week.periods.length === 0) {
+      pdf.text(PDF_MARGIN, y, "No lessons", 11, "regular", MUTED_TEXT);
+      return;
+    }
+
+    drawPdfHeaderRow(pdf, week, y, dayWidth);
+    y += PDF_HEADER_ROW;
+
+    const available = page.height - PDF_MARGIN - y;
+    const remaining = week.periods.length - index;
+    const rowHeight = Math.min(PDF_MAX_ROW, Math.max(PDF_MIN_ROW, available / remaining));
+    const rows = Math.max(1, Math.min(remaining, Math.floor(available / rowHeight)));
+
+    for (const period of week.periods.slice(index, index + rows)) {
+      pdf.rect(PDF_MARGIN, y, PDF_TIME_COLUMN, rowHeight, { fill: EMPTY_FILL, stroke: BORDER_COLOR });
+      drawPdfLines(pdf, PDF_MARGIN, y, PDF_TIME_COLUMN, rowHeight, [
+        { text: period.startTime, size: 9, bold: true },
+        { text: period.endTime, size: 8, color: MUTED_TEXT },
+      ]);
+      week.cells[index].forEach((cells, day) => {
+        drawPdfCell(pdf, PDF_MARGIN + PDF_TIME_COLUMN + day * dayWidth, y, dayWidth, rowHeight, cells);
+      });
+      y += rowHeight;
+      index++;
+    }
+  } while (index < week.periods.length);
+}
+
+/**
+ * Render a timetable as a printable PDF grid
+ */
+export function renderTimetablePdf(timetable: GridTimetable, orientation: GridOrientation = "landscape"): Buffer {
+  const grid = buildTimetableGrid(timetable);
+  const pdf = new PdfDocument(grid.subtitle ? `${grid.title} - ${grid.subtitle}` : grid.title);
+
+  for (const week of grid.weeks) {
+    drawPdfWeek(pdf, grid, week, orientation);
+  }
+  return pdf.toBuffer();
+}
+
+// ---------------------------------------------------------------------------
+// DOCX
+// ---------------------------------------------------------------------------
+
+// Twips (1/20 pt); A4 with half-inch margins
+const DOCX_MARGIN = 720;
+const DOCX_PAGE = { width: 11906, height: 16838 };
+const DOCX_TIME_COLUMN = 1100;
+
+function docxShading(fill: string) {
+  return { type: ShadingType.CLEAR, color: "auto", fill };
+}
+
+function docxHeaderCell(text: string, width: number): TableCell {
+  return new TableCell({
+    width: { size: width, type: WidthType.DXA },
+    shading: docxShading(HEADER_FILL),
+    verticalAlign: VerticalAlign.CENTER,
+    children: [new Paragraph({ children: [new TextRun({ text, bold: true, size: 18, color: HEADER_TEXT })] })],
+  });
+}
+
+function docxBlockParagraphs(cell: GridCell): Paragraph[] {
+  return [
+    new Paragraph({ children: [new TextRun({ text: cell.subject, bold: true, size: 18 })] }),
+    ...cell.details.map(
+      (detail) => new Paragraph({ children: [new TextRun({ text: detail, size: 16, color: MUTED_TEXT })] })
+    ),
+  ];
+}
+
+// Word cells have one fill, so blocks sharing a slot are nested as a table
+function docxSlotCell(cells: GridCell[], width: number): TableCell {
+  const base = { width: { size: width, type: WidthType.DXA }, margins: { top: 40, bottom: 40, left: 60, right: 60 } };
+
+  if (cells.length === 0) {
+    return new TableCell({ ...base, children: [new Paragraph("")] });
+  }
+  if (cells.length === 1) {
+    return new TableCell({ ...base, shading: docxShading(cells[0].color), children: docxBlockParagraphs(cells[0]) });
+  }
+  return new TableCell({
+    ...base,
+    children: [
+      new Table({
+        width: { size: 100, type: WidthType.PERCENTAGE },
+        rows: cells.map(
+          (cell) =>
+            new TableRow({
+              children: [new TableCell({ shading: docxShading(cell.color), children: docxBlockParagraphs(cell) })],
+            })
+        ),
+      }),
+      new Paragraph(""),
+    ],
+  });
+}
+
+function docxWeekTable(week: WeekGrid, tableWidth: number): Table {
+  const dayWidth = Math.floor((tableWidth - DOCX_TIME_COLUMN) / week.days.length);
+
+  return new Table({
+    width: { size: tableWidth, type: WidthType.DXA },
+    columnWidths: [DOCX_TIME_COLUMN, ...week.days.map(() => dayWidth)],
+    layout: TableLayoutType.FIXED,
+    rows: [
+      new TableRow({
+        tableHeader: true,
+        children: [docxHeaderCell("Time", DOCX_TIME_COLUMN), ...week.days.map((day) => docxHeaderCell(dayLabel(day), dayWidth))],
+      }),
+      ...week.periods.map(
+        (period, index) =>
+          new TableRow({
+            cantSplit: true,
+            children: [
+              new TableCell({
+                width: { size: DOCX_TIME_COLUMN, type: WidthType.DXA },
+                margins: { top: 40, bottom: 40, left: 60, right: 60 },
+                children: [
+                  new Paragraph({ children: [new TextRun({ text: period.startTime, bold: true, size: 18 })] }),
+                  new Paragraph({ children: [new TextRun({ text: period.endTime, size: 16, color: MUTED_TEXT })] }),
+                ],
+              }),
+              ...week.cells[index].map((cells) => docxSlotCell(cells, dayWidth)),
+            ],
+          })
+      ),
+    ],
+  });
+}
+
+/**
+ * Render a timetable as a printable DOCX grid
+ */
+export async function renderTimetableDocx(
+  timetable: GridTimetable,
+  orientation: GridOrientation = "landscape"
+): Promise<Buffer> {
+  const grid = buildTimetableGrid(timetable);
+  const pageWidth = orientation === "landscape" ? DOCX_PAGE.height : DOCX_PAGE.width;
+  const tableWidth = pageWidth - 2 * DOCX_MARGIN;
+
+  const doc = new Document({
+    title: grid.subtitle ? `${grid.title} - ${grid.subtitle}` : grid.title,
+    sections: grid.weeks.map((week) => ({
+      properties: {
+        page: {
+          size: {
+            ...DOCX_PAGE,
+            orientation: orientation === "landscape" ? PageOrientation.LANDSCAPE : PageOrientation.PORTRAIT,
+          },
+          margin: { top: DOCX_MARGIN, right: DOCX_MARGIN, bottom: DOCX_MARGIN, left: DOCX_MARGIN },
+        },
+      },
+      children: [
+        new Paragraph({ children: [new TextRun({ text: grid.title, bold: true, size: 36 })] }),
+        ...([grid.subtitle, week.heading].some(Boolean)
+          ? [
+              new Paragraph({
+                spacing: { after: 160 },
+                children: [
+                  new TextRun({ text: [grid.subtitle, week.heading].filter(Boolean).join(" · "), size: 22, color: MUTED_TEXT }),
+                ],
+              }),
+            ]
+          : []),
+        week.periods.length > 0
+          ? docxWeekTable(week, tableWidth)
+          : new Paragraph({ children: [new TextRun({ text: "No lessons", color: MUTED_TEXT })] }),
+      ],
+    })),
+  });
+
+  return Packer.toBuffer(doc);
+}
+
+/**
+ * Render a timetable in the given format
+ */
+export async function renderTimetable(
+  timetable: GridTimetable,
+  format: PrintFormat,
+  orientation: GridOrientation
+): Promise<Buffer> {
+  return format === "pdf" ? renderTimetablePdf(timetable, orientation) : renderTimetableDocx(timetable, orientation);
+}
@@ -0,0 +1,255 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+import { ProcessingStatus, type Prisma } from "@prisma/client";
+import { addBatchFlow } from "../queues/batch.queue";
+import type { TimetableJobData } from "../queues/timetable.queue";
+import { ArchiveError, removeArchiveFiles, unpackArchive } from "./archive.service";
+import { databaseService, prisma } from "./database.service";
+import { writeCsv } from "./spreadsheet.service";
+import { teacherForFile } from "./teacher.service";
+import { logInfo } from "../utils/logger";
+
+/**
+ * Batch Uploads
+ *
+ * A ZIP of timetables becomes one timetable per file, queued as the children
+ * of a single BullMQ flow whose parent job marks the batch complete. The
+ * teacher comes from the file name when it holds one ("Jane Smith.pdf");
+ * otherwise the timetable waits under a placeholder teacher and the worker
+ * assigns the teacher named in the document. Entries that were not queued
+ * stay on the batch with the reason, so the summary accounts for every file.
+ */
+
+export type TeacherSource = "file_name" | "document";
+
+export interface BatchEntry {
+  path: string; // Path inside the archive
+  timetableId?: string;
+  jobId?: string;
+  teacherFrom?: TeacherSource;
+  skipped?: string; // Why the entry was not queued
+}
+
+export type BatchFileStatus = ProcessingStatus | "SKIPPED" | "DELETED";
+
+export interface BatchFile {
+  path: string;
+  status: BatchFileStatus;
+  timetableId?: string;
+  jobId?: string;
+  teacher?: { id: string; name: string };
+  teacherFrom?: TeacherSource;
+  timeBlocksCount?: number;
+  error?: string;
+}
+
+export interface UploadBatchStatus {
+  id: string;
+  originalFileName: string;
+  status: "processing" | "completed";
+  progress: number; // Percentage of queued files that have finished
+  totalFiles: number;
+  counts: Record<"pending" | "processing" | "completed" | "failed" | "cancelled" | "skipped", number>;
+  createdAt: Date;
+  completedAt: Date | null;
+  files: BatchFile[];
+}
+
+/**
+ * Unpack an uploaded ZIP and queue a timetable job for every document in it
+ * Throws ArchiveError when the archive is unusable or holds no timetables.
+ */
+export async function createUploadBatch(schoolId: string, archive: { path: string; originalName: string }) {
+  const { files, skipped } = await unpackArchive(archive.path);
+  if (files.length === 0) {
+    throw new ArchiveError("The archive holds no PNG, JPEG, PDF or DOCX timetables", skipped);
+  }
+
+  const batch = await prisma.uploadBatch.create({
+    data: { schoolId, originalFileName: archive.originalName, totalFiles: files.length },
+  });
+
+  const timetableIds: string[] = [];
+  try {
+    const entries: BatchEntry[] = skipped.map((entry) => ({ path: entry.entryPath, skipped: entry.reason }));
+    const jobs: TimetableJobData[] = [];
+
+    for (const file of files) {
+      const { teacherId, fromDocument } = await teacherForFile(schoolId, file.fileName);
+
+      const timetable = await databaseService.createTimetable({
+        schoolId,
+        teacherId,
+        filePath: file.path,
+        fileType: file.mimeType,
+        originalFileName: file.fileName,
+        fileSize: file.size,
+      });
+      timetableIds.push(timetable.id);
+
+      jobs.push({
+        timetableId: timetable.id,
+        schoolId,
+        teacherId,
+        filePath: file.path,
+        fileType: file.mimeType,
+        fileName: file.fileName,
+        batchId: batch.id,
+        teacherFromDocument: fromDocument || undefined,
+      });
+      entries.push({ path: file.entryPath, timetableId: timetable.id, teacherFrom: fromDocument ? "document" : "file_name" });
+    }
+
+    const flow = await addBatchFlow({ batchId: batch.id, schoolId }, jobs);
+    const jobIds = new Map((flow.children ?? []).map((child) => [child.job.data.timetableId, child.job.id]));
+    for (const entry of entries) {
+      if (!entry.timetableId) continue;
+      entry.jobId = jobIds.get(entry.timetableId);
+      if (entry.jobId) await databaseService.setTimetableJob(entry.timetableId, entry.jobId);
+    }
+
+    entries.sort((a, b) => a.path.localeCompare(b.path, undefined, { numeric: true, sensitivity: "base" }));
+    logInfo(`Batch ${batch.id}: ${files.length} timetable(s) queued, ${skipped.length} entries skipped`);
+
+    return await prisma.uploadBatch.update({
+      where: { id: batch.id },
+      data: { entries: entries as unknown as Prisma.InputJsonValue, flowJobId: flow.job.id },
+    });
+  } catch (error) {
+    await prisma.timetable.deleteMany({ where: { id: { in: timetableIds } } });
+    await prisma.uploadBatch.delete({ where: { id: batch.id } });
+    await removeArchiveFiles(files);
+    throw error;
+  }
+}
+
+/**
+ * Progress of a batch, with the outcome of every archive entry
+ * Returns null when the batch is not in the school.
+ */
+export async function getUploadBatch(schoolId: string, batchId: string): Promise<UploadBatchStatus | null> {
+  const batch = await prisma.uploadBatch.findFirst({ where: { id: batchId, schoolId } });
+  if (!batch) return null;
+
+  const entries = batch.entries as unknown as BatchEntry[];
+  const timetables = await prisma.timetable.findMany({
+    where: { schoolId, id: { in: entries.flatMap((entry) => (entry.timetableId ? [entry.timetableId] : [])) } },
+    include: {
+      teacher: { select: { id: true, name: true } },
+      _count: { select: { timeBlocks: { where: { supersededAt: null } } } },
+    },
+  });
+  const byId = new Map(timetables.map((timetable) => [timetable.id, timetable]));
+
+  const files: BatchFile[] = entries.map((entry) => {
+    if (entry.skipped) {
+      return { path: entry.path, status: "SKIPPED", error: entry.skipped };
+    }
+    const timetable = byId.get(entry.timetableId ?? "");
+    if (!timetable) {
+      return { path: entry.path, status: "DELETED", timetableId: entry.timetableId, jobId: entry.jobId };
+    }
+    return {
+      path: entry.path,
+      status: timetable.processingStatus,
+      timetableId: timetable.id,
+      jobId: entry.jobId,
+      teacher: timetable.teacher,
+      teacherFrom: entry.teacherFrom,
+      timeBlocksCount: timetable._count.timeBlocks,
+      error: timetable.errorMessage ?? undefined,
+    };
+  });
+
+  const count = (status: BatchFileStatus) => files.filter((file) => file.status === status).length;
+  const counts = {
+    pending: count(ProcessingStatus.PENDING),
+    processing: count(ProcessingStatus.PROCESSING),
+    completed: count(ProcessingStatus.COMPLETED),
+    failed: count(ProcessingStatus.FAILED),
+    cancelled: count(ProcessingStatus.CANCELLED),
+    skipped: count("SKIPPED"),
+  };
+  // A deleted timetable will not change any more, so it counts as finished
+  const finished = batch.totalFiles - counts.pending - counts.processing;
+
+  return {
+    id: batch.id,
+    originalFileName: batch.originalFileName,
+    status: batch.completedAt || finished >= batch.totalFiles ? "completed" : "processing",
+    progress: batch.totalFiles > 0 ? Math.round((finished / batch.totalFiles) * 100) : 100,
+    totalFiles: batch.totalFiles,
+    counts,
+    createdAt: batch.createdAt,
+    completedAt: batch.completedAt,
+    files,
+  };
+}
+
+/**
+ * Record that every job of a batch has finished (run by the flow's parent job)
+ * A batch removed with its school in the meantime is ignored.
+ */
+export async function completeUploadBatch(batchId: string): Promise<void> {
+  const { count } = await prisma.uploadBatch.updateMany({
+    where: { id: batchId },
+    data: { completedAt: new Date() },
+  });
+  if (count > 0) {
+    logInfo(`Batch ${batchId} finished processing`);
+  }
+}
+
+/**
+ * CSV summary of a batch: one row per archive entry
+ */
+export function buildBatchSummary(batch: UploadBatchStatus): string {
+  return writeCsv([
+    ["file", "status", "teacher", "teacherFrom", "timetableId", "timeBlocks", "error"],
+    ...batch.files.map((file) => [
+      file.path,
+      file.status,
+      file.teacher?.name,
+      file.teacherFrom,
+      file.timetableId,
+      file.timeBlocksCount,
+      file.error,
+    ]),
+  ]);
+}
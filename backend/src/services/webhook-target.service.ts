@@ -0,0 +1,207 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+import dns from "dns";
+import http from "http";
+import https from "https";
+import net from "net";
+
+/**
+ * Webhook targets
+ *
+ * Webhook URLs are chosen by API clients, so the server must not be usable to
+ * reach itself or the internal network. Private, loopback, link-local and
+ * other non-public addresses are refused when a subscription is saved, and
+ * again when a delivery connects: the address the host name resolves to then
+ * is the one checked, so a name cannot be pointed at an internal address
+ * after it was accepted.
+ */
+
+export class WebhookTargetError extends Error {
+  constructor(public readonly url: string, public readonly reason: string) {
+    super(`Webhook URL ${url} is not allowed: ${reason}`);
+    this.name = "WebhookTargetError";
+  }
+}
+
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], // "This" network
+  ["10.0.0.0", 8], // Private
+  ["100.64.0.0", 10], // Carrier-grade NAT
+  ["127.0.0.0", 8], // Loopback
+  ["169.254.0.0", 16], // Link-local, including cloud metadata endpoints
+  ["172.16.0.0", 12], // Private
+  ["192.0.0.0", 24], // Protocol assignments
+  ["192.168.0.0", 16], // Private
+  ["198.18.0.0", 15], // Benchmarking
+  ["224.0.0.0", 4], // Multicast
+  ["240.0.0.0", 4], // Reserved and broadcast
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128], // Unspecified
+  ["::1", 128], // Loopback
+  ["64:ff9b::", 96], // IPv4/IPv6 translation
+  ["fc00::", 7], // Unique local
+  ["fe80::", 10], // Link-local
+  ["ff00::", 8], // Multicast
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+/**
+ * Whether an IP address is not a public internet address
+ * IPv4-mapped IPv6 addresses are judged by their IPv4 address.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return false;
+
+  if (family === 6) {
+    // The URL parser writes IPv6 addresses in one canonical form, e.g. [::ffff:7f00:1]
+    const mapped = new URL(`http://[${address}]`).hostname.match(/^\[::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})\]$/);
+    if (mapped) {
+      const high = parseInt(mapped[1], 16);
+      const low = parseInt(mapped[2], 16);
+      return isPrivateAddress(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+    }
+  }
+  return BLOCKED_ADDRESSES.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+// Host name of a URL, without the brackets of an IPv6 literal
+function targetHost(url: string): string {
+  return new URL(url).hostname.replace(/^\[(.*)\]$/, "$1");
+}
+
+/**
+ * Refuse a URL whose host is, or resolves to, a non-public address
+ * A host name that does not resolve yet is accepted; deliveries check it again.
+ */
+export async function checkWebhookTarget(url: string): Promise<void> {
+  const host = targetHost(url);
+
+  if (net.isIP(host)) {
+    if (isPrivateAddress(host)) throw new WebhookTargetError(url, `${host} is not a public address`);
+    return;
+  }
+
+  let addresses: dns.LookupAddress[];
+  try {
+    addresses = await dns.promises.lookup(host, { all: true, verbatim: true });
+  } catch {
+    return;
+  }
+
+  const blocked = addresses.find((entry) => isPrivateAddress(entry.address));
+  if (blocked) throw new WebhookTargetError(url, `${host} resolves to ${blocked.address}, which is not a public address`);
+}
+
+export interface WebhookRequest {
+  headers: Record<string, string>;
+  body: string;
+  timeoutMs: number;
+  // Stored part of the response body
+  responseLimit: number;
+  // Allow non-public targets (local development)
+  allowPrivate: boolean;
+}
+
+export interface WebhookResponse {
+  status: number;
+  body: string;
+}
+
+// dns.lookup for http.request that fails on non-public addresses
+function publicLookup(url: string): net.LookupFunction {
+  return ((hostname: string, options: dns.LookupOptions, callback: (...args: unknown[]) => void) => {
+    dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+      if (error) return callback(error);
+
+      const blocked = addresses.find((entry) => isPrivateAddress(entry.address));
+      if (blocked) {
+        return callback(
+          new WebhookTargetError(url, `${hostname} resolves to ${blocked.address}, which is not a public address`)
+        );
+      }
+
+      if (options.all) return callback(null, addresses);
+      return callback(null, addresses[0].address, addresses[0].family);
+    });
+  }) as net.LookupFunction;
+}
+
+/**
+ * POST a webhook body without following redirects
+ * Rejects with WebhookTargetError when the target is not a public address.
+ */
+export function postWebhook(url: string, request: WebhookRequest): Promise<WebhookResponse> {
+  const target = new URL(url);
+  const host = targetHost(url);
+  if (!request.allowPrivate && net.isIP(host) && isPrivateAddress(host)) {
+    return Promise.reject(new WebhookTargetError(url, `${host} is not a public address`));
+  }
+
+  const send = target.protocol === "https:" ? https.request : http.request;
+
+  return new Promise((resolve, reject) => {
+    const outgoing = send(
+      target,
+      {
+        method: "POST",
+        headers: { ...request.headers, "Content-Length": Buffer.byteLength(request.body) },
+        signal: AbortSignal.timeout(request.timeoutMs),
+        ...(!request.allowPrivate && { lookup: publicLookup(url) }),
+      },
+      (response) => {
+        let body = "";
+        response.setEncoding("utf8");
+        response.on("data", (chunk: string) => {
+          if (body.length < request.responseLimit) body += chunk;
+        });
+        const finish = () => resolve({ status: response.statusCode ?? 0, body: body.slice(0, request.responseLimit) });
+        response.on("end", finish);
+        response.on("error", finish);
+      }
+    );
+    outgoing.on("error", reject);
+    outgoing.end(request.body);
+  });
+}
@@ -0,0 +1,317 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+import crypto from "crypto";
+import { Prisma, WebhookDeliveryStatus, type WebhookDelivery } from "@prisma/client";
+import { prisma } from "./database.service";
+import { addWebhookJob } from "../queues/webhook.queue";
+import { config } from "../config/env";
+import { WebhookTargetError, checkWebhookTarget, postWebhook } from "./webhook-target.service";
+import { logError, logInfo, logWarn } from "../utils/logger";
+
+/**
+ * Webhooks
+ *
+ * Integrators subscribe a URL to timetable events instead of polling job
+ * status. Each event becomes one delivery per matching subscription of the
+ * school, sent by the webhook worker with retries and exponential backoff.
+ * Bodies are signed with the subscription's secret:
+ *
+ *   X-Webhook-Signature: sha256=HMAC_SHA256(secret, `${X-Webhook-Timestamp}.${body}`)
+ *
+ * so receivers can check both the sender and the age of a request.
+ * Emitting never fails the caller; problems are logged.
+ * Only public addresses are accepted as targets (see webhook-target.service).
+ */
+
+export const WEBHOOK_EVENTS = [
+  "timetable.completed", // Extraction or import finished
+  "timetable.failed", // Extraction failed
+  "timetable.cancelled", // Processing job cancelled
+  "timetable.updated", // Blocks added, deleted or replaced, or timetable details changed
+  "block.corrected", // A time block was corrected or a correction reverted
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+export interface WebhookSubscriptionInput {
+  url: string;
+  events: WebhookEvent[];
+  description?: string | null;
+  active?: boolean;
+}
+
+// Endpoints must answer within this time
+const DELIVERY_TIMEOUT_MS = 10000;
+// Stored part of each response, for debugging
+const RESPONSE_BODY_LIMIT = 1000;
+
+/**
+ * Signature header value for a body sent at a time (seconds since the epoch)
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+/**
+ * Throws WebhookTargetError for a URL on a private, loopback or link-local address
+ */
+export async function checkWebhookUrl(url: string): Promise<void> {
+  if (config.env.WEBHOOK_ALLOW_PRIVATE_TARGETS) return;
+  await checkWebhookTarget(url);
+}
+
+/**
+ * Create a subscription; its signing secret is only returned here
+ */
+export async function createWebhookSubscription(schoolId: string, input: WebhookSubscriptionInput) {
+  await checkWebhookUrl(input.url);
+
+  return prisma.webhookSubscription.create({
+    data: {
+      schoolId,
+      url: input.url,
+      events: input.events,
+      description: input.description ?? null,
+      active: input.active ?? true,
+      secret: `whsec_${crypto.randomBytes(24).toString("base64url")}`,
+    },
+  });
+}
+
+export async function listWebhookSubscriptions(schoolId: string) {
+  return prisma.webhookSubscription.findMany({
+    where: { schoolId },
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+export async function findWebhookSubscription(schoolId: string, subscriptionId: string) {
+  return prisma.webhookSubscription.findFirst({ where: { id: subscriptionId, schoolId } });
+}
+
+/**
+ * Update a subscription (null when it does not exist)
+ */
+export async function updateWebhookSubscription(
+  schoolId: string,
+  subscriptionId: string,
+  input: Partial<WebhookSubscriptionInput>
+) {
+  const subscription = await findWebhookSubscription(schoolId, subscriptionId);
+  if (!subscription) return null;
+  if (input.url !== undefined) await checkWebhookUrl(input.url);
+
+  return prisma.webhookSubscription.update({
+    where: { id: subscription.id },
+    data: {
+      ...(input.url !== undefined && { url: input.url }),
+      ...(input.events !== undefined && { events: input.events }),
+      ...(input.description !== undefined && { description: input.description }),
+      ...(input.active !== undefined && { active: input.active }),
+    },
+  });
+}
+
+/**
+ * Delete a subscription with its delivery log (null when it does not exist)
+ */
+export async function deleteWebhookSubscription(schoolId: string, subscriptionId: string) {
+  const subscription = await findWebhookSubscription(schoolId, subscriptionId);
+  if (!subscription) return null;
+
+  return prisma.webhookSubscription.delete({ where: { id: subscription.id } });
+}
+
+export async function listWebhookDeliveries(
+  subscriptionId: string,
+  filter: { status?: WebhookDeliveryStatus; limit?: number } = {}
+) {
+  return prisma.webhookDelivery.findMany({
+    where: { subscriptionId, ...(filter.status && { status: filter.status }) },
+    orderBy: { createdAt: "desc" },
+    take: filter.limit ?? 50,
+  });
+}
+
+async function queueDelivery(delivery: WebhookDelivery): Promise<void> {
+  try {
+    await addWebhookJob(delivery.id);
+  } catch (error) {
+    logError(`Could not queue webhook delivery ${delivery.id}`, error);
+    await prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: { status: WebhookDeliveryStatus.FAILED, error: "Could not be queued" },
+    });
+  }
+}
+
+/**
+ * Send an event to every active subscription of the school that wants it
+ */
+export async function emitWebhookEvent(
+  schoolId: string,
+  event: WebhookEvent,
+  data: Record<string, unknown>
+): Promise<void> {
+  try {
+    const subscriptions = await prisma.webhookSubscription.findMany({
+      where: { schoolId, active: true, events: { has: event } },
+    });
+    if (subscriptions.length === 0) return;
+
+    const eventId = crypto.randomUUID();
+    const payload = { id: eventId, event, createdAt: new Date().toISOString(), schoolId, data };
+
+    for (const subscription of subscriptions) {
+      const delivery = await prisma.webhookDelivery.create({
+        data: { subscriptionId: subscription.id, eventId, event, payload: payload as Prisma.InputJsonValue },
+      });
+      await queueDelivery(delivery);
+    }
+
+    logInfo(`Webhook event ${event} queued for ${subscriptions.length} subscription(s)`, { eventId });
+  } catch (error) {
+    logError(`Failed to emit webhook event ${event}`, error);
+  }
+}
+
+/**
+ * Send a delivery again as a new delivery with the same event id and body
+ */
+export async function redeliverWebhook(delivery: WebhookDelivery) {
+  const redelivery = await prisma.webhookDelivery.create({
+    data: {
+      subscriptionId: delivery.subscriptionId,
+      eventId: delivery.eventId,
+      event: delivery.event,
+      payload: delivery.payload as Prisma.InputJsonValue,
+      redeliveryOfId: delivery.id,
+    },
+  });
+  await queueDelivery(redelivery);
+  return redelivery;
+}
+
+export class WebhookDeliveryError extends Error {
+  constructor(message: string, public readonly responseStatus?: number) {
+    super(message);
+    this.name = "WebhookDeliveryError";
+  }
+}
+
+/**
+ * Make one attempt at a delivery
+ * Throws WebhookDeliveryError when the endpoint cannot be reached or does not answer 2xx,
+ * so the queue retries it; `finalAttempt` marks the delivery failed instead of pending.
+ * A target that resolves to a non-public address fails the delivery without a retry.
+ */
+export async function attemptWebhookDelivery(deliveryId: string, finalAttempt: boolean): Promise<void> {
+  const delivery = await prisma.webhookDelivery.findUnique({
+    where: { id: deliveryId },
+    include: { subscription: true },
+  });
+  if (!delivery || delivery.status !== WebhookDeliveryStatus.PENDING) return;
+
+  const { subscription } = delivery;
+  if (!subscription.active) {
+    await prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: { status: WebhookDeliveryStatus.FAILED, error: "Webhook is disabled" },
+    });
+    return;
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const attemptedAt = new Date();
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+  // A target on a non-public address is not retried
+  let blocked = false;
+
+  try {
+    const response = await postWebhook(subscription.url, {
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "Timetable-Webhooks/1.0",
+        "X-Webhook-Id": delivery.eventId,
+        "X-Webhook-Delivery": delivery.id,
+        "X-Webhook-Event": delivery.event,
+        "X-Webhook-Timestamp": String(timestamp),
+        "X-Webhook-Signature": signWebhookPayload(subscription.secret, timestamp, body),
+      },
+      body,
+      timeoutMs: DELIVERY_TIMEOUT_MS,
+      responseLimit: RESPONSE_BODY_LIMIT,
+      allowPrivate: config.env.WEBHOOK_ALLOW_PRIVATE_TARGETS,
+    });
+    responseStatus = response.status;
+    responseBody = response.body;
+    if (response.status < 200 || response.status >= 300) {
+      error = `Endpoint answered ${response.status}`;
+    }
+  } catch (requestError) {
+    blocked = requestError instanceof WebhookTargetError;
+    error = requestError instanceof Error ? requestError.message : String(requestError);
+  }
+
+  await prisma.webhookDelivery.update({
+    where: { id: delivery.id },
+    data: {
+      attempts: { increment: 1 },
+      lastAttemptAt: attemptedAt,
+      responseStatus,
+      responseBody,
+      error,
+      ...(error === null && { status: WebhookDeliveryStatus.SUCCEEDED, deliveredAt: new Date() }),
+      ...(error !== null && (finalAttempt || blocked) && { status: WebhookDeliveryStatus.FAILED }),
+    },
+  });
+
+  if (blocked) {
+    logWarn(`Webhook delivery ${delivery.id} to ${subscription.url} refused`, { error });
+    return;
+  }
+
+  if (error !== null) {
+    logWarn(`Webhook delivery ${delivery.id} to ${subscription.url} failed`, { error, finalAttempt });
+    throw new WebhookDeliveryError(error, responseStatus ?? undefined);
+  }
+}
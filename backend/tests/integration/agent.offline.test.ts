@@ -0,0 +1,220 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+/**
+ * Agent Workflow Tests - Offline (Local Model Stand-in, Recorded Turns)
+ * Runs the LangGraph extraction agent against a scripted OpenAI-compatible
+ * server, records its turns as fixtures and replays them without the server
+ */
+
+import http from 'http';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import { Document, Packer, Paragraph } from 'docx';
+import type { TimeBlock, TimetableData } from '../../src/services/llm.service';
+
+const DOCX_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const MAX_ITERATIONS = 3;
+
+interface ChatRequest {
+  model: string;
+  messages: { role: string; content: string | null; tool_calls?: { function: { name: string } }[] }[];
+  tool_choice?: { function?: { name: string } } | string;
+  response_format?: { type: string };
+}
+
+const block = (dayOfWeek: TimeBlock['dayOfWeek'], startTime: string, endTime: string, subject: string): TimeBlock => ({
+  dayOfWeek, weekIndex: 1, startTime, endTime, subject, classroom: 'Room 12', grade: '', section: '', notes: '',
+});
+
+const timetable = (timeBlocks: TimeBlock[]): TimetableData => ({
+  teacherName: 'Jane Smith', timeBlocks, academicYear: '', semester: '', cycleLength: 1,
+});
+
+describe('Agent Workflow Tests (local model stand-in)', () => {
+  let server: http.Server;
+  let workDir: string;
+  let docxPath: string;
+  let intelligent: typeof import('../../src/services/intelligent/intelligent.service');
+  let agentTools: typeof import('../../src/services/intelligent/agent.tools');
+  let config: typeof import('../../src/config/env').config;
+  let processingLogs: jest.SpyInstance;
+  let modelRequests = 0;
+  // What the stand-in returns when asked to structure the document
+  let structured: TimetableData;
+
+  // Scripted agent: read the document, structure it, then stop
+  const agentTurn = (request: ChatRequest) => {
+    const called = request.messages.flatMap((message) => (message.tool_calls ?? []).map((call) => call.function.name));
+    const next = ['parse_docx', 'structure_timetable'].find((name) => !called.includes(name));
+    return next
+      ? { content: '', tool_calls: [{ id: `call_${called.length + 1}`, type: 'function', function: { name: next, arguments: '{}' } }] }
+      : { content: 'The timetable is structured.' };
+  };
+
+  const reply = (request: ChatRequest) => {
+    if (request.response_format?.type === 'json_schema') {
+      return { content: JSON.stringify(structured) };
+    }
+    if (typeof request.tool_choice === 'object' && request.tool_choice.function) {
+      const { name } = request.tool_choice.function;
+      return { content: '', tool_calls: [{ id: 'call_structure', type: 'function', function: { name, arguments: JSON.stringify(structured) } }] };
+    }
+    return agentTurn(request);
+  };
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        modelRequests++;
+        const request = JSON.parse(body) as ChatRequest;
+        const message = { role: 'assistant', ...reply(request) };
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({
+          id: `chatcmpl-${modelRequests}`,
+          object: 'chat.completion',
+          created: 0,
+          model: request.model,
+          choices: [{ index: 0, message, finish_reason: 'tool_calls' in message ? 'tool_calls' : 'stop' }],
+          usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+        }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-offline-'));
+    docxPath = path.join(workDir, 'jane-smith.docx');
+    const document = new Document({
+      sections: [{ children: ['Jane Smith', 'Monday 09:00-10:00 Maths Room 12', 'Monday 10:00-11:00 Science Room 12']
+        .map((text) => new Paragraph(text)) }],
+    });
+    fs.writeFileSync(docxPath, await Packer.toBuffer(document));
+
+    // Read by the configuration when the services load
+    process.env.DATABASE_URL = process.env.DATABASE_URL || 'postgresql://offline@localhost/unused';
+    process.env.AI_PROVIDER_MODE = 'record';
+    process.env.AI_FIXTURES_DIR = path.join(workDir, 'fixtures');
+    process.env.LOCAL_LLM_BASE_URL = `http://127.0.0.1:${port}/v1`;
+    process.env.LOCAL_LLM_MODEL = 'stand-in';
+    process.env.LOCAL_LLM_TOOL_CALLING = 'true';
+    process.env.AGENT_MAX_ITERATIONS = String(MAX_ITERATIONS);
+    intelligent = require('../../src/services/intelligent/intelligent.service');
+    agentTools = require('../../src/services/intelligent/agent.tools');
+    config = require('../../src/config/env').config;
+  });
+
+  beforeEach(() => {
+    const { databaseService } = require('../../src/services/database.service');
+    processingLogs = jest.spyOn(databaseService, 'createProcessingLog').mockResolvedValue({});
+    config.env.AI_PROVIDER_MODE = 'record';
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  const loggedSteps = () =>
+    processingLogs.mock.calls.map(([entry]) => [entry.step, entry.status, entry.metadata.tool ?? entry.metadata.iteration]);
+
+  it('should stop once validation passes and log every tool call', async () => {
+    structured = timetable([block('MONDAY', '09:00', '10:00', 'Maths'), block('MONDAY', '10:00', '11:00', 'Science')]);
+
+    const result = await intelligent.intelligentExtraction(docxPath, DOCX_TYPE, { timetableId: 'timetable-1' });
+
+    expect(result).toMatchObject({ validationPassed: true, iterations: 1, issues: [], method: 'docx' });
+    expect(result.toolsUsed).toEqual(['parse_docx', 'structure_timetable']);
+    expect(result.timetableData?.timeBlocks.map((timeBlock) => timeBlock.subject)).toEqual(['Maths', 'Science']);
+    expect(loggedSteps()).toEqual([
+      ['agent_tool', 'success', 'parse_docx'],
+      ['agent_tool', 'success', 'structure_timetable'],
+      ['agent_validation', 'success', 1],
+    ]);
+  });
+
+  it('should replay the recorded run without calling the model', async () => {
+    const requestsBefore = modelRequests;
+    config.env.AI_PROVIDER_MODE = 'replay';
+
+    const result = await intelligent.intelligentExtraction(docxPath, DOCX_TYPE, { timetableId: 'timetable-1' });
+
+    expect(modelRequests).toBe(requestsBefore);
+    expect(result).toMatchObject({ validationPassed: true, iterations: 1 });
+    expect(result.toolsUsed).toEqual(['parse_docx', 'structure_timetable']);
+    expect(processingLogs).toHaveBeenCalledTimes(3);
+  });
+
+  it('should stop at AGENT_MAX_ITERATIONS when validation keeps failing', async () => {
+    structured = timetable([block('MONDAY', '09:00', '10:00', 'Maths'), block('MONDAY', '09:30', '10:30', 'Science')]);
+
+    const result = await intelligent.intelligentExtraction(docxPath, DOCX_TYPE, { timetableId: 'timetable-2' });
+
+    expect(result).toMatchObject({ validationPassed: false, iterations: MAX_ITERATIONS });
+    expect(result.issues).toEqual([expect.stringMatching(/^Time overlap: /)]);
+    expect(result.toolsUsed).toEqual(['parse_docx', 'structure_timetable']);
+    expect(loggedSteps()).toEqual([
+      ['agent_tool', 'success', 'parse_docx'],
+      ['agent_tool', 'success', 'structure_timetable'],
+      ['agent_validation', 'failed', 1],
+      ['agent_validation', 'failed', 2],
+      ['agent_validation', 'failed', 3],
+    ]);
+  });
+
+  it('should store each PDF page once when the pages are rendered again', async () => {
+    // pdf.js cannot load inside Jest, so the renderer is a stand-in
+    const pdfService = require('../../src/services/pdf.service');
+    jest.spyOn(pdfService, 'convertPDFToImages').mockResolvedValue([Buffer.from('page 1'), Buffer.from('page 2')]);
+
+    const pageImages: Buffer[] = [];
+    const workspace = agentTools.createAgentWorkspace(path.join(workDir, 'timetable.pdf'), 'application/pdf', { pageImages });
+    const renderPages = agentTools.createAgentTools(workspace).find((agentTool) => agentTool.name === 'render_pdf_pages')!;
+
+    await renderPages.invoke({});
+    await renderPages.invoke({});
+
+    expect(pageImages.map(String)).toEqual(['page 1', 'page 2']);
+    expect(workspace.pageImagePaths.map((pagePath) => path.basename(pagePath))).toEqual(['page-1.png', 'page-2.png']);
+    fs.rmSync(workspace.tempDir!, { recursive: true, force: true });
+  });
+});
@@ -48,10 +48,20 @@
 import request from 'supertest';
 import path from 'path';
 import fs from 'fs';
+import JSZip from 'jszip';
+import os from 'os';
 import { PrismaClient } from '@prisma/client';
 import app from '../../src/app';
+import { DEFAULT_SCHOOL_ID, createSchool, issueSchoolApiKey } from '../../src/services/school.service';
+import { artifactRun, deleteArtifactFiles, saveArtifact } from '../../src/services/artifact.service';
+import { databaseService } from '../../src/services/database.service';
+import { ingestMailMessage, pollHotFolder, pollMaildir } from '../../src/services/ingestion.service';
+import { linkTimeBlocksToCatalog } from '../../src/services/catalog.service';
+import { config } from '../../src/config/env';
 
 const prisma = new PrismaClient();
+// Requests run as the default school; its key is issued before the tests
+const api = request.agent(app);
 
 // Test timeout for real API calls
 jest.setTimeout(300000); // 5 minutes
@@ -68,6 +78,8 @@ describe('API Integration Tests - Real API Calls', () => {
     await prisma.processingLog.deleteMany({});
     await prisma.timetable.deleteMany({});
     await prisma.teacher.deleteMany({});
+    const { apiKey } = await issueSchoolApiKey(DEFAULT_SCHOOL_ID);
+    api.set('X-School-Key', apiKey);
     console.log('✅ Test data cleaned');
   });
 
@@ -84,7 +96,7 @@ describe('API Integration Tests - Real API Calls', () => {
 
   describe('Health Check Endpoints', () => {
     it('GET /health - should return server health status', async () => {
-      const response = await request(app).get('/health');
+      const response = await api.get('/health');
 
       expect(response.status).toBe(200);
       expect(response.body).toHaveProperty('status', 'healthy');
@@ -104,7 +116,7 @@ describe('API Integration Tests - Real API Calls', () => {
       }
 
       console.log('📤 Uploading PNG image for real AI processing...');
-      const response = await request(app)
+      const response = await api
         .post('/api/upload')
         .field('teacherName', 'Test Teacher')
         .field('title', 'Integration Test Timetable - PNG')
@@ -132,7 +144,7 @@ describe('API Integration Tests - Real API Calls', () => {
       }
 
       console.log('📤 Uploading JPEG image for real AI processing...');
-      const response = await request(app)
+      const response = await api
         .post('/api/upload')
         .field('teacherName', 'Test Teacher JPEG')
         .field('title', 'Integration Test Timetable - JPEG')
@@ -152,7 +164,7 @@ describe('API Integration Tests - Real API Calls', () => {
     it('POST /api/upload - should reject invalid file type', async () => {
       const testFilePath = path.join(__dirname, '../../package.json');
 
-      const response = await request(app)
+      const response = await api
         .post('/api/upload')
         .field('teacherName', 'Test Teacher')
         .attach('file', testFilePath);
@@ -163,7 +175,7 @@ describe('API Integration Tests - Real API Calls', () => {
     });
 
     it('POST /api/upload - should reject request without file', async () => {
-      const response = await request(app)
+      const response = await api
         .post('/api/upload')
         .field('teacherName', 'Test Teacher');
 
@@ -180,7 +192,7 @@ describe('API Integration Tests - Real API Calls', () => {
       }
 
       console.log('🔍 Checking job status for:', uploadedJobId);
-      const response = await request(app).get(`/api/upload/status/${uploadedJobId}`);
+      const response = await api.get(`/api/upload/status/${uploadedJobId}`);
 
       expect(response.status).toBe(200);
       expect(response.body).toHaveProperty('success', true);
@@ -197,7 +209,7 @@ describe('API Integration Tests - Real API Calls', () => {
     });
 
     it('GET /api/upload/status/:jobId - should return 404 for invalid job ID', async () => {
-      const response = await request(app).get('/api/upload/status/invalid-job-id-12345');
+      const response = await api.get('/api/upload/status/invalid-job-id-12345');
 
       expect(response.status).toBe(404);
       expect(response.body).toHaveProperty('success', false);
@@ -220,7 +232,7 @@ describe('API Integration Tests - Real API Calls', () => {
     });
 
     it('GET /api/v1/timetables - should list all timetables with real data', async () => {
-      const response = await request(app).get('/api/v1/timetables');
+      const response = await api.get('/api/v1/timetables');
 
       expect(response.status).toBe(200);
       expect(response.body).toHaveProperty('success', true);
@@ -239,7 +251,7 @@ describe('API Integration Tests - Real API Calls', () => {
     });
 
     it('GET /api/v1/timetables?page=1&limit=5 - should handle pagination', async () => {
-      const response = await request(app).get('/api/v1/timetables?page=1&limit=5');
+      const response = await api.get('/api/v1/timetables?page=1&limit=5');
 
       expect(response.status).toBe(200);
       expect(response.body.data.pagination).toHaveProperty('page', 1);
@@ -254,7 +266,7 @@ describe('API Integration Tests - Real API Calls', () => {
       }
 
       console.log('📋 Retrieving timetable:', uploadedTimetableId);
-      const response = await request(app).get(`/api/v1/timetables/${uploadedTimetableId}`);
+      const response = await api.get(`/api/v1/timetables/${uploadedTimetableId}`);
 
       expect(response.status).toBe(200);
       expect(response.body).toHaveProperty('success', true);
@@ -277,7 +289,7 @@ describe('API Integration Tests - Real API Calls', () => {
     });
 
     it('GET /api/v1/timetables/:id - should return 404 for non-existent timetable', async () => {
-      const response = await request(app).get('/api/v1/timetables/non-existent-id-12345');
+      const response = await api.get('/api/v1/timetables/non-existent-id-12345');
 
       expect(response.status).toBe(404);
       expect(response.body).toHaveProperty('success', false);
@@ -317,7 +329,7 @@ describe('API Integration Tests - Real API Calls', () => {
       };
 
       console.log('✏️ Updating block:', testBlockId);
-      const response = await request(app)
+      const response = await api
         .patch(`/api/v1/timetables/${uploadedTimetableId}/blocks/${testBlockId}`)
         .send(updateData);
 
@@ -338,7 +350,7 @@ describe('API Integration Tests - Real API Calls', () => {
         startTime: 'invalid-time-format',
       };
 
-      const response = await request(app)
+      const response = await api
         .patch(`/api/v1/timetables/${uploadedTimetableId}/blocks/${testBlockId}`)
         .send(invalidData);
 
@@ -355,7 +367,7 @@ describe('API Integration Tests - Real API Calls', () => {
       }
 
       console.log('🗑️ Deleting timetable:', uploadedTimetableId);
-      const response = await request(app).delete(`/api/v1/timetables/${uploadedTimetableId}`);
+      const response = await api.delete(`/api/v1/timetables/${uploadedTimetableId}`);
 
       expect(response.status).toBe(200);
       expect(response.body).toHaveProperty('success', true);
@@ -363,15 +375,1339 @@ describe('API Integration Tests - Real API Calls', () => {
       console.log('✅ Timetable deleted successfully');
 
       // Verify deletion
-      const checkResponse = await request(app).get(`/api/v1/timetables/${uploadedTimetableId}`);
+      const checkResponse = await api.get(`/api/v1/timetables/${uploadedTimetableId}`);
       expect(checkResponse.status).toBe(404);
     });
 
     it('DELETE /api/v1/timetables/:id - should return 404 for non-existent timetable', async () => {
-      const response = await request(app).delete('/api/v1/timetables/non-existent-id-12345');
+      const response = await api.delete('/api/v1/timetables/non-existent-id-12345');
 
       expect(response.status).toBe(404);
       expect(response.body).toHaveProperty('success', false);
     });
   });
+
+  describe('Schools - Tenant Isolation', () => {
+    const suffix = Date.now();
+    const adminKey = 'schools-test-key';
+    let previousAdminKey: string | undefined;
+    let schoolA: { id: string; slug: string; apiKey: string };
+    let schoolB: { id: string; slug: string; apiKey: string };
+    let timetableB: string;
+
+    beforeAll(async () => {
+      previousAdminKey = config.env.ADMIN_API_KEY;
+      config.env.ADMIN_API_KEY = adminKey;
+
+      const createdA = await request(app)
+        .post('/api/v1/schools')
+        .set('X-Admin-Key', adminKey)
+        .send({ name: 'TEST School A', slug: `test-a-${suffix}` });
+      const createdB = await request(app)
+        .post('/api/v1/schools')
+        .set('X-Admin-Key', adminKey)
+        .send({ name: 'TEST School B', slug: `test-b-${suffix}`, workingDays: ['SUNDAY', 'MONDAY'] });
+      schoolA = createdA.body.data;
+      schoolB = createdB.body.data;
+
+      const teacher = await prisma.teacher.create({
+        data: { schoolId: schoolB.id, name: 'TEST_SCHOOL_B_Teacher' },
+      });
+      const timetable = await prisma.timetable.create({
+        data: {
+          schoolId: schoolB.id,
+          teacherId: teacher.id,
+          originalFileName: 'school_b.png',
+          fileType: 'png',
+          fileSize: 1,
+          filePath: 'uploads/school_b.png',
+          processingStatus: 'COMPLETED',
+        },
+      });
+      timetableB = timetable.id;
+    });
+
+    afterAll(async () => {
+      config.env.ADMIN_API_KEY = previousAdminKey;
+      // Teachers, timetables and catalogs cascade with their school
+      await prisma.school.deleteMany({ where: { id: { in: [schoolA?.id, schoolB?.id].filter(Boolean) } } });
+    });
+
+    it('POST /api/v1/schools - should reject a slug that is already used', async () => {
+      const response = await request(app)
+        .post('/api/v1/schools')
+        .set('X-Admin-Key', adminKey)
+        .send({ name: 'Duplicate', slug: schoolA.slug });
+
+      expect(response.status).toBe(409);
+      expect(response.body).toHaveProperty('success', false);
+    });
+
+    it('GET and POST /api/v1/schools - should require the admin key', async () => {
+      const list = await request(app).get('/api/v1/schools');
+      const created = await request(app)
+        .post('/api/v1/schools')
+        .send({ name: 'TEST School C', slug: `test-c-${suffix}` });
+
+      expect(list.status).toBe(401);
+      expect(created.status).toBe(401);
+    });
+
+    it('PATCH /api/v1/schools/:id - should return 404 for another school', async () => {
+      const fromA = await request(app)
+        .patch(`/api/v1/schools/${schoolB.id}`)
+        .set('X-School-Key', schoolA.apiKey)
+        .send({ workingDays: ['MONDAY'] });
+      const fromB = await request(app)
+        .patch(`/api/v1/schools/${schoolB.id}`)
+        .set('X-School-Key', schoolB.apiKey)
+        .send({ name: 'TEST School B (renamed)' });
+
+      expect(fromA.status).toBe(404);
+      expect(fromB.status).toBe(200);
+      expect(fromB.body.data.workingDays).toEqual(['SUNDAY', 'MONDAY']);
+    });
+
+    it('GET /api/v1/timetables - should not list timetables of another school', async () => {
+      const listA = await request(app).get('/api/v1/timetables').set('X-School-Key', schoolA.apiKey);
+      const listB = await request(app).get('/api/v1/timetables').set('X-School-Key', schoolB.apiKey);
+
+      expect(listA.status).toBe(200);
+      expect(listA.body.data.map((timetable: { id: string }) => timetable.id)).not.toContain(timetableB);
+      expect(listB.body.data.map((timetable: { id: string }) => timetable.id)).toContain(timetableB);
+    });
+
+    it('GET /api/v1/timetables/:id - should return 404 for a timetable of another school', async () => {
+      const fromA = await request(app).get(`/api/v1/timetables/${timetableB}`).set('X-School-Key', schoolA.apiKey);
+      const fromB = await request(app).get(`/api/v1/timetables/${timetableB}`).set('X-School-Key', schoolB.apiKey);
+
+      expect(fromA.status).toBe(404);
+      expect(fromB.status).toBe(200);
+    });
+
+    it('should keep catalogs separate per school', async () => {
+      const created = await request(app)
+        .post('/api/v1/catalog/subjects')
+        .set('X-School-Key', schoolA.apiKey)
+        .send({ name: 'Mathematics', aliases: ['Maths'] });
+      // The same name is free in another school
+      const sameName = await request(app)
+        .post('/api/v1/catalog/subjects')
+        .set('X-School-Key', schoolB.apiKey)
+        .send({ name: 'Mathematics' });
+      const fromB = await request(app)
+        .get(`/api/v1/catalog/subjects/${created.body.data.id}`)
+        .set('X-School-Key', schoolB.apiKey);
+
+      expect(created.status).toBe(201);
+      expect(sameName.status).toBe(201);
+      expect(fromB.status).toBe(404);
+    });
+
+    it('should return 401 for a missing or unknown X-School-Key', async () => {
+      const missing = await request(app).get('/api/v1/timetables');
+      const unknown = await request(app).get('/api/v1/timetables').set('X-School-Key', 'no-such-key');
+      // The school id alone is not a credential
+      const byId = await request(app).get('/api/v1/timetables').set('X-School-Id', schoolA.id);
+
+      expect(missing.status).toBe(401);
+      expect(unknown.status).toBe(401);
+      expect(byId.status).toBe(401);
+      expect(unknown.body).toHaveProperty('success', false);
+    });
+
+    it('POST /api/v1/schools/:id/api-key - should replace the school key', async () => {
+      const issued = await request(app)
+        .post(`/api/v1/schools/${schoolA.id}/api-key`)
+        .set('X-Admin-Key', adminKey);
+      const oldKey = await request(app).get('/api/v1/schools/current').set('X-School-Key', schoolA.apiKey);
+      const newKey = await request(app).get('/api/v1/schools/current').set('X-School-Key', issued.body.data.apiKey);
+
+      expect(issued.status).toBe(200);
+      expect(oldKey.status).toBe(401);
+      expect(newKey.status).toBe(200);
+      expect(newKey.body.data.id).toBe(schoolA.id);
+      schoolA.apiKey = issued.body.data.apiKey;
+    });
+  });
+
+  describe('Teachers - Identity Resolution', () => {
+    let targetId: string;
+    let duplicateId: string;
+    let duplicateTimetableId: string;
+
+    beforeAll(async () => {
+      const target = await prisma.teacher.create({
+        data: { schoolId: DEFAULT_SCHOOL_ID, name: 'TEST Jane Smith', email: `jane_${Date.now()}@example.com` },
+      });
+      const duplicate = await prisma.teacher.create({
+        data: { schoolId: DEFAULT_SCHOOL_ID, name: 'Mrs TEST J. Smith' },
+      });
+      const timetable = await prisma.timetable.create({
+        data: {
+          schoolId: DEFAULT_SCHOOL_ID,
+          teacherId: duplicate.id,
+          originalFileName: 'duplicate.png',
+          fileType: 'png',
+          fileSize: 1,
+          filePath: 'uploads/duplicate.png',
+          processingStatus: 'COMPLETED',
+        },
+      });
+      targetId = target.id;
+      duplicateId = duplicate.id;
+      duplicateTimetableId = timetable.id;
+    });
+
+    it('GET /api/v1/teachers/match - should rank similar names first', async () => {
+      const response = await api.get('/api/v1/teachers/match').query({ name: 'test jane srnith' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data[0].id).toBe(targetId);
+      expect(response.body.data[0].matchScore).toBeGreaterThanOrEqual(0.85);
+    });
+
+    it('POST /api/v1/teachers/:id/merge - should move timetables and keep the old name as an alias', async () => {
+      const response = await api
+        .post(`/api/v1/teachers/${targetId}/merge`)
+        .send({ sourceIds: [duplicateId] });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.movedTimetables).toBe(1);
+      expect(response.body.data.teacher.aliases).toContain('Mrs TEST J. Smith');
+
+      const timetable = await prisma.timetable.findUnique({ where: { id: duplicateTimetableId } });
+      expect(timetable?.teacherId).toBe(targetId);
+      expect(await prisma.teacher.findUnique({ where: { id: duplicateId } })).toBeNull();
+    });
+
+    it('POST /api/v1/teachers/:id/merge - should not merge a teacher into itself', async () => {
+      const response = await api
+        .post(`/api/v1/teachers/${targetId}/merge`)
+        .send({ sourceIds: [targetId] });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('Revision Chains - Uploads Finishing Together', () => {
+    const term = { academicYear: '2025-2026', semester: 'TEST Chain Term' };
+    let teacherId: string;
+    let otherTeacherId: string;
+
+    const upload = (teacher: string, name: string) =>
+      prisma.timetable.create({
+        data: {
+          schoolId: DEFAULT_SCHOOL_ID,
+          teacherId: teacher,
+          originalFileName: name,
+          fileType: 'png',
+          fileSize: 1,
+          filePath: `uploads/${name}`,
+          processingStatus: 'COMPLETED',
+          ...term,
+        },
+      });
+
+    beforeAll(async () => {
+      teacherId = (await prisma.teacher.create({ data: { schoolId: DEFAULT_SCHOOL_ID, name: 'TEST Chain Teacher' } })).id;
+      otherTeacherId = (await prisma.teacher.create({ data: { schoolId: DEFAULT_SCHOOL_ID, name: 'TEST Chain Duplicate' } })).id;
+    });
+
+    it('should give concurrent uploads of one term distinct revisions and one current', async () => {
+      const uploads = await Promise.all(['chain_1.png', 'chain_2.png', 'chain_3.png'].map((name) => upload(teacherId, name)));
+
+      await Promise.all(uploads.map((timetable) => databaseService.assignTimetableRevision(timetable.id)));
+
+      const chain = await prisma.timetable.findMany({ where: { teacherId }, orderBy: { revision: 'asc' } });
+      expect(chain.map((timetable) => timetable.revision)).toEqual([1, 2, 3]);
+      expect(chain.filter((timetable) => timetable.isCurrent).map((timetable) => timetable.revision)).toEqual([3]);
+    });
+
+    it('should renumber the chain when a merge brings in the same revision numbers', async () => {
+      const duplicate = await upload(otherTeacherId, 'chain_other.png');
+      await databaseService.assignTimetableRevision(duplicate.id);
+
+      const response = await api
+        .post(`/api/v1/teachers/${teacherId}/merge`)
+        .send({ sourceIds: [otherTeacherId] });
+
+      expect(response.status).toBe(200);
+      const chain = await prisma.timetable.findMany({ where: { teacherId }, orderBy: { revision: 'asc' } });
+      expect(chain.map((timetable) => timetable.revision)).toEqual([1, 2, 3, 4]);
+      expect(chain.filter((timetable) => timetable.isCurrent)).toHaveLength(1);
+    });
+
+    afterAll(async () => {
+      await prisma.teacher.deleteMany({ where: { id: { in: [teacherId, otherTeacherId] } } });
+    });
+  });
+
+  describe('Time Block History - Manual Corrections', () => {
+    let timetableId: string;
+    let blockId: string;
+
+    beforeAll(async () => {
+      const teacher = await prisma.teacher.create({
+        data: { schoolId: DEFAULT_SCHOOL_ID, name: 'TEST History Teacher' },
+      });
+      const timetable = await prisma.timetable.create({
+        data: {
+          schoolId: DEFAULT_SCHOOL_ID,
+          teacherId: teacher.id,
+          originalFileName: 'history.png',
+          fileType: 'png',
+          fileSize: 1,
+          filePath: 'uploads/history.png',
+          processingStatus: 'COMPLETED',
+          timeBlocks: {
+            create: { dayOfWeek: 'MONDAY', startTime: '09:00', endTime: '10:00', subject: 'Phys1cs' },
+          },
+        },
+        include: { timeBlocks: true },
+      });
+      timetableId = timetable.id;
+      blockId = timetable.timeBlocks[0].id;
+    });
+
+    it('PATCH /api/v1/timetables/:timetableId/blocks/:blockId - should record who changed which field', async () => {
+      const response = await api
+        .patch(`/api/v1/timetables/${timetableId}/blocks/${blockId}`)
+        .set('X-Actor', 'test.reviewer')
+        .send({ subject: 'Physics', classroom: 'Lab 2' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.humanEditedFields).toEqual(['subject', 'classroom']);
+
+      const history = await api.get(`/api/v1/timetables/${timetableId}/blocks/${blockId}/history`);
+      expect(history.status).toBe(200);
+      expect(history.body.data.fields.subject).toEqual({
+        value: 'Physics',
+        source: 'corrected',
+        extractedValue: 'Phys1cs',
+      });
+      expect(history.body.data.fields.startTime.source).toBe('extracted');
+      const subjectEdit = history.body.data.edits.find((edit: any) => edit.field === 'subject');
+      expect(subjectEdit).toMatchObject({ oldValue: 'Phys1cs', newValue: 'Physics', actor: 'test.reviewer' });
+    });
+
+    it('should keep corrections when the timetable is reprocessed', async () => {
+      await databaseService.createTimeBlockVersion(timetableId, [
+        { dayOfWeek: 'MONDAY', startTime: '09:00', endTime: '10:00', subject: 'Phys1cs', classroom: 'L4b 2' },
+      ]);
+
+      const [block] = await prisma.timeBlock.findMany({ where: { timetableId, supersededAt: null } });
+      expect(block.subject).toBe('Physics');
+      expect(block.classroom).toBe('Lab 2');
+      expect(block.previousBlockId).toBe(blockId);
+      blockId = block.id;
+
+      const history = await api.get(`/api/v1/timetables/${timetableId}/blocks/${blockId}/history`);
+      expect(history.body.data.edits).toHaveLength(2);
+      expect(history.body.data.fields.classroom.extractedValue).toBe('L4b 2');
+    });
+
+    it('POST /api/v1/timetables/:timetableId/blocks/:blockId/history/:editId/revert - should undo an edit', async () => {
+      const history = await api.get(`/api/v1/timetables/${timetableId}/blocks/${blockId}/history`);
+      const subjectEdit = history.body.data.edits.find((edit: any) => edit.field === 'subject');
+
+      const response = await api.post(
+        `/api/v1/timetables/${timetableId}/blocks/${blockId}/history/${subjectEdit.id}/revert`
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.value).toBe('Phys1cs');
+      expect(response.body.data.humanEditedFields).toEqual(['classroom']);
+
+      const again = await api.post(
+        `/api/v1/timetables/${timetableId}/blocks/${blockId}/history/${subjectEdit.id}/revert`
+      );
+      expect(again.status).toBe(409);
+    });
+
+    afterAll(async () => {
+      await prisma.timetable.delete({ where: { id: timetableId } });
+    });
+  });
+
+  describe('Extraction Artifacts - School Scope', () => {
+    let timetableId: string;
+    let artifactId: string;
+    let otherSchool: { id: string; apiKey: string };
+
+    beforeAll(async () => {
+      const teacher = await prisma.teacher.create({
+        data: { schoolId: DEFAULT_SCHOOL_ID, name: 'TEST Artifact Teacher' },
+      });
+      const timetable = await prisma.timetable.create({
+        data: {
+          schoolId: DEFAULT_SCHOOL_ID,
+          teacherId: teacher.id,
+          originalFileName: 'artifacts.png',
+          fileType: 'png',
+          fileSize: 1,
+          filePath: 'uploads/artifacts.png',
+          processingStatus: 'COMPLETED',
+        },
+      });
+      timetableId = timetable.id;
+      const artifact = await saveArtifact(timetableId, artifactRun('artifacts', 1), {
+        kind: 'OCR_TEXT',
+        fileName: 'extracted-text.txt',
+        mimeType: 'text/plain',
+        content: 'Monday 09:00 Maths',
+      });
+      artifactId = artifact.id;
+
+      const { school, apiKey } = await createSchool({ name: 'TEST Artifact School', slug: `test-artifacts-${Date.now()}` });
+      otherSchool = { id: school.id, apiKey };
+    });
+
+    it('GET /api/v1/timetables/:id/artifacts/:artifactId - should download an artifact of the school', async () => {
+      const list = await api.get(`/api/v1/timetables/${timetableId}/artifacts`);
+      const download = await api.get(`/api/v1/timetables/${timetableId}/artifacts/${artifactId}`);
+
+      expect(list.body.data.map((artifact: any) => artifact.id)).toEqual([artifactId]);
+      expect(download.status).toBe(200);
+      expect(download.text).toBe('Monday 09:00 Maths');
+    });
+
+    it('should return 404 for artifacts of another school', async () => {
+      const list = await request(app)
+        .get(`/api/v1/timetables/${timetableId}/artifacts`)
+        .set('X-School-Key', otherSchool.apiKey);
+      const download = await request(app)
+        .get(`/api/v1/timetables/${timetableId}/artifacts/${artifactId}`)
+        .set('X-School-Key', otherSchool.apiKey);
+
+      expect(list.status).toBe(404);
+      expect(download.status).toBe(404);
+    });
+
+    afterAll(async () => {
+      await deleteArtifactFiles(timetableId);
+      await prisma.timetable.delete({ where: { id: timetableId } });
+      await prisma.school.delete({ where: { id: otherSchool.id } });
+    });
+  });
+
+  describe('Catalog - Linking Time Blocks', () => {
+    const suffix = Date.now();
+    let timetableId: string;
+    let geographyId: string;
+    let roomId: string;
+    const createdEntries: { catalog: string; id: string }[] = [];
+
+    const blockBySubject = async (subject: string) =>
+      prisma.timeBlock.findFirstOrThrow({ where: { timetableId, subject, supersededAt: null } });
+    const openReviews = () =>
+      prisma.reviewItem.findMany({ where: { timetableId, status: 'OPEN' }, orderBy: { value: 'asc' } });
+
+    beforeAll(async () => {
+      const geography = await api
+        .post('/api/v1/catalog/subjects')
+        .send({ name: `Geography ${suffix}`, aliases: [`Geog ${suffix}`] });
+      const room = await api.post('/api/v1/catalog/rooms').send({ name: `Room ${suffix}` });
+      geographyId = geography.body.data.id;
+      roomId = room.body.data.id;
+      createdEntries.push({ catalog: 'subjects', id: geographyId }, { catalog: 'rooms', id: roomId });
+
+      const teacher = await prisma.teacher.create({
+        data: { schoolId: DEFAULT_SCHOOL_ID, name: 'TEST Catalog Teacher' },
+      });
+      const timetable = await prisma.timetable.create({
+        data: {
+          schoolId: DEFAULT_SCHOOL_ID,
+          teacherId: teacher.id,
+          originalFileName: 'catalog.png',
+          fileType: 'png',
+          fileSize: 1,
+          filePath: 'uploads/catalog.png',
+          processingStatus: 'COMPLETED',
+          timeBlocks: {
+            create: [
+              // Alias with different case and punctuation, room with a short prefix
+              { dayOfWeek: 'MONDAY', startTime: '09:00', endTime: '10:00', subject: `GEOG. ${suffix}`, classroom: `Rm. ${suffix}` },
+              { dayOfWeek: 'MONDAY', startTime: '10:00', endTime: '11:00', subject: `Latin ${suffix}` },
+              { dayOfWeek: 'TUESDAY', startTime: '09:00', endTime: '10:00', subject: `Geo ${suffix}` },
+            ],
+          },
+        },
+      });
+      timetableId = timetable.id;
+    });
+
+    it('should link blocks by name or alias and flag unmatched values for review', async () => {
+      const result = await linkTimeBlocksToCatalog(timetableId);
+
+      expect(result.linked).toEqual({ subject: 1, room: 1, classGroup: 0 });
+      expect(result.unmatched.subject.sort()).toEqual([`Geo ${suffix}`, `Latin ${suffix}`]);
+      expect(await blockBySubject(`GEOG. ${suffix}`)).toMatchObject({ subjectId: geographyId, roomId });
+      expect((await openReviews()).map((item) => [item.kind, item.value])).toEqual([
+        ['UNMATCHED_SUBJECT', `Geo ${suffix}`],
+        ['UNMATCHED_SUBJECT', `Latin ${suffix}`],
+      ]);
+
+      // Linking again replaces the open items instead of adding more
+      await linkTimeBlocksToCatalog(timetableId);
+      expect(await openReviews()).toHaveLength(2);
+    });
+
+    it('POST /api/v1/catalog/subjects - should link the blocks of open review items the new entry matches', async () => {
+      const latin = await api
+        .post('/api/v1/catalog/subjects')
+        .send({ name: `Latin Language ${suffix}`, aliases: [`latin ${suffix}`] });
+      createdEntries.push({ catalog: 'subjects', id: latin.body.data.id });
+
+      expect(latin.status).toBe(201);
+      expect((await blockBySubject(`Latin ${suffix}`)).subjectId).toBe(latin.body.data.id);
+      expect((await openReviews()).map((item) => item.value)).toEqual([`Geo ${suffix}`]);
+    });
+
+    it('PATCH /api/v1/reviews/:id - should add the value as an alias and link its blocks', async () => {
+      const [item] = await openReviews();
+
+      const response = await api
+        .patch(`/api/v1/reviews/${item.id}`)
+        .send({ status: 'RESOLVED', catalogEntryId: geographyId });
+      const geography = await api.get(`/api/v1/catalog/subjects/${geographyId}`);
+
+      expect(response.status).toBe(200);
+      expect(geography.body.data.aliases).toEqual([`Geog ${suffix}`, `Geo ${suffix}`]);
+      expect((await blockBySubject(`Geo ${suffix}`)).subjectId).toBe(geographyId);
+      expect(await openReviews()).toHaveLength(0);
+    });
+
+    afterAll(async () => {
+      await prisma.timetable.delete({ where: { id: timetableId } });
+      for (const { catalog, id } of createdEntries) {
+        await api.delete(`/api/v1/catalog/${catalog}/${id}`);
+      }
+    });
+  });
+
+  describe('Time Blocks - Create, Delete and Replace', () => {
+    let timetableId: string;
+
+    beforeAll(async () => {
+      const teacher = await prisma.teacher.create({
+        data: { schoolId: DEFAULT_SCHOOL_ID, name: 'TEST Blocks Teacher' },
+      });
+      const timetable = await prisma.timetable.create({
+        data: {
+          schoolId: DEFAULT_SCHOOL_ID,
+          teacherId: teacher.id,
+          originalFileName: 'blocks.png',
+          fileType: 'png',
+          fileSize: 1,
+          filePath: 'uploads/blocks.png',
+          processingStatus: 'COMPLETED',
+          timeBlocks: {
+            create: { dayOfWeek: 'MONDAY', startTime: '09:00', endTime: '10:00', subject: 'Physics' },
+          },
+        },
+      });
+      timetableId = timetable.id;
+    });
+
+    it('POST /api/v1/timetables/:timetableId/blocks - should add a missed lesson', async () => {
+      const response = await api
+        .post(`/api/v1/timetables/${timetableId}/blocks`)
+        .send({ dayOfWeek: 'MONDAY', startTime: '10:00', endTime: '11:00', subject: 'Chemistry' });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data.subject).toBe('Chemistry');
+      expect(response.body.data.humanEditedFields).toContain('subject');
+    });
+
+    it('POST /api/v1/timetables/:timetableId/blocks - should reject an overlapping lesson', async () => {
+      const response = await api
+        .post(`/api/v1/timetables/${timetableId}/blocks`)
+        .send({ dayOfWeek: 'MONDAY', startTime: '09:30', endTime: '10:30', subject: 'Biology' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.details[0]).toContain('Overlap');
+    });
+
+    it('DELETE /api/v1/timetables/:timetableId/blocks/:blockId - should remove a block', async () => {
+      const block = await prisma.timeBlock.findFirst({ where: { timetableId, subject: 'Physics' } });
+
+      const response = await api.delete(`/api/v1/timetables/${timetableId}/blocks/${block!.id}`);
+
+      expect(response.status).toBe(200);
+      const removed = await prisma.timeBlock.findUnique({ where: { id: block!.id } });
+      expect(removed?.supersededAt).not.toBeNull();
+      expect(removed?.deletedAt).not.toBeNull();
+
+      const history = await api.get(`/api/v1/timetables/${timetableId}/blocks/${block!.id}/history`);
+      expect(history.body.data.edits[0]).toMatchObject({ field: 'deletedAt', oldValue: null });
+
+      const again = await api.delete(`/api/v1/timetables/${timetableId}/blocks/${block!.id}`);
+      expect(again.status).toBe(409);
+    });
+
+    it('PUT /api/v1/timetables/:timetableId/blocks - should replace the whole set as a new version', async () => {
+      const response = await api
+        .put(`/api/v1/timetables/${timetableId}/blocks`)
+        .send({
+          timeBlocks: [
+            { dayOfWeek: 'TUESDAY', startTime: '09:00', endTime: '10:00', subject: 'Mathematics' },
+            { dayOfWeek: 'TUESDAY', startTime: '10:00', endTime: '11:00', subject: 'English' },
+          ],
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toMatchObject({ version: 1, timeBlocksCount: 2, superseded: 1 });
+    });
+
+    it('PUT /api/v1/timetables/:timetableId/blocks - should leave the blocks unchanged when one is invalid', async () => {
+      const response = await api
+        .put(`/api/v1/timetables/${timetableId}/blocks`)
+        .send({
+          timeBlocks: [
+            { dayOfWeek: 'TUESDAY', startTime: '09:00', endTime: '10:00', subject: 'Mathematics' },
+            { dayOfWeek: 'TUESDAY', startTime: '09:45', endTime: '10:30', subject: 'English' },
+          ],
+        });
+
+      expect(response.status).toBe(400);
+      const current = await prisma.timeBlock.count({ where: { timetableId, supersededAt: null } });
+      expect(current).toBe(2);
+    });
+
+    it('PATCH /api/v1/timetables/:timetableId/blocks/:blockId - should check the edited block like a new one', async () => {
+      const block = await prisma.timeBlock.findFirst({
+        where: { timetableId, subject: 'English', supersededAt: null },
+      });
+
+      const overlapping = await api
+        .patch(`/api/v1/timetables/${timetableId}/blocks/${block!.id}`)
+        .send({ startTime: '09:30' });
+      expect(overlapping.status).toBe(400);
+      expect(overlapping.body.details[0]).toContain('Overlap');
+
+      const reversed = await api
+        .patch(`/api/v1/timetables/${timetableId}/blocks/${block!.id}`)
+        .send({ endTime: '09:45' });
+      expect(reversed.status).toBe(400);
+      expect(reversed.body.details[0]).toContain('startTime must be before endTime');
+
+      const unchanged = await prisma.timeBlock.findUnique({ where: { id: block!.id } });
+      expect(unchanged).toMatchObject({ startTime: '10:00', endTime: '11:00' });
+    });
+
+    it('PATCH /api/v1/timetables/:timetableId/blocks/:blockId - should refuse to edit a superseded block', async () => {
+      const block = await prisma.timeBlock.findFirst({ where: { timetableId, subject: 'Chemistry' } });
+      expect(block?.supersededAt).not.toBeNull();
+
+      const response = await api
+        .patch(`/api/v1/timetables/${timetableId}/blocks/${block!.id}`)
+        .send({ subject: 'Biology' });
+
+      expect(response.status).toBe(409);
+      const unchanged = await prisma.timeBlock.findUnique({ where: { id: block!.id } });
+      expect(unchanged?.subject).toBe('Chemistry');
+    });
+
+    afterAll(async () => {
+      await prisma.timetable.delete({ where: { id: timetableId } });
+    });
+  });
+
+  describe('Calendar Export - iCalendar', () => {
+    let timetableId: string;
+
+    beforeAll(async () => {
+      const teacher = await prisma.teacher.create({
+        data: { schoolId: DEFAULT_SCHOOL_ID, name: 'TEST Calendar Teacher' },
+      });
+      const timetable = await prisma.timetable.create({
+        data: {
+          schoolId: DEFAULT_SCHOOL_ID,
+          teacherId: teacher.id,
+          originalFileName: 'calendar.png',
+          fileType: 'png',
+          fileSize: 1,
+          filePath: 'uploads/calendar.png',
+          processingStatus: 'COMPLETED',
+          timeBlocks: {
+            create: [
+              { dayOfWeek: 'MONDAY', startTime: '09:00', endTime: '10:00', subject: 'Physics', classroom: 'Lab 2' },
+              { dayOfWeek: 'MONDAY', startTime: '10:00', endTime: '10:20', subject: 'Break' },
+            ],
+          },
+        },
+      });
+      timetableId = timetable.id;
+    });
+
+    it('PATCH /api/v1/timetables/:id - should set the term dates', async () => {
+      const response = await api
+        .patch(`/api/v1/timetables/${timetableId}`)
+        .send({ termStartDate: '2025-09-03', termEndDate: '2025-12-19' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toMatchObject({ termStartDate: '2025-09-03', termEndDate: '2025-12-19' });
+    });
+
+    it('GET /api/v1/timetables/:id/calendar.ics - should export weekly events bounded by the term', async () => {
+      const response = await api
+        .get(`/api/v1/timetables/${timetableId}/calendar.ics`)
+        .query({ includeBreaks: 'false' });
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toContain('text/calendar');
+      expect(response.text).toContain('DTSTART:20250908T090000');
+      expect(response.text).toContain('RRULE:FREQ=WEEKLY;BYDAY=MO;UNTIL=20251219T235959');
+      expect(response.text).toContain('LOCATION:Lab 2');
+      expect(response.text).not.toContain('SUMMARY:Break');
+    });
+
+    afterAll(async () => {
+      await prisma.timetable.delete({ where: { id: timetableId } });
+    });
+  });
+
+  describe('Spreadsheets - Export and Import', () => {
+    let timetableId: string;
+    let teacherId: string;
+
+    it('POST /api/v1/timetables/import - should report invalid rows by row number', async () => {
+      const csv = 'Day,Start,End,Subject\nMon,09:00,10:00,Maths\nFunday,10:00,11:00,Art\nMon,09:30,10:30,Chemistry\n';
+      const response = await api
+        .post('/api/v1/timetables/import')
+        .field('teacherName', 'TEST Spreadsheet Teacher')
+        .attach('file', Buffer.from(csv), 'timetable.csv');
+
+      expect(response.status).toBe(400);
+      expect(response.body.details.map((detail: any) => detail.row)).toEqual([2, 3]);
+    });
+
+    it('POST /api/v1/timetables/import - should store nothing when a later step fails', async () => {
+      const failing = jest
+        .spyOn(databaseService, 'assignTimetableRevision')
+        .mockRejectedValueOnce(new Error('revision step failed'));
+      const csv = 'Day,Start,End,Subject\nMon,09:00,10:00,Maths\n';
+
+      try {
+        const response = await api
+          .post('/api/v1/timetables/import')
+          .field('teacherName', 'TEST Rolled Back Teacher')
+          .attach('file', Buffer.from(csv), 'timetable.csv');
+
+        expect(response.status).toBe(500);
+      } finally {
+        failing.mockRestore();
+      }
+
+      const teachers = await prisma.teacher.count({ where: { name: 'TEST Rolled Back Teacher' } });
+      const timetables = await prisma.timetable.count({
+        where: { schoolId: DEFAULT_SCHOOL_ID, originalFileName: 'timetable.csv', processingStatus: 'FAILED' },
+      });
+      expect(teachers).toBe(0);
+      expect(timetables).toBe(0);
+    });
+
+    it('POST /api/v1/timetables/import - should create a completed timetable', async () => {
+      const csv = 'Week,Day,Start,End,Subject,Room\n1,Monday,09:00,10:00,Maths,Room 1\n2,Tuesday,10:00,11:00,Art,\n';
+      const response = await api
+        .post('/api/v1/timetables/import')
+        .field('teacherName', 'TEST Spreadsheet Teacher')
+        .attach('file', Buffer.from(csv), 'timetable.csv');
+
+      expect(response.status).toBe(201);
+      expect(response.body.data).toMatchObject({ timeBlocksCount: 2, cycleLength: 2 });
+      timetableId = response.body.data.timetableId;
+      teacherId = response.body.data.teacherId;
+    });
+
+    it('GET /api/v1/timetables/:id/export - should round-trip through XLSX', async () => {
+      const exported = await api
+        .get(`/api/v1/timetables/${timetableId}/export`)
+        .query({ format: 'xlsx' })
+        .buffer(true)
+        .parse((res, callback) => {
+          const chunks: Buffer[] = [];
+          res.on('data', (chunk: Buffer) => chunks.push(chunk));
+          res.on('end', () => callback(null, Buffer.concat(chunks)));
+        });
+      expect(exported.status).toBe(200);
+
+      const imported = await api
+        .post(`/api/v1/timetables/${timetableId}/import`)
+        .attach('file', exported.body, 'timetable.xlsx');
+
+      expect(imported.status).toBe(200);
+      expect(imported.body.data).toMatchObject({ timeBlocksCount: 2, superseded: 2 });
+    });
+
+    it('GET /api/v1/timetables/:id - should list the rotation weeks and filter blocks by week', async () => {
+      const all = await api.get(`/api/v1/timetables/${timetableId}`);
+      const weekTwo = await api.get(`/api/v1/timetables/${timetableId}`).query({ week: 2 });
+
+      expect(all.status).toBe(200);
+      expect(all.body.data.cycleLength).toBe(2);
+      expect(all.body.data.weeks).toEqual([
+        { weekIndex: 1, timeBlocksCount: 1 },
+        { weekIndex: 2, timeBlocksCount: 1 },
+      ]);
+      expect(weekTwo.body.data.timeBlocks.map((block: any) => [block.weekIndex, block.subject])).toEqual([[2, 'Art']]);
+      // The list of weeks does not depend on the filter
+      expect(weekTwo.body.data.weeks).toEqual(all.body.data.weeks);
+    });
+
+    it('POST /api/v1/timetables/import - should only report overlaps within the same rotation week', async () => {
+      const csv = 'Week,Day,Start,End,Subject\n1,Monday,09:00,10:00,Maths\n2,Monday,09:00,10:00,Art\n2,Monday,09:30,10:30,Music\n';
+      const response = await api
+        .post('/api/v1/timetables/import')
+        .field('teacherName', 'TEST Spreadsheet Teacher')
+        .attach('file', Buffer.from(csv), 'timetable.csv');
+
+      expect(response.status).toBe(400);
+      expect(response.body.details.map((detail: any) => detail.row)).toEqual([3]);
+    });
+
+    afterAll(async () => {
+      if (teacherId) {
+        await prisma.teacher.delete({ where: { id: teacherId } });
+      }
+    });
+  });
+
+  describe('Printable Timetables - PDF and DOCX', () => {
+    let timetableId: string;
+
+    beforeAll(async () => {
+      const teacher = await prisma.teacher.create({
+        data: { schoolId: DEFAULT_SCHOOL_ID, name: 'TEST Print Teacher' },
+      });
+      const timetable = await prisma.timetable.create({
+        data: {
+          schoolId: DEFAULT_SCHOOL_ID,
+          teacherId: teacher.id,
+          originalFileName: 'print.png',
+          fileType: 'png',
+          fileSize: 1,
+          filePath: 'uploads/print.png',
+          processingStatus: 'COMPLETED',
+          timeBlocks: {
+            create: [
+              { dayOfWeek: 'MONDAY', startTime: '09:00', endTime: '10:00', subject: 'Physics', classroom: 'Lab 2' },
+              { dayOfWeek: 'TUESDAY', startTime: '10:00', endTime: '10:20', subject: 'Break' },
+            ],
+          },
+        },
+      });
+      timetableId = timetable.id;
+    });
+
+    it('GET /api/v1/timetables/:id/print - should render a PDF grid', async () => {
+      const response = await api
+        .get(`/api/v1/timetables/${timetableId}/print`)
+        .query({ format: 'pdf', orientation: 'portrait' });
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toContain('application/pdf');
+    });
+
+    it('GET /api/v1/timetables/:id/print - should render a DOCX grid', async () => {
+      const response = await api.get(`/api/v1/timetables/${timetableId}/print`).query({ format: 'docx' });
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toContain('wordprocessingml');
+    });
+
+    afterAll(async () => {
+      await prisma.timetable.delete({ where: { id: timetableId } });
+    });
+  });
+
+  describe('Webhooks - Subscriptions and Deliveries', () => {
+    let timetableId: string;
+    let blockId: string;
+    let webhookId: string;
+
+    beforeAll(async () => {
+      const teacher = await prisma.teacher.create({
+        data: { schoolId: DEFAULT_SCHOOL_ID, name: 'TEST Webhook Teacher' },
+      });
+      const timetable = await prisma.timetable.create({
+        data: {
+          schoolId: DEFAULT_SCHOOL_ID,
+          teacherId: teacher.id,
+          originalFileName: 'webhook.png',
+          fileType: 'png',
+          fileSize: 1,
+          filePath: 'uploads/webhook.png',
+          processingStatus: 'COMPLETED',
+          timeBlocks: {
+            create: { dayOfWeek: 'WEDNESDAY', startTime: '13:00', endTime: '14:00', subject: 'Music' },
+          },
+        },
+        include: { timeBlocks: true },
+      });
+      timetableId = timetable.id;
+      blockId = timetable.timeBlocks[0].id;
+    });
+
+    it('POST /api/v1/webhooks - should return the signing secret once', async () => {
+      const response = await api
+        .post('/api/v1/webhooks')
+        .send({ url: 'https://203.0.113.10/hooks', events: ['block.corrected'] });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data.secret).toMatch(/^whsec_/);
+      webhookId = response.body.data.id;
+
+      const list = await api.get('/api/v1/webhooks');
+      expect(list.body.data.find((webhook: any) => webhook.id === webhookId)).not.toHaveProperty('secret');
+    });
+
+    it('POST /api/v1/webhooks - should reject unknown events', async () => {
+      const response = await api
+        .post('/api/v1/webhooks')
+        .send({ url: 'https://example.org/hooks', events: ['timetable.exploded'] });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should reject loopback, private and link-local targets', async () => {
+      for (const url of ['http://127.0.0.1:9/hooks', 'http://localhost/hooks', 'http://[::1]/hooks', 'http://10.0.0.5/hooks']) {
+        const response = await api.post('/api/v1/webhooks').send({ url, events: ['block.corrected'] });
+        expect(response.status).toBe(400);
+        expect(response.body.details).toMatchObject({ url });
+      }
+
+      const update = await api
+        .patch(`/api/v1/webhooks/${webhookId}`)
+        .send({ url: 'http://169.254.169.254/latest/meta-data' });
+      expect(update.status).toBe(400);
+    });
+
+    it('should log a delivery for a corrected block and redeliver it', async () => {
+      await api.patch(`/api/v1/timetables/${timetableId}/blocks/${blockId}`).send({ subject: 'Drama' });
+
+      const deliveries = await api.get(`/api/v1/webhooks/${webhookId}/deliveries`);
+      expect(deliveries.status).toBe(200);
+      expect(deliveries.body.data[0]).toMatchObject({ event: 'block.corrected' });
+      expect(deliveries.body.data[0].payload.data).toMatchObject({ timeBlockId: blockId, changedFields: ['subject'] });
+
+      const redelivery = await api.post(
+        `/api/v1/webhooks/${webhookId}/deliveries/${deliveries.body.data[0].id}/redeliver`
+      );
+      expect(redelivery.status).toBe(202);
+      expect(redelivery.body.data).toMatchObject({
+        eventId: deliveries.body.data[0].eventId,
+        redeliveryOfId: deliveries.body.data[0].id,
+      });
+    });
+
+    afterAll(async () => {
+      await prisma.webhookSubscription.deleteMany({ where: { id: webhookId } });
+      await prisma.timetable.delete({ where: { id: timetableId } });
+    });
+  });
+
+  describe('Batch Upload - ZIP Archives', () => {
+    let batchId: string;
+
+    it('POST /api/upload/batch - should queue one timetable per file and skip unusable entries', async () => {
+      const zip = new JSZip();
+      zip.file('Science/batchtest_jones-timetable-2025.pdf', '%PDF-1.4 batch test');
+      zip.file('scan0042.png', Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]));
+      zip.file('../../escape.pdf', '%PDF-1.4');
+      zip.file('notes.txt', 'not a timetable');
+      const archive = await zip.generateAsync({ type: 'nodebuffer' });
+
+      const response = await api
+        .post('/api/upload/batch')
+        .attach('file', archive, 'department.zip');
+
+      expect(response.status).toBe(201);
+      expect(response.body.data).toMatchObject({
+        totalFiles: 2,
+        counts: { skipped: 2 },
+      });
+      const files = response.body.data.files;
+      expect(files.find((file: any) => file.path.endsWith('.pdf') && file.timetableId)).toMatchObject({
+        teacher: { name: 'Batchtest Jones' },
+        teacherFrom: 'file_name',
+      });
+      expect(files.find((file: any) => file.path === 'scan0042.png')).toMatchObject({ teacherFrom: 'document' });
+      expect(files.find((file: any) => file.path === '../../escape.pdf')).toMatchObject({
+        status: 'SKIPPED',
+        error: 'Unsafe path',
+      });
+      batchId = response.body.data.id;
+    });
+
+    it('POST /api/upload/batch - should reject a file that is not a ZIP archive', async () => {
+      const response = await api
+        .post('/api/upload/batch')
+        .attach('file', Buffer.from('not a zip'), 'broken.zip');
+
+      expect(response.status).toBe(400);
+    });
+
+    it('GET /api/upload/batch/:batchId - should report progress and the CSV summary', async () => {
+      const status = await api.get(`/api/upload/batch/${batchId}`);
+      expect(status.status).toBe(200);
+      expect(status.body.data.progress).toBeGreaterThanOrEqual(0);
+
+      const summary = await api.get(`/api/upload/batch/${batchId}/summary`);
+      expect(summary.status).toBe(200);
+      expect(summary.headers['content-type']).toMatch(/text\/csv/);
+      expect(summary.text).toContain('file,status,teacher,teacherFrom,timetableId,timeBlocks,error');
+      expect(summary.text).toContain('notes.txt,SKIPPED');
+    });
+
+    it('GET /api/upload/batch/:batchId - should return 404 for an unknown batch', async () => {
+      const response = await api.get('/api/upload/batch/00000000-0000-0000-0000-000000000000');
+      expect(response.status).toBe(404);
+    });
+
+    afterAll(async () => {
+      if (batchId) {
+        const batch = await prisma.uploadBatch.findUnique({ where: { id: batchId } });
+        const ids = ((batch?.entries ?? []) as Array<{ timetableId?: string }>).flatMap((entry) =>
+          entry.timetableId ? [entry.timetableId] : []
+        );
+        await prisma.timetable.deleteMany({ where: { id: { in: ids } } });
+        await prisma.uploadBatch.delete({ where: { id: batchId } });
+      }
+      await prisma.teacher.deleteMany({ where: { name: 'Batchtest Jones' } });
+    });
+  });
+
+  describe('Ingestion - Hot Folder and Mailbox', () => {
+    let teacherId: string;
+    let senderId: string;
+    let otherSchoolId: string;
+    let workDir: string;
+    const timetableIds: string[] = [];
+
+    const email = (from: string, attachments: Array<{ name: string; type: string; content: string }>) =>
+      [
+        `From: Test Sender <${from}>`,
+        `Message-ID: <${Date.now()}.${Math.random()}@ingestion.test>`,
+        'Subject: Timetable',
+        'MIME-Version: 1.0',
+        'Content-Type: multipart/mixed; boundary="part"',
+        '',
+        '--part',
+        'Content-Type: text/plain',
+        '',
+        'Please find the timetable attached.',
+        ...attachments.flatMap((attachment) => [
+          '--part',
+          `Content-Type: ${attachment.type}; name="${attachment.name}"`,
+          `Content-Disposition: attachment; filename="${attachment.name}"`,
+          'Content-Transfer-Encoding: base64',
+          '',
+          Buffer.from(attachment.content).toString('base64'),
+        ]),
+        '--part--',
+        '',
+      ].join('\r\n');
+
+    beforeAll(async () => {
+      const teacher = await prisma.teacher.create({
+        data: { schoolId: DEFAULT_SCHOOL_ID, name: 'TEST Ingestion Teacher' },
+      });
+      teacherId = teacher.id;
+      workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ingestion-'));
+    });
+
+    it('POST /api/v1/ingestion/senders - should register a sender once', async () => {
+      const response = await api
+        .post('/api/v1/ingestion/senders')
+        .send({ address: 'Ingestion.Test@Example.org', teacherId });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data).toMatchObject({ address: 'ingestion.test@example.org', teacherId });
+      senderId = response.body.data.id;
+
+      const duplicate = await api
+        .post('/api/v1/ingestion/senders')
+        .send({ address: 'ingestion.test@example.org' });
+      expect(duplicate.status).toBe(409);
+    });
+
+    it('should not let another school take a sender or a teacher\'s address', async () => {
+      const { school, apiKey } = await createSchool({ name: 'TEST Ingestion School', slug: `test-ingestion-${Date.now()}` });
+      otherSchoolId = school.id;
+      await prisma.teacher.update({ where: { id: teacherId }, data: { email: 'ingestion.teacher@example.org' } });
+
+      const teacherAddress = await request(app)
+        .post('/api/v1/ingestion/senders')
+        .set('X-School-Key', apiKey)
+        .send({ address: 'Ingestion.Teacher@example.org' });
+      const sharedAddress = await request(app)
+        .post('/api/v1/ingestion/senders')
+        .set('X-School-Key', apiKey)
+        .send({ address: 'shared.office@example.org' });
+      const ownSender = await api.post('/api/v1/ingestion/senders').send({ address: 'shared.office@example.org' });
+
+      expect(teacherAddress.status).toBe(409);
+      expect(sharedAddress.status).toBe(201);
+      expect(ownSender.status).toBe(201);
+      // Both schools know the address, so neither gets its mail
+      const raw = Buffer.from(email('shared.office@example.org', [{ name: 'shared.pdf', type: 'application/pdf', content: '%PDF-1.4' }]));
+      expect(await ingestMailMessage(raw, 'MAILDIR', 'shared-sender-test')).toEqual([]);
+    });
+
+    it('should queue mailed attachments of known senders and ignore unknown senders', async () => {
+      const maildir = path.join(workDir, 'Maildir');
+      for (const folder of ['new', 'cur', 'tmp']) fs.mkdirSync(path.join(maildir, folder), { recursive: true });
+      fs.writeFileSync(
+        path.join(maildir, 'new', '1.known'),
+        email('ingestion.test@example.org', [
+          { name: 'timetable.pdf', type: 'application/pdf', content: '%PDF-1.4 ingestion test' },
+          { name: 'notes.txt', type: 'text/plain', content: 'not a timetable' },
+        ])
+      );
+      fs.writeFileSync(
+        path.join(maildir, 'new', '2.unknown'),
+        email('stranger@example.org', [{ name: 'timetable.pdf', type: 'application/pdf', content: '%PDF-1.4' }])
+      );
+
+      const records = await pollMaildir(maildir);
+
+      expect(records.map((record) => [record.fileName, record.status])).toEqual([
+        ['timetable.pdf', 'QUEUED'],
+        ['notes.txt', 'REJECTED'],
+      ]);
+      const timetable = await prisma.timetable.findUniqueOrThrow({ where: { id: records[0].timetableId! } });
+      expect(timetable.teacherId).toBe(teacherId);
+      timetableIds.push(timetable.id);
+      expect(fs.readdirSync(path.join(maildir, 'new'))).toEqual([]);
+      expect(fs.readdirSync(path.join(maildir, 'cur')).sort()).toEqual(['1.known:2,S', '2.unknown:2,S']);
+
+      const list = await api.get('/api/v1/ingestion/records?source=MAILDIR&status=REJECTED');
+      expect(list.status).toBe(200);
+      expect(list.body.data[0]).toMatchObject({ fileName: 'notes.txt', sender: 'ingestion.test@example.org' });
+    });
+
+    it('should not queue attachments again when a message is retried', async () => {
+      const raw = Buffer.from(
+        email('ingestion.test@example.org', [
+          { name: 'retried.pdf', type: 'application/pdf', content: '%PDF-1.4 first attachment' },
+          { name: 'retried.pdf', type: 'application/pdf', content: '%PDF-1.4 second attachment' },
+        ])
+      );
+
+      const first = await ingestMailMessage(raw, 'MAILDIR', 'retry-test');
+      expect(first.map((record) => record.status)).toEqual(['QUEUED', 'QUEUED']);
+      timetableIds.push(...first.map((record) => record.timetableId!));
+
+      // A later failure leaves the message unhandled; the next poll gets it again
+      expect(await ingestMailMessage(raw, 'MAILDIR', 'retry-test')).toEqual([]);
+      const reference = first[0].reference;
+      expect(await prisma.ingestionRecord.count({ where: { reference } })).toBe(2);
+    });
+
+    it('should pick up settled hot folder files and move them aside', async () => {
+      const folder = path.join(workDir, 'hot');
+      fs.mkdirSync(folder);
+      const settled = new Date(Date.now() - 60000);
+      for (const [name, content] of [['Ingesttest Brown.pdf', '%PDF-1.4 hot folder'], ['readme.txt', 'x']]) {
+        fs.writeFileSync(path.join(folder, name), content);
+        fs.utimesSync(path.join(folder, name), settled, settled);
+      }
+      fs.writeFileSync(path.join(folder, 'Still Copying.pdf'), '%PDF-1.4');
+
+      const records = await pollHotFolder(folder);
+
+      expect(records.map((record) => [record.fileName, record.status]).sort()).toEqual([
+        ['Ingesttest Brown.pdf', 'QUEUED'],
+        ['readme.txt', 'REJECTED'],
+      ]);
+      const queued = records.find((record) => record.status === 'QUEUED')!;
+      const timetable = await prisma.timetable.findUniqueOrThrow({
+        where: { id: queued.timetableId! },
+        include: { teacher: true },
+      });
+      expect(timetable.teacher.name).toBe('Ingesttest Brown');
+      timetableIds.push(timetable.id);
+      expect(fs.readdirSync(folder).sort()).toEqual(['Still Copying.pdf', 'processed', 'rejected']);
+    });
+
+    afterAll(async () => {
+      await prisma.ingestionRecord.deleteMany({
+        where: { fileName: { in: ['timetable.pdf', 'notes.txt', 'retried.pdf', 'Ingesttest Brown.pdf', 'readme.txt'] } },
+      });
+      await prisma.timetable.deleteMany({ where: { id: { in: timetableIds } } });
+      await prisma.ingestionSender.deleteMany({ where: { OR: [{ id: senderId }, { address: 'shared.office@example.org' }] } });
+      await prisma.school.deleteMany({ where: { id: otherSchoolId } });
+      await prisma.teacher.deleteMany({ where: { id: teacherId } });
+      await prisma.teacher.deleteMany({ where: { name: 'Ingesttest Brown' } });
+      fs.rmSync(workDir, { recursive: true, force: true });
+    });
+  });
+
+  describe('Job Control - Cancel, Pause and Resume', () => {
+    const adminKey = 'jobcontrol-test-key';
+    let previousAdminKey: string | undefined;
+    let jobId: string;
+    let timetableId: string;
+
+    beforeAll(() => {
+      previousAdminKey = config.env.ADMIN_API_KEY;
+      config.env.ADMIN_API_KEY = adminKey;
+    });
+
+    it('OPTIONS /api/upload/queue/pause - should allow the admin key header from the browser', async () => {
+      const response = await api
+        .options('/api/upload/queue/pause')
+        .set('Origin', config.env.CORS_ORIGIN)
+        .set('Access-Control-Request-Method', 'POST')
+        .set('Access-Control-Request-Headers', 'x-admin-key');
+
+      expect(response.status).toBe(204);
+      expect(response.headers['access-control-allow-headers']).toContain('X-Admin-Key');
+    });
+
+    it('POST /api/upload/queue/pause - should require the admin key', async () => {
+      const response = await api.post('/api/upload/queue/pause').set('X-Admin-Key', 'wrong');
+      expect(response.status).toBe(401);
+    });
+
+    it('POST /api/upload/queue/pause - should pause the queue', async () => {
+      const response = await api.post('/api/upload/queue/pause').set('X-Admin-Key', adminKey);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toHaveProperty('paused', true);
+    });
+
+    it('DELETE /api/upload/jobs/:jobId - should cancel a waiting job', async () => {
+      const upload = await api
+        .post('/api/upload')
+        .field('teacherName', 'Canceltest Green')
+        .attach('file', Buffer.from('%PDF-1.4 cancel test'), 'canceltest.pdf');
+      expect(upload.status).toBe(201);
+      jobId = upload.body.data.jobId;
+      timetableId = upload.body.data.timetableId;
+
+      const response = await api.delete(`/api/upload/jobs/${jobId}`);
+      expect(response.status).toBe(200);
+      expect(response.body.data).toMatchObject({ jobId, timetableId, status: 'cancelled' });
+
+      const timetable = await prisma.timetable.findUnique({ where: { id: timetableId } });
+      expect(timetable?.processingStatus).toBe('CANCELLED');
+      expect(timetable?.jobId).toBe(jobId);
+    });
+
+    it('DELETE /api/upload/jobs/:jobId - should return 404 once the job is gone', async () => {
+      const response = await api.delete(`/api/upload/jobs/${jobId}`);
+      expect(response.status).toBe(404);
+    });
+
+    it('POST /api/v1/timetables/:id/reprocess - should queue one job for concurrent requests', async () => {
+      const responses = await Promise.all([
+        api.post(`/api/v1/timetables/${timetableId}/reprocess`).send({}),
+        api.post(`/api/v1/timetables/${timetableId}/reprocess`).send({}),
+      ]);
+
+      expect(responses.map((response) => response.status).sort()).toEqual([202, 409]);
+
+      // Cancelled so it does not run once the queue is resumed
+      const queued = responses.find((response) => response.status === 202)!;
+      const cancelled = await api.delete(`/api/upload/jobs/${queued.body.data.jobId}`);
+      expect(cancelled.status).toBe(200);
+    });
+
+    it('POST /api/upload/queue/resume - should resume the queue', async () => {
+      const response = await api.post('/api/upload/queue/resume').set('X-Admin-Key', adminKey);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toHaveProperty('paused', false);
+
+      const status = await api.get('/api/upload/queue').set('X-Admin-Key', adminKey);
+      expect(status.body.data).toHaveProperty('paused', false);
+      expect((await api.get('/api/upload/queue')).status).toBe(401);
+    });
+
+    afterAll(async () => {
+      await api.post('/api/upload/queue/resume').set('X-Admin-Key', adminKey);
+      config.env.ADMIN_API_KEY = previousAdminKey;
+      if (timetableId) {
+        await prisma.timetable.deleteMany({ where: { id: timetableId } });
+      }
+      await prisma.teacher.deleteMany({ where: { name: 'Canceltest Green' } });
+    });
+  });
+
+  describe('Calendar Feeds - Token URLs', () => {
+    let teacherId: string;
+    let timetableId: string;
+    let blockId: string;
+    let feedId: string;
+    let feedPath: string;
+
+    beforeAll(async () => {
+      const teacher = await prisma.teacher.create({
+        data: { schoolId: DEFAULT_SCHOOL_ID, name: 'TEST Feed Teacher' },
+      });
+      const timetable = await prisma.timetable.create({
+        data: {
+          schoolId: DEFAULT_SCHOOL_ID,
+          teacherId: teacher.id,
+          originalFileName: 'feed.png',
+          fileType: 'png',
+          fileSize: 1,
+          filePath: 'uploads/feed.png',
+          processingStatus: 'COMPLETED',
+          isCurrent: true,
+          timeBlocks: {
+            create: { dayOfWeek: 'TUESDAY', startTime: '11:00', endTime: '12:00', subject: 'History' },
+          },
+        },
+        include: { timeBlocks: true },
+      });
+      teacherId = teacher.id;
+      timetableId = timetable.id;
+      blockId = timetable.timeBlocks[0].id;
+    });
+
+    it('POST /api/v1/feeds - should return a token URL once', async () => {
+      const response = await api.post('/api/v1/feeds').send({ scope: 'TEACHER', targetId: teacherId });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data.url).toMatch(/\/api\/feeds\/[\w-]+\.ics$/);
+      feedId = response.body.data.id;
+      feedPath = new URL(response.body.data.url).pathname;
+
+      const list = await api.get('/api/v1/feeds').query({ targetId: teacherId });
+      expect(list.body.data[0]).not.toHaveProperty('url');
+    });
+
+    it('GET /api/feeds/:token.ics - should answer 304 until a block is edited', async () => {
+      const first = await api.get(feedPath);
+      expect(first.status).toBe(200);
+      expect(first.text).toContain('SUMMARY:History');
+
+      const unchanged = await api.get(feedPath).set('If-None-Match', first.headers.etag);
+      expect(unchanged.status).toBe(304);
+
+      await api.patch(`/api/v1/timetables/${timetableId}/blocks/${blockId}`).send({ subject: 'Geography' });
+
+      const edited = await api.get(feedPath).set('If-None-Match', first.headers.etag);
+      expect(edited.status).toBe(200);
+      expect(edited.text).toContain('SUMMARY:Geography');
+      expect(edited.headers.etag).not.toBe(first.headers.etag);
+    });
+
+    it('DELETE /api/v1/feeds/:id - should revoke the URL', async () => {
+      const response = await api.delete(`/api/v1/feeds/${feedId}`);
+      expect(response.status).toBe(200);
+
+      const revoked = await api.get(feedPath);
+      expect(revoked.status).toBe(404);
+    });
+
+    afterAll(async () => {
+      await prisma.calendarFeed.deleteMany({ where: { targetId: teacherId } });
+      await prisma.teacher.delete({ where: { id: teacherId } });
+    });
+  });
 });
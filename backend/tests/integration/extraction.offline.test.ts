@@ -0,0 +1,256 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+/**
+ * Extraction Tests - Offline (Stub Vision Providers, Local Model Stand-in)
+ * Runs the extraction pipeline with vision providers replaced by stubs and
+ * structuring answered by a scripted OpenAI-compatible server
+ */
+
+import http from 'http';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import type { TimeBlock, TimetableData } from '../../src/services/llm.service';
+import type { VisionProvider } from '../../src/services/providers/vision.provider';
+
+interface ChatRequest {
+  model: string;
+  messages: { role: string; content: string }[];
+  tools?: unknown[];
+  tool_choice?: { function?: { name: string } } | string;
+  response_format?: { type: string };
+}
+
+const block = (dayOfWeek: TimeBlock['dayOfWeek'], startTime: string, endTime: string, subject: string, classroom = ''): TimeBlock => ({
+  dayOfWeek, weekIndex: 1, startTime, endTime, subject, classroom, grade: '', section: '', notes: '',
+});
+
+const timetable = (timeBlocks: TimeBlock[]): TimetableData => ({
+  teacherName: 'Jane Smith', timeBlocks, academicYear: '', semester: '', cycleLength: 1,
+});
+
+describe('Extraction Tests (stub providers, local model stand-in)', () => {
+  let server: http.Server;
+  let workDir: string;
+  let extraction: typeof import('../../src/services/extraction.service');
+  let llm: typeof import('../../src/services/llm.service');
+  let config: typeof import('../../src/config/env').config;
+  let registry: typeof import('../../src/services/providers/provider.registry');
+  let tesseract: VisionProvider;
+  const requests: ChatRequest[] = [];
+  // What the stand-in returns when asked to structure the text
+  let structured: TimetableData;
+  // Free-text reply in JSON mode instead of the structured timetable
+  let freeText: string | undefined;
+
+  // Text the stub OCR reads from each photo
+  const photos: Record<string, string> = {
+    'photo-1.png': 'Jane Smith\nMonday 09:00-10:00 Maths\nMonday 10:00-11:00 Science',
+    'photo-2.png': 'Monday 09:00-10:00 Maths Room 12\nTuesday 09:00-10:00 History',
+  };
+
+  const reply = (request: ChatRequest) => {
+    if (typeof request.tool_choice === 'object' && request.tool_choice.function) {
+      const { name } = request.tool_choice.function;
+      return { content: '', tool_calls: [{ id: 'call_structure', type: 'function', function: { name, arguments: JSON.stringify(structured) } }] };
+    }
+    return { content: freeText ?? JSON.stringify(structured) };
+  };
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        const request = JSON.parse(body) as ChatRequest;
+        requests.push(request);
+        const message = { role: 'assistant', ...reply(request) };
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({
+          id: `chatcmpl-${requests.length}`,
+          object: 'chat.completion',
+          created: 0,
+          model: request.model,
+          choices: [{ index: 0, message, finish_reason: 'tool_calls' in message ? 'tool_calls' : 'stop' }],
+          usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+        }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'extraction-offline-'));
+    // photo-3.png cannot be read by the stub
+    for (const fileName of [...Object.keys(photos), 'photo-3.png']) {
+      fs.writeFileSync(path.join(workDir, fileName), fileName);
+    }
+
+    // Read by the configuration when the services load
+    process.env.DATABASE_URL = process.env.DATABASE_URL || 'postgresql://offline@localhost/unused';
+    process.env.AI_PROVIDER_MODE = 'live';
+    process.env.LOCAL_LLM_BASE_URL = `http://127.0.0.1:${port}/v1`;
+    process.env.LOCAL_LLM_MODEL = 'stand-in';
+    process.env.LOCAL_LLM_TOOL_CALLING = 'true';
+    extraction = require('../../src/services/extraction.service');
+    registry = require('../../src/services/providers/provider.registry');
+    llm = require('../../src/services/llm.service');
+    config = require('../../src/config/env').config;
+
+    tesseract = registry.getVisionProvider('tesseract')!;
+    registry.registerVisionProvider({
+      name: 'tesseract',
+      method: 'tesseract',
+      isConfigured: () => true,
+      extractText: async ({ image }) => {
+        const text = photos[String(image)];
+        if (!text) throw new Error('blurred photo');
+        return { text, confidence: 90 };
+      },
+    });
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+    freeText = undefined;
+    config.env.LOCAL_LLM_TOOL_CALLING = true;
+  });
+
+  afterAll(async () => {
+    registry.registerVisionProvider(tesseract);
+    await new Promise((resolve) => server.close(resolve));
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  const pageFiles = (...fileNames: string[]) =>
+    fileNames.map((fileName) => ({ path: path.join(workDir, fileName), fileName }));
+
+  it('should structure several photos in one pass and merge the rows they share', async () => {
+    // The overlapping Maths row is read from both photos, with the room only on the second
+    structured = timetable([
+      block('MONDAY', '09:00', '10:00', 'Maths'),
+      block('MONDAY', '10:00', '11:00', 'Science'),
+      block('MONDAY', '09:00', '10:00', 'Maths', 'Room 12'),
+      block('TUESDAY', '09:00', '10:00', 'History'),
+    ]);
+
+    const result = await extraction.extractTimetableFromImages(pageFiles('photo-1.png', 'photo-2.png'), {
+      ocrProviders: ['tesseract'],
+    });
+
+    expect(result.success).toBe(true);
+    expect(requests).toHaveLength(1);
+    const prompt = requests[0].messages.map((message) => message.content).join('\n');
+    expect(prompt.indexOf('--- Page 1 of 2 (photo-1.png) ---')).toBeLessThan(prompt.indexOf('--- Page 2 of 2 (photo-2.png) ---'));
+    expect(result.timetableData?.timeBlocks.map((timeBlock) => [timeBlock.dayOfWeek, timeBlock.subject, timeBlock.classroom])).toEqual([
+      ['MONDAY', 'Maths', 'Room 12'],
+      ['MONDAY', 'Science', ''],
+      ['TUESDAY', 'History', ''],
+    ]);
+    expect(result.blockConfidence).toHaveLength(3);
+    expect(result.rawTimetableData?.timeBlocks).toHaveLength(4);
+    expect(result.pages?.map((page) => [page.page, page.fileName, page.error])).toEqual([
+      [1, 'photo-1.png', undefined],
+      [2, 'photo-2.png', undefined],
+    ]);
+  });
+
+  it('should keep the photos that were read when one cannot be', async () => {
+    structured = timetable([block('MONDAY', '09:00', '10:00', 'Maths'), block('MONDAY', '10:00', '11:00', 'Science')]);
+
+    const twoRead = await extraction.extractTimetableFromImages(pageFiles('photo-1.png', 'photo-2.png'), {
+      ocrProviders: ['tesseract'],
+    });
+    const oneRead = await extraction.extractTimetableFromImages(pageFiles('photo-1.png', 'photo-3.png'), {
+      ocrProviders: ['tesseract'],
+    });
+
+    expect(oneRead.success).toBe(true);
+    expect(oneRead.extractedText).not.toContain('photo-3.png');
+    expect(oneRead.pages?.[1].error).toMatch(/All vision providers failed/);
+    expect(oneRead.providerAttempts.map((attempt) => [attempt.context, attempt.status, attempt.error])).toEqual([
+      ['image 1/2', 'success', undefined],
+      ['image 2/2', 'failed', 'blurred photo'],
+    ]);
+    // The unread photo halves the overall confidence
+    expect(oneRead.confidence).toBe(Math.round(twoRead.confidence / 2));
+  });
+
+  describe('JSON mode (local model without tool calling)', () => {
+    const text = 'Jane Smith\nMonday 09:00-10:00 Maths Room 12';
+
+    beforeEach(() => {
+      config.env.LOCAL_LLM_TOOL_CALLING = false;
+      structured = timetable([block('MONDAY', '09:00', '10:00', 'Maths', 'Room 12')]);
+    });
+
+    it('should only use tool calling for local models when LOCAL_LLM_TOOL_CALLING is set', () => {
+      expect(llm.supportsToolCalling()).toBe(false);
+      expect(llm.supportsToolCalling('local:stand-in')).toBe(false);
+      expect(llm.supportsToolCalling('gpt-4o-mini')).toBe(true);
+      config.env.LOCAL_LLM_TOOL_CALLING = true;
+      expect(llm.supportsToolCalling('local:stand-in')).toBe(true);
+    });
+
+    it('should ask for JSON in the prompt and parse a fenced reply', async () => {
+      freeText = `Here is the timetable:\n\`\`\`json\n${JSON.stringify(structured, null, 2)}\n\`\`\`\nLet me know if you need changes.`;
+
+      const result = await llm.extractTimetableWithLLM(text, { model: 'local:stand-in' });
+
+      expect(requests).toHaveLength(1);
+      expect(requests[0]).not.toHaveProperty('tools');
+      expect(requests[0]).not.toHaveProperty('tool_choice');
+      expect(requests[0]).not.toHaveProperty('response_format');
+      expect(requests[0].model).toBe('stand-in');
+      const prompt = requests[0].messages.map((message) => message.content).join('\n');
+      expect(prompt).toContain('Respond with ONLY a JSON object');
+      expect(prompt).toContain('"timeBlocks"');
+      expect(result.timetableData).toMatchObject({ teacherName: 'Jane Smith', cycleLength: 1 });
+      expect(result.timetableData.timeBlocks.map((timeBlock) => [timeBlock.subject, timeBlock.classroom])).toEqual([['Maths', 'Room 12']]);
+    });
+
+    it('should fail when the reply has no JSON object or does not match the schema', async () => {
+      freeText = 'Sorry, I cannot read this timetable.';
+      await expect(llm.extractTimetableWithLLM(text)).rejects.toThrow('Model reply did not contain a JSON object');
+
+      freeText = JSON.stringify({ teacherName: 'Jane Smith', timeBlocks: 'none' });
+      await expect(llm.extractTimetableWithLLM(text)).rejects.toThrow(/^LLM extraction failed: /);
+    });
+  });
+});
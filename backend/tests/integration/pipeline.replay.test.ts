@@ -0,0 +1,171 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+/**
+ * Pipeline Replay Tests - Offline, Deterministic (Recorded AI Responses)
+ * Runs upload → queue → worker → database against the TA_Assignment_Pack
+ * examples with vision and LLM responses served from recorded fixtures
+ *
+ * @requires Redis server running on localhost:6379
+ * @requires PostgreSQL server running on localhost:5432
+ * @requires Fixtures in tests/fixtures/ai (re-record them with `npm run test:record`)
+ */
+
+import request from 'supertest';
+import path from 'path';
+import fs from 'fs';
+import type { Express } from 'express';
+import type TestAgent from 'supertest/lib/agent';
+import type { TimeBlock } from '../../src/services/llm.service';
+
+// Fields of a time block in the timetable response that extraction decides
+type ExtractedBlock = Pick<TimeBlock, 'dayOfWeek' | 'startTime' | 'endTime' | 'subject' | 'classroom'>;
+
+// Replay unless explicitly recording; must be set before the app loads its config
+process.env.AI_PROVIDER_MODE = process.env.AI_PROVIDER_MODE || 'replay';
+// The fixtures cover the simple path with OpenAI vision; other settings would ask for other requests
+process.env.USE_AGENTIC_WORKFLOW = 'false';
+process.env.OCR_PROVIDER_CHAIN = 'openai';
+
+const fixturesDir = process.env.AI_FIXTURES_DIR || path.join(__dirname, '../fixtures/ai');
+const recording = process.env.AI_PROVIDER_MODE === 'record';
+const fixturesRecorded =
+  fs.existsSync(fixturesDir) &&
+  fs.readdirSync(fixturesDir).some((kind) =>
+    fs.statSync(path.join(fixturesDir, kind)).isDirectory() &&
+    fs.readdirSync(path.join(fixturesDir, kind)).some((file) => file.endsWith('.json'))
+  );
+
+const examplesDir = path.join(__dirname, '../../../TA_Assignment_Pack/examples');
+const examples = [
+  'Teacher Timetable Example 1.1.png',
+  'Teacher Timetable Example 2.pdf',
+  'Teacher Timetable Example 3.png',
+  'Teacher Timetable Example 4.jpeg',
+];
+
+jest.setTimeout(recording ? 600000 : 120000);
+
+describe(`Pipeline Replay Tests (${process.env.AI_PROVIDER_MODE} mode)`, () => {
+  let app: Express;
+  let api: TestAgent;
+  let queue: typeof import('../../src/queues/timetable.queue');
+  let worker: typeof import('../../src/queues/timetable.worker');
+  const createdTimetableIds: string[] = [];
+
+  beforeAll(async () => {
+    // Loaded after AI_PROVIDER_MODE is set; importing the worker starts it
+    app = require('../../src/app').default;
+    queue = require('../../src/queues/timetable.queue');
+    worker = require('../../src/queues/timetable.worker');
+
+    // Uploads run as the default school
+    const { DEFAULT_SCHOOL_ID, issueSchoolApiKey } = require('../../src/services/school.service');
+    const { apiKey } = await issueSchoolApiKey(DEFAULT_SCHOOL_ID);
+    api = request.agent(app).set('X-School-Key', apiKey);
+  });
+
+  afterAll(async () => {
+    for (const id of createdTimetableIds) {
+      await api.delete(`/api/v1/timetables/${id}`);
+    }
+    await worker.closeWorker();
+    await queue.closeQueue();
+    await require('../../src/services/database.service').prisma.$disconnect();
+  });
+
+  const waitForJob = async (jobId: string) => {
+    const job = await queue.timetableQueue.getJob(jobId);
+    expect(job).toBeDefined();
+    return job!.waitUntilFinished(queue.queueEvents, recording ? 300000 : 60000);
+  };
+
+  const getBlocks = async (timetableId: string) => {
+    const response = await api.get(`/api/v1/timetables/${timetableId}`);
+    expect(response.status).toBe(200);
+    return response.body.data;
+  };
+
+  it('has recorded fixtures to replay', () => {
+    // Replay never calls the providers, so missing fixtures are a failure rather than a reason to skip
+    expect(recording || fixturesRecorded).toBe(true);
+  });
+
+  it.each(examples)('extracts %s from upload to database', async (fileName) => {
+    const filePath = path.join(examplesDir, fileName);
+    expect(fs.existsSync(filePath)).toBe(true);
+
+    const upload = await api
+      .post('/api/upload')
+      .field('teacherName', 'TEST_REPLAY Teacher')
+      .attach('file', filePath);
+
+    expect(upload.status).toBe(201);
+    createdTimetableIds.push(upload.body.data.timetableId);
+
+    const result = await waitForJob(upload.body.data.jobId);
+    expect(result.status).toBe('success');
+
+    const timetable = await getBlocks(upload.body.data.timetableId);
+    expect(timetable.status).toBe('COMPLETED');
+    expect(timetable.timeBlocks.length).toBeGreaterThan(0);
+  });
+
+  it('produces identical blocks when an upload is reprocessed', async () => {
+    const timetableId = createdTimetableIds[0];
+    expect(timetableId).toBeDefined();
+
+    const before = await getBlocks(timetableId);
+    const reprocess = await api.post(`/api/v1/timetables/${timetableId}/reprocess`).send({});
+    expect(reprocess.status).toBe(202);
+    await waitForJob(reprocess.body.data.jobId);
+
+    const after = await getBlocks(timetableId);
+    expect(after.version).toBe(before.version + 1);
+
+    const strip = (blocks: ExtractedBlock[]): ExtractedBlock[] =>
+      blocks.map(({ dayOfWeek, startTime, endTime, subject, classroom }) => ({
+        dayOfWeek,
+        startTime,
+        endTime,
+        subject,
+        classroom,
+      }));
+    expect(strip(after.timeBlocks)).toEqual(strip(before.timeBlocks));
+  });
+});
@@ -49,6 +49,7 @@ import path from 'path';
 import fs from 'fs';
 import { Queue } from 'bullmq';
 import { PrismaClient } from '@prisma/client';
+import { DEFAULT_SCHOOL_ID } from '../../src/services/school.service';
 
 const prisma = new PrismaClient();
 
@@ -99,6 +100,7 @@ describe('Queue Worker Integration Tests - Real Processing', () => {
       // Create test teacher and timetable
       const teacher = await prisma.teacher.create({
         data: {
+          schoolId: DEFAULT_SCHOOL_ID,
           name: 'TEST_QUEUE_Teacher',
           email: `queue_test_${Date.now()}@example.com`,
         },
@@ -106,6 +108,7 @@ describe('Queue Worker Integration Tests - Real Processing', () => {
 
       const timetable = await prisma.timetable.create({
         data: {
+          schoolId: DEFAULT_SCHOOL_ID,
           teacherId: teacher.id,
           originalFileName: 'test_queue.png',
           fileType: 'png',
@@ -120,6 +123,7 @@ describe('Queue Worker Integration Tests - Real Processing', () => {
       console.log('📤 Adding job to queue...');
       const job = await timetableQueue.add('process-timetable', {
         timetableId: timetable.id,
+        schoolId: DEFAULT_SCHOOL_ID,
         filePath: imagePath,
         fileType: 'png',
       });
@@ -226,6 +230,7 @@ describe('Queue Worker Integration Tests - Real Processing', () => {
       // Create test data for multiple jobs
       const teacher = await prisma.teacher.create({
         data: {
+          schoolId: DEFAULT_SCHOOL_ID,
           name: 'TEST_QUEUE_Multi',
         },
       });
@@ -236,6 +241,7 @@ describe('Queue Worker Integration Tests - Real Processing', () => {
       for (let i = 0; i < 3; i++) {
         const timetable = await prisma.timetable.create({
           data: {
+            schoolId: DEFAULT_SCHOOL_ID,
             teacherId: teacher.id,
             originalFileName: `concurrent_test_${i}.png`,
             fileType: 'png',
@@ -247,6 +253,7 @@ describe('Queue Worker Integration Tests - Real Processing', () => {
 
         const job = await timetableQueue.add(`process-concurrent-${i}`, {
           timetableId: timetable.id,
+          schoolId: DEFAULT_SCHOOL_ID,
           filePath: imagePath,
           fileType: 'png',
         });
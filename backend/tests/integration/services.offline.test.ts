@@ -0,0 +1,833 @@
+/**
+ * Teacher Timetable Extraction System
+ *
+ * @author Saleem Ahmad
+ * @email saleem.ahmad@rediffmail.com
+ * @created October 2025
+ *
+ * @license MIT License (Non-Commercial Use Only)
+ *
+ * Copyright (c) 2025 Saleem Ahmad
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to use
+ * the Software for educational, learning, and personal purposes only, subject
+ * to the following conditions:
+ *
+ * 1. The above copyright notice and this permission notice shall be included in
+ *    all copies or substantial portions of the Software.
+ *
+ * 2. COMMERCIAL USE RESTRICTION: The Software may NOT be used for commercial
+ *    purposes, including but not limited to selling, licensing, or incorporating
+ *    into commercial products or services, without explicit written permission
+ *    from the author.
+ *
+ * 3. LEARNING YOGI ASSIGNMENT: This Software was created specifically for the
+ *    Learning Yogi (LY) assignment purpose and should be used as a reference.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ * THE SOFTWARE.
+ *
+ * For commercial use inquiries, please contact: saleem.ahmad@rediffmail.com
+ */
+
+/**
+ * Offline Service Tests - No Database, Redis or API Keys
+ * Exercises the self-contained services (protocol clients, parsers and
+ * matching rules) against local stand-ins, so they run anywhere
+ */
+
+import http from 'http';
+import fs from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import JSZip from 'jszip';
+import { Document, Packer, Paragraph, Table, TableCell, TableRow } from 'docx';
+import { ImapClient, type ImapConfig } from '../../src/services/imap-client.service';
+import { parseCsv, readXlsx, writeXlsx } from '../../src/services/spreadsheet.service';
+import {
+  isSameTeacherName,
+  looksLikePersonName,
+  rankTeacherMatches,
+  teacherNameFromFileName,
+} from '../../src/services/teacher-match.service';
+import { diffTimeBlocks } from '../../src/services/timetable-diff.service';
+import { planRevisionChains } from '../../src/services/revision-chain.service';
+import type { TimeBlock } from '../../src/services/llm.service';
+import type {
+  ProviderAttempt,
+  ProviderReading,
+  VisionProvider,
+  VisionProviderName,
+  VisionProviderResult,
+} from '../../src/services/providers/vision.provider';
+import { WebhookTargetError, checkWebhookTarget, isPrivateAddress, postWebhook } from '../../src/services/webhook-target.service';
+
+// Services whose imports read the configuration, loaded once it can be read
+// (the placeholder database URL is never connected to, and replay mode needs no API keys)
+function requireConfigured<T>(modulePath: string): T {
+  process.env.DATABASE_URL = process.env.DATABASE_URL || 'postgresql://offline@localhost/unused';
+  process.env.AI_PROVIDER_MODE = process.env.AI_PROVIDER_MODE || 'replay';
+  return require(modulePath);
+}
+
+// A Monday 9:00-10:00 Maths block in Room 12, with the given changes
+const timeBlock = (changes: Partial<TimeBlock> = {}): TimeBlock => ({
+  dayOfWeek: 'MONDAY',
+  weekIndex: 1,
+  startTime: '09:00',
+  endTime: '10:00',
+  subject: 'Maths',
+  classroom: 'Room 12',
+  grade: '',
+  section: '',
+  notes: '',
+  ...changes,
+});
+
+describe('Offline Service Tests', () => {
+  describe('Teacher Names - Same Person or Not', () => {
+    it('should treat titles, word order, initials and OCR slips as the same teacher', () => {
+      expect(isSameTeacherName('Mrs. Jane Smith', 'SMITH, Jane')).toBe(true);
+      expect(isSameTeacherName('J. Smith', 'Jane Smith')).toBe(true);
+      expect(isSameTeacherName('Jane Srnith', 'Jane Smith')).toBe(true);
+    });
+
+    it('should not treat similar names of different people as the same teacher', () => {
+      expect(isSameTeacherName('Mary Lee', 'Mark Lee')).toBe(false);
+      expect(isSameTeacherName('Jane Smith', 'Jake Smith')).toBe(false);
+      expect(isSameTeacherName('Dan Kim', 'Don Kim')).toBe(false);
+    });
+
+    it('should still rank near misses but mark only the same name', () => {
+      const teachers = [
+        { id: 'jane', name: 'Jane Smith' },
+        { id: 'john', name: 'John Smith' },
+        { id: 'jake', name: 'Jake Smith' },
+      ];
+      const matches = rankTeacherMatches('Jane Smith', teachers);
+      expect(matches.map((match) => [match.teacher.id, match.sameName])).toEqual([
+        ['jane', true],
+        ['jake', false],
+        ['john', false],
+      ]);
+      expect(rankTeacherMatches('J. Smith', teachers).filter((match) => match.sameName)).toHaveLength(3);
+    });
+
+    it('should only take person-like names from file names', () => {
+      const names = (files: string[]) => files.map((file) => teacherNameFromFileName(file))
+        .filter((name): name is string => name !== null && looksLikePersonName(name));
+
+      expect(names(['Science/jane_smith-timetable-2025.pdf', 'Mr Patel.docx', 'SMITH, Jane.png'])).toEqual([
+        'Jane Smith', 'Mr Patel', 'Smith Jane',
+      ]);
+      expect(names(['Teacher Timetable Example 4.jpeg', 'TA_Assignment_Pack.pdf', 'Maths Dept.pdf', 'scan0042.jpg']))
+        .toEqual([]);
+    });
+  });
+
+  describe('Timetable Revisions - Diff and Chains', () => {
+    const block = (dayOfWeek: string, startTime: string, endTime: string, subject: string, classroom = '') => ({
+      weekIndex: 1, dayOfWeek, startTime, endTime, subject, classroom, grade: '7', section: 'A',
+    });
+
+    it('should report added, removed, moved and changed blocks', () => {
+      const diff = diffTimeBlocks(
+        [
+          block('MONDAY', '09:00', '10:00', 'Maths', 'Room 1'),
+          block('MONDAY', '10:00', '11:00', 'English'),
+          block('TUESDAY', '09:00', '10:00', 'History'),
+          block('FRIDAY', '14:00', '15:00', 'Drama'),
+        ],
+        [
+          block('MONDAY', '09:00', '10:00', 'Maths', 'Room 2'),
+          block('MONDAY', '10:00', '11:00', 'English'),
+          block('WEDNESDAY', '11:00', '12:00', 'History'),
+          block('FRIDAY', '14:00', '15:00', 'Music'),
+        ]
+      );
+
+      expect(diff.summary).toEqual({ added: 1, removed: 1, moved: 1, changed: 1, unchanged: 1 });
+      expect(diff.changed[0].fields).toEqual(['classroom']);
+      expect(diff.moved[0].fields).toEqual(['dayOfWeek', 'startTime', 'endTime']);
+      expect(diff.added[0].subject).toBe('Music');
+      expect(diff.removed[0].subject).toBe('Drama');
+    });
+
+    it('should chain each term by upload time with the newest one current', () => {
+      const upload = (id: string, semester: string, day: number) => ({
+        id, academicYear: '2025-2026', semester, uploadedAt: new Date(Date.UTC(2025, 8, day)),
+      });
+      const links = planRevisionChains([
+        upload('autumn-2', 'Autumn', 10),
+        upload('spring-1', 'Spring', 5),
+        upload('autumn-1', 'Autumn', 1),
+        upload('autumn-3', 'Autumn', 20),
+      ]);
+
+      expect(links).toEqual([
+        { id: 'autumn-1', revision: 1, previousRevisionId: null, isCurrent: false },
+        { id: 'autumn-2', revision: 2, previousRevisionId: 'autumn-1', isCurrent: false },
+        { id: 'autumn-3', revision: 3, previousRevisionId: 'autumn-2', isCurrent: true },
+        { id: 'spring-1', revision: 1, previousRevisionId: null, isCurrent: true },
+      ]);
+    });
+
+    it('should close the gap left by a deleted middle revision', () => {
+      const links = planRevisionChains([
+        { id: 'first', academicYear: null, semester: null, uploadedAt: new Date(1000) },
+        { id: 'third', academicYear: null, semester: null, uploadedAt: new Date(3000) },
+      ]);
+
+      expect(links.map((link) => [link.id, link.revision, link.previousRevisionId])).toEqual([
+        ['first', 1, null],
+        ['third', 2, 'first'],
+      ]);
+    });
+  });
+
+  describe('Rotation Weeks - Time Conflicts', () => {
+    let embedding: typeof import('../../src/services/embedding.service');
+
+    beforeAll(() => {
+      embedding = requireConfigured('../../src/services/embedding.service');
+    });
+
+    it('should not report the same slot in different rotation weeks as a conflict', () => {
+      const weekA = timeBlock({ weekIndex: 1 });
+      const weekB = timeBlock({ weekIndex: 2, subject: 'Art' });
+
+      expect(embedding.detectTimeConflicts([weekA, weekB])).toEqual([]);
+    });
+
+    it('should report overlaps within one rotation week', () => {
+      const blocks = [
+        timeBlock({ weekIndex: 1 }),
+        timeBlock({ weekIndex: 2, subject: 'Art' }),
+        timeBlock({ weekIndex: 2, startTime: '09:30', endTime: '10:30', subject: 'Music' }),
+        timeBlock({ weekIndex: 2, dayOfWeek: 'TUESDAY', startTime: '09:30', endTime: '10:30', subject: 'Drama' }),
+      ];
+
+      expect(embedding.detectTimeConflicts(blocks).map((conflict) => [conflict.index1, conflict.index2])).toEqual([[1, 2]]);
+    });
+  });
+
+  describe('Catalog - Matching Keys', () => {
+    let catalog: typeof import('../../src/services/catalog.service');
+
+    beforeAll(() => {
+      catalog = requireConfigured('../../src/services/catalog.service');
+    });
+
+    it('should match names and aliases regardless of case, spacing and punctuation', () => {
+      expect(catalog.catalogKey('subject', 'GEOG.')).toBe(catalog.catalogKey('subject', 'Geog'));
+      expect(catalog.catalogKey('subject', 'Art & Design')).toBe(catalog.catalogKey('subject', 'art and design'));
+      expect(catalog.catalogKey('classGroup', '7 A')).toBe(catalog.catalogKey('classGroup', '7a'));
+      expect(catalog.catalogKey('subject', 'Geo')).not.toBe(catalog.catalogKey('subject', 'Geog'));
+    });
+
+    it('should unify room prefixes only for rooms', () => {
+      expect(['Rm. 101', 'R 101', 'room 101'].map((room) => catalog.catalogKey('room', room))).toEqual([
+        'room101', 'room101', 'room101',
+      ]);
+      expect(catalog.catalogKey('subject', 'R.E.')).toBe('re');
+      expect(catalog.catalogKey('room', 'Rooftop')).toBe('rooftop');
+    });
+  });
+
+  describe('Extraction Artifacts - Storage Paths', () => {
+    let artifacts: typeof import('../../src/services/artifact.service');
+    let config: typeof import('../../src/config/env').config;
+    let uploadDir: string;
+    let previousUploadDir: string;
+
+    beforeAll(() => {
+      artifacts = requireConfigured('../../src/services/artifact.service');
+      config = requireConfigured<typeof import('../../src/config/env')>('../../src/config/env').config;
+      uploadDir = fs.mkdtempSync(path.join(os.tmpdir(), 'artifacts-offline-'));
+      previousUploadDir = config.env.UPLOAD_DIR;
+      config.env.UPLOAD_DIR = uploadDir;
+    });
+
+    afterAll(() => {
+      config.env.UPLOAD_DIR = previousUploadDir;
+      fs.rmSync(uploadDir, { recursive: true, force: true });
+    });
+
+    it('should resolve stored paths inside the upload directory', () => {
+      expect(artifacts.resolveArtifactPath('artifacts/timetable-1/job-1-attempt-1/extracted-text.txt')).toBe(
+        path.join(uploadDir, 'artifacts/timetable-1/job-1-attempt-1/extracted-text.txt')
+      );
+    });
+
+    it('should refuse paths outside the upload directory', () => {
+      const sibling = `../${path.basename(uploadDir)}-other/extracted-text.txt`;
+
+      for (const storagePath of ['../outside.txt', 'artifacts/../../outside.txt', '/etc/passwd', sibling, '.', '']) {
+        expect(() => artifacts.resolveArtifactPath(storagePath)).toThrow(`Invalid artifact path: ${storagePath}`);
+      }
+    });
+
+    it('should keep hostile file and run names inside the run directory', async () => {
+      const { prisma } = requireConfigured<typeof import('../../src/services/database.service')>('../../src/services/database.service');
+      const create = jest.spyOn(prisma.timetableArtifact, 'create').mockImplementation(
+        ((args: { data: object }) => Promise.resolve(args.data)) as never
+      );
+
+      await artifacts.saveArtifact('timetable-1', 'job-1/../../x', {
+        kind: 'OCR_TEXT',
+        fileName: '../../escape.txt',
+        mimeType: 'text/plain',
+        content: 'Monday 09:00 Maths',
+      });
+
+      const storagePath = path.join('artifacts', 'timetable-1', 'job-1_______x', 'escape.txt');
+      expect(create).toHaveBeenCalledWith({ data: expect.objectContaining({ storagePath, fileName: 'escape.txt' }) });
+      expect(fs.readFileSync(path.join(uploadDir, storagePath), 'utf-8')).toBe('Monday 09:00 Maths');
+      expect(fs.existsSync(path.join(uploadDir, '..', 'escape.txt'))).toBe(false);
+    });
+  });
+
+  describe('Webhook Targets - Public Addresses Only', () => {
+    it('should tell non-public addresses from public ones', () => {
+      const blocked = ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0',
+        '::1', '::', 'fe80::1', 'fd12::1', '::ffff:127.0.0.1', '::ffff:a00:1'];
+      const allowed = ['8.8.8.8', '203.0.113.10', '2001:4860:4860::8888', '::ffff:8.8.8.8'];
+
+      expect(blocked.filter((address) => !isPrivateAddress(address))).toEqual([]);
+      expect(allowed.filter((address) => isPrivateAddress(address))).toEqual([]);
+    });
+
+    it('should reject URLs on or resolving to non-public addresses', async () => {
+      await expect(checkWebhookTarget('http://[::1]:8080/hooks')).rejects.toThrow(WebhookTargetError);
+      await expect(checkWebhookTarget('http://localhost/hooks')).rejects.toThrow('resolves to');
+      await expect(checkWebhookTarget('https://203.0.113.10/hooks')).resolves.toBeUndefined();
+    });
+
+    it('should check the resolved address again when delivering', async () => {
+      const server = http.createServer((req, res) => res.writeHead(204).end());
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      const { port } = server.address() as AddressInfo;
+      const delivery = { headers: {}, body: '{}', timeoutMs: 2000, responseLimit: 100 };
+
+      try {
+        await expect(postWebhook(`http://localhost:${port}/hooks`, { ...delivery, allowPrivate: false }))
+          .rejects.toThrow(WebhookTargetError);
+        await expect(postWebhook(`http://localhost:${port}/hooks`, { ...delivery, allowPrivate: true }))
+          .resolves.toEqual({ status: 204, body: '' });
+      } finally {
+        server.close();
+      }
+    });
+  });
+
+  describe('Block Confidence - Scoring Factors', () => {
+    let confidence: typeof import('../../src/services/confidence.service');
+    const evidence = { baseConfidence: 90, readings: [] };
+    const science = timeBlock({ startTime: '10:00', endTime: '11:00', subject: 'Science', classroom: '' });
+
+    beforeAll(() => {
+      confidence = requireConfigured('../../src/services/confidence.service');
+    });
+
+    it('should keep the document confidence for a clean block', () => {
+      const [scored] = confidence.scoreTimeBlocks([timeBlock(), science], evidence);
+
+      expect(scored.score).toBe(90);
+      expect(scored.factors).toMatchObject({ repairs: [], conflicts: 0, duplicates: 0, agreement: null });
+    });
+
+    it('should lower the score for repairs, up to a cap', () => {
+      const [oneRepair] = confidence.scoreTimeBlocks([timeBlock()], { ...evidence, repairs: [['startTime']] });
+      const [manyRepairs] = confidence.scoreTimeBlocks([timeBlock()], {
+        ...evidence,
+        repairs: [['startTime', 'endTime', 'dayOfWeek', 'weekIndex']],
+      });
+
+      expect(oneRepair.score).toBe(85);
+      expect(manyRepairs.score).toBe(75);
+    });
+
+    it('should lower the score of overlapping blocks and of exact duplicates', () => {
+      const overlapping = confidence.scoreTimeBlocks(
+        [timeBlock(), timeBlock({ subject: 'English', startTime: '09:15', endTime: '09:45' }), science],
+        evidence
+      );
+      const duplicated = confidence.scoreTimeBlocks([timeBlock(), timeBlock()], evidence);
+
+      expect(overlapping.map((block) => [block.score, block.factors.conflicts])).toEqual([[75, 1], [75, 1], [90, 0]]);
+      // Duplicates are not counted as overlaps as well
+      expect(duplicated.map((block) => [block.score, block.factors.conflicts, block.factors.duplicates]))
+        .toEqual([[80, 0, 1], [80, 0, 1]]);
+    });
+
+    it('should lower the score of blocks a cross-check read does not back up', () => {
+      const read = { source: 'tesseract', context: 'image', text: 'Monday 9:00 - 10:00 Maths Room 12', confidence: 60 };
+      const crossCheck = { ...read, source: 'google', crossCheck: true };
+      const blocks = [timeBlock(), timeBlock({ subject: 'Chemistry', classroom: 'Lab 4', startTime: '13:00', endTime: '14:00' })];
+      const [backed, unbacked] = confidence.scoreTimeBlocks(blocks, { ...evidence, readings: [read, crossCheck] });
+
+      expect([backed.score, backed.factors.agreement, backed.factors.readings]).toEqual([90, 1, 1]);
+      expect([unbacked.score, unbacked.factors.agreement]).toEqual([54, 0]);
+    });
+
+    it('should not measure agreement against the text that was structured', () => {
+      const page = (context: string, crossCheck?: boolean) =>
+        ({ source: 'openai', context, text: 'Chemistry Lab 4 13:00 14:00', confidence: 95, crossCheck });
+      const chemistry = timeBlock({ subject: 'Chemistry', classroom: 'Lab 4', startTime: '13:00', endTime: '14:00' });
+
+      const [alone] = confidence.scoreTimeBlocks([chemistry], { ...evidence, readings: [page('image')] });
+      // Only page 1 was cross-checked, so blocks from page 2 cannot be judged by it
+      const [partly] = confidence.scoreTimeBlocks([chemistry], {
+        ...evidence,
+        readings: [page('image 1/2'), page('image 2/2'), { ...page('image 1/2', true), text: 'Maths' }],
+      });
+
+      expect([alone.score, alone.factors.agreement, alone.factors.readings]).toEqual([90, null, 0]);
+      expect([partly.score, partly.factors.agreement, partly.factors.readings]).toEqual([90, null, 0]);
+    });
+
+    it('should start from the Tesseract word confidence when it is reported', () => {
+      const [scored] = confidence.scoreTimeBlocks([timeBlock()], {
+        ...evidence,
+        readings: [{
+          source: 'tesseract',
+          text: 'Maths Room 12 9:00 10:00',
+          confidence: 90,
+          words: [{ text: 'Maths', confidence: 60 }, { text: 'Room', confidence: 80 }],
+        }],
+      });
+
+      expect(scored.score).toBe(70);
+      expect(scored.factors.ocrWordConfidence).toBe(70);
+    });
+  });
+
+  describe('Vision Providers - Stub Chains', () => {
+    let registry: typeof import('../../src/services/providers/provider.registry');
+    let config: typeof import('../../src/config/env').config;
+    let originals: VisionProvider[];
+    const calls: string[] = [];
+    const request = { image: Buffer.from('image'), mimeType: 'image/png', prompt: 'Read the timetable' };
+
+    // Provider stand-in that returns the given result or throws the given error
+    const stub = (name: VisionProviderName, result: VisionProviderResult | Error, configured = true): VisionProvider => ({
+      name,
+      method: 'tesseract',
+      isConfigured: () => configured,
+      extractText: async () => {
+        calls.push(name);
+        if (result instanceof Error) throw result;
+        return result;
+      },
+    });
+
+    beforeAll(() => {
+      registry = requireConfigured('../../src/services/providers/provider.registry');
+      config = requireConfigured<typeof import('../../src/config/env')>('../../src/config/env').config;
+      originals = registry.listVisionProviders().map((name) => registry.getVisionProvider(name)!);
+    });
+
+    beforeEach(() => {
+      calls.length = 0;
+      // Replay would serve fixtures instead of calling the stubs
+      config.env.AI_PROVIDER_MODE = 'live';
+    });
+
+    afterAll(() => {
+      originals.forEach(registry.registerVisionProvider);
+      config.env.AI_PROVIDER_MODE = 'replay';
+    });
+
+    it('should resolve the chain from the override, then OCR_PROVIDER_CHAIN, then WHICH_OCR_KEY', () => {
+      const { OCR_PROVIDER_CHAIN, WHICH_OCR_KEY } = config.env;
+      try {
+        config.env.OCR_PROVIDER_CHAIN = ['google', 'openai'];
+        config.env.WHICH_OCR_KEY = 'DEEPSEEK_API_KEY';
+        const override = registry.resolveProviderChain(' Gemini ,no-such-provider,tesseract,gemini');
+        const configured = registry.resolveProviderChain();
+        config.env.OCR_PROVIDER_CHAIN = [];
+        const legacy = registry.resolveProviderChain([]);
+        config.env.WHICH_OCR_KEY = undefined;
+        const fallback = registry.resolveProviderChain();
+
+        expect(override).toEqual(['gemini', 'tesseract']);
+        expect(configured).toEqual(['google', 'openai']);
+        expect(legacy).toEqual(['deepseek', 'tesseract']);
+        expect(fallback).toEqual(['tesseract']);
+      } finally {
+        Object.assign(config.env, { OCR_PROVIDER_CHAIN, WHICH_OCR_KEY });
+      }
+    });
+
+    it('should only accept the exact names of registered providers', () => {
+      expect(['openai', 'google', 'tesseract'].every(registry.isVisionProviderName)).toBe(true);
+      expect(['OpenAI', ' google', 'no-such-provider', ''].some(registry.isVisionProviderName)).toBe(false);
+    });
+
+    it('should skip unconfigured providers and fall back after a failure', async () => {
+      registry.registerVisionProvider(stub('openai', { text: 'never read', confidence: 95 }, false));
+      registry.registerVisionProvider(stub('google', new Error('quota exceeded')));
+      registry.registerVisionProvider(stub('gemini', { text: 'Monday', confidence: 95 }));
+      registry.registerVisionProvider(stub('tesseract', { text: 'Monday 9:00 Maths', confidence: 80 }));
+
+      const result = await registry.extractWithProviderChain(request, { chain: 'openai,google,gemini,tesseract' });
+
+      expect([result.provider, result.text, result.method]).toEqual(['tesseract', 'Monday 9:00 Maths', 'tesseract']);
+      expect(calls).toEqual(['google', 'gemini', 'tesseract']);
+      expect(result.attempts.map((attempt) => [attempt.provider, attempt.status, attempt.error])).toEqual([
+        ['openai', 'skipped', 'Not configured'],
+        ['google', 'failed', 'quota exceeded'],
+        ['gemini', 'failed', 'gemini returned insufficient text'],
+        ['tesseract', 'success', undefined],
+      ]);
+    });
+
+    it('should raise ProviderChainError with every attempt when no provider succeeds', async () => {
+      registry.registerVisionProvider(stub('openai', { text: 'never read', confidence: 95 }, false));
+      registry.registerVisionProvider(stub('tesseract', new Error('no text found')));
+      const attempts: ProviderAttempt[] = [];
+
+      const failure = registry.extractWithProviderChain(request, { chain: ['openai', 'tesseract'], attempts });
+
+      await expect(failure).rejects.toBeInstanceOf(registry.ProviderChainError);
+      await expect(failure).rejects.toMatchObject({
+        message: 'All vision providers failed (chain: openai → tesseract)',
+        attempts: [expect.objectContaining({ status: 'skipped' }), expect.objectContaining({ status: 'failed' })],
+      });
+      expect(attempts.map((attempt) => attempt.status)).toEqual(['skipped', 'failed']);
+    });
+
+    it('should cross-check a low-confidence read with the next provider without using its text', async () => {
+      registry.registerVisionProvider(stub('tesseract', { text: 'Monday 9:00 Maths', confidence: 55 }));
+      registry.registerVisionProvider(stub('google', { text: 'Monday 9:00 Maths Room 12', confidence: 90 }));
+      registry.registerVisionProvider(stub('openai', { text: 'never read', confidence: 95 }));
+      const readings: ProviderReading[] = [];
+
+      const result = await registry.extractWithProviderChain(request, {
+        chain: 'tesseract,google,openai',
+        context: 'image',
+        readings,
+      });
+
+      expect([result.provider, result.text]).toEqual(['tesseract', 'Monday 9:00 Maths']);
+      expect(calls).toEqual(['tesseract', 'google']);
+      expect(readings.map((reading) => [reading.source, reading.context, reading.crossCheck])).toEqual([
+        ['tesseract', 'image', undefined],
+        ['google', 'image', true],
+      ]);
+      expect(result.attempts.map((attempt) => attempt.context)).toEqual(['image', 'image, cross-check']);
+    });
+
+    it('should not cross-check confident reads or calls that collect no readings', async () => {
+      registry.registerVisionProvider(stub('tesseract', { text: 'Monday 9:00 Maths', confidence: 55 }));
+      registry.registerVisionProvider(stub('google', { text: 'Monday 9:00 Maths Room 12', confidence: 90 }));
+
+      await registry.extractWithProviderChain(request, { chain: 'google,tesseract', readings: [] });
+      await registry.extractWithProviderChain(request, { chain: 'tesseract,google' });
+
+      expect(calls).toEqual(['google', 'tesseract']);
+    });
+  });
+
+  describe('Agent Validation - Workspace Checks', () => {
+    let agentTools: typeof import('../../src/services/intelligent/agent.tools');
+    const science = timeBlock({ startTime: '10:00', endTime: '11:00', subject: 'Science' });
+    // Blocks as a model might return them, before the day is checked
+    const unchecked = (changes: Record<string, string>) => ({ ...timeBlock(), ...changes }) as TimeBlock;
+
+    beforeAll(() => {
+      agentTools = requireConfigured('../../src/services/intelligent/agent.tools');
+    });
+
+    const validate = (timeBlocks: TimeBlock[]) => {
+      const workspace = agentTools.createAgentWorkspace('/tmp/timetable.png', 'image/png');
+      workspace.timetableData = { teacherName: 'Jane Smith', timeBlocks, academicYear: '', semester: '', cycleLength: 1 };
+      return agentTools.validateWorkspace(workspace);
+    };
+
+    it('should pass valid blocks, including ones whose formats were repaired', async () => {
+      const report = await validate([timeBlock(), science, unchecked({ dayOfWeek: 'tuesday', startTime: '9:00' })]);
+
+      expect(report).toEqual({ passed: true, issues: [], invalidBlocks: 0, conflicts: 0, duplicates: 0 });
+    });
+
+    it('should report blocks that cannot be repaired and time overlaps', async () => {
+      const report = await validate([
+        timeBlock(),
+        timeBlock({ subject: 'English', startTime: 'lunch' }),
+        unchecked({ subject: 'History', startTime: '09:30', endTime: '10:30', dayOfWeek: 'FUNDAY' }),
+        timeBlock({ subject: 'Art', startTime: '09:30', endTime: '10:30' }),
+      ]);
+
+      expect(report).toMatchObject({ passed: false, invalidBlocks: 2, conflicts: 1, duplicates: 0 });
+      expect(report.issues).toEqual([
+        'Invalid day/time format: MONDAY lunch-10:00 English',
+        'Invalid day/time format: FUNDAY 09:30-10:30 History',
+        expect.stringMatching(/^Time overlap: /),
+      ]);
+    });
+  });
+
+  describe('Table Parser - Deterministic Grids', () => {
+    const DOCX_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+    let tableParser: typeof import('../../src/services/table-parser.service');
+    let workDir: string;
+
+    const docx = async (name: string, children: Array<Paragraph | Table>) => {
+      const filePath = path.join(workDir, name);
+      fs.writeFileSync(filePath, await Packer.toBuffer(new Document({ sections: [{ children }] })));
+      return filePath;
+    };
+    const row = (cells: string[]) => new TableRow({
+      children: cells.map((cell) => new TableCell({ children: cell.split('\n').map((line) => new Paragraph(line)) })),
+    });
+
+    beforeAll(() => {
+      tableParser = requireConfigured('../../src/services/table-parser.service');
+      workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'table-parser-'));
+    });
+
+    afterAll(() => {
+      fs.rmSync(workDir, { recursive: true, force: true });
+    });
+
+    it('should expand merged HTML cells and read days down the first column', () => {
+      const [grid] = tableParser.parseHtmlTables(`
+        <table>
+          <tr><th>Week B</th><th>P1<br>9:00 - 10:00</th><th>P2<br>10:00 - 11:00</th></tr>
+          <tr><td>Mon</td><td><p>Maths</p><p>Room 12</p></td><td rowspan="2">Science Lab 3</td></tr>
+          <tr><td>Tues</td><td>English &amp; Drama</td></tr>
+          <tr><td>Wednesday</td><td colspan="2">Sports Day</td></tr>
+        </table>`);
+
+      expect(grid.map((cells) => cells.map((cell) => cell.text.replace(/\n/g, ' ')))).toEqual([
+        ['Week B', 'P1 9:00 - 10:00', 'P2 10:00 - 11:00'],
+        ['Mon', 'Maths Room 12', 'Science Lab 3'],
+        ['Tues', 'English & Drama', 'Science Lab 3'],
+        ['Wednesday', 'Sports Day', 'Sports Day'],
+      ]);
+      expect(tableParser.interpretTimetableGrid(grid)?.map((block) =>
+        [block.dayOfWeek, block.weekIndex, block.startTime, block.endTime, block.subject, block.classroom]
+      )).toEqual([
+        ['MONDAY', 2, '09:00', '10:00', 'Maths', 'Room 12'],
+        ['MONDAY', 2, '10:00', '11:00', 'Science', 'Lab 3'],
+        ['TUESDAY', 2, '09:00', '10:00', 'English & Drama', ''],
+        ['TUESDAY', 2, '10:00', '11:00', 'Science', 'Lab 3'],
+        ['WEDNESDAY', 2, '09:00', '11:00', 'Sports Day', ''],
+      ]);
+    });
+
+    it('should read a DOCX table with days across the header row', async () => {
+      const filePath = await docx('grid.docx', [
+        new Paragraph('Teacher: Jane Smith'),
+        new Paragraph('Term 1 2025-26'),
+        new Table({
+          rows: [
+            row(['', 'Monday', 'Tuesday']),
+            row(['8:55 - 9:50', 'Maths\nRoom 12', 'Science']),
+            row(['9:50 - 10:45', 'English', '-']),
+          ],
+        }),
+      ]);
+
+      const result = await tableParser.parseDocumentTables(filePath, DOCX_TYPE);
+
+      expect(result).toMatchObject({
+        tables: 1,
+        interpretedTables: 1,
+        timetableData: { teacherName: 'Jane Smith', academicYear: '2025-2026', semester: 'Term 1', cycleLength: 1 },
+      });
+      expect(result!.timetableData.timeBlocks.map((block) =>
+        [block.dayOfWeek, block.startTime, block.endTime, block.subject, block.classroom]
+      )).toEqual([
+        ['MONDAY', '08:55', '09:50', 'Maths', 'Room 12'],
+        ['MONDAY', '09:50', '10:45', 'English', ''],
+        ['TUESDAY', '08:55', '09:50', 'Science', ''],
+      ]);
+    });
+
+    it('should skip tables that are not timetables', async () => {
+      const filePath = await docx('with-legend.docx', [
+        new Table({ rows: [row(['', 'Monday', 'Tuesday']), row(['9:00 - 10:00', 'Maths', 'Science'])] }),
+        new Paragraph('Key'),
+        new Table({ rows: [row(['Lab 3', 'Science block']), row(['Hall', 'Assemblies'])] }),
+      ]);
+
+      const result = await tableParser.parseDocumentTables(filePath, DOCX_TYPE);
+
+      expect(result).toMatchObject({ tables: 2, interpretedTables: 1 });
+      expect(result!.timetableData.timeBlocks).toHaveLength(2);
+    });
+
+    it('should fall back when one timetable table cannot be read', async () => {
+      const filePath = await docx('week-b-unreadable.docx', [
+        new Paragraph('Week A'),
+        new Table({ rows: [row(['', 'Monday', 'Tuesday']), row(['9:00 - 10:00', 'Maths', 'Science'])] }),
+        new Paragraph('Week B'),
+        // Periods without times cannot be placed
+        new Table({ rows: [row(['', 'Monday', 'Tuesday']), row(['Period 1', 'English', 'History'])] }),
+      ]);
+
+      expect(await tableParser.parseDocumentTables(filePath, DOCX_TYPE)).toBeNull();
+    });
+
+    it('should return null so the caller falls back to the LLM', async () => {
+      const noGrid = await docx('staff-list.docx', [
+        new Paragraph('Staff list'),
+        new Table({ rows: [row(['Name', 'Role']), row(['Jane Smith', 'Teacher'])] }),
+      ]);
+      const noTables = await docx('letter.docx', [new Paragraph('Monday 9:00 - 10:00 Maths')]);
+
+      expect(await tableParser.parseDocumentTables(noGrid, DOCX_TYPE)).toBeNull();
+      expect(await tableParser.parseDocumentTables(noTables, DOCX_TYPE)).toBeNull();
+      expect(await tableParser.parseDocumentTables(noGrid, 'image/png')).toBeNull();
+      expect(await tableParser.parseDocumentTables(path.join(workDir, 'missing.docx'), DOCX_TYPE)).toBeNull();
+      expect(tableParser.interpretTimetableGrid([[{ text: 'Monday' }, { text: 'Maths' }]])).toBeNull();
+    });
+  });
+
+  describe('Spreadsheets - Untrusted Uploads', () => {
+    // Smallest workbook readXlsx accepts, with the given worksheet body
+    const workbook = async (sheetData: string) => {
+      const zip = new JSZip();
+      zip.file('xl/worksheets/sheet1.xml', `<worksheet><sheetData>${sheetData}</sheetData></worksheet>`);
+      return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+    };
+    const cell = (ref: string, value: string) => `<c r="${ref}" t="inlineStr"><is><t>${value}</t></is></c>`;
+
+    it('should read back a workbook written by writeXlsx', async () => {
+      const rows = [['day', 'subject'], ['MONDAY', 'Maths & Physics']];
+      expect(await readXlsx(await writeXlsx('Blocks', rows))).toEqual(rows);
+    });
+
+    it('should reject cell references far past the column limit', async () => {
+      const data = await workbook(`<row r="1">${cell('A1', 'day')}${cell('AAAAA1', 'x')}</row>`);
+      await expect(readXlsx(data)).rejects.toThrow('more than 50 columns');
+    });
+
+    it('should reject values on rows past the row limit and ignore empty ones', async () => {
+      const header = `<row r="1">${cell('A1', 'day')}</row>`;
+      await expect(readXlsx(await workbook(`${header}<row r="3000">${cell('A3000', 'x')}</row>`), { maxRows: 501 }))
+        .rejects.toThrow('more than 501 rows');
+      expect(await readXlsx(await workbook(`${header}<row r="1048576"/>`), { maxRows: 501 })).toEqual([['day']]);
+    });
+
+    it('should refuse to inflate an oversized worksheet', async () => {
+      const data = await workbook(`<row r="1">${cell('A1', 'day')}</row>`.padEnd(21 * 1024 * 1024, ' '));
+      await expect(readXlsx(data)).rejects.toThrow('larger than 20MB');
+    });
+
+    it('should apply the same limits to CSV', () => {
+      expect(() => parseCsv(`day${',x'.repeat(60)}`)).toThrow('more than 50 columns');
+      expect(() => parseCsv('day\nMONDAY\nTUESDAY\n', { maxRows: 2 })).toThrow('more than 2 rows');
+      const rows = parseCsv(`day${','.repeat(60)}\nMONDAY\n\n\n`, { maxRows: 2 });
+      expect(rows.map((row) => row.slice(0, 1))).toEqual([['day'], ['MONDAY']]);
+      expect(rows[0]).toHaveLength(50);
+    });
+  });
+
+  describe('IMAP Client - Local Mail Server Stand-in', () => {
+    const message = Buffer.from(
+      'From: Jane Smith <jane@school.example.org>\r\nSubject: Timetable\r\n\r\nSee attached.\r\n'
+    );
+    const received: string[] = [];
+    let server: net.Server;
+    let config: ImapConfig;
+    // Set per test: what the stand-in does with each command
+    let respond: (socket: net.Socket, tag: string, command: string) => void;
+
+    const standardReplies = (socket: net.Socket, tag: string, command: string) => {
+      if (/^UID SEARCH UNSEEN/i.test(command)) {
+        socket.write('* SEARCH 7 3\r\n');
+      } else if (/^UID FETCH 3 /i.test(command)) {
+        socket.write(`* 1 FETCH (UID 3 BODY[] {${message.length}}\r\n`);
+        socket.write(message);
+        socket.write(')\r\n');
+      } else if (/^LOGOUT/i.test(command)) {
+        socket.write(`* BYE\r\n${tag} OK LOGOUT completed\r\n`);
+        socket.end();
+        return;
+      }
+      socket.write(`${tag} OK done\r\n`);
+    };
+
+    beforeAll(async () => {
+      server = net.createServer((socket) => {
+        socket.write('* OK IMAP stand-in ready\r\n');
+        let buffer = '';
+        socket.on('data', (chunk) => {
+          buffer += chunk.toString('latin1');
+          for (let end = buffer.indexOf('\r\n'); end >= 0; end = buffer.indexOf('\r\n')) {
+            const line = buffer.slice(0, end);
+            buffer = buffer.slice(end + 2);
+            const [, tag, command] = /^(\S+) (.*)$/.exec(line) ?? [];
+            received.push(command);
+            respond(socket, tag, command);
+          }
+        });
+        socket.on('error', () => {});
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      const { port } = server.address() as AddressInfo;
+      config = { host: '127.0.0.1', port, secure: false, user: 'office', password: 'p"w', mailbox: 'INBOX' };
+    });
+
+    beforeEach(() => {
+      received.length = 0;
+      respond = standardReplies;
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should log in, find unseen mail, fetch a message as a literal and mark it seen', async () => {
+      const client = await ImapClient.connect(config, 5000);
+      await client.login(config.user, config.password);
+      await client.select(config.mailbox);
+
+      expect(await client.searchUnseen()).toEqual([3, 7]);
+      expect(await client.fetchMessage(3)).toEqual(message);
+      await client.markSeen(3);
+      await client.logout();
+
+      expect(received).toEqual([
+        'LOGIN "office" "p\\"w"',
+        'SELECT "INBOX"',
+        'UID SEARCH UNSEEN',
+        'UID FETCH 3 (BODY.PEEK[])',
+        'UID STORE 3 +FLAGS.SILENT (\\Seen)',
+        'LOGOUT',
+      ]);
+    });
+
+    it('should reject a command the server refuses', async () => {
+      respond = (socket, tag, command) =>
+        /^LOGIN/i.test(command) ? socket.write(`${tag} NO Invalid credentials\r\n`) : standardReplies(socket, tag, command);
+
+      const client = await ImapClient.connect(config, 5000);
+      await expect(client.login('office', 'wrong')).rejects.toThrow('NO Invalid credentials');
+      await client.logout();
+    });
+
+    it('should fail pending and later commands and still log out when the connection drops', async () => {
+      respond = (socket) => socket.destroy();
+
+      const client = await ImapClient.connect(config, 5000);
+      await expect(client.login(config.user, config.password)).rejects.toThrow('Connection closed by the server');
+      await expect(client.select(config.mailbox)).rejects.toThrow('Connection is closed');
+
+      const started = Date.now();
+      await client.logout();
+      expect(Date.now() - started).toBeLessThan(1000);
+    });
+  });
+});
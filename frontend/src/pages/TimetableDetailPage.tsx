@@ -51,6 +51,7 @@ export default function TimetableDetailPage() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState<ViewMode>('weekly');
+  const [selectedWeek, setSelectedWeek] = useState(1);
 
   useEffect(() => {
     const fetchTimetable = async () => {
@@ -71,8 +72,12 @@ export default function TimetableDetailPage() {
 
   const daysOfWeek = ['MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY', 'SATURDAY', 'SUNDAY'];
 
+  // Rotating timetables (Week A / Week B) are shown one cycle week at a time
+  const cycleWeeks = Array.from({ length: timetable?.cycleLength || 1 }, (_, index) => index + 1);
+  const weekBlocks = timetable?.timeBlocks.filter((block) => (block.weekIndex || 1) === selectedWeek) || [];
+
   const getTimeBlocksByDay = (day: string) => {
-    return timetable?.timeBlocks.filter((block) => block.dayOfWeek === day).sort((a, b) => {
+    return weekBlocks.filter((block) => block.dayOfWeek === day).sort((a, b) => {
       return a.startTime.localeCompare(b.startTime);
     }) || [];
   };
@@ -84,9 +89,8 @@ export default function TimetableDetailPage() {
 
   // Get all unique time slots across all days
   const getAllTimeSlots = () => {
-    if (!timetable) return [];
     const timeSlots = new Set<string>();
-    timetable.timeBlocks.forEach(block => {
+    weekBlocks.forEach(block => {
       timeSlots.add(block.startTime);
     });
     return Array.from(timeSlots).sort();
@@ -94,11 +98,16 @@ export default function TimetableDetailPage() {
 
   // Get time block for specific day and time
   const getBlockForDayAndTime = (day: string, time: string) => {
-    return timetable?.timeBlocks.find(
+    return weekBlocks.find(
       block => block.dayOfWeek === day && block.startTime === time
     );
   };
 
+  // Week A / Week B labels for the cycle switcher
+  const formatWeekName = (week: number) => {
+    return `Week ${String.fromCharCode(64 + week)}`;
+  };
+
   // Render weekly grid view - Shows ALL 7 days of the week
   const renderWeeklyView = () => {
     const timeSlots = getAllTimeSlots();
@@ -328,6 +337,9 @@ export default function TimetableDetailPage() {
                   <span className="text-sm font-medium text-gray-600">Semester</span>
                 </div>
                 <p className="font-semibold text-gray-900">{timetable.semester || 'N/A'}</p>
+                {timetable.academicYear && (
+                  <p className="text-xs text-gray-500">{timetable.academicYear}</p>
+                )}
               </div>
 
               <div className="bg-white p-4 rounded-lg border border-gray-200">
@@ -345,6 +357,7 @@ export default function TimetableDetailPage() {
                 <h2 className="text-xl font-bold text-gray-900">
                   {viewMode === 'daily' && 'Daily Schedule'}
                   {viewMode === 'weekly' && 'Weekly Schedule'}
+                  {cycleWeeks.length > 1 && ` – ${formatWeekName(selectedWeek)}`}
                   {viewMode === 'monthly' && 'Monthly Calendar'}
                 </h2>
                 <div className="flex gap-2">
@@ -383,6 +396,28 @@ export default function TimetableDetailPage() {
                   </button>
                 </div>
               </div>
+
+              {/* Cycle Week Switcher - only for rotating timetables */}
+              {cycleWeeks.length > 1 && (
+                <div className="flex gap-2 mt-4 pt-4 border-t border-gray-200">
+                  {cycleWeeks.map(week => (
+                    <button
+                      key={week}
+                      onClick={() => setSelectedWeek(week)}
+                      className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                        selectedWeek === week
+                          ? 'bg-primary text-white'
+                          : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                      }`}
+                    >
+                      {formatWeekName(week)}
+                      <span className="ml-2 text-xs opacity-75">
+                        ({timetable.timeBlocks.filter(block => (block.weekIndex || 1) === week).length})
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              )}
             </div>
 
             {/* Timetable Grid */}
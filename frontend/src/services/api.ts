@@ -40,10 +40,15 @@
 import axios from 'axios';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api';
+// API key of the school this frontend works for (sent as X-School-Key, required by the API).
+// Vite builds it into the public bundle: anyone who can load this app can read it, so the app
+// is a trusted single-school client and must only be served to that school's staff.
+const SCHOOL_KEY = import.meta.env.VITE_SCHOOL_KEY;
 
 export interface TimeBlock {
   id: string;
   dayOfWeek: string;
+  weekIndex: number; // Week of the rotation cycle (1 = Week 1 / Week A)
   startTime: string;
   endTime: string;
   subject: string;
@@ -61,12 +66,13 @@ export interface Timetable {
   fileName: string;
   fileSize: number;
   mimeType: string;
-  status: 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED';
+  status: 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
   processingProgress: number;
   confidence?: number;
   errorMessage?: string;
   academicYear?: string;
   semester?: string;
+  cycleLength: number; // Weeks in the rotation (2 for Week A / Week B)
   createdAt: string;
   updatedAt: string;
   timeBlocks: TimeBlock[];
@@ -110,6 +116,7 @@ const api = axios.create({
   baseURL: API_BASE_URL,
   headers: {
     'Content-Type': 'application/json',
+    ...(SCHOOL_KEY && { 'X-School-Key': SCHOOL_KEY }),
   },
   withCredentials: true,
 });
@@ -173,6 +180,7 @@ export const getTimetable = async (id: string): Promise<Timetable> => {
     errorMessage: data.errorMessage,
     academicYear: data.academicYear,
     semester: data.semester,
+    cycleLength: data.cycleLength || 1,
     createdAt: data.uploadedAt,
     updatedAt: data.uploadedAt,
     timeBlocks: data.timeBlocks,
@@ -185,6 +193,8 @@ export const listTimetables = async (params?: {
   limit?: number;
   teacherId?: string;
   status?: string;
+  academicYear?: string;
+  semester?: string;
   sort?: string;
 }): Promise<TimetablesListResponse> => {
   const response = await api.get<{ success: boolean; data: any; meta: any }>('/v1/timetables', { params });
@@ -203,6 +213,7 @@ export const listTimetables = async (params?: {
     errorMessage: item.errorMessage,
     academicYear: item.academicYear,
     semester: item.semester,
+    cycleLength: item.cycleLength || 1,
     createdAt: item.uploadedAt,
     updatedAt: item.uploadedAt,
     timeBlocks: item.timeBlocks || [],